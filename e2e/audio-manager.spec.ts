@@ -0,0 +1,143 @@
+import { test, expect } from '@playwright/test';
+import type { Howl } from 'howler';
+import { createAudioManager, type SoundLoadCallbacks, type SpriteMap } from '@/lib/audio-manager';
+
+/**
+ * Audio manager pooling and queueing tests with fake sounds.
+ * Runs without a browser.
+ */
+
+interface FakeSound {
+  readonly url: string;
+  readonly callbacks: SoundLoadCallbacks;
+  readonly sprite?: SpriteMap;
+  unloaded: boolean;
+}
+
+const setup = (poolSize = 3, maxConcurrentLoads = 2) => {
+  const sounds: FakeSound[] = [];
+  const timings: string[] = [];
+  let clock = 0;
+  const manager = createAudioManager({
+    poolSize,
+    maxConcurrentLoads,
+    createSound: (url, callbacks, sprite) => {
+      const sound: FakeSound = { url, callbacks, sprite, unloaded: false };
+      sounds.push(sound);
+      return {
+        unload: () => {
+          sound.unloaded = true;
+        },
+      } as unknown as Howl;
+    },
+    onLoadTimed: (url, startTime, endTime) => timings.push(`${url}:${endTime - startTime}`),
+    now: () => clock,
+  });
+  const started = () => sounds.map((sound) => sound.url);
+  const finish = (url: string) => {
+    clock += 10;
+    const latest = [...sounds].reverse().find((sound) => sound.url === url);
+    latest?.callbacks.onload();
+  };
+  return { manager, sounds, timings, started, finish };
+};
+
+test.describe('Audio manager', () => {
+  test('shares one load between concurrent requests', async () => {
+    const { manager, started, finish } = setup();
+    const first = manager.load('/a.mp3');
+    const second = manager.load('/a.mp3');
+    expect(started()).toEqual(['/a.mp3']);
+
+    finish('/a.mp3');
+    expect(await first).toBe(await second);
+    expect(manager.getSound('/a.mp3')).toBe(await first);
+  });
+
+  test('caps concurrent downloads and starts the most urgent next', async () => {
+    const { manager, started, finish } = setup(10, 1);
+    manager.prefetch(['/b.mp3', '/c.mp3']);
+    const playback = manager.load('/a.mp3');
+    expect(started()).toEqual(['/b.mp3']);
+    expect(manager.getStats().queued).toBe(2);
+
+    finish('/b.mp3');
+    expect(started()).toEqual(['/b.mp3', '/a.mp3']);
+    finish('/a.mp3');
+    await playback;
+    expect(started()).toEqual(['/b.mp3', '/a.mp3', '/c.mp3']);
+  });
+
+  test('evicts the least recently used sound that no player holds', () => {
+    const { manager, sounds, finish } = setup(2, 4);
+    const release = manager.retain('/a.mp3');
+    manager.load('/b.mp3');
+    manager.load('/c.mp3');
+    finish('/a.mp3');
+    finish('/b.mp3');
+    finish('/c.mp3');
+
+    expect(sounds.map((sound) => sound.unloaded)).toEqual([false, true, false]);
+    expect(manager.getStats()).toEqual({ loaded: 2, loading: 0, queued: 0, retained: 1 });
+
+    release();
+    manager.getSound('/c.mp3');
+    manager.load('/d.mp3');
+    finish('/d.mp3');
+    expect(manager.getSound('/a.mp3')).toBeNull();
+  });
+
+  test('drops queued prefetches that are no longer upcoming', () => {
+    const { manager, started, finish } = setup(10, 1);
+    manager.prefetch(['/a.mp3', '/b.mp3', '/c.mp3']);
+    manager.prefetch(['/c.mp3', '/d.mp3']);
+    expect(manager.getStats()).toEqual({ loaded: 0, loading: 1, queued: 2, retained: 0 });
+
+    finish('/a.mp3');
+    finish('/c.mp3');
+    expect(started()).toEqual(['/a.mp3', '/c.mp3', '/d.mp3']);
+  });
+
+  test('lets a failed load be retried', async () => {
+    const { manager, sounds, started, finish } = setup();
+    const failed = manager.load('/a.mp3');
+    sounds[0].callbacks.onloaderror('404');
+    await expect(failed).rejects.toThrow('Failed to load audio /a.mp3');
+    expect(sounds[0].unloaded).toBe(true);
+
+    const retry = manager.load('/a.mp3');
+    finish('/a.mp3');
+    await retry;
+    expect(started()).toEqual(['/a.mp3', '/a.mp3']);
+  });
+
+  test('reports the time of every completed load', () => {
+    const { manager, timings, finish } = setup();
+    manager.load('/a.mp3');
+    manager.load('/b.mp3');
+    finish('/b.mp3');
+    finish('/a.mp3');
+    expect(timings).toEqual(['/b.mp3:10', '/a.mp3:20']);
+  });
+
+  test('loads a sprite once for all of its segments', () => {
+    const { manager, sounds, started } = setup();
+    const sprite = { greet_001: [250, 800], greet_002: [1300, 600] } as const;
+    manager.retain({ url: '/audio/sprites/greetings.mp3', sprite });
+    manager.prefetch([{ url: '/audio/sprites/greetings.mp3', sprite }, '/b.mp3']);
+    expect(started()).toEqual(['/audio/sprites/greetings.mp3', '/b.mp3']);
+    expect(sounds[0].sprite).toEqual(sprite);
+  });
+
+  test('handles sounds that load before the factory returns', async () => {
+    const manager = createAudioManager({
+      createSound: (_url, callbacks) => {
+        callbacks.onload();
+        return { unload: () => undefined } as unknown as Howl;
+      },
+      onLoadTimed: () => undefined,
+    });
+    await manager.load('/cached.mp3');
+    expect(manager.getStats().loaded).toBe(1);
+  });
+});
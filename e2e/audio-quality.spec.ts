@@ -0,0 +1,78 @@
+import { test, expect } from '@playwright/test';
+import {
+  findAudioQualityViolations,
+  measureAudioQuality,
+  planAudioFix,
+} from '@/lib/audio-quality';
+
+/**
+ * Audio quality measurement tests on synthetic clips.
+ * Runs without a browser.
+ */
+
+const SAMPLE_RATE = 44100;
+// -12 dBFS peak
+const SPEC_PEAK = 10 ** (-12 / 20);
+
+// Silence, then a tone at the given peak, then silence
+const clip = (leadSeconds: number, toneSeconds: number, tailSeconds: number, peak = SPEC_PEAK) => {
+  const lead = Math.round(leadSeconds * SAMPLE_RATE);
+  const tone = Math.round(toneSeconds * SAMPLE_RATE);
+  const samples = new Float32Array(lead + tone + Math.round(tailSeconds * SAMPLE_RATE));
+  for (let i = 0; i < tone; i++) {
+    samples[lead + i] = peak * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE);
+  }
+  return samples;
+};
+
+// File size of a 128 kbps encode
+const specSize = (seconds: number) => Math.round((128000 / 8) * seconds);
+
+test.describe('Audio quality', () => {
+  test('measures level, duration and silence', () => {
+    const metrics = measureAudioQuality(clip(0.5, 1, 0.3), SAMPLE_RATE, specSize(1.8));
+    expect(metrics.durationSeconds).toBeCloseTo(1.8, 2);
+    expect(metrics.bitRateKbps).toBeCloseTo(128, 0);
+    expect(metrics.peakDb).toBeCloseTo(-12, 1);
+    expect(metrics.leadingSilenceSeconds).toBeCloseTo(0.5, 1);
+    expect(metrics.trailingSilenceSeconds).toBeCloseTo(0.3, 1);
+    expect(metrics.noiseFloorDb).toBe(-120);
+  });
+
+  test('passes a clip that meets the specs', () => {
+    const metrics = measureAudioQuality(clip(0.1, 1, 0.1), SAMPLE_RATE, specSize(1.2));
+    expect(findAudioQualityViolations(metrics)).toEqual([]);
+    expect(planAudioFix(metrics)).toBeNull();
+  });
+
+  test('reports every rule a clip breaks', () => {
+    const samples = clip(1, 3, 0.5, 0.9);
+    // Hiss in the silent parts
+    for (let i = 0; i < samples.length; i += 2) samples[i] += 0.01;
+    const metrics = measureAudioQuality(samples, 22050, 200 * 1024);
+    expect(findAudioQualityViolations(metrics).map((violation) => violation.rule)).toEqual([
+      'bit-rate',
+      'sample-rate',
+      'file-size',
+      'duration',
+      'peak-level',
+      'noise-floor',
+      'leading-silence',
+      'trailing-silence',
+    ]);
+  });
+
+  test('plans a trim and gain that keep a short pad', () => {
+    const metrics = measureAudioQuality(clip(0.6, 1, 0.5, 0.5), SAMPLE_RATE, specSize(2.1));
+    const plan = planAudioFix(metrics);
+    expect(plan?.trimStartSeconds).toBeCloseTo(0.5, 1);
+    expect(plan?.trimEndSeconds).toBeCloseTo(0.4, 1);
+    expect(plan?.gainDb).toBeCloseTo(-6, 0);
+  });
+
+  test('leaves silent clips alone', () => {
+    const metrics = measureAudioQuality(new Float32Array(SAMPLE_RATE), SAMPLE_RATE, specSize(1));
+    expect(metrics.leadingSilenceSeconds).toBe(1);
+    expect(planAudioFix(metrics)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { test, expect } from '@playwright/test';
+import {
+  findSpriteSegment,
+  getWordAudioCategory,
+  resolveAudio,
+  type AudioSpriteManifest,
+} from '@/lib/audio-sprites';
+
+/**
+ * Audio sprite lookup tests.
+ * Runs without a browser.
+ */
+
+const manifest: AudioSpriteManifest = {
+  src: '/audio/sprites/greetings.mp3',
+  sprite: { greet_001: [250, 800], greet_002: [1300, 640] },
+  urls: {
+    greet_001: '/audio/words/greetings/xin-chao.mp3',
+    greet_002: '/audio/words/greetings/chao-buoi-sang.mp3',
+  },
+};
+
+test.describe('Audio sprites', () => {
+  test('reads the category from word clip URLs', () => {
+    expect(getWordAudioCategory('/audio/words/food/pho.mp3')).toBe('food');
+    expect(getWordAudioCategory('/audio/alphabet/a.mp3')).toBeNull();
+    expect(getWordAudioCategory('/audio/words/')).toBeNull();
+  });
+
+  test('finds a clip as a segment of its category sprite', () => {
+    expect(findSpriteSegment(manifest, '/audio/words/greetings/chao-buoi-sang.mp3')).toEqual({
+      source: { url: manifest.src, sprite: manifest.sprite },
+      segment: 'greet_002',
+      offset: 1.3,
+      duration: 0.64,
+    });
+  });
+
+  test('leaves clips outside the sprite alone', () => {
+    expect(findSpriteSegment(manifest, '/audio/words/greetings/cam-on.mp3')).toBeNull();
+  });
+
+  test('plays other clips from their own file', async () => {
+    expect(await resolveAudio('/audio/tones/tone_1.mp3')).toEqual({
+      source: { url: '/audio/tones/tone_1.mp3' },
+      segment: null,
+      offset: 0,
+      duration: null,
+    });
+  });
+});
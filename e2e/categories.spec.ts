@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+import {
+  ALL_CATEGORIES,
+  CATEGORIES,
+  CATEGORY_IDS,
+  getCategory,
+  isCategoryId,
+  resolveCategoryParam,
+} from '@/lib/categories';
+import { loadCategoryWords } from '@/lib/category-words';
+import { loadQuizWords } from '@/lib/quiz';
+import { isValidRoute } from '@/lib/routes';
+
+/**
+ * Category registry tests: categories.json drives the type guards, routes
+ * and word loading. Runs without a browser.
+ */
+
+test.describe('Category registry', () => {
+  test('lists categories in display order', () => {
+    const orders = CATEGORIES.map((category) => category.order);
+    expect(orders).toEqual([...orders].sort((a, b) => a - b));
+    expect(CATEGORY_IDS).toEqual(CATEGORIES.map((category) => category.id));
+    expect(getCategory('food')?.name).toBe('食べ物');
+    expect(getCategory('manufacturing')).toBeUndefined();
+  });
+
+  test('validates IDs and routes against the registry', () => {
+    CATEGORY_IDS.forEach((id) => {
+      expect(isCategoryId(id)).toBe(true);
+      expect(isValidRoute(`/flashcards/${id}`)).toBe(true);
+    });
+    expect(isCategoryId('manufacturing')).toBe(false);
+    expect(isCategoryId(ALL_CATEGORIES)).toBe(false);
+    expect(isValidRoute('/flashcards/manufacturing')).toBe(false);
+  });
+
+  test('resolves the quiz category parameter', () => {
+    expect(resolveCategoryParam(ALL_CATEGORIES)).toEqual([...CATEGORY_IDS]);
+    expect(resolveCategoryParam('numbers')).toEqual(['numbers']);
+    expect(resolveCategoryParam('manufacturing')).toEqual([]);
+  });
+
+  test('loads each category word file', async () => {
+    for (const category of CATEGORIES) {
+      const words = await loadCategoryWords(category.id);
+      expect(words.length).toBe(category.wordCount);
+      expect(words.every((word) => word.category === category.id)).toBe(true);
+    }
+    await expect(loadCategoryWords('manufacturing')).rejects.toThrow();
+  });
+
+  test('loads every category for an "all" quiz', async () => {
+    const total = CATEGORIES.reduce((sum, category) => sum + category.wordCount, 0);
+    expect(await loadQuizWords(ALL_CATEGORIES)).toHaveLength(total);
+    await expect(loadQuizWords('manufacturing')).rejects.toThrow();
+  });
+});
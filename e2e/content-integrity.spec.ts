@@ -0,0 +1,110 @@
+import { test, expect } from '@playwright/test';
+import { checkContentIntegrity, type ContentFile } from '@/lib/content-integrity';
+
+/**
+ * Content integrity checker tests on small data sets.
+ * Runs without a browser.
+ */
+
+const category = (id: string, wordCount: number) => ({
+  id,
+  name: id,
+  name_vietnamese: id,
+  description: id,
+  icon: '📘',
+  color: '#000000',
+  wordCount,
+  difficulty: 'beginner',
+  order: 1,
+});
+
+const word = (id: string, category: string, audioUrl = `/audio/words/${category}/xin-chao.mp3`) => ({
+  id,
+  vietnamese: 'Xin chào',
+  japanese: 'こんにちは',
+  pronunciation: 'シン チャオ',
+  audio_url: audioUrl,
+  category,
+  difficulty: 'beginner',
+});
+
+const allAudioExists = () => true;
+const codes = (files: ContentFile[], audioExists: (url: string) => boolean = allAudioExists) =>
+  checkContentIntegrity(files, audioExists).issues.map((issue) => `${issue.code}:${issue.id}`);
+
+test.describe('Content integrity', () => {
+  test('passes consistent content', () => {
+    const report = checkContentIntegrity(
+      [
+        { path: 'categories.json', data: [category('food', 1)] },
+        { path: 'words/food.json', data: [word('food_001', 'food')] },
+        { path: 'minimal-pairs.json', data: [{ syllable: 'ban', words: [] }] },
+      ],
+      allAudioExists
+    );
+    expect(report.ok).toBe(true);
+    expect(report.summary).toEqual({ files: 3, records: 3, errors: 0, warnings: 0 });
+    expect(report.files[2]).toEqual({ path: 'minimal-pairs.json', records: 1, validated: false });
+  });
+
+  test('compares category word counts with the word files', () => {
+    expect(
+      codes([
+        { path: 'categories.json', data: [category('food', 30), category('daily', 1)] },
+        { path: 'words/food.json', data: [word('food_001', 'food')] },
+      ])
+    ).toEqual(['word-count-mismatch:food', 'missing-word-file:daily']);
+  });
+
+  test('reports word files without a category entry', () => {
+    expect(
+      codes([
+        { path: 'categories.json', data: [category('food', 1)] },
+        { path: 'words/food.json', data: [word('food_001', 'food')] },
+        { path: 'words/tools.json', data: [word('tools_001', 'tools')] },
+      ])
+    ).toEqual(['unregistered-word-file:tools']);
+  });
+
+  test('finds duplicate word IDs across files', () => {
+    expect(
+      codes([
+        { path: 'words/food.json', data: [word('w_001', 'food')] },
+        { path: 'words/daily.json', data: [word('w_001', 'daily')] },
+      ])
+    ).toEqual(['duplicate-id:w_001']);
+  });
+
+  test('reports invalid records and words filed under another category', () => {
+    expect(
+      codes([
+        { path: 'words/food.json', data: [{ id: 'food_001' }, word('daily_001', 'daily')] },
+      ])
+    ).toEqual(['invalid-record:food_001', 'category-mismatch:daily_001']);
+  });
+
+  test('reports missing audio and paths that differ from the helpers', () => {
+    const report = checkContentIntegrity(
+      [{ path: 'words/food.json', data: [word('food_001', 'food', '/audio/words/food/pho.mp3')] }],
+      () => false
+    );
+    expect(report.issues.map((issue) => [issue.severity, issue.code])).toEqual([
+      ['error', 'missing-audio'],
+      ['warning', 'audio-path-mismatch'],
+    ]);
+    expect(report.summary.errors).toBe(1);
+    expect(report.summary.warnings).toBe(1);
+  });
+
+  test('checks the syllable clips of curated minimal pairs', () => {
+    const pairs = {
+      path: 'minimal-pairs.json',
+      data: [{ syllable: 'ma', words: [{ word: 'ma', meaning: '幽霊' }, { word: 'má', meaning: '頬' }] }],
+    };
+    expect(codes([pairs], (url) => url !== '/audio/syllables/mas.mp3')).toEqual(['missing-audio:ma']);
+  });
+
+  test('rejects files that are not arrays', () => {
+    expect(codes([{ path: 'tones.json', data: { id: 'ngang' } }])).toEqual(['invalid-file:undefined']);
+  });
+});
@@ -0,0 +1,69 @@
+import { test, expect } from '@playwright/test';
+import {
+  countWordsByCategory,
+  getCategoryWords,
+  getWord,
+  getWordIndex,
+  getWordsByDifficulty,
+  getWordsForCategoryParam,
+  indexWords,
+} from '@/lib/content-repository';
+import type { Word } from '@/types';
+
+/**
+ * Content repository tests: indexed lookups and memoized loading of the
+ * word files. Runs without a browser.
+ */
+
+const word = (id: string, category: string, tags?: string[]): Word => ({
+  id,
+  vietnamese: id,
+  japanese: id,
+  pronunciation: id,
+  audio_url: `/audio/words/${category}/${id}.mp3`,
+  category,
+  difficulty: category === 'business' ? 'intermediate' : 'beginner',
+  tags,
+});
+
+test.describe('Content repository', () => {
+  test('indexes words by ID, category, difficulty and tag', () => {
+    const index = indexWords([
+      word('food_001', 'food', ['restaurant']),
+      word('biz_001', 'business', ['meeting', 'restaurant']),
+      word('food_002', 'food'),
+    ]);
+    expect(index.byId.get('biz_001')?.category).toBe('business');
+    expect(index.byCategory.get('food')?.map((w) => w.id)).toEqual(['food_001', 'food_002']);
+    expect(index.byDifficulty.get('intermediate')?.map((w) => w.id)).toEqual(['biz_001']);
+    expect(index.byTag.get('restaurant')?.map((w) => w.id)).toEqual(['food_001', 'biz_001']);
+  });
+
+  test('counts learned words by their real category', () => {
+    const index = indexWords([word('biz_001', 'business'), word('food_001', 'food')]);
+    // IDs do not start with the category ID
+    const counts = countWordsByCategory(index, ['biz_001', 'food_001', 'biz_999']);
+    expect(counts.get('business')).toBe(1);
+    expect(counts.get('food')).toBe(1);
+  });
+
+  test('loads each word file once', async () => {
+    expect(getCategoryWords('food')).toBe(getCategoryWords('food'));
+    expect(getWordIndex()).toBe(getWordIndex());
+
+    const index = await getWordIndex();
+    expect(index.byCategory.get('food')).toEqual(await getCategoryWords('food'));
+    expect(await getWordsForCategoryParam('all')).toBe(index.words);
+    expect(await getWordsForCategoryParam('food')).toBe(await getCategoryWords('food'));
+  });
+
+  test('looks up words from the shipped data', async () => {
+    const pho = await getWord('food_002');
+    expect(pho?.vietnamese).toBe('Phở');
+    expect(await getWord('missing')).toBeUndefined();
+    const beginner = await getWordsByDifficulty('beginner');
+    expect(beginner.length).toBeGreaterThan(0);
+    expect(beginner.every((w) => w.difficulty === 'beginner')).toBe(true);
+    await expect(getWordsForCategoryParam('manufacturing')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,151 @@
+import { test, expect } from '@playwright/test';
+import initSqlJs from 'sql.js';
+import { buildAnkiPackage, validateAnkiDeckInput } from '@/lib/anki';
+import { parseDelimited, toDelimited } from '@/lib/csv';
+import {
+  guessColumnMapping,
+  importRows,
+  parseImportFile,
+  wordsToCsv,
+} from '@/lib/deck-transfer';
+import { deckEntryToWord } from '@/lib/decks';
+import type { Deck, Word } from '@/types';
+
+/**
+ * Deck import/export tests: delimited text, column mapping, the per-row
+ * report and Anki packages. Runs without a browser.
+ */
+
+const words: Word[] = [
+  {
+    id: 'food_002',
+    vietnamese: 'Phở',
+    japanese: 'フォー',
+    pronunciation: 'フォー',
+    audio_url: '/audio/words/food/food_002.mp3',
+    category: 'food',
+    difficulty: 'beginner',
+    example_sentence: {
+      vietnamese: 'Tôi ăn phở, "ngon" lắm.',
+      japanese: 'フォーを食べます。',
+      audio_url: '',
+    },
+  },
+  {
+    id: 'food_003',
+    vietnamese: 'Bánh mì',
+    japanese: 'バインミー',
+    pronunciation: 'バイン ミー',
+    audio_url: '',
+    category: 'food',
+    difficulty: 'beginner',
+  },
+];
+
+const deck: Deck = {
+  id: '0f8fad5b-d9cb-469f-a165-70867728950e',
+  name: '食べ物',
+  description: '',
+  word_ids: [],
+  entries: [{ id: 'e1', vietnamese: 'Cà phê', japanese: 'コーヒー', pronunciation: '' }],
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+// Read one stored file back out of an uncompressed ZIP
+const readZipEntry = (zip: Uint8Array, path: string): Uint8Array => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const name = new TextDecoder().decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength + extraLength;
+    if (name === path) return zip.subarray(start, start + size);
+    offset = start + size;
+  }
+  throw new Error(`${path} not in archive`);
+};
+
+test.describe('Deck import and export', () => {
+  test('reads and writes quoted delimited text', () => {
+    const text = toDelimited([['a,b', 'say "hi"', 'two\nlines'], ['x', '', 'z']], ',');
+    expect(parseDelimited(text, ',')).toEqual([['a,b', 'say "hi"', 'two\nlines'], ['x', '', 'z']]);
+    expect(parseDelimited('\uFEFFa\tb\r\n\r\nc\td\n', '\t')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  test('round-trips an exported CSV', () => {
+    const file = parseImportFile(wordsToCsv(words));
+    const { mapping, hasHeader } = guessColumnMapping(file.rows[0]);
+    expect(hasHeader).toBe(true);
+
+    const { entries, errors } = importRows(file, mapping, hasHeader);
+    expect(errors).toEqual([]);
+    expect(entries.map((entry) => entry.vietnamese)).toEqual(['Phở', 'Bánh mì']);
+    expect(entries[0].example_sentence?.vietnamese).toBe('Tôi ăn phở, "ngon" lắm.');
+    expect(entries[1].example_sentence).toBeUndefined();
+  });
+
+  test('reads Anki plain-text notes', () => {
+    const file = parseImportFile('#separator:tab\n#html:true\nXin <b>chào</b>\tこんにちは\nCảm ơn\tありがとう<br>ございます\n');
+    expect(file.delimiter).toBe('\t');
+    const { mapping, hasHeader } = guessColumnMapping(file.rows[0]);
+    expect(hasHeader).toBe(false);
+
+    const { entries } = importRows(file, mapping, hasHeader);
+    expect(entries.map((entry) => [entry.vietnamese, entry.japanese])).toEqual([
+      ['Xin chào', 'こんにちは'],
+      ['Cảm ơn', 'ありがとう ございます'],
+    ]);
+  });
+
+  test('reports every problem row by row', () => {
+    const file = parseImportFile(
+      [
+        'ベトナム語,日本語,例文',
+        'Trà,お茶,',
+        ',水,',
+        'Trà,お茶,',
+        'cà phê,コーヒー,',
+        'Nước,,Uống nước.',
+      ].join('\n')
+    );
+    const { mapping, hasHeader } = guessColumnMapping(file.rows[0]);
+    const { entries, errors } = importRows(file, mapping, hasHeader, deck);
+
+    expect(entries.map((entry) => entry.vietnamese)).toEqual(['Trà']);
+    expect(errors.map((error) => error.row)).toEqual([3, 4, 5, 6]);
+    expect(errors[0].messages).toEqual(['ベトナム語が空です']);
+    expect(errors[1].messages).toEqual(['2行目と重複しています']);
+    expect(errors[2].messages).toEqual(['すでにデッキにあります']);
+    expect(errors[3].messages).toHaveLength(2);
+  });
+
+  test('writes an Anki package that opens as a collection', async () => {
+    const input = {
+      name: '食べ物',
+      description: '',
+      words: [...words, deckEntryToWord(deck, deck.entries[0])],
+    };
+    expect(validateAnkiDeckInput(input)).toBeNull();
+    expect(validateAnkiDeckInput({ ...input, words: [] })).toContain('words');
+
+    const apkg = await buildAnkiPackage(input);
+    expect(new TextDecoder().decode(readZipEntry(apkg, 'media'))).toBe('{}');
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(readZipEntry(apkg, 'collection.anki2'));
+    const [notes] = db.exec('SELECT guid, flds FROM notes ORDER BY id');
+    expect(notes.values.map(([guid]) => guid)).toEqual([
+      'viet-pocket:food_002',
+      'viet-pocket:food_003',
+      'viet-pocket:custom_e1',
+    ]);
+    expect(String(notes.values[0][1]).split('\x1f')[3]).toBe('Tôi ăn phở, "ngon" lắm.');
+    expect(db.exec('SELECT COUNT(*) FROM cards')[0].values[0][0]).toBe(6);
+    const [decks] = db.exec('SELECT decks FROM col');
+    expect(Object.values(JSON.parse(String(decks.values[0][0]))).map((d) => (d as Deck).name)).toContain('食べ物');
+    db.close();
+  });
+});
@@ -0,0 +1,142 @@
+import { test, expect } from '@playwright/test';
+import { indexWords } from '@/lib/content-repository';
+import {
+  getDeckCategoryId,
+  getDeckIdFromCategory,
+  resolveDeckWords,
+  validateDeckEntry,
+  validateDeckInput,
+} from '@/lib/decks';
+import { listeningGenerator, speakingGenerator, viToJaGenerator } from '@/lib/quiz/generators';
+import { useDeckStore } from '@/stores/deckStore';
+import { isValidRoute } from '@/lib/routes';
+import type { Deck, Word } from '@/types';
+
+/**
+ * Custom deck tests: validation, the deck category parameter, turning a
+ * deck into studyable words and uploading queued changes. Runs without a
+ * browser.
+ */
+
+const DECK_ID = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+const word = (id: string): Word => ({
+  id,
+  vietnamese: id,
+  japanese: id,
+  pronunciation: id,
+  audio_url: `/audio/words/food/${id}.mp3`,
+  category: 'food',
+  difficulty: 'beginner',
+});
+
+const deck: Deck = {
+  id: DECK_ID,
+  name: '工場',
+  description: '',
+  word_ids: ['food_002', 'food_999', 'food_001'],
+  entries: [{ id: 'e1', vietnamese: 'máy ép', japanese: 'プレス機', pronunciation: 'マイ エップ' }],
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+test.describe('Custom decks', () => {
+  test('validates deck input and personal entries', () => {
+    expect(validateDeckInput(deck)).toBeNull();
+    expect(validateDeckInput({ ...deck, name: '  ' })).toContain('name');
+    expect(validateDeckInput({ ...deck, word_ids: [1] })).toContain('word_ids');
+    expect(validateDeckInput({ ...deck, entries: [deck.entries[0], deck.entries[0]] })).toContain(
+      'duplicate'
+    );
+    expect(validateDeckEntry({ ...deck.entries[0], japanese: '' })).toContain('japanese');
+    expect(
+      validateDeckEntry({ ...deck.entries[0], example_sentence: { vietnamese: 'x', japanese: '' } })
+    ).toContain('example_sentence');
+  });
+
+  test('selects a deck through the category parameter', () => {
+    expect(getDeckIdFromCategory(getDeckCategoryId(DECK_ID))).toBe(DECK_ID);
+    expect(getDeckIdFromCategory('food')).toBeNull();
+    expect(getDeckIdFromCategory('deck-not-a-uuid')).toBeNull();
+  });
+
+  test('validates deck routes', () => {
+    expect(isValidRoute('/decks')).toBe(true);
+    expect(isValidRoute('/decks/import')).toBe(true);
+    expect(isValidRoute(`/decks/${DECK_ID}`)).toBe(true);
+    expect(isValidRoute('/decks/not-a-deck')).toBe(false);
+    expect(isValidRoute(`/decks/${DECK_ID}/edit`)).toBe(false);
+  });
+
+  test('resolves catalog words and personal entries', () => {
+    const words = resolveDeckWords(deck, indexWords([word('food_001'), word('food_002')]));
+    expect(words.map((w) => w.id)).toEqual(['food_002', 'food_001', 'custom_e1']);
+    expect(words[2].category).toBe(getDeckCategoryId(DECK_ID));
+    expect(words[2].audio_url).toBe('');
+  });
+
+  test('skips audio questions for personal entries', () => {
+    const [entryWord] = resolveDeckWords({ ...deck, word_ids: [] }, indexWords([]));
+    const pool = [entryWord, word('food_001'), word('food_002'), word('food_003')];
+    expect(listeningGenerator(entryWord, pool)).toBeNull();
+    expect(speakingGenerator(entryWord, pool)).toBeNull();
+    expect(viToJaGenerator(entryWord, pool)?.correct_answer).toBe('プレス機');
+  });
+
+  test('uploads each queued deck even when the backend fails on one', async () => {
+    const otherId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+    const goneId = '16fd2706-8baf-433b-82eb-8c7fada847da';
+    const sent: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string, options: RequestInit = {}) => {
+      sent.push(`${options.method ?? 'GET'} ${url}`);
+      if (url.endsWith(goneId)) return new Response('{}', { status: 500 });
+      if (url.endsWith(DECK_ID)) return new Response('{}', { status: 400 });
+      return new Response(options.body ? `{"deck":${options.body}}` : '{}', { status: 200 });
+    }) as typeof fetch;
+
+    try {
+      useDeckStore.setState({
+        decks: [deck, { ...deck, id: otherId }],
+        pending_deck_ids: [DECK_ID, otherId],
+        deleted_deck_ids: [goneId],
+      });
+      await useDeckStore.getState().actions.flushPendingChanges();
+
+      expect(sent).toEqual([
+        `DELETE /api/decks/${goneId}`,
+        `PUT /api/decks/${DECK_ID}`,
+        `PUT /api/decks/${otherId}`,
+      ]);
+      // The rejected deck stays local; the failed deletion is retried later
+      expect(useDeckStore.getState().pending_deck_ids).toEqual([]);
+      expect(useDeckStore.getState().deleted_deck_ids).toEqual([goneId]);
+      expect(useDeckStore.getState().decks).toHaveLength(2);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('uploads an edit made during an upload', async () => {
+    const sent: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string, options: RequestInit = {}) => {
+      sent.push(JSON.parse(String(options.body)).name);
+      if (sent.length === 1) {
+        useDeckStore.getState().actions.updateDeck(DECK_ID, { name: '工場 2' });
+      }
+      return new Response(`{"deck":${options.body}}`, { status: 200 });
+    }) as typeof fetch;
+
+    try {
+      useDeckStore.setState({ decks: [deck], pending_deck_ids: [DECK_ID], deleted_deck_ids: [] });
+      await useDeckStore.getState().actions.flushPendingChanges();
+
+      expect(sent).toEqual(['工場', '工場 2']);
+      expect(useDeckStore.getState().pending_deck_ids).toEqual([]);
+      expect(useDeckStore.getState().decks[0].name).toBe('工場 2');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+import { getWord } from '@/lib/content-repository';
+import { applyDialect } from '@/lib/dialects';
+import { buildRecordingPlan } from '@/lib/recording-studio';
+import { validateWord } from '@/types/data';
+import type { Word } from '@/types';
+
+/**
+ * Dialect tests: northern/southern overrides of readings, recordings and
+ * vocabulary, their validation and their recordings. Runs without a browser.
+ */
+
+const giamDoc: Word = {
+  id: 'biz_008',
+  vietnamese: 'Giám đốc',
+  japanese: '社長',
+  pronunciation: 'ザム ドック',
+  audio_url: '/audio/words/business/giam-doc.mp3',
+  category: 'business',
+  difficulty: 'intermediate',
+  example_sentence: { vietnamese: 'Giám đốc đến.', japanese: '社長が来る。' },
+  dialects: { south: { pronunciation: 'ヤム ドック' } },
+};
+
+const ngo: Word = {
+  id: 'food_041',
+  vietnamese: 'Ngô',
+  japanese: 'トウモロコシ',
+  pronunciation: 'ゴー',
+  audio_url: '/audio/words/food/ngo.mp3',
+  category: 'food',
+  difficulty: 'beginner',
+  example_sentence: { vietnamese: 'Tôi thích ăn ngô.', japanese: '私はトウモロコシが好きです。' },
+  dialects: { south: { vietnamese: 'Bắp', pronunciation: 'バップ' } },
+};
+
+test.describe('Dialects', () => {
+  test('keeps words without a variant unchanged', () => {
+    expect(applyDialect(giamDoc, 'north')).toBe(giamDoc);
+  });
+
+  test('changes the reading and keeps the default recording', () => {
+    const south = applyDialect(giamDoc, 'south');
+    expect(south.pronunciation).toBe('ヤム ドック');
+    expect(south.vietnamese).toBe('Giám đốc');
+    expect(south.audio_url).toBe(giamDoc.audio_url);
+    expect(south.example_sentence).toBe(giamDoc.example_sentence);
+  });
+
+  test('swaps the word without borrowing its recording or example', () => {
+    const south = applyDialect(ngo, 'south');
+    expect(south.vietnamese).toBe('Bắp');
+    expect(south.audio_url).toBe('');
+    expect(south.example_sentence).toBeUndefined();
+  });
+
+  test('validates dialect overrides', () => {
+    expect(validateWord(giamDoc).success).toBe(true);
+    const errors = (raw: unknown) => {
+      const result = validateWord(raw);
+      return result.success ? [] : result.errors;
+    };
+    expect(errors({ ...giamDoc, dialects: { central: {} } })).toContain('Invalid dialect: central');
+    expect(errors({ ...giamDoc, dialects: { south: { pronunciation: '' } } })).toHaveLength(1);
+    expect(errors({ ...ngo, dialects: { south: { vietnamese: 'Bắp' } } })).toContain(
+      'Dialect south word needs its own pronunciation'
+    );
+  });
+
+  test('ships southern vocabulary and readings', async () => {
+    const corn = await getWord('food_041');
+    expect(corn && applyDialect(corn, 'south').vietnamese).toBe('Bắp');
+    expect(corn && applyDialect(corn, 'south').example_sentence?.vietnamese).toContain('bắp');
+    const fruit = await getWord('food_012');
+    expect(fruit && applyDialect(fruit, 'north').vietnamese).toBe('Hoa quả');
+    const vegetables = await getWord('food_011');
+    expect(vegetables && applyDialect(vegetables, 'south').pronunciation).toBe('ラウ');
+  });
+
+  test('plans a recording for each dialect variant', () => {
+    const plan = buildRecordingPlan({ alphabet: [], tones: [], words: { food: [ngo] }, syllables: [] });
+    expect(plan.map((item) => [item.path, item.text, item.unlinked])).toEqual([
+      ['/audio/words/food/ngo.mp3', 'Ngô', false],
+      ['/audio/words/food/bap.mp3', 'Bắp', true],
+    ]);
+  });
+
+  test('names reading-only variant recordings after the word file', () => {
+    const plan = buildRecordingPlan({
+      alphabet: [],
+      tones: [],
+      words: { business: [giamDoc] },
+      syllables: [],
+    });
+    expect(plan.map((item) => item.path)).toEqual([
+      '/audio/words/business/giam-doc.mp3',
+      '/audio/words/business/giam-doc.south.mp3',
+    ]);
+
+    const recorded = {
+      ...giamDoc,
+      dialects: {
+        south: { pronunciation: 'ヤム ドック', audio_url: '/audio/words/business/giam-doc.south.mp3' },
+      },
+    };
+    const [, variant] = buildRecordingPlan({
+      alphabet: [],
+      tones: [],
+      words: { business: [recorded] },
+      syllables: [],
+    });
+    expect(variant.unlinked).toBe(false);
+    expect(applyDialect(recorded, 'south').audio_url).toBe(variant.path);
+  });
+});
@@ -62,6 +62,25 @@ test.describe('Flashcard Learning Flow', () => {
     await expect(audioButton).toBeVisible();
   });
 
+  test('should open shadowing controls and change playback rate', async ({ page }) => {
+    await page.goto('/flashcards/greetings');
+    await page.waitForLoadState('networkidle');
+
+    const toggle = page.getByRole('button', { name: /シャドーイング/ }).first();
+    await expect(toggle).toBeVisible({ timeout: 10000 });
+    await toggle.click();
+
+    const rates = page.getByRole('group', { name: '再生速度' });
+    await expect(rates).toBeVisible();
+    await rates.getByRole('button', { name: '0.5x' }).click();
+    await expect(rates.getByRole('button', { name: '0.5x' })).toHaveAttribute('aria-pressed', 'true');
+    await expect(rates.getByRole('button', { name: '1x', exact: true })).toHaveAttribute('aria-pressed', 'false');
+
+    // B point needs an A point first
+    await expect(page.getByRole('button', { name: 'B地点' })).toBeDisabled();
+    await expect(page.getByRole('button', { name: /シャドーイング開始/ })).toBeVisible();
+  });
+
   test('should show completion screen after learning all cards', async ({ page }) => {
     // Use numbers category (30 cards) but only test a few to verify the flow
     await page.goto('/flashcards/numbers');
@@ -0,0 +1,176 @@
+import { test, expect } from '@playwright/test';
+import {
+  comparePitchContours,
+  detectPitch,
+  dtwDistance,
+  extractPitchContour,
+  toRelativeSemitones,
+} from '@/lib/pitch';
+import { SPEAKING_PASS_SCORE } from '@/lib/quiz';
+
+/**
+ * Pitch tracker tests on synthesized sine tones and sweeps.
+ * Runs without a browser; no audio files are needed.
+ */
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * Sine wave whose frequency moves through the given points at even intervals
+ */
+const synthesize = (frequencies: readonly number[], seconds: number, amplitude = 0.5) => {
+  const length = Math.round(seconds * SAMPLE_RATE);
+  const samples = new Float32Array(length);
+  const segments = frequencies.length - 1;
+  let phase = 0;
+
+  for (let i = 0; i < length; i++) {
+    const position = segments > 0 ? (i / length) * segments : 0;
+    const index = Math.min(Math.floor(position), Math.max(0, segments - 1));
+    const from = frequencies[index];
+    const to = frequencies[Math.min(index + 1, frequencies.length - 1)];
+    const frequency = from + (to - from) * (position - index);
+    phase += (2 * Math.PI * frequency) / SAMPLE_RATE;
+    samples[i] = amplitude * Math.sin(phase);
+  }
+  return samples;
+};
+
+const voicedFrequencies = (samples: Float32Array) =>
+  extractPitchContour(samples, SAMPLE_RATE)
+    .map((point) => point.frequency)
+    .filter((frequency): frequency is number => frequency !== null);
+
+test.describe('Pitch tracker', () => {
+  test.describe('steady tones', () => {
+    for (const frequency of [80, 120, 200, 260, 330, 450]) {
+      test(`detects ${frequency} Hz within 1%`, () => {
+        const detected = detectPitch(synthesize([frequency], 0.2), SAMPLE_RATE);
+        expect(detected).not.toBeNull();
+        expect(Math.abs((detected ?? 0) - frequency) / frequency).toBeLessThan(0.01);
+      });
+    }
+
+    test('detects a quiet but audible tone', () => {
+      const detected = detectPitch(synthesize([180], 0.2, 0.05), SAMPLE_RATE);
+      expect(detected).not.toBeNull();
+      expect(Math.abs((detected ?? 0) - 180)).toBeLessThan(2);
+    });
+  });
+
+  test.describe('unvoiced input', () => {
+    test('returns null for silence', () => {
+      expect(detectPitch(new Float32Array(SAMPLE_RATE / 5), SAMPLE_RATE)).toBeNull();
+    });
+
+    test('returns null for white noise', () => {
+      let seed = 1;
+      const noise = new Float32Array(SAMPLE_RATE / 5).map(() => {
+        seed = (seed * 16807) % 2147483647;
+        return (seed / 2147483647) * 2 - 1;
+      });
+      expect(detectPitch(noise, SAMPLE_RATE)).toBeNull();
+    });
+
+    test('returns null when the frame is shorter than the longest period', () => {
+      expect(detectPitch(synthesize([200], 0.01), SAMPLE_RATE)).toBeNull();
+    });
+  });
+
+  test.describe('contours', () => {
+    test('follows a rising sweep (sắc-like)', () => {
+      const frequencies = voicedFrequencies(synthesize([150, 300], 0.6));
+      expect(frequencies.length).toBeGreaterThan(40);
+      expect(frequencies[0]).toBeLessThan(165);
+      expect(frequencies[frequencies.length - 1]).toBeGreaterThan(280);
+      for (let i = 1; i < frequencies.length; i++) {
+        expect(frequencies[i]).toBeGreaterThan(frequencies[i - 1]);
+      }
+    });
+
+    test('follows a falling sweep (huyền-like)', () => {
+      const frequencies = voicedFrequencies(synthesize([220, 140], 0.6));
+      expect(frequencies[0]).toBeGreaterThan(210);
+      expect(frequencies[frequencies.length - 1]).toBeLessThan(150);
+      for (let i = 1; i < frequencies.length; i++) {
+        expect(frequencies[i]).toBeLessThan(frequencies[i - 1]);
+      }
+    });
+
+    test('finds the dip of a falling-rising sweep (hỏi-like)', () => {
+      const frequencies = voicedFrequencies(synthesize([200, 130, 200], 0.6));
+      const lowest = frequencies.indexOf(Math.min(...frequencies));
+      expect(lowest / frequencies.length).toBeGreaterThan(0.35);
+      expect(lowest / frequencies.length).toBeLessThan(0.65);
+    });
+
+    test('marks silent gaps as unvoiced', () => {
+      const tone = synthesize([200], 0.2);
+      const samples = new Float32Array(tone.length * 3);
+      samples.set(tone, 0);
+      samples.set(tone, tone.length * 2);
+
+      const contour = extractPitchContour(samples, SAMPLE_RATE);
+      const middle = contour.filter((point) => point.time > 0.25 && point.time < 0.35);
+      expect(middle.length).toBeGreaterThan(0);
+      expect(middle.every((point) => point.frequency === null)).toBe(true);
+    });
+
+    test('reports frame times in order at the hop interval', () => {
+      const contour = extractPitchContour(synthesize([200], 0.3), SAMPLE_RATE);
+      for (let i = 1; i < contour.length; i++) {
+        expect(contour[i].time - contour[i - 1].time).toBeCloseTo(0.01, 5);
+      }
+    });
+  });
+
+  test.describe('relative semitones', () => {
+    test('centers the contour on its median', () => {
+      const relative = toRelativeSemitones([
+        { time: 0, frequency: 100 },
+        { time: 0.01, frequency: 200 },
+        { time: 0.02, frequency: null },
+        { time: 0.03, frequency: 400 },
+      ]);
+      expect(relative.map((point) => point.frequency)).toEqual([-12, 0, null, 12]);
+    });
+
+    test('keeps an all-unvoiced contour unchanged', () => {
+      const points = [{ time: 0, frequency: null }];
+      expect(toRelativeSemitones(points)).toEqual(points);
+    });
+  });
+
+  test.describe('contour comparison', () => {
+    const contour = (frequencies: readonly number[], seconds: number) =>
+      extractPitchContour(synthesize(frequencies, seconds), SAMPLE_RATE);
+    const rising = contour([150, 300], 0.5);
+
+    test('aligns sequences that differ only in speed', () => {
+      expect(dtwDistance([0, 1, 2, 3], [0, 0, 1, 1, 2, 2, 3, 3])).toBe(0);
+      expect(dtwDistance([0, 1, 2], [])).toBe(Infinity);
+    });
+
+    test('scores an identical contour 100', () => {
+      expect(comparePitchContours(rising, contour([150, 300], 0.5))).toBe(100);
+    });
+
+    test('ignores voice register and speaking rate', () => {
+      const lowerAndSlower = contour([75, 150], 0.8);
+      expect(comparePitchContours(rising, lowerAndSlower)).toBeGreaterThan(SPEAKING_PASS_SCORE);
+    });
+
+    test('scores a flat contour below the pass line', () => {
+      expect(comparePitchContours(rising, contour([200], 0.5))).toBeLessThan(SPEAKING_PASS_SCORE);
+    });
+
+    test('scores the opposite direction near 0', () => {
+      expect(comparePitchContours(rising, contour([300, 150], 0.5))).toBeLessThan(20);
+    });
+
+    test('scores 0 when the attempt is silent', () => {
+      const silence = extractPitchContour(new Float32Array(SAMPLE_RATE / 2), SAMPLE_RATE);
+      expect(comparePitchContours(rising, silence)).toBe(0);
+    });
+  });
+});
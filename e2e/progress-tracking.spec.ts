@@ -112,6 +112,26 @@ test.describe('Progress Tracking', () => {
     await expect(page.getByText('日常会話')).toBeVisible({ timeout: 10000 });
   });
 
+  test('should record tone minimal-pair answers in the confusion matrix', async ({ page }) => {
+    await page.goto('/progress');
+    await page.waitForLoadState('networkidle');
+    await expect(page.getByRole('heading', { name: '声調の聞き分け' })).toBeVisible({ timeout: 10000 });
+    await expect(page.getByText('まだ聞き分け練習の記録がありません')).toBeVisible();
+
+    // Answer one drill by picking the first option
+    await page.goto('/learn/tones/pairs');
+    await page.waitForLoadState('networkidle');
+    await expect(page.getByText(/問題 1 \/ 10/)).toBeVisible({ timeout: 10000 });
+    await page.locator('.grid button').first().click();
+    await expect(page.locator('text=/正解|不正解/').first()).toBeVisible({ timeout: 10000 });
+    await expect(page.getByRole('button', { name: /聞き比べ|を聞く/ }).first()).toBeVisible();
+
+    await page.goto('/progress');
+    await page.waitForLoadState('networkidle');
+    await expect(page.getByText('行: 聞こえた声調 / 列: 選んだ声調')).toBeVisible({ timeout: 10000 });
+    await expect(page.getByText('100%').first()).toBeVisible();
+  });
+
   test('should show study sessions after completing activities', async ({ page }) => {
     // Complete a flashcard session
     await page.goto('/flashcards/numbers');
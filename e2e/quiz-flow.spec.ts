@@ -191,6 +191,132 @@ test.describe('Quiz Flow', () => {
     await expect(page.locator('text=/正解|不正解/')).toBeVisible({ timeout: 10000 });
   });
 
+  test('should compose Telex input and grade typed answers', async ({ page }) => {
+    await page.goto('/quiz');
+    await page.waitForLoadState('networkidle');
+
+    const typingLink = page.getByRole('link', { name: /タイピング/ });
+    await expect(typingLink).toBeVisible({ timeout: 10000 });
+    await typingLink.click();
+
+    await page.waitForURL(/\/quiz\/typing/, { timeout: 10000 });
+    await page.waitForLoadState('networkidle');
+    await expect(page.locator('text=/問題 \\d+ \\/ \\d+/')).toBeVisible({ timeout: 10000 });
+
+    // Telex keystrokes are composed into Vietnamese letters
+    const input = page.getByRole('textbox', { name: 'ベトナム語の回答' });
+    await input.click();
+    await page.keyboard.type('vieejt');
+    await expect(input).toHaveValue('việt');
+
+    // Replace with a word that is not in the vocabulary and submit
+    await input.fill('xyz');
+    await page.getByRole('button', { name: '回答する' }).click();
+
+    await expect(page.locator('text=/正解|不正解|惜しい/').first()).toBeVisible({ timeout: 10000 });
+    await expect(page.getByText('あなたの回答:')).toBeVisible();
+    await expect(page.getByRole('button', { name: /次の問題へ/ })).toBeVisible();
+  });
+
+  test('should show syllable diff in dictation quiz', async ({ page }) => {
+    await page.goto('/quiz/dictation?category=greetings');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.locator('text=/問題 \\d+ \\/ \\d+/')).toBeVisible({ timeout: 10000 });
+    await expect(page.getByRole('button', { name: /もう一度聞く/ })).toBeVisible();
+    await expect(page.getByRole('button', { name: /ゆっくり再生/ })).toBeVisible();
+
+    const input = page.getByRole('textbox', { name: 'ベトナム語の回答' });
+    await input.fill('xyz');
+    await page.getByRole('button', { name: '回答する' }).click();
+
+    await expect(page.getByLabel('音節ごとの比較')).toBeVisible({ timeout: 10000 });
+    await expect(page.getByRole('button', { name: /次の問題へ/ })).toBeVisible();
+  });
+
+  test('should build a sentence from word tiles', async ({ page }) => {
+    await page.goto('/quiz/sentence');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.locator('text=/問題 \\d+ \\/ \\d+/')).toBeVisible({ timeout: 10000 });
+
+    const submitButton = page.getByRole('button', { name: '回答する' });
+    await expect(submitButton).toBeDisabled();
+
+    // Move every tile from the bank into the answer line
+    const bankTiles = page.getByLabel('単語の候補').getByRole('button');
+    while ((await bankTiles.count()) > 0) {
+      await bankTiles.first().click();
+    }
+
+    await expect(submitButton).toBeEnabled();
+    await submitButton.click();
+
+    await expect(page.locator('text=/正解|不正解/')).toBeVisible({ timeout: 10000 });
+    await expect(page.getByRole('button', { name: /次の問題へ/ })).toBeVisible();
+  });
+
+  test('should answer cloze questions by choice or by typing', async ({ page }) => {
+    await page.goto('/quiz/cloze?category=daily');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.locator('text=/問題 \\d+ \\/ \\d+/')).toBeVisible({ timeout: 10000 });
+    await expect(page.getByLabel('空欄')).toBeVisible();
+
+    // Multiple choice
+    await page.getByRole('radio').first().click();
+    await expect(page.getByRole('button', { name: /次の問題へ/ })).toBeVisible({ timeout: 10000 });
+    await page.getByRole('button', { name: /次の問題へ/ }).click();
+
+    // Typed answer
+    await page.getByRole('button', { name: '入力する' }).click();
+    const input = page.getByRole('textbox', { name: 'ベトナム語の回答' });
+    await input.fill('xyz');
+    await page.getByRole('button', { name: '回答する' }).click();
+
+    await expect(page.locator('text=不正解')).toBeVisible({ timeout: 10000 });
+  });
+
+  test('should ask word-based tone questions', async ({ page }) => {
+    await page.goto('/learn/tones/quiz?category=food');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.locator('text=/問題 \\d+ \\/ \\d+/')).toBeVisible({ timeout: 10000 });
+    await expect(page.locator('text=/音節目の声調|それぞれの音節の声調/')).toBeVisible();
+
+    const toneChoices = page.getByRole('radio');
+    if ((await toneChoices.count()) > 0) {
+      await toneChoices.first().click();
+    } else {
+      // Mark every syllable with the first tone, then submit
+      const syllableGroups = page.getByRole('group', { name: /音節目/ });
+      const groupCount = await syllableGroups.count();
+      for (let i = 0; i < groupCount; i++) {
+        await syllableGroups.nth(i).getByRole('button').first().click();
+      }
+      await page.getByRole('button', { name: '回答する' }).click();
+    }
+
+    await expect(page.locator('text=/正解|惜しい|不正解/').first()).toBeVisible({ timeout: 10000 });
+    await expect(page.getByRole('button', { name: /次の問題へ/ })).toBeVisible();
+  });
+
+  test('should show recording controls in speaking practice', async ({ page }) => {
+    await page.goto('/quiz/speaking?category=greetings');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.locator('text=/問題 \\d+ \\/ \\d+/')).toBeVisible({ timeout: 10000 });
+    await expect(page.getByRole('button', { name: /お手本を聞く/ })).toBeVisible();
+    await expect(page.getByRole('button', { name: /録音する/ })).toBeVisible();
+
+    // No recording yet, so only skipping is possible
+    await expect(page.getByRole('button', { name: 'この録音で回答する' })).toBeDisabled();
+    await page.getByRole('button', { name: 'スキップ' }).click();
+
+    await expect(page.locator('text=不正解')).toBeVisible({ timeout: 10000 });
+    await expect(page.locator('text=/類似度: 0 \\/ 100/')).toBeVisible();
+  });
+
   test('should filter quiz by category using button interface', async ({ page }) => {
     await page.goto('/quiz');
     await page.waitForLoadState('networkidle');
@@ -0,0 +1,136 @@
+import { test, expect } from '@playwright/test';
+import { getAlphabetAudioPath, getSyllableAudioPath, getWordAudioPath } from '@/lib/audio';
+import { applyAudioFix } from '@/lib/audio-quality';
+import { buildMinimalPairSets, getSyllableClips } from '@/lib/minimal-pairs';
+import { buildRecordingPlan, findMissingRecordings } from '@/lib/recording-studio';
+import { crc32, createZip } from '@/lib/zip';
+import alphabetData from '@/data/alphabet.json';
+import tonesData from '@/data/tones.json';
+import foodData from '@/data/words/food.json';
+import type { Alphabet, Tone, Word } from '@/types';
+
+/**
+ * Recording studio tests: plan order, missing file detection, take
+ * processing and ZIP export. Runs without a browser.
+ */
+
+const word = (id: string, category: string): Word =>
+  ({
+    id,
+    vietnamese: id,
+    japanese: id,
+    pronunciation: id,
+    category,
+    audio_url: `/audio/words/${category}/${id}.mp3`,
+  }) as Word;
+
+const sources = {
+  alphabet: alphabetData as Alphabet[],
+  tones: tonesData as unknown as Tone[],
+  words: {
+    greetings: [word('greet_001', 'greetings')],
+    numbers: [word('num_001', 'numbers')],
+    business: [word('biz_001', 'business')],
+  },
+  syllables: getSyllableClips(),
+};
+
+test.describe('Recording studio', () => {
+  test('names marked letters like the alphabet data', () => {
+    expect(getAlphabetAudioPath('a')).toBe('/audio/alphabet/a.mp3');
+    expect(getAlphabetAudioPath('ă')).toBe('/audio/alphabet/a-breve.mp3');
+    expect(getAlphabetAudioPath('Ô')).toBe('/audio/alphabet/o-circumflex.mp3');
+    expect(getAlphabetAudioPath('ư')).toBe('/audio/alphabet/u-horn.mp3');
+    expect(getAlphabetAudioPath('đ')).toBe('/audio/alphabet/d-stroke.mp3');
+    sources.alphabet.forEach((letter) => {
+      expect(getAlphabetAudioPath(letter.letter)).toBe(letter.audio_url);
+    });
+  });
+
+  test('names words like the word data', () => {
+    expect(getWordAudioPath('Xin chào', 'greetings')).toBe('/audio/words/greetings/xin-chao.mp3');
+    expect(getWordAudioPath('Đồ uống', 'food')).toBe('/audio/words/food/do-uong.mp3');
+    (foodData as Word[]).forEach((word) => {
+      expect(getWordAudioPath(word.vietnamese, word.category)).toBe(word.audio_url);
+    });
+  });
+
+  test('exports words to the URLs the app plays', () => {
+    const plan = buildRecordingPlan({
+      alphabet: [],
+      tones: [],
+      words: { food: [{ ...word('food_001', 'food'), audio_url: '/audio/words/food/pho.mp3' }] },
+      syllables: [],
+    });
+    expect(plan.map((item) => [item.path, item.unlinked])).toEqual([['/audio/words/food/pho.mp3', false]]);
+  });
+
+  test('plans recordings in priority order', () => {
+    const plan = buildRecordingPlan(sources);
+    expect(plan.map((item) => item.kind)).toEqual([
+      ...sources.alphabet.map(() => 'alphabet'),
+      'word',
+      'word',
+      'word',
+      ...sources.tones.map(() => 'tone'),
+      ...sources.syllables.map(() => 'syllable'),
+    ]);
+    expect(plan[0].week).toBe('week1');
+    expect(plan[plan.length - 1].week).toBe('week5');
+    expect(plan.filter((item) => item.kind === 'word').map((item) => item.path)).toEqual([
+      '/audio/words/greetings/greet_001.mp3',
+      '/audio/words/numbers/num_001.mp3',
+      '/audio/words/business/biz_001.mp3',
+    ]);
+  });
+
+  test('records every syllable clip the minimal-pair drill plays', () => {
+    expect(getSyllableAudioPath('Má')).toBe('/audio/syllables/mas.mp3');
+    const planned = new Set(buildRecordingPlan(sources).map((item) => item.path));
+    const played = buildMinimalPairSets([])
+      .flatMap((set) => set.members)
+      .map((member) => member.audio_url);
+    expect(played.length).toBeGreaterThan(0);
+    expect(played.filter((url) => !planned.has(url))).toEqual([]);
+  });
+
+  test('keeps only items without a file', async () => {
+    const plan = buildRecordingPlan(sources);
+    const recorded = new Set(['/audio/alphabet/a.mp3', '/audio/words/numbers/num_001.mp3']);
+    const missing = await findMissingRecordings(plan, async (url) => recorded.has(url));
+    expect(missing).toHaveLength(plan.length - 2);
+    expect(missing.map((item) => item.path)).not.toContain('/audio/alphabet/a.mp3');
+    expect(missing[0].path).toBe(plan[1].path);
+  });
+
+  test('trims and normalizes a take', () => {
+    const sampleRate = 1000;
+    const samples = new Float32Array(3000);
+    samples.fill(0.5, 1000, 2000);
+    const fixed = applyAudioFix(samples, sampleRate, {
+      trimStartSeconds: 0.9,
+      trimEndSeconds: 0.9,
+      gainDb: -6,
+    });
+    expect(fixed.length).toBe(1200);
+    expect(fixed[0]).toBe(0);
+    expect(fixed[600]).toBeCloseTo(0.5 * 10 ** (-6 / 20), 5);
+  });
+
+  test('writes a stored ZIP archive', () => {
+    const data = new TextEncoder().encode('hello');
+    const zip = createZip([{ path: 'audio/words/a.mp3', data }], new Date(2024, 0, 2, 3, 4, 6));
+    const view = new DataView(zip.buffer);
+
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(data));
+    expect(new TextDecoder().decode(zip.subarray(30, 47))).toBe('audio/words/a.mp3');
+    expect(new TextDecoder().decode(zip.subarray(47, 52))).toBe('hello');
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(1);
+    expect(view.getUint32(view.getUint32(end + 16, true), true)).toBe(0x02014b50);
+  });
+});
@@ -0,0 +1,46 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Daily Review Flow', () => {
+  test.beforeEach(async ({ page }) => {
+    // Clear localStorage before each test to start fresh
+    await page.goto('/');
+    await page.waitForLoadState('networkidle');
+    await page.evaluate(() => localStorage.clear());
+    await page.reload();
+    await page.waitForLoadState('networkidle');
+  });
+
+  test('should show empty state when nothing is due', async ({ page }) => {
+    await page.goto('/review');
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.getByText('今日の復習はありません')).toBeVisible({ timeout: 10000 });
+  });
+
+  test('should queue forgotten flashcards for review', async ({ page }) => {
+    // Mark the first greeting as not known yet
+    await page.goto('/flashcards/greetings');
+    await page.waitForLoadState('networkidle');
+    await page.getByRole('button', { name: /まだ覚えていない/ }).click();
+
+    // Home page shows the due count
+    await page.goto('/');
+    await page.waitForLoadState('networkidle');
+    await expect(page.getByRole('link', { name: /今日の復習/ })).toContainText('1');
+
+    // Review session starts with a flashcard for the forgotten word
+    await page.goto('/review');
+    await page.waitForLoadState('networkidle');
+    await expect(page.locator('text=/1 \\/ 1/')).toBeVisible({ timeout: 10000 });
+
+    await page.getByRole('button', { name: '答えを見る' }).click();
+    await page.getByRole('button', { name: /^覚えた/ }).click();
+
+    await expect(page.getByText('今日の復習が完了しました')).toBeVisible({ timeout: 10000 });
+  });
+
+  test('should navigate to review page with keyboard shortcut', async ({ page }) => {
+    await page.keyboard.press('Control+b');
+    await page.waitForURL(/\/review/, { timeout: 10000 });
+  });
+});
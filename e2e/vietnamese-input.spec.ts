@@ -0,0 +1,179 @@
+import { test, expect } from '@playwright/test';
+import {
+  applyBackspace,
+  composeKeystrokes,
+  normalizeToneMarks,
+  toTelexKeys,
+  type InputMethodOptions,
+  type ToneMarkStyle,
+} from '@/lib/vietnamese-input';
+import { analyzeSyllable } from '@/lib/vietnamese-syllable';
+import type { Word } from '@/types';
+import greetings from '@/data/words/greetings.json';
+import numbers from '@/data/words/numbers.json';
+import daily from '@/data/words/daily.json';
+import food from '@/data/words/food.json';
+import business from '@/data/words/business.json';
+
+/**
+ * Table-driven tests for the Telex and VNI input methods.
+ * Runs without a browser; each row is [keystrokes, expected text].
+ */
+
+type Row = readonly [string, string];
+
+const TELEX: InputMethodOptions = { method: 'telex' };
+const TELEX_OLD: InputMethodOptions = { method: 'telex', toneStyle: 'old' };
+const VNI: InputMethodOptions = { method: 'vni' };
+const VNI_OLD: InputMethodOptions = { method: 'vni', toneStyle: 'old' };
+
+const runTable = (options: InputMethodOptions, rows: readonly Row[]) => {
+  for (const [keys, expected] of rows) {
+    test(`composes "${keys}"`, () => {
+      expect(composeKeystrokes(keys, options)).toBe(expected);
+    });
+  }
+};
+
+/** Backspace a text a number of times */
+const backspace = (text: string, times: number, style: ToneMarkStyle = 'new'): string =>
+  Array.from({ length: times }).reduce<string>((current) => applyBackspace(current, style), text);
+
+test.describe('Vietnamese input methods', () => {
+  test.describe('Telex', () => {
+    runTable(TELEX, [
+      ['vieejt', 'việt'],
+      ['nguwowif', 'người'],
+      ['nguoiwf', 'người'],
+      ['quoocs', 'quốc'],
+      ['quys', 'quý'],
+      ['giof', 'giò'],
+      ['muaw', 'mưa'],
+      ['ddaau', 'đâu'],
+      ['tuw', 'tư'],
+      ['w', 'ư'],
+      ['hoangf', 'hoàng'],
+      ['tieengs Vieetj', 'tiếng Việt'],
+      ['DDaf Nawngx', 'Đà Nẵng'],
+    ]);
+  });
+
+  test.describe('Telex tone changes', () => {
+    runTable(TELEX, [
+      ['asf', 'à'],
+      ['asz', 'a'],
+      // The tone goes before the shape: the vowel stays â
+      ['aasz', 'â'],
+      ['vieejtz', 'viêt'],
+      // A tone typed before the final consonant moves with the syllable
+      ['hoafng', 'hoàng'],
+    ]);
+  });
+
+  test.describe('Telex double-key undo', () => {
+    runTable(TELEX, [
+      ['aaa', 'aa'],
+      ['ooo', 'oo'],
+      ['eee', 'ee'],
+      ['aww', 'aw'],
+      ['ddd', 'dd'],
+      ['ass', 'as'],
+      ['vieejtss', 'viêts'],
+    ]);
+  });
+
+  test.describe('VNI', () => {
+    runTable(VNI, [
+      ['vie65t', 'việt'],
+      ['nguo7i2', 'người'],
+      ['quo61c', 'quốc'],
+      ['d9a2', 'đà'],
+      ['a8n3', 'ẳn'],
+      ['mua7', 'mưa'],
+      ['a10', 'a'],
+      ['a66', 'a6'],
+      ['a11', 'a1'],
+      ['d99', 'd9'],
+    ]);
+  });
+
+  test.describe('tone mark style', () => {
+    test.describe('new style', () => {
+      runTable(TELEX, [
+        ['hoaf', 'hoà'],
+        ['thuyr', 'thuỷ'],
+        ['khoer', 'khoẻ'],
+      ]);
+      runTable(VNI, [['hoa2', 'hoà']]);
+    });
+
+    test.describe('old style', () => {
+      runTable(TELEX_OLD, [
+        ['hoaf', 'hòa'],
+        ['thuyr', 'thủy'],
+        ['khoer', 'khỏe'],
+        // Closed syllables are the same in both styles
+        ['hoangf', 'hoàng'],
+      ]);
+      runTable(VNI_OLD, [['hoa2', 'hòa']]);
+    });
+
+    test('normalizes either style and NFD input', () => {
+      expect(normalizeToneMarks('hòa thủy')).toBe('hoà thuỷ');
+      expect(normalizeToneMarks('hoà thuỷ', 'old')).toBe('hòa thủy');
+      expect(normalizeToneMarks('người'.normalize('NFD'))).toBe('người');
+    });
+  });
+
+  test.describe('backspace', () => {
+    test('keeps the tone when deleting a final consonant', () => {
+      expect(backspace('việt', 1)).toBe('việ');
+      expect(backspace('quốc', 1)).toBe('quố');
+    });
+
+    test('removes the tone with the vowel that carries it', () => {
+      expect(backspace('việt', 2)).toBe('vi');
+      expect(backspace('ấ', 1)).toBe('');
+    });
+
+    test('strips the tone instead of moving it onto a shaped vowel', () => {
+      expect(backspace('người', 2)).toBe('ngư');
+      expect(backspace('thuở', 1)).toBe('thu');
+      expect(backspace('mướn', 2)).toBe('mư');
+    });
+
+    test('moves the tone mark as the syllable shrinks', () => {
+      expect(backspace('hoàng', 2)).toBe('hoà');
+      expect(backspace('hoàng', 2, 'old')).toBe('hòa');
+    });
+
+    test('only touches the last syllable', () => {
+      expect(backspace('tiếng Việt', 1)).toBe('tiếng Việ');
+      expect(backspace('tiếng ', 1)).toBe('tiếng');
+      expect(backspace('', 1)).toBe('');
+    });
+  });
+
+  test('spells every Vietnamese word back through Telex', () => {
+    // English loanwords cannot be typed with Telex modifiers
+    const words = ([...greetings, ...numbers, ...daily, ...food, ...business] as Word[]).filter(
+      (word) =>
+        word.vietnamese
+          .split(/[\s\-,.!?]+/)
+          .filter(Boolean)
+          .every((syllable) => analyzeSyllable(syllable) !== null)
+    );
+    const failures: string[] = [];
+
+    for (const word of words) {
+      const text = normalizeToneMarks(word.vietnamese);
+      const keys = toTelexKeys(text);
+      if (composeKeystrokes(keys, TELEX) !== text) {
+        failures.push(`${word.id}: ${keys}`);
+      }
+    }
+
+    expect(words.length).toBeGreaterThan(150);
+    expect(failures).toEqual([]);
+  });
+});
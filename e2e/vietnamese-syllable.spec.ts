@@ -0,0 +1,218 @@
+import { test, expect } from '@playwright/test';
+import { analyzeSyllable, splitTone, type SyllableAnalysis } from '@/lib/vietnamese-syllable';
+import type { ToneId, Word } from '@/types';
+import greetings from '@/data/words/greetings.json';
+import numbers from '@/data/words/numbers.json';
+import daily from '@/data/words/daily.json';
+import food from '@/data/words/food.json';
+import business from '@/data/words/business.json';
+
+/**
+ * Table-driven tests for the syllable analyzer.
+ * Runs without a browser; each row is [syllable, initial, medial, nucleus, final, tone].
+ */
+
+type Row = readonly [string, string, string, string, string, ToneId];
+
+const toAnalysis = ([, initial, medial, nucleus, final, tone]: Row): SyllableAnalysis => ({
+  initial,
+  medial,
+  nucleus,
+  final,
+  tone,
+});
+
+const runTable = (rows: readonly Row[]) => {
+  for (const row of rows) {
+    test(`analyzes "${row[0]}"`, () => {
+      expect(analyzeSyllable(row[0])).toEqual(toAnalysis(row));
+    });
+  }
+};
+
+test.describe('Vietnamese syllable analyzer', () => {
+  test.describe('initial consonants', () => {
+    runTable([
+      ['ba', 'b', '', 'a', '', 'ngang'],
+      ['ca', 'c', '', 'a', '', 'ngang'],
+      ['chó', 'ch', '', 'o', '', 'sắc'],
+      ['da', 'd', '', 'a', '', 'ngang'],
+      ['đi', 'đ', '', 'i', '', 'ngang'],
+      ['gà', 'g', '', 'a', '', 'huyền'],
+      ['ghế', 'gh', '', 'ê', '', 'sắc'],
+      ['gió', 'gi', '', 'o', '', 'sắc'],
+      ['hai', 'h', '', 'a', 'i', 'ngang'],
+      ['kem', 'k', '', 'e', 'm', 'ngang'],
+      ['không', 'kh', '', 'ô', 'ng', 'ngang'],
+      ['là', 'l', '', 'a', '', 'huyền'],
+      ['mẹ', 'm', '', 'e', '', 'nặng'],
+      ['năm', 'n', '', 'ă', 'm', 'ngang'],
+      ['ngủ', 'ng', '', 'u', '', 'hỏi'],
+      ['nghỉ', 'ngh', '', 'i', '', 'hỏi'],
+      ['nhà', 'nh', '', 'a', '', 'huyền'],
+      ['pin', 'p', '', 'i', 'n', 'ngang'],
+      ['phở', 'ph', '', 'ơ', '', 'hỏi'],
+      ['quê', 'q', 'u', 'ê', '', 'ngang'],
+      ['rau', 'r', '', 'a', 'u', 'ngang'],
+      ['sáu', 's', '', 'a', 'u', 'sắc'],
+      ['tôi', 't', '', 'ô', 'i', 'ngang'],
+      ['thịt', 'th', '', 'i', 't', 'nặng'],
+      ['trà', 'tr', '', 'a', '', 'huyền'],
+      ['về', 'v', '', 'ê', '', 'huyền'],
+      ['xe', 'x', '', 'e', '', 'ngang'],
+      ['ăn', '', '', 'ă', 'n', 'ngang'],
+      ['ở', '', '', 'ơ', '', 'hỏi'],
+      ['y', '', '', 'y', '', 'ngang'],
+    ]);
+  });
+
+  test.describe('gi and qu', () => {
+    runTable([
+      ['gì', 'g', '', 'i', '', 'huyền'],
+      ['gìn', 'g', '', 'i', 'n', 'huyền'],
+      ['gia', 'gi', '', 'a', '', 'ngang'],
+      ['giữa', 'gi', '', 'ưa', '', 'ngã'],
+      ['giếng', 'gi', '', 'ê', 'ng', 'sắc'],
+      ['giúp', 'gi', '', 'u', 'p', 'sắc'],
+      ['qua', 'q', 'u', 'a', '', 'ngang'],
+      ['quả', 'q', 'u', 'a', '', 'hỏi'],
+      ['quốc', 'q', 'u', 'ô', 'c', 'sắc'],
+      ['quý', 'q', 'u', 'y', '', 'sắc'],
+      ['quyển', 'q', 'u', 'yê', 'n', 'hỏi'],
+      ['quen', 'q', 'u', 'e', 'n', 'ngang'],
+    ]);
+  });
+
+  test.describe('medials', () => {
+    runTable([
+      ['hoa', 'h', 'o', 'a', '', 'ngang'],
+      ['xoắn', 'x', 'o', 'ă', 'n', 'sắc'],
+      ['khoẻ', 'kh', 'o', 'e', '', 'hỏi'],
+      ['ngoài', 'ng', 'o', 'a', 'i', 'huyền'],
+      ['xoay', 'x', 'o', 'a', 'y', 'ngang'],
+      ['ngoẹo', 'ng', 'o', 'e', 'o', 'nặng'],
+      ['xuân', 'x', 'u', 'â', 'n', 'ngang'],
+      ['khuây', 'kh', 'u', 'â', 'y', 'ngang'],
+      ['thuế', 'th', 'u', 'ê', '', 'sắc'],
+      ['thuở', 'th', 'u', 'ơ', '', 'hỏi'],
+      ['tuy', 't', 'u', 'y', '', 'ngang'],
+      ['khuya', 'kh', 'u', 'ya', '', 'ngang'],
+      ['chuyện', 'ch', 'u', 'yê', 'n', 'nặng'],
+      ['khuỷu', 'kh', 'u', 'y', 'u', 'hỏi'],
+    ]);
+  });
+
+  test.describe('diphthongs and final glides', () => {
+    runTable([
+      ['tiếng', 't', '', 'iê', 'ng', 'sắc'],
+      ['yêu', '', '', 'yê', 'u', 'ngang'],
+      ['chìa', 'ch', '', 'ia', '', 'huyền'],
+      ['muốn', 'm', '', 'uô', 'n', 'sắc'],
+      ['mua', 'm', '', 'ua', '', 'ngang'],
+      ['người', 'ng', '', 'ươ', 'i', 'huyền'],
+      ['rượu', 'r', '', 'ươ', 'u', 'nặng'],
+      ['mưa', 'm', '', 'ưa', '', 'ngang'],
+      ['xoong', 'x', '', 'oo', 'ng', 'ngang'],
+      ['mấy', 'm', '', 'â', 'y', 'sắc'],
+      ['cao', 'c', '', 'a', 'o', 'ngang'],
+      ['kêu', 'k', '', 'ê', 'u', 'ngang'],
+      ['hưu', 'h', '', 'ư', 'u', 'ngang'],
+      ['gửi', 'g', '', 'ư', 'i', 'hỏi'],
+      ['chiều', 'ch', '', 'iê', 'u', 'huyền'],
+      ['nuôi', 'n', '', 'uô', 'i', 'ngang'],
+    ]);
+  });
+
+  test.describe('final consonants', () => {
+    runTable([
+      ['các', 'c', '', 'a', 'c', 'sắc'],
+      ['sách', 's', '', 'a', 'ch', 'sắc'],
+      ['làm', 'l', '', 'a', 'm', 'huyền'],
+      ['bạn', 'b', '', 'a', 'n', 'nặng'],
+      ['sông', 's', '', 'ô', 'ng', 'ngang'],
+      ['nhanh', 'nh', '', 'a', 'nh', 'ngang'],
+      ['đẹp', 'đ', '', 'e', 'p', 'nặng'],
+      ['một', 'm', '', 'ô', 't', 'nặng'],
+    ]);
+  });
+
+  test.describe('all six tones', () => {
+    runTable([
+      ['ma', 'm', '', 'a', '', 'ngang'],
+      ['mà', 'm', '', 'a', '', 'huyền'],
+      ['má', 'm', '', 'a', '', 'sắc'],
+      ['mả', 'm', '', 'a', '', 'hỏi'],
+      ['mã', 'm', '', 'a', '', 'ngã'],
+      ['mạ', 'm', '', 'a', '', 'nặng'],
+    ]);
+  });
+
+  test.describe('tone mark placement', () => {
+    const pairs: readonly [string, string][] = [
+      ['hòa', 'hoà'],
+      ['khỏe', 'khoẻ'],
+      ['thủy', 'thuỷ'],
+      ['hóa', 'hoá'],
+    ];
+    for (const [oldStyle, newStyle] of pairs) {
+      test(`"${oldStyle}" and "${newStyle}" parse the same`, () => {
+        const analysis = analyzeSyllable(newStyle);
+        expect(analysis).not.toBeNull();
+        expect(analyzeSyllable(oldStyle)).toEqual(analysis);
+      });
+    }
+  });
+
+  test.describe('Unicode normalization', () => {
+    for (const syllable of ['việt', 'người', 'quyển', 'Đường', 'khoẻ']) {
+      test(`NFD "${syllable}" matches NFC`, () => {
+        const nfc = analyzeSyllable(syllable.normalize('NFC'));
+        expect(nfc).not.toBeNull();
+        expect(analyzeSyllable(syllable.normalize('NFD'))).toEqual(nfc);
+      });
+    }
+  });
+
+  test.describe('letter case', () => {
+    runTable([
+      ['Việt', 'V', '', 'iê', 't', 'nặng'],
+      ['NGHĨA', 'NGH', '', 'IA', '', 'ngã'],
+      ['Quốc', 'Q', 'u', 'ô', 'c', 'sắc'],
+    ]);
+  });
+
+  test.describe('invalid input', () => {
+    for (const input of ['', ' ', 'xyz', 'str', 'qu', 'bank', 'aia', 'hello', 'viet nam', 'a1', 'ng']) {
+      test(`rejects "${input}"`, () => {
+        expect(analyzeSyllable(input)).toBeNull();
+      });
+    }
+  });
+
+  test('parses every syllable in the word lists', () => {
+    // English loanwords kept in their source spelling
+    const loanwords = new Set([
+      'Email', 'Website', 'Code', 'Bug', 'Test', 'Deploy', 'Server', 'Database', 'API',
+      'Framework', 'Library', 'Version', 'Update', 'Review', 'Merge', 'Deadline',
+    ]);
+    const words = ([...greetings, ...numbers, ...daily, ...food, ...business] as Word[]).filter(
+      (word) => !loanwords.has(word.vietnamese)
+    );
+    const failures: string[] = [];
+
+    for (const word of words) {
+      for (const syllable of word.vietnamese.split(/[\s\-,.!?]+/).filter(Boolean)) {
+        const analysis = analyzeSyllable(syllable);
+        const bare = splitTone(syllable).bare;
+        const spelled = analysis
+          ? analysis.initial + analysis.medial + analysis.nucleus + analysis.final
+          : null;
+        if (spelled !== bare) {
+          failures.push(`${word.id}: ${syllable}`);
+        }
+      }
+    }
+
+    expect(failures).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+import { computeWaveformPeaks } from '@/lib/waveform';
+
+/**
+ * Waveform overview tests on synthetic samples.
+ * Runs without a browser.
+ */
+
+test.describe('Waveform peaks', () => {
+  test('returns one peak per bin scaled to the loudest bin', () => {
+    const samples = new Float32Array([0.1, -0.2, 0.4, -0.8, 0.2, 0.1]);
+    expect(computeWaveformPeaks(samples, 3)).toEqual([0.25, 1, 0.25]);
+  });
+
+  test('keeps silence at zero', () => {
+    expect(computeWaveformPeaks(new Float32Array(100), 4)).toEqual([0, 0, 0, 0]);
+  });
+
+  test('handles more bins than samples', () => {
+    const peaks = computeWaveformPeaks(new Float32Array([0.5, -1]), 4);
+    expect(peaks.length).toBe(4);
+    expect(Math.max(...peaks)).toBe(1);
+  });
+
+  test('returns no peaks for zero bins or no samples', () => {
+    expect(computeWaveformPeaks(new Float32Array([0.5]), 0)).toEqual([]);
+    expect(computeWaveformPeaks(new Float32Array(0), 3)).toEqual([0, 0, 0]);
+  });
+
+  test('shows where a clip gets louder', () => {
+    const samples = new Float32Array(1000).map((_, i) => (i / 1000) * Math.sin(i));
+    const peaks = computeWaveformPeaks(samples, 10);
+    for (let i = 1; i < peaks.length; i++) {
+      expect(peaks[i]).toBeGreaterThan(peaks[i - 1]);
+    }
+  });
+});
@@ -70,6 +70,8 @@ const nextConfig = withPWA({
     missingSuspenseWithCSRBailout: false,
     optimizeCss: true, // CSS optimization with critical CSS inlining
     optimizePackageImports: ['zustand', 'howler'],
+    // sql.js loads its WebAssembly file from its own package directory
+    serverComponentsExternalPackages: ['sql.js'],
   },
 
   // Headers for caching and security
@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+
+/**
+ * Build Audio Sprites
+ *
+ * Packs each category's word clips into one MP3 sprite with a JSON offset
+ * map, saved to public/audio/sprites/<category>.mp3 and <category>.json.
+ * The app plays words as segments of these sprites when they exist, so
+ * offline caching handles one file per category instead of one per word.
+ *
+ * Requires ffmpeg on the PATH. Words whose clip is missing are left out
+ * of the sprite and keep playing from their own file.
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync, spawnSync } = require('child_process');
+
+const ROOT = path.join(__dirname, '..');
+const PUBLIC_DIR = path.join(ROOT, 'public');
+const WORDS_DIR = path.join(ROOT, 'src/data/words');
+const CATEGORIES_FILE = path.join(ROOT, 'src/data/categories.json');
+const SPRITES_DIR = path.join(PUBLIC_DIR, 'audio/sprites');
+const SPRITES_URL = '/audio/sprites';
+
+const SAMPLE_RATE = 44100;
+const BIT_RATE = '128k';
+// Silence around each clip so encoder padding never cuts into a word
+const GAP_MS = 250;
+
+function hasFfmpeg() {
+  const result = spawnSync('ffmpeg', ['-version'], { stdio: 'ignore' });
+  return !result.error && result.status === 0;
+}
+
+// Decode a clip to mono 16-bit PCM
+function decodeClip(file) {
+  return execFileSync(
+    'ffmpeg',
+    ['-v', 'error', '-i', file, '-f', 's16le', '-ac', '1', '-ar', String(SAMPLE_RATE), '-'],
+    { maxBuffer: 64 * 1024 * 1024 }
+  );
+}
+
+function silence(ms) {
+  return Buffer.alloc(Math.round((SAMPLE_RATE * ms) / 1000) * 2);
+}
+
+const bytesToMs = (bytes) => Math.round((bytes / 2 / SAMPLE_RATE) * 1000);
+
+function buildSprite(categoryId) {
+  const wordsFile = path.join(WORDS_DIR, `${categoryId}.json`);
+  if (!fs.existsSync(wordsFile)) {
+    console.warn(`⚠️  No word list for ${categoryId}, skipping`);
+    return null;
+  }
+
+  const words = JSON.parse(fs.readFileSync(wordsFile, 'utf8'));
+  const gap = silence(GAP_MS);
+  const chunks = [gap];
+  let length = gap.length;
+  const sprite = {};
+  const urls = {};
+  const missing = [];
+
+  words.forEach((word) => {
+    const file = path.join(PUBLIC_DIR, word.audio_url);
+    if (!fs.existsSync(file)) {
+      missing.push(word.id);
+      return;
+    }
+
+    const pcm = decodeClip(file);
+    sprite[word.id] = [bytesToMs(length), bytesToMs(pcm.length)];
+    urls[word.id] = word.audio_url;
+    chunks.push(pcm, gap);
+    length += pcm.length + gap.length;
+  });
+
+  if (Object.keys(sprite).length === 0) {
+    console.warn(`⚠️  No clips found for ${categoryId}, skipping`);
+    return null;
+  }
+
+  const rawFile = path.join(os.tmpdir(), `sprite-${categoryId}-${process.pid}.raw`);
+  const mp3File = path.join(SPRITES_DIR, `${categoryId}.mp3`);
+  fs.writeFileSync(rawFile, Buffer.concat(chunks));
+  try {
+    execFileSync('ffmpeg', [
+      '-v', 'error', '-y',
+      '-f', 's16le', '-ac', '1', '-ar', String(SAMPLE_RATE), '-i', rawFile,
+      '-codec:a', 'libmp3lame', '-b:a', BIT_RATE,
+      mp3File,
+    ]);
+  } finally {
+    fs.unlinkSync(rawFile);
+  }
+
+  const manifest = { src: `${SPRITES_URL}/${categoryId}.mp3`, sprite, urls };
+  fs.writeFileSync(
+    path.join(SPRITES_DIR, `${categoryId}.json`),
+    JSON.stringify(manifest, null, 2) + '\n',
+    'utf8'
+  );
+
+  return { clips: Object.keys(sprite).length, missing };
+}
+
+function main() {
+  if (!hasFfmpeg()) {
+    console.error('❌ ffmpeg was not found. Install it to build audio sprites.');
+    process.exit(1);
+  }
+
+  fs.mkdirSync(SPRITES_DIR, { recursive: true });
+  const categories = JSON.parse(fs.readFileSync(CATEGORIES_FILE, 'utf8'));
+
+  categories.forEach((category) => {
+    const result = buildSprite(category.id);
+    if (!result) return;
+
+    console.log(`✅ ${category.id}: ${result.clips} clips`);
+    if (result.missing.length > 0) {
+      console.log(`   Missing clips: ${result.missing.join(', ')}`);
+    }
+  });
+}
+
+main();
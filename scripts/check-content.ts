@@ -0,0 +1,67 @@
+#!/usr/bin/env tsx
+
+/**
+ * Check Content Integrity
+ *
+ * Loads every JSON file in src/data through the data validators, checks IDs,
+ * category word counts and audio references, and prints one JSON report.
+ *
+ * Usage:
+ *   npm run check:content [-- --output=tmp/content-report.json]
+ *
+ * Exits with status 1 when the report has errors, so content PRs can be
+ * gated on it. Warnings are reported without failing.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { checkContentIntegrity, type ContentFile } from '@/lib/content-integrity';
+
+const ROOT = path.join(__dirname, '..');
+const DATA_DIR = path.join(ROOT, 'src/data');
+const PUBLIC_DIR = path.join(ROOT, 'public');
+const OUTPUT = process.argv.find((arg) => arg.startsWith('--output='))?.split('=')[1];
+
+// All JSON files under src/data, with paths relative to it
+function readContentFiles(dir: string = DATA_DIR): ContentFile[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry): ContentFile[] => {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) return readContentFiles(file);
+      if (!entry.name.endsWith('.json')) return [];
+
+      const relative = path.relative(DATA_DIR, file).split(path.sep).join('/');
+      try {
+        return [{ path: relative, data: JSON.parse(fs.readFileSync(file, 'utf8')) }];
+      } catch (error) {
+        // Unparseable files are reported as invalid by the checker
+        console.error(`❌ Could not parse ${relative}: ${(error as Error).message}`);
+        return [{ path: relative, data: null }];
+      }
+    });
+}
+
+const audioExists = (audioUrl: string) =>
+  audioUrl.startsWith('/') && fs.existsSync(path.join(PUBLIC_DIR, audioUrl));
+
+function main() {
+  const report = checkContentIntegrity(readContentFiles(), audioExists);
+  const json = JSON.stringify(report, null, 2);
+
+  if (OUTPUT) {
+    fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+    fs.writeFileSync(OUTPUT, json + '\n', 'utf8');
+  } else {
+    console.log(json);
+  }
+
+  const { files, records, errors, warnings } = report.summary;
+  console.error(
+    `${report.ok ? '✅' : '❌'} ${files} files, ${records} records: ${errors} errors, ${warnings} warnings`
+  );
+  process.exit(report.ok ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,172 @@
+#!/usr/bin/env tsx
+
+/**
+ * Lint Audio
+ *
+ * Decodes every MP3 under public/audio, measures duration, size, bit rate,
+ * peak/RMS level, noise floor and silence at both ends, and prints one JSON
+ * report of the files that break AUDIO_RECORDING_SPECS.
+ *
+ * Usage:
+ *   npm run lint:audio [-- --fix] [-- --output=tmp/audio-report.json]
+ *
+ * With --fix, files are trimmed and normalized to the target peak level in
+ * place, then measured again. Generated sprites are skipped.
+ *
+ * Requires ffmpeg on the PATH. Exits with status 1 when any file breaks
+ * the specs.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { AUDIO_RECORDING_LIMITS } from '@/lib/audio';
+import {
+  findAudioQualityViolations,
+  measureAudioQuality,
+  planAudioFix,
+  type AudioFixPlan,
+  type AudioQualityMetrics,
+  type AudioQualityViolation,
+} from '@/lib/audio-quality';
+
+const ROOT = path.join(__dirname, '..');
+const AUDIO_DIR = path.join(ROOT, 'public/audio');
+const SPRITES_DIR = path.join(AUDIO_DIR, 'sprites');
+const FIX = process.argv.includes('--fix');
+const OUTPUT = process.argv.find((arg) => arg.startsWith('--output='))?.split('=')[1];
+
+interface FileReport {
+  readonly file: string;
+  /** Null when the file could not be decoded */
+  readonly metrics: AudioQualityMetrics | null;
+  readonly violations: readonly AudioQualityViolation[];
+  /** Edits applied with --fix */
+  readonly fixed?: AudioFixPlan;
+  readonly error?: string;
+}
+
+function hasFfmpeg() {
+  const result = spawnSync('ffmpeg', ['-version'], { stdio: 'ignore' });
+  return !result.error && result.status === 0;
+}
+
+function findMp3Files(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) return file === SPRITES_DIR ? [] : findMp3Files(file);
+      return entry.name.endsWith('.mp3') ? [file] : [];
+    });
+}
+
+// Decode to mono 32-bit float samples at the file's own sample rate
+function decode(file: string): { samples: Float32Array; sampleRate: number } {
+  const result = spawnSync(
+    'ffmpeg',
+    ['-hide_banner', '-i', file, '-f', 'f32le', '-ac', '1', '-'],
+    { maxBuffer: 256 * 1024 * 1024 }
+  );
+  if (result.status !== 0) {
+    throw new Error(`ffmpeg could not decode ${file}: ${result.stderr.toString().trim()}`);
+  }
+
+  const sampleRate = Number(result.stderr.toString().match(/Audio:.*?(\d+) Hz/)?.[1]);
+  const data = result.stdout;
+  const samples = new Float32Array(
+    data.buffer.slice(data.byteOffset, data.byteOffset + data.length - (data.length % 4))
+  );
+  return { samples, sampleRate };
+}
+
+function measure(file: string): AudioQualityMetrics {
+  const { samples, sampleRate } = decode(file);
+  return measureAudioQuality(samples, sampleRate, fs.statSync(file).size);
+}
+
+// Trim and normalize a file in place
+function applyFix(file: string, metrics: AudioQualityMetrics, plan: AudioFixPlan) {
+  const end = metrics.durationSeconds - plan.trimEndSeconds;
+  const filters = [
+    `atrim=start=${plan.trimStartSeconds}:end=${end}`,
+    'asetpts=PTS-STARTPTS',
+    `volume=${plan.gainDb}dB`,
+  ].join(',');
+  const output = path.join(os.tmpdir(), `lint-audio-${process.pid}.mp3`);
+
+  const result = spawnSync('ffmpeg', [
+    '-v', 'error', '-y', '-i', file,
+    '-af', filters,
+    '-ac', '1', '-ar', String(AUDIO_RECORDING_LIMITS.sampleRate),
+    '-codec:a', 'libmp3lame', '-b:a', `${AUDIO_RECORDING_LIMITS.bitRateKbps}k`,
+    output,
+  ]);
+  if (result.status !== 0) {
+    throw new Error(`ffmpeg could not fix ${file}: ${result.stderr.toString().trim()}`);
+  }
+  fs.copyFileSync(output, file);
+  fs.unlinkSync(output);
+}
+
+function lintFile(file: string): FileReport {
+  const url = `/${path.relative(path.join(ROOT, 'public'), file).split(path.sep).join('/')}`;
+  try {
+    let metrics = measure(file);
+    let fixed: AudioFixPlan | undefined;
+
+    const plan = FIX ? planAudioFix(metrics) : null;
+    if (plan) {
+      applyFix(file, metrics, plan);
+      metrics = measure(file);
+      fixed = plan;
+    }
+
+    return { file: url, metrics, violations: findAudioQualityViolations(metrics), fixed };
+  } catch (error) {
+    return { file: url, metrics: null, violations: [], error: (error as Error).message };
+  }
+}
+
+function main() {
+  if (!hasFfmpeg()) {
+    console.error('❌ ffmpeg was not found. Install it to lint audio files.');
+    process.exit(1);
+  }
+
+  const files = findMp3Files(AUDIO_DIR).map(lintFile);
+  const failing = files.filter((file) => file.violations.length > 0 || file.error);
+  const levels = files.flatMap((file) => (file.metrics ? [file.metrics.rmsDb] : []));
+  const report = {
+    ok: failing.length === 0,
+    summary: {
+      files: files.length,
+      failing: failing.length,
+      violations: failing.reduce((sum, file) => sum + file.violations.length, 0),
+      fixed: files.filter((file) => file.fixed).length,
+      // Spread of loudness between clips
+      rmsRangeDb: levels.length > 0 ? [Math.min(...levels), Math.max(...levels)] : null,
+    },
+    // Files that break the specs or were changed by --fix
+    files: files.filter((file) => failing.includes(file) || file.fixed),
+  };
+  const json = JSON.stringify(report, null, 2);
+
+  if (OUTPUT) {
+    fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+    fs.writeFileSync(OUTPUT, json + '\n', 'utf8');
+  } else {
+    console.log(json);
+  }
+
+  const { summary } = report;
+  console.error(
+    `${report.ok ? '✅' : '❌'} ${summary.files} files: ${summary.failing} failing, ${summary.fixed} fixed`
+  );
+  process.exit(report.ok ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { decks } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { isDeckId, toDeck, validateDeckInput } from '@/lib/decks';
+
+interface DeckRouteContext {
+  params: { id: string };
+}
+
+// GET: Fetch one of the user's decks
+export async function GET(_request: NextRequest, { params }: DeckRouteContext) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isDeckId(params.id)) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    const [row] = await db.select()
+      .from(decks)
+      .where(and(eq(decks.id, params.id), eq(decks.userId, session.user.id)));
+
+    if (!row) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deck: toDeck(row) });
+  } catch (error) {
+    console.error('Deck GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Create or replace a deck. A copy edited more recently on the server wins.
+export async function PUT(request: NextRequest, { params }: DeckRouteContext) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isDeckId(params.id)) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    const deck = await request.json();
+
+    const error = validateDeckInput(deck);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const updatedAt = deck.updated_at ? new Date(deck.updated_at) : new Date();
+    if (isNaN(updatedAt.getTime())) {
+      return NextResponse.json({ error: 'updated_at must be a valid date' }, { status: 400 });
+    }
+
+    const createdAt = deck.created_at ? new Date(deck.created_at) : updatedAt;
+    if (isNaN(createdAt.getTime())) {
+      return NextResponse.json({ error: 'created_at must be a valid date' }, { status: 400 });
+    }
+
+    const userId = session.user.id;
+    const [existing] = await db.select()
+      .from(decks)
+      .where(eq(decks.id, params.id));
+
+    // Deck IDs are global; never touch another user's deck
+    if (existing && existing.userId !== userId) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    if (existing && existing.updatedAt > updatedAt) {
+      return NextResponse.json(
+        { error: 'Deck was changed on another device', deck: toDeck(existing) },
+        { status: 409 }
+      );
+    }
+
+    const values = {
+      name: deck.name.trim(),
+      description: deck.description,
+      wordIds: deck.word_ids,
+      entries: deck.entries,
+      updatedAt,
+    };
+
+    const [saved] = existing
+      ? await db.update(decks)
+          .set(values)
+          .where(and(eq(decks.id, params.id), eq(decks.userId, userId)))
+          .returning()
+      : await db.insert(decks)
+          .values({
+            ...values,
+            id: params.id,
+            userId,
+            createdAt,
+          })
+          .returning();
+
+    return NextResponse.json({ deck: toDeck(saved) });
+  } catch (error) {
+    console.error('Deck PUT error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Remove one of the user's decks
+export async function DELETE(_request: NextRequest, { params }: DeckRouteContext) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isDeckId(params.id)) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    const deleted = await db.delete(decks)
+      .where(and(eq(decks.id, params.id), eq(decks.userId, session.user.id)))
+      .returning({ id: decks.id });
+
+    return NextResponse.json({
+      success: true,
+      deleted: deleted.length,
+    });
+  } catch (error) {
+    console.error('Deck DELETE error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildAnkiPackage, validateAnkiDeckInput, type AnkiDeckInput } from '@/lib/anki';
+
+// POST: Write the posted words as an Anki package. No sign-in needed: the
+// words come from the request, so built-in and offline decks export alike.
+export async function POST(request: NextRequest) {
+  try {
+    const deck = await request.json();
+
+    const error = validateAnkiDeckInput(deck);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const apkg = await buildAnkiPackage(deck as AnkiDeckInput);
+
+    return new NextResponse(apkg, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': 'attachment; filename="deck.apkg"',
+      },
+    });
+  } catch (error) {
+    console.error('Deck export POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
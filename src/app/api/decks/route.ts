@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { decks } from '@/lib/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { isDeckId, toDeck, validateDeckInput } from '@/lib/decks';
+
+// GET: Fetch the user's custom decks
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rows = await db.select()
+      .from(decks)
+      .where(eq(decks.userId, session.user.id))
+      .orderBy(desc(decks.updatedAt));
+
+    return NextResponse.json({ decks: rows.map(toDeck) });
+  } catch (error) {
+    console.error('Decks GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Create a deck (the client may supply its own ID for offline-created decks)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deck = await request.json();
+
+    const error = validateDeckInput(deck);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (deck.id !== undefined && !isDeckId(deck.id)) {
+      return NextResponse.json({ error: 'id must be a UUID' }, { status: 400 });
+    }
+
+    const [created] = await db.insert(decks)
+      .values({
+        ...(deck.id && { id: deck.id }),
+        userId: session.user.id,
+        name: deck.name.trim(),
+        description: deck.description,
+        wordIds: deck.word_ids,
+        entries: deck.entries,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!created) {
+      return NextResponse.json({ error: 'Deck already exists' }, { status: 409 });
+    }
+
+    return NextResponse.json({ deck: toDeck(created) }, { status: 201 });
+  } catch (error) {
+    console.error('Decks POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { wordReviews } from '@/lib/db/schema';
+import { and, desc, eq, gte, lte, type SQL } from 'drizzle-orm';
+import { isActivityType, isReviewGrade } from '@/types';
+
+/** Maximum number of review events accepted in one POST */
+const MAX_BATCH_SIZE = 500;
+
+/** Maximum number of review events returned by one GET */
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Validate a single review event from the request body
+ * @returns Error message, or null if the review is valid
+ */
+const validateReview = (review: unknown): string | null => {
+  if (!review || typeof review !== 'object') {
+    return 'Review must be an object';
+  }
+
+  const data = review as Record<string, unknown>;
+
+  if (typeof data.word_id !== 'string' || data.word_id.length === 0 || data.word_id.length > 100) {
+    return 'word_id must be a non-empty string (max 100 characters)';
+  }
+
+  if (!isActivityType(data.activity_type)) {
+    return 'Invalid activity type';
+  }
+
+  if (typeof data.is_correct !== 'boolean') {
+    return 'is_correct must be a boolean';
+  }
+
+  if (data.grade !== undefined && data.grade !== null && !isReviewGrade(data.grade)) {
+    return 'Invalid grade';
+  }
+
+  if (
+    data.response_time_ms !== undefined &&
+    data.response_time_ms !== null &&
+    (typeof data.response_time_ms !== 'number' || data.response_time_ms < 0)
+  ) {
+    return 'response_time_ms must be a non-negative number';
+  }
+
+  if (data.reviewed_at !== undefined && isNaN(new Date(data.reviewed_at as string).getTime())) {
+    return 'reviewed_at must be a valid date';
+  }
+
+  return null;
+};
+
+// GET: Fetch user's review history with optional filters
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit') || '100');
+    const offset = Number(searchParams.get('offset') || '0');
+    const wordId = searchParams.get('wordId');
+    const activityType = searchParams.get('activityType');
+    const correct = searchParams.get('correct');
+    const since = searchParams.get('since');
+    const until = searchParams.get('until');
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'limit must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'offset must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+    const conditions: SQL[] = [eq(wordReviews.userId, session.user.id)];
+
+    if (wordId) {
+      conditions.push(eq(wordReviews.wordId, wordId));
+    }
+
+    if (activityType) {
+      if (!isActivityType(activityType)) {
+        return NextResponse.json(
+          { error: 'Invalid activity type' },
+          { status: 400 }
+        );
+      }
+      conditions.push(eq(wordReviews.activityType, activityType));
+    }
+
+    if (correct === 'true' || correct === 'false') {
+      conditions.push(eq(wordReviews.isCorrect, correct === 'true'));
+    }
+
+    for (const [value, name] of [[since, 'since'], [until, 'until']] as const) {
+      if (value && isNaN(new Date(value).getTime())) {
+        return NextResponse.json(
+          { error: `Invalid ${name} date` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (since) {
+      conditions.push(gte(wordReviews.reviewedAt, new Date(since)));
+    }
+
+    if (until) {
+      conditions.push(lte(wordReviews.reviewedAt, new Date(until)));
+    }
+
+    const reviews = await db.select()
+      .from(wordReviews)
+      .where(and(...conditions))
+      .orderBy(desc(wordReviews.reviewedAt))
+      .limit(pageSize)
+      .offset(offset);
+
+    return NextResponse.json({
+      reviews,
+      hasMore: reviews.length === pageSize,
+    });
+  } catch (error) {
+    console.error('Reviews GET error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Record a batch of review events
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { reviews } = await request.json();
+
+    if (!Array.isArray(reviews) || reviews.length === 0) {
+      return NextResponse.json(
+        { error: 'reviews must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+
+    if (reviews.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `Too many reviews (max ${MAX_BATCH_SIZE} per request)` },
+        { status: 400 }
+      );
+    }
+
+    for (let i = 0; i < reviews.length; i++) {
+      const error = validateReview(reviews[i]);
+      if (error) {
+        return NextResponse.json(
+          { error: `Review ${i}: ${error}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const userId = session.user.id;
+    const inserted = await db.insert(wordReviews)
+      .values(
+        reviews.map((review) => ({
+          userId,
+          wordId: review.word_id,
+          activityType: review.activity_type,
+          isCorrect: review.is_correct,
+          grade: review.grade ?? null,
+          responseTimeMs: review.response_time_ms != null ? Math.round(review.response_time_ms) : null,
+          reviewedAt: review.reviewed_at ? new Date(review.reviewed_at) : new Date(),
+        }))
+      )
+      .returning({ id: wordReviews.id });
+
+    return NextResponse.json({
+      success: true,
+      inserted: inserted.length,
+    });
+  } catch (error) {
+    console.error('Reviews POST error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
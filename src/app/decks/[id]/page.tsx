@@ -0,0 +1,376 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import DeckExportButtons from '@/components/DeckExportButtons';
+import VietnameseInput from '@/components/VietnameseInput';
+import { ALL_CATEGORIES, CATEGORIES } from '@/lib/categories';
+import {
+  getDeckCategoryId,
+  resolveDeckWords,
+  validateDeckEntry,
+  MAX_DECK_NAME_LENGTH,
+} from '@/lib/decks';
+import { useWordIndex } from '@/lib/hooks/useWordIndex';
+import { useDeck, useDeckActions } from '@/stores/deckStore';
+import type { Deck, DeckEntry } from '@/types';
+
+/** Maximum number of catalog search results shown at once */
+const MAX_SEARCH_RESULTS = 50;
+
+const EMPTY_ENTRY = {
+  vietnamese: '',
+  japanese: '',
+  pronunciation: '',
+  exampleVietnamese: '',
+  exampleJapanese: '',
+};
+
+const inputClassName =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+function DeckDetails({ deck }: { deck: Deck }) {
+  const { updateDeck } = useDeckActions();
+  const [name, setName] = useState(deck.name);
+  const [description, setDescription] = useState(deck.description);
+  const isChanged = name.trim() !== deck.name || description !== deck.description;
+
+  return (
+    <div className="bg-white rounded-lg shadow-xl p-6 mb-6 space-y-4">
+      <div>
+        <label htmlFor="deck-name" className="block text-sm font-medium text-gray-700 mb-1">
+          デッキ名
+        </label>
+        <input
+          id="deck-name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={MAX_DECK_NAME_LENGTH}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor="deck-description" className="block text-sm font-medium text-gray-700 mb-1">
+          説明
+        </label>
+        <input
+          id="deck-description"
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <button
+        onClick={() => updateDeck(deck.id, { name, description })}
+        disabled={!isChanged || !name.trim()}
+        className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50"
+      >
+        保存
+      </button>
+    </div>
+  );
+}
+
+function CatalogPicker({ deck }: { deck: Deck }) {
+  const { updateDeck } = useDeckActions();
+  const wordIndex = useWordIndex();
+  const [query, setQuery] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<string>(ALL_CATEGORIES);
+  const selected = useMemo(() => new Set(deck.word_ids), [deck.word_ids]);
+
+  const results = useMemo(() => {
+    if (!wordIndex) return [];
+    const pool =
+      categoryFilter === ALL_CATEGORIES
+        ? wordIndex.words
+        : (wordIndex.byCategory.get(categoryFilter) ?? []);
+    const needle = query.trim().toLowerCase();
+    return pool
+      .filter(
+        (word) =>
+          !needle ||
+          word.vietnamese.toLowerCase().includes(needle) ||
+          word.japanese.includes(needle) ||
+          word.pronunciation.includes(needle)
+      )
+      .slice(0, MAX_SEARCH_RESULTS);
+  }, [wordIndex, categoryFilter, query]);
+
+  const toggle = (wordId: string) =>
+    updateDeck(deck.id, {
+      word_ids: selected.has(wordId)
+        ? deck.word_ids.filter((id) => id !== wordId)
+        : [...deck.word_ids, wordId],
+    });
+
+  return (
+    <div className="bg-white rounded-lg shadow-xl p-6 mb-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">収録単語から選ぶ</h2>
+      <p className="text-sm text-gray-600 mb-4">選択中 {deck.word_ids.length}語</p>
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="ベトナム語・日本語・読みで検索"
+          aria-label="単語を検索"
+          className={inputClassName}
+        />
+        <select
+          value={categoryFilter}
+          onChange={(event) => setCategoryFilter(event.target.value)}
+          aria-label="カテゴリーで絞り込み"
+          className="px-4 py-2 border border-gray-300 rounded-lg"
+        >
+          <option value={ALL_CATEGORIES}>全カテゴリー</option>
+          {CATEGORIES.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.icon} {category.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      {!wordIndex ? (
+        <p className="text-gray-600">読み込み中...</p>
+      ) : (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+          {results.map((word) => (
+            <li key={word.id}>
+              <label className="flex items-center gap-3 py-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(word.id)}
+                  onChange={() => toggle(word.id)}
+                  className="w-4 h-4"
+                />
+                <span className="font-medium text-gray-900">{word.vietnamese}</span>
+                <span className="text-sm text-gray-600">{word.japanese}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function PersonalEntries({ deck }: { deck: Deck }) {
+  const { updateDeck } = useDeckActions();
+  const [form, setForm] = useState(EMPTY_ENTRY);
+  const [error, setError] = useState<string | null>(null);
+
+  const setField = (field: keyof typeof EMPTY_ENTRY) => (value: string) =>
+    setForm((current) => ({ ...current, [field]: value }));
+
+  const handleAdd = () => {
+    const hasExample = form.exampleVietnamese.trim() || form.exampleJapanese.trim();
+    const entry: DeckEntry = {
+      id: crypto.randomUUID(),
+      vietnamese: form.vietnamese.trim(),
+      japanese: form.japanese.trim(),
+      pronunciation: form.pronunciation.trim(),
+      ...(hasExample && {
+        example_sentence: {
+          vietnamese: form.exampleVietnamese.trim(),
+          japanese: form.exampleJapanese.trim(),
+        },
+      }),
+    };
+
+    if (validateDeckEntry(entry)) {
+      setError(
+        hasExample
+          ? 'ベトナム語と日本語、例文の両方を入力してください'
+          : 'ベトナム語と日本語を入力してください'
+      );
+      return;
+    }
+
+    updateDeck(deck.id, { entries: [...deck.entries, entry] });
+    setForm(EMPTY_ENTRY);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-xl p-6 mb-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">マイ単語を追加</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">ベトナム語</label>
+          <VietnameseInput
+            value={form.vietnamese}
+            onChange={setField('vietnamese')}
+            aria-label="ベトナム語"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="entry-japanese" className="block text-sm font-medium text-gray-700 mb-1">
+            日本語
+          </label>
+          <input
+            id="entry-japanese"
+            value={form.japanese}
+            onChange={(event) => setField('japanese')(event.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="entry-pronunciation" className="block text-sm font-medium text-gray-700 mb-1">
+            読み（カタカナ・任意）
+          </label>
+          <input
+            id="entry-pronunciation"
+            value={form.pronunciation}
+            onChange={(event) => setField('pronunciation')(event.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div />
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">例文（任意）</label>
+          <VietnameseInput
+            value={form.exampleVietnamese}
+            onChange={setField('exampleVietnamese')}
+            aria-label="例文（ベトナム語）"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="entry-example-japanese" className="block text-sm font-medium text-gray-700 mb-1">
+            例文の訳（任意）
+          </label>
+          <input
+            id="entry-example-japanese"
+            value={form.exampleJapanese}
+            onChange={(event) => setField('exampleJapanese')(event.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      {error && (
+        <p className="text-sm text-red-600 mb-3" role="alert">
+          {error}
+        </p>
+      )}
+      <button
+        onClick={handleAdd}
+        className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+      >
+        追加
+      </button>
+
+      <Link
+        href={`/decks/import?deck=${deck.id}`}
+        className="ml-4 text-primary-600 hover:text-primary-700 font-medium"
+      >
+        CSV・TSVから取り込む
+      </Link>
+
+      {deck.entries.length > 0 && (
+        <ul className="mt-6 divide-y divide-gray-100">
+          {deck.entries.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between gap-3 py-2">
+              <div>
+                <span className="font-medium text-gray-900">{entry.vietnamese}</span>{' '}
+                <span className="text-sm text-gray-600">
+                  {entry.japanese}
+                  {entry.pronunciation && `（${entry.pronunciation}）`}
+                </span>
+              </div>
+              <button
+                onClick={() =>
+                  updateDeck(deck.id, {
+                    entries: deck.entries.filter((other) => other.id !== entry.id),
+                  })
+                }
+                className="text-sm text-red-600 hover:text-red-700"
+                aria-label={`${entry.vietnamese}を削除`}
+              >
+                削除
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Deck editor: name, catalog words and personal entries
+ */
+export default function DeckEditorPage() {
+  const router = useRouter();
+  const params = useParams();
+  const deckId = typeof params.id === 'string' ? params.id : null;
+  const deck = useDeck(deckId);
+  const { deleteDeck } = useDeckActions();
+  const wordIndex = useWordIndex();
+  const words = useMemo(
+    () => (deck && wordIndex ? resolveDeckWords(deck, wordIndex) : null),
+    [deck, wordIndex]
+  );
+
+  if (!deck) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl text-center">
+        <p className="text-gray-600 mb-6">デッキが見つかりませんでした</p>
+        <Link href="/decks" className="text-primary-600 hover:text-primary-700 font-medium">
+          ← マイデッキに戻る
+        </Link>
+      </div>
+    );
+  }
+
+  const handleDelete = () => {
+    if (window.confirm(`「${deck.name}」を削除しますか？`)) {
+      deleteDeck(deck.id);
+      router.push('/decks');
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <Link href="/decks" className="text-gray-500 hover:text-gray-700" aria-label="マイデッキに戻る">
+            ← 戻る
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">🗂️ {deck.name}</h1>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Link
+            href={`/flashcards/${getDeckCategoryId(deck.id)}`}
+            className="px-4 py-2 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+          >
+            単語カードで学習
+          </Link>
+          <Link
+            href={`/quiz?category=${getDeckCategoryId(deck.id)}`}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
+          >
+            クイズ
+          </Link>
+        </div>
+      </div>
+
+      <DeckDetails key={deck.updated_at} deck={deck} />
+      <CatalogPicker deck={deck} />
+      <PersonalEntries deck={deck} />
+
+      <div className="bg-white rounded-lg shadow-xl p-6 mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">書き出し</h2>
+        <DeckExportButtons name={deck.name} description={deck.description} words={words} />
+      </div>
+
+      <button
+        onClick={handleDelete}
+        className="px-6 py-3 bg-red-50 text-red-600 rounded-lg font-medium hover:bg-red-100 transition-colors"
+      >
+        デッキを削除
+      </button>
+    </div>
+  );
+}
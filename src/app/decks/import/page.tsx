@@ -0,0 +1,260 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { MAX_DECK_NAME_LENGTH } from '@/lib/decks';
+import {
+  guessColumnMapping,
+  importRows,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  parseImportFile,
+  type ColumnMapping,
+  type ImportField,
+  type ParsedImportFile,
+} from '@/lib/deck-transfer';
+import { useDeckActions, useDecks } from '@/stores/deckStore';
+
+/** Rows shown in the preview table */
+const PREVIEW_ROWS = 5;
+
+/** Target value for creating a new deck */
+const NEW_DECK = 'new' as const;
+
+const inputClassName =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+/**
+ * Import wizard: CSV/TSV file → column mapping → row report → deck
+ */
+export default function DeckImportPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const decks = useDecks();
+  const { createDeck, updateDeck } = useDeckActions();
+
+  const [file, setFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [target, setTarget] = useState<string>(searchParams.get('deck') || NEW_DECK);
+  const [deckName, setDeckName] = useState('');
+
+  const targetDeck = decks.find((deck) => deck.id === target);
+  const columnCount = file ? Math.max(0, ...file.rows.map((row) => row.length)) : 0;
+
+  const result = useMemo(
+    () => (file && mapping ? importRows(file, mapping, hasHeader, targetDeck) : null),
+    [file, mapping, hasHeader, targetDeck]
+  );
+
+  const loadText = (text: string, fileName?: string) => {
+    const parsed = parseImportFile(text);
+    const guess = guessColumnMapping(parsed.rows[0] ?? []);
+    setFile(parsed);
+    setMapping(guess.mapping);
+    setHasHeader(guess.hasHeader);
+    if (fileName) setDeckName(fileName.replace(/\.[^.]+$/, '').slice(0, MAX_DECK_NAME_LENGTH));
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (selected) loadText(await selected.text(), selected.name);
+  };
+
+  const setColumn = (field: ImportField, value: string) =>
+    setMapping((current) => current && { ...current, [field]: value === '' ? null : Number(value) });
+
+  const canImport =
+    result !== null &&
+    result.entries.length > 0 &&
+    (target !== NEW_DECK || deckName.trim().length > 0);
+
+  const handleImport = () => {
+    if (!result || !canImport) return;
+    if (targetDeck) {
+      updateDeck(targetDeck.id, { entries: [...targetDeck.entries, ...result.entries] });
+      router.push(`/decks/${targetDeck.id}`);
+    } else {
+      const deck = createDeck({
+        name: deckName,
+        description: '',
+        word_ids: [],
+        entries: result.entries,
+      });
+      router.push(`/decks/${deck.id}`);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="mb-8">
+        <Link href="/decks" className="text-gray-500 hover:text-gray-700">
+          ← マイデッキに戻る
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mt-2 mb-2">単語ファイルの取り込み</h1>
+        <p className="text-gray-600">
+          CSV・TSV（UTF-8）からマイ単語を取り込めます。Ankiの「ノートをプレーンテキストで書き出す」で作ったファイルもそのまま使えます。
+        </p>
+      </div>
+
+      {/* Step 1: File */}
+      <div className="bg-white rounded-lg shadow-xl p-6 mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">1. ファイルを選ぶ</h2>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+          onChange={handleFile}
+          aria-label="取り込むファイル"
+          className="block w-full text-sm text-gray-700"
+        />
+        {file && (
+          <p className="text-sm text-gray-600 mt-3">
+            {file.rows.length}行・{columnCount}列（区切り文字: {file.delimiter === '\t' ? 'タブ' : file.delimiter}）
+          </p>
+        )}
+      </div>
+
+      {file && mapping && result && (
+        <>
+          {/* Step 2: Column Mapping */}
+          <div className="bg-white rounded-lg shadow-xl p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">2. 列を割り当てる</h2>
+            <label className="flex items-center gap-2 mb-4 text-gray-700">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={(event) => setHasHeader(event.target.checked)}
+                className="w-4 h-4"
+              />
+              1行目は見出し
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field}>
+                  <label
+                    htmlFor={`column-${field}`}
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    {IMPORT_FIELD_LABELS[field]}
+                    {(field === 'vietnamese' || field === 'japanese') && '（必須）'}
+                  </label>
+                  <select
+                    id={`column-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(event) => setColumn(field, event.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value="">使わない</option>
+                    {Array.from({ length: columnCount }, (_, column) => (
+                      <option key={column} value={column}>
+                        {column + 1}列目
+                        {hasHeader && file.rows[0][column] ? `（${file.rows[0][column]}）` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {/* Preview */}
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    {IMPORT_FIELDS.map((field) => (
+                      <th key={field} className="px-2 py-1 font-medium">
+                        {IMPORT_FIELD_LABELS[field]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {file.rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS).map((row, index) => (
+                    <tr key={index} className="border-t border-gray-100">
+                      {IMPORT_FIELDS.map((field) => {
+                        const column = mapping[field];
+                        return (
+                          <td key={field} className="px-2 py-1 text-gray-900">
+                            {column === null ? '' : (row[column] ?? '')}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Step 3: Report and Target */}
+          <div className="bg-white rounded-lg shadow-xl p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">3. 確認して取り込む</h2>
+            <p className="text-gray-700 mb-4">
+              取り込める単語: <span className="font-bold">{result.entries.length}語</span>
+              {result.errors.length > 0 && (
+                <span className="text-red-600">・問題のある行: {result.errors.length}行（取り込まれません）</span>
+              )}
+            </p>
+
+            {result.errors.length > 0 && (
+              <ul className="max-h-60 overflow-y-auto mb-6 border border-red-100 rounded-lg divide-y divide-red-100">
+                {result.errors.map((rowError) => (
+                  <li key={rowError.row} className="px-4 py-2 text-sm">
+                    <span className="font-semibold text-gray-900">{rowError.row}行目:</span>{' '}
+                    <span className="text-red-600">{rowError.messages.join('、')}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              <div>
+                <label htmlFor="import-target" className="block text-sm font-medium text-gray-700 mb-1">
+                  取り込み先
+                </label>
+                <select
+                  id="import-target"
+                  value={target}
+                  onChange={(event) => setTarget(event.target.value)}
+                  className={inputClassName}
+                >
+                  <option value={NEW_DECK}>新しいデッキ</option>
+                  {decks.map((deck) => (
+                    <option key={deck.id} value={deck.id}>
+                      {deck.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {target === NEW_DECK && (
+                <div>
+                  <label htmlFor="import-deck-name" className="block text-sm font-medium text-gray-700 mb-1">
+                    デッキ名
+                  </label>
+                  <input
+                    id="import-deck-name"
+                    value={deckName}
+                    onChange={(event) => setDeckName(event.target.value)}
+                    maxLength={MAX_DECK_NAME_LENGTH}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </div>
+
+            <button
+              onClick={handleImport}
+              disabled={!canImport}
+              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50"
+            >
+              {result.entries.length}語を取り込む
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
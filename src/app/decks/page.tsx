@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import DeckExportButtons from '@/components/DeckExportButtons';
+import { CATEGORIES } from '@/lib/categories';
+import { getDeckCategoryId, MAX_DECK_NAME_LENGTH } from '@/lib/decks';
+import { useWordIndex } from '@/lib/hooks/useWordIndex';
+import { useDeckActions, useDecks } from '@/stores/deckStore';
+
+export default function DecksPage() {
+  const router = useRouter();
+  const decks = useDecks();
+  const { createDeck, syncDecks } = useDeckActions();
+  const wordIndex = useWordIndex();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  // Pull decks edited on other devices
+  useEffect(() => {
+    syncDecks();
+  }, [syncDecks]);
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    const deck = createDeck({ name, description, word_ids: [], entries: [] });
+    router.push(`/decks/${deck.id}`);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">マイデッキ</h1>
+        <p className="text-gray-600">
+          収録単語から選んだり、自分の単語（製品名や現場の用語など）を追加したりして、オリジナルの単語帳を作れます。作ったデッキは単語カードとすべてのクイズで学習できます。
+        </p>
+      </div>
+
+      {/* New Deck */}
+      <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-xl p-6 mb-8 space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">新しいデッキ</h2>
+        <div>
+          <label htmlFor="deck-name" className="block text-sm font-medium text-gray-700 mb-1">
+            デッキ名
+          </label>
+          <input
+            id="deck-name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={MAX_DECK_NAME_LENGTH}
+            placeholder="例: 工場でよく使う言葉"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="deck-description" className="block text-sm font-medium text-gray-700 mb-1">
+            説明（任意）
+          </label>
+          <input
+            id="deck-description"
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50"
+        >
+          作成して単語を追加
+        </button>
+        <Link href="/decks/import" className="ml-4 text-primary-600 hover:text-primary-700 font-medium">
+          CSV・TSV・Ankiのファイルから作成
+        </Link>
+      </form>
+
+      {/* Deck List */}
+      {decks.length === 0 ? (
+        <p className="text-center text-gray-600">まだデッキがありません</p>
+      ) : (
+        <ul className="space-y-4">
+          {decks.map((deck) => (
+            <li key={deck.id} className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex flex-wrap justify-between items-start gap-4">
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900">🗂️ {deck.name}</h2>
+                  {deck.description && <p className="text-sm text-gray-600">{deck.description}</p>}
+                  <p className="text-sm text-gray-500 mt-1">
+                    収録単語 {deck.word_ids.length}語 ・ マイ単語 {deck.entries.length}語
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Link
+                    href={`/flashcards/${getDeckCategoryId(deck.id)}`}
+                    className="px-4 py-2 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+                  >
+                    単語カード
+                  </Link>
+                  <Link
+                    href={`/quiz?category=${getDeckCategoryId(deck.id)}`}
+                    className="px-4 py-2 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
+                  >
+                    クイズ
+                  </Link>
+                  <Link
+                    href={`/decks/${deck.id}`}
+                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+                  >
+                    編集
+                  </Link>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Built-in Deck Export */}
+      <div className="mt-12">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">収録カテゴリーの書き出し</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          収録単語をCSVやAnkiのデッキとして書き出し、ほかの学習アプリで使えます。
+        </p>
+        <ul className="space-y-3">
+          {CATEGORIES.map((category) => (
+            <li
+              key={category.id}
+              className="bg-white rounded-lg shadow-md p-4 flex flex-wrap justify-between items-center gap-3"
+            >
+              <span className="font-medium text-gray-900">
+                {category.icon} {category.name}
+              </span>
+              <DeckExportButtons
+                name={category.name}
+                description={category.description}
+                words={wordIndex ? (wordIndex.byCategory.get(category.id) ?? []) : null}
+              />
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
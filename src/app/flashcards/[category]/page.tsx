@@ -1,66 +1,92 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import { useRouter, useParams } from 'next/navigation';
+import { AUDIO_PREFETCH_AHEAD } from '@/lib/audio-manager';
 import { useAudioPlayer } from '@/lib/hooks/useAudioPlayer';
+import { useAudioPrefetch } from '@/lib/hooks/useAudioPrefetch';
+import ShadowingPanel from '@/components/ShadowingPanel';
 import { useUserProgressActions } from '@/stores/userProgressStore';
-import type { Word, Category, CategoryId } from '@/types';
-import { isCategoryId } from '@/types';
-import categoriesData from '@/data/categories.json';
-
-type CategoryData = Category[];
+import { loadDeckWords, useDeck } from '@/stores/deckStore';
+import { useDialect } from '@/stores/settingsStore';
+import { getCategory, isCategoryId } from '@/lib/categories';
+import { getCategoryWords } from '@/lib/content-repository';
+import { getDeckIdFromCategory } from '@/lib/decks';
+import { applyDialectToWords } from '@/lib/dialects';
+import type { Word, CategoryId } from '@/types';
 
 /**
- * Page component for category-specific flashcard learning
+ * Page component for category-specific flashcard learning.
+ * Also studies custom decks, passed as "deck-<id>" in place of a category.
  */
 export default function FlashcardCategoryPage() {
   const router = useRouter();
   const params = useParams();
   const categoryParam = params.category;
 
-  const [words, setWords] = useState<Word[]>([]);
+  const [loadedWords, setLoadedWords] = useState<readonly Word[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [sessionLearned, setSessionLearned] = useState<string[]>([]);
   const [sessionSkipped, setSessionSkipped] = useState<string[]>([]);
   const [showCompletion, setShowCompletion] = useState(false);
+  const [showShadowing, setShowShadowing] = useState(false);
 
   // User progress state removed as it's not currently used
-  const { addLearnedWord, addExperiencePoints, updateStreak, addStudySession } =
+  const { recordReview, addExperiencePoints, updateStreak, addStudySession } =
     useUserProgressActions();
 
   // Type-safe category parameter validation
   const categoryId: CategoryId | null = typeof categoryParam === 'string' && isCategoryId(categoryParam) ? categoryParam : null;
-  
-  const category = categoryId ? (categoriesData as CategoryData).find((c) => c.id === categoryId) : null;
+  const deckId = typeof categoryParam === 'string' ? getDeckIdFromCategory(categoryParam) : null;
+  const deck = useDeck(deckId);
+  const dialect = useDialect();
+
+  // Readings, recordings and vocabulary of the chosen dialect
+  const words = useMemo(() => applyDialectToWords(loadedWords, dialect), [loadedWords, dialect]);
+
+  const category = categoryId ? getCategory(categoryId) : null;
+  const heading = category
+    ? { icon: category.icon, name: category.name, subtitle: category.name_vietnamese }
+    : deck
+      ? { icon: '🗂️', name: deck.name, subtitle: deck.description || 'マイデッキ' }
+      : null;
   const currentWord = words[currentIndex];
-  const { play } = useAudioPlayer(currentWord?.audio_url || '');
+  const audioPlayer = useAudioPlayer(currentWord?.audio_url || '');
+  useAudioPrefetch(
+    words
+      .slice(currentIndex + 1, currentIndex + 1 + AUDIO_PREFETCH_AHEAD)
+      .map((word) => word.audio_url)
+  );
+  const { play } = audioPlayer;
   
-  // Redirect if invalid category
+  // Redirect if invalid category or unknown deck
   useEffect(() => {
-    if (!categoryId) {
+    if (!categoryId && !deck) {
       router.push('/flashcards');
     }
-  }, [categoryId, router]);
+  }, [categoryId, deck, router]);
 
-  // Load words for this category
+  // Load words for this category or deck
   useEffect(() => {
     const loadWords = async () => {
       try {
-        const wordsModule = await import(
-          `@/data/words/${categoryId}.json`
-        );
-        setWords(wordsModule.default);
+        if (categoryId) {
+          setLoadedWords(await getCategoryWords(categoryId));
+        } else if (deckId) {
+          setLoadedWords(await loadDeckWords(deckId));
+        }
+        setIsLoaded(true);
       } catch (error) {
         console.error('Failed to load words:', error);
         router.push('/flashcards');
       }
     };
 
-    if (categoryId) {
-      loadWords();
-    }
-  }, [categoryId, router]);
+    loadWords();
+  }, [categoryId, deckId, router]);
 
   // Update streak and add study session on completion
   useEffect(() => {
@@ -83,8 +109,8 @@ export default function FlashcardCategoryPage() {
   const handleKnow = () => {
     if (!currentWord) return;
 
-    // Add to learned words
-    addLearnedWord(currentWord.id);
+    // Schedule the next review of this word
+    recordReview(currentWord.id, 'good', 'flashcard');
     addExperiencePoints(10);
     setSessionLearned([...sessionLearned, currentWord.id]);
 
@@ -95,6 +121,7 @@ export default function FlashcardCategoryPage() {
   const handleDontKnow = () => {
     if (!currentWord) return;
 
+    recordReview(currentWord.id, 'again', 'flashcard');
     setSessionSkipped([...sessionSkipped, currentWord.id]);
 
     // Move to next card
@@ -118,8 +145,24 @@ export default function FlashcardCategoryPage() {
     setShowCompletion(false);
   };
 
+  if (deck && isLoaded && words.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="bg-white rounded-lg shadow-xl p-8 text-center">
+          <p className="text-gray-600 mb-6">このデッキにはまだ単語がありません</p>
+          <Link
+            href={`/decks/${deck.id}`}
+            className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+          >
+            単語を追加する
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   // Return early if invalid category or loading
-  if (!categoryId || !category || words.length === 0) {
+  if (!heading || words.length === 0) {
     return (
       <div className="container mx-auto px-4 py-8 max-w-4xl">
         <div className="text-center">
@@ -196,10 +239,10 @@ export default function FlashcardCategoryPage() {
             </button>
             <div>
               <h1 className="text-2xl font-bold text-gray-900">
-                <span aria-hidden="true">{category.icon}</span> {category.name}
+                <span aria-hidden="true">{heading.icon}</span> {heading.name}
               </h1>
               <p className="text-sm text-gray-600">
-                {category.name_vietnamese}
+                {heading.subtitle}
               </p>
             </div>
           </div>
@@ -306,17 +349,36 @@ export default function FlashcardCategoryPage() {
 
         {/* Audio Button */}
         <div className="text-center mt-6">
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              play();
-            }}
-            className="px-6 py-3 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
-            aria-label={`${currentWord?.vietnamese}の音声を再生`}
-          >
-            <span aria-hidden="true">🔊</span> 音声を聞く
-          </button>
+          {currentWord?.audio_url ? (
+            <>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  play();
+                }}
+                className="px-6 py-3 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
+                aria-label={`${currentWord?.vietnamese}の音声を再生`}
+              >
+                <span aria-hidden="true">🔊</span> 音声を聞く
+              </button>
+              <button
+                onClick={() => setShowShadowing(!showShadowing)}
+                className="ml-3 px-6 py-3 bg-blue-100 text-blue-700 rounded-lg font-medium hover:bg-blue-200 transition-colors"
+                aria-expanded={showShadowing}
+              >
+                <span aria-hidden="true">🐢</span> シャドーイング
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">この単語には音声がありません</p>
+          )}
         </div>
+
+        {showShadowing && currentWord?.audio_url && (
+          <div className="max-w-2xl mx-auto mt-4">
+            <ShadowingPanel key={currentWord.id} audioUrl={currentWord.audio_url} player={audioPlayer} />
+          </div>
+        )}
       </div>
 
       {/* Action Buttons */}
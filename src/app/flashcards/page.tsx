@@ -1,8 +1,12 @@
 'use client';
 
-import { memo, useCallback, useMemo } from 'react';
+import { memo, useMemo } from 'react';
 import Link from 'next/link';
-import categoriesData from '@/data/categories.json';
+import { CATEGORIES } from '@/lib/categories';
+import { countWordsByCategory } from '@/lib/content-repository';
+import { getDeckCategoryId } from '@/lib/decks';
+import { useWordIndex } from '@/lib/hooks/useWordIndex';
+import { useDecks } from '@/stores/deckStore';
 import { useUserProgressStore } from '@/stores/userProgressStore';
 
 interface Category {
@@ -111,21 +115,20 @@ const CategoryCard = memo<CategoryCardProps>(function CategoryCard({
 
 export default function FlashcardsPage() {
   const { learned_words } = useUserProgressStore();
+  const wordIndex = useWordIndex();
+  const decks = useDecks();
 
-  // Memoized function to calculate learned words per category
-  const getCategoryProgress = useCallback(
-    (categoryId: string) => {
-      return learned_words.filter((wordId) => wordId.startsWith(categoryId))
-        .length;
-    },
-    [learned_words]
+  // Learned words per category
+  const learnedCounts = useMemo(
+    () => (wordIndex ? countWordsByCategory(wordIndex, learned_words) : new Map<string, number>()),
+    [learned_words, wordIndex]
   );
 
   // Memoize category data with progress calculation
   const categoriesWithProgress = useMemo(
     () =>
-      categoriesData.map((category: Category) => {
-        const learnedCount = getCategoryProgress(category.id);
+      CATEGORIES.map((category) => {
+        const learnedCount = learnedCounts.get(category.id) ?? 0;
         const progressPercentage = Math.round(
           (learnedCount / category.wordCount) * 100
         );
@@ -135,7 +138,7 @@ export default function FlashcardsPage() {
           progressPercentage,
         };
       }),
-    [getCategoryProgress]
+    [learnedCounts]
   );
 
   return (
@@ -162,6 +165,36 @@ export default function FlashcardsPage() {
         )}
       </div>
 
+      {/* Custom Decks */}
+      <div className="mb-8">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">マイデッキ</h2>
+          <Link href="/decks" className="text-primary-600 hover:text-primary-700 font-medium">
+            デッキを管理 →
+          </Link>
+        </div>
+        {decks.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            自分で選んだ単語や、現場で使う言葉を集めたデッキを作れます。
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {decks.map((deck) => (
+              <Link
+                key={deck.id}
+                href={`/flashcards/${getDeckCategoryId(deck.id)}`}
+                className="bg-white rounded-lg shadow-md hover:shadow-xl transition-all p-4 border-2 border-gray-100 hover:border-primary-400"
+              >
+                <h3 className="font-bold text-gray-900">🗂️ {deck.name}</h3>
+                <p className="text-sm text-gray-500">
+                  {deck.word_ids.length + deck.entries.length}語
+                </p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Help Section */}
       <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-6 rounded-lg">
         <h2 className="text-lg font-semibold text-gray-900 mb-3">
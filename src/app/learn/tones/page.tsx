@@ -4,6 +4,7 @@ import { useState, useCallback, memo } from 'react';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
 import tonesData from '@/data/tones.json';
+import PitchContourChart from '@/components/PitchContourChart';
 
 // Dynamic import for ToneDetailCard - only loaded when a tone is selected
 const ToneDetailCard = dynamic(() => import('@/components/ToneDetailCard'), {
@@ -73,7 +74,7 @@ const ToneCard = memo<ToneCardProps>(function ToneCard({
             {tone.vietnamese_name}
           </p>
         </div>
-        <div className="text-3xl">{tone.pattern}</div>
+        <PitchContourChart audioUrl={tone.audio_url} pattern={tone.pattern} />
       </div>
       <div className="flex items-center gap-2">
         <span
@@ -109,12 +110,20 @@ export default function TonesPage() {
           <h1 className="text-3xl font-bold text-gray-900">
             ベトナム語の声調
           </h1>
-          <Link
-            href="/learn/tones/quiz"
-            className="inline-flex items-center gap-2 px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors shadow-md hover:shadow-lg"
-          >
-            🎯 クイズに挑戦
-          </Link>
+          <div className="flex flex-wrap gap-3">
+            <Link
+              href="/learn/tones/quiz"
+              className="inline-flex items-center gap-2 px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors shadow-md hover:shadow-lg"
+            >
+              🎯 クイズに挑戦
+            </Link>
+            <Link
+              href="/learn/tones/pairs"
+              className="inline-flex items-center gap-2 px-6 py-3 bg-white text-primary-600 border-2 border-primary-500 rounded-lg font-medium hover:bg-primary-50 transition-colors shadow-md hover:shadow-lg"
+            >
+              👂 聞き分け練習
+            </Link>
+          </div>
         </div>
         <p className="text-gray-600">
           6つの声調を理解することは、ベトナム語習得の重要な第一歩です。同じ音でも声調が違えば意味が変わります。
@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAudioPlayer } from '@/lib/hooks/useAudioPlayer';
+import { DRILLS_PER_SESSION, useMinimalPairDrill } from '@/lib/hooks/useMinimalPairDrill';
+import type { MinimalPairMember } from '@/lib/minimal-pairs';
+import { getToneInfo } from '@/lib/tones';
+
+function OptionButton({
+  member,
+  isTarget,
+  isChosen,
+  showFeedback,
+  onChoose,
+}: {
+  member: MinimalPairMember;
+  isTarget: boolean;
+  isChosen: boolean;
+  showFeedback: boolean;
+  onChoose: () => void;
+}) {
+  const { play } = useAudioPlayer(member.audio_url);
+  const tone = getToneInfo(member.tone);
+  const showCorrect = showFeedback && isTarget;
+  const showIncorrect = showFeedback && isChosen && !isTarget;
+
+  return (
+    <div
+      className={`rounded-lg border-2 p-6 text-center transition-all ${
+        showCorrect
+          ? 'bg-green-100 border-green-500 ring-2 ring-green-300'
+          : showIncorrect
+          ? 'bg-red-100 border-red-500 ring-2 ring-red-300'
+          : 'bg-white border-gray-200'
+      }`}
+    >
+      <button
+        onClick={onChoose}
+        disabled={showFeedback}
+        aria-label={member.text}
+        className="w-full disabled:cursor-default"
+      >
+        <span className="block text-5xl font-bold text-gray-900 mb-2">{member.text}</span>
+        {showFeedback && (
+          <span className="block text-sm text-gray-600">
+            {tone?.name} {tone?.pattern}
+            {member.meaning && ` ・ ${member.meaning}`}
+          </span>
+        )}
+      </button>
+      {showFeedback && (
+        <button
+          onClick={() => play()}
+          className="mt-3 px-4 py-1 bg-blue-100 text-blue-700 rounded-lg text-sm font-medium hover:bg-blue-200 transition-colors"
+          aria-label={`${member.text}を聞く`}
+        >
+          🔊 聞き比べ
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function MinimalPairsPage() {
+  const router = useRouter();
+  const { status, drill, chosenTone, answeredCount, correctCount, answer, next, restart } =
+    useMinimalPairDrill();
+  const { play } = useAudioPlayer(drill?.target.audio_url || '');
+  const showFeedback = status === 'feedback';
+
+  // Auto-play the target syllable when a drill starts
+  useEffect(() => {
+    if (status !== 'answering' || !drill) return;
+    const timer = setTimeout(() => {
+      play();
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [status, drill, play]);
+
+  if (status === 'error') {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="text-center">
+          <p className="text-gray-600 mb-4">練習問題を作成できませんでした</p>
+          <Link
+            href="/learn/tones"
+            className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+          >
+            声調ページに戻る
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'complete') {
+    const percentage = Math.round((correctCount / answeredCount) * 100);
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <div className="bg-white rounded-lg shadow-xl p-8 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">練習完了！</h1>
+          <p className="text-5xl font-bold text-primary-600 mb-2">
+            {correctCount} / {answeredCount}
+          </p>
+          <p className="text-xl text-gray-600 mb-6">正解率: {percentage}%</p>
+          <p className="text-gray-700 mb-8">
+            間違えやすい声調の組み合わせは、次回の練習で多めに出題されます。
+          </p>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <button
+              onClick={restart}
+              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+            >
+              もう一度練習
+            </button>
+            <Link
+              href="/progress"
+              className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              苦手な組み合わせを見る
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'loading' || !drill) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="text-center">
+          <p className="text-gray-600">練習問題を読み込み中...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isCorrect = chosenTone === drill.target.tone;
+  const questionNumber = showFeedback ? answeredCount : answeredCount + 1;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-2xl font-bold text-gray-900">👂 声調の聞き分け</h1>
+          <button
+            onClick={() => router.push('/learn/tones')}
+            className="text-gray-500 hover:text-gray-700"
+            aria-label="練習を終了して声調ページに戻る"
+          >
+            <span aria-hidden="true">✕</span> 終了
+          </button>
+        </div>
+
+        {/* Progress */}
+        <div className="mb-2" role="region" aria-label="練習の進捗">
+          <div className="flex justify-between text-sm text-gray-600 mb-1" aria-live="polite">
+            <span>
+              問題 {questionNumber} / {DRILLS_PER_SESSION}
+            </span>
+            <span>正解: {correctCount}</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-primary-500 h-2 rounded-full transition-all"
+              style={{ width: `${(questionNumber / DRILLS_PER_SESSION) * 100}%` }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Drill Card */}
+      <div className="bg-white rounded-lg shadow-xl p-8 mb-6">
+        <div className="text-center mb-8">
+          <p className="text-lg text-gray-700 mb-4">
+            音声を聞いて、聞こえた方を選んでください
+          </p>
+          <button
+            onClick={() => play()}
+            className="inline-flex items-center gap-2 px-6 py-3 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
+          >
+            🔊 もう一度聞く
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          {drill.options.map((member) => (
+            <OptionButton
+              key={member.text}
+              member={member}
+              isTarget={member.tone === drill.target.tone}
+              isChosen={member.tone === chosenTone}
+              showFeedback={showFeedback}
+              onChoose={() => answer(member.tone)}
+            />
+          ))}
+        </div>
+
+        {showFeedback && (
+          <div className="pt-6 border-t border-gray-200" role="alert" aria-live="assertive">
+            <p
+              className={`text-lg font-semibold mb-4 ${
+                isCorrect ? 'text-green-700' : 'text-red-700'
+              }`}
+            >
+              {isCorrect
+                ? '🎉 正解！'
+                : `❌ 不正解: 聞こえたのは「${drill.target.text}」でした`}
+            </p>
+            <button
+              onClick={next}
+              className="w-full px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+            >
+              次の問題へ →
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="text-center text-sm text-gray-500">
+        💡 ヒント: 間違えた組み合わせは「聞き比べ」で両方の音を聞いてから次へ進みましょう
+      </div>
+    </div>
+  );
+}
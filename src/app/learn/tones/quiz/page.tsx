@@ -1,300 +1,262 @@
 'use client';
+export const dynamic = 'force-dynamic';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
-import tonesData from '@/data/tones.json';
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import QuizSession, { type QuizPromptContext } from '@/components/QuizSession';
 import { useAudioPlayer } from '@/lib/hooks/useAudioPlayer';
+import {
+  getToneAnswerPairs,
+  getWordSyllables,
+  joinToneAnswer,
+  splitToneAnswer,
+  toneGrader,
+} from '@/lib/quiz';
+import { TONE_IDS, getToneInfo } from '@/lib/tones';
+import { placeToneMark } from '@/lib/vietnamese-input';
+import type { QuizQuestion, ToneId } from '@/types';
+import { useUserProgressActions } from '@/stores/userProgressStore';
 
-interface Tone {
-  id: string;
-  name: string;
-  vietnamese_name: string;
-  symbol: string;
-  description: string;
-  audio_url: string;
-  pattern: string;
-  pitch_level: string;
-}
-
-interface QuizState {
-  currentQuestion: number;
-  score: number;
-  showFeedback: boolean;
-  selectedAnswer: string | null;
-  isCorrect: boolean | null;
-}
-
-export default function ToneQuizPage() {
-  const router = useRouter();
-  const [quizState, setQuizState] = useState<QuizState>({
-    currentQuestion: 0,
-    score: 0,
-    showFeedback: false,
-    selectedAnswer: null,
-    isCorrect: null,
-  });
-
-  const [questionOrder, setQuestionOrder] = useState<Tone[]>([]);
-  const [quizComplete, setQuizComplete] = useState(false);
-
-  // Initialize quiz with shuffled tones
-  useEffect(() => {
-    const shuffled = [...tonesData].sort(() => Math.random() - 0.5);
-    setQuestionOrder(shuffled);
-  }, []);
-
-  const currentTone = questionOrder[quizState.currentQuestion];
-  const { play } = useAudioPlayer(currentTone?.audio_url || '');
+function TonePrompt({ question, word, showFeedback }: QuizPromptContext) {
+  const { play } = useAudioPlayer(question.audio_url || '');
+  const syllables = question.question.split(' ');
+  const index = question.syllable_index;
 
   // Auto-play audio when question changes
   useEffect(() => {
-    if (currentTone && !quizState.showFeedback) {
+    if (!showFeedback) {
       const timer = setTimeout(() => {
         play();
       }, 500);
       return () => clearTimeout(timer);
     }
-  }, [currentTone, quizState.showFeedback, play]);
+  }, [question.id, showFeedback, play]);
 
-  const handleAnswer = (selectedToneId: string) => {
-    if (quizState.showFeedback) return;
+  return (
+    <>
+      <p className="text-sm text-gray-600 mb-4" id="quiz-question">
+        {index === undefined
+          ? '音声を聞いて、それぞれの音節の声調を選んでください'
+          : `音声を聞いて、${index + 1}音節目の声調を選んでください`}
+      </p>
+      <h2 className="text-4xl font-bold text-gray-900 mb-2">
+        {showFeedback
+          ? word.vietnamese
+          : syllables.map((syllable, i) => (
+              <span
+                key={i}
+                className={i === index ? 'text-primary-600 underline underline-offset-8' : undefined}
+              >
+                {i > 0 && ' '}
+                {syllable}
+              </span>
+            ))}
+      </h2>
+      <p className="text-gray-600 mb-4">{word.japanese}</p>
+      <button
+        onClick={() => play()}
+        className="px-6 py-3 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
+      >
+        🔊 もう一度聞く
+      </button>
+    </>
+  );
+}
 
-    const isCorrect = selectedToneId === currentTone.id;
-    setQuizState({
-      ...quizState,
-      selectedAnswer: selectedToneId,
-      showFeedback: true,
-      isCorrect,
-      score: isCorrect ? quizState.score + 1 : quizState.score,
-    });
-  };
+function ToneChoices({
+  question,
+  showFeedback,
+  selectedAnswer,
+  onSubmit,
+}: QuizPromptContext & { onSubmit: (answer: string) => void }) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6" role="radiogroup" aria-labelledby="quiz-question">
+      {TONE_IDS.map((toneId) => {
+        const tone = getToneInfo(toneId);
+        const isSelected = selectedAnswer === toneId;
+        const showCorrect = showFeedback && toneId === question.correct_answer;
+        const showIncorrect = showFeedback && isSelected && !showCorrect;
 
-  const handleNext = () => {
-    if (quizState.currentQuestion + 1 >= questionOrder.length) {
-      setQuizComplete(true);
-    } else {
-      setQuizState({
-        currentQuestion: quizState.currentQuestion + 1,
-        score: quizState.score,
-        showFeedback: false,
-        selectedAnswer: null,
-        isCorrect: null,
-      });
-    }
-  };
+        return (
+          <button
+            key={toneId}
+            onClick={() => onSubmit(toneId)}
+            disabled={showFeedback}
+            role="radio"
+            aria-checked={isSelected}
+            aria-label={tone?.name}
+            className={`p-4 rounded-lg border-2 text-left transition-all ${
+              showCorrect
+                ? 'bg-green-100 border-green-500 ring-2 ring-green-300'
+                : showIncorrect
+                ? 'bg-red-100 border-red-500 ring-2 ring-red-300'
+                : 'bg-white border-gray-200 hover:border-primary-400 hover:bg-gray-50'
+            } ${showFeedback ? 'cursor-default' : 'cursor-pointer'}`}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-bold text-lg text-gray-900">{tone?.name}</div>
+                <div className="text-sm text-gray-600">{tone?.vietnamese_name}</div>
+              </div>
+              <span className="text-2xl">{tone?.pattern}</span>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
 
-  const handleReplay = () => {
-    play();
-  };
+function ToneMarker({
+  question,
+  showFeedback,
+  onSubmit,
+}: QuizPromptContext & { onSubmit: (answer: string) => void }) {
+  const syllables = question.question.split(' ');
+  const expected = splitToneAnswer(question.correct_answer);
+  const [selected, setSelected] = useState<(ToneId | null)[]>(() => syllables.map(() => null));
+  const isComplete = selected.every((tone) => tone !== null);
 
-  const handleRestart = () => {
-    const shuffled = [...tonesData].sort(() => Math.random() - 0.5);
-    setQuestionOrder(shuffled);
-    setQuizState({
-      currentQuestion: 0,
-      score: 0,
-      showFeedback: false,
-      selectedAnswer: null,
-      isCorrect: null,
-    });
-    setQuizComplete(false);
+  const choose = (index: number, toneId: ToneId) => {
+    setSelected((current) => current.map((tone, i) => (i === index ? toneId : tone)));
   };
 
-  if (!currentTone || questionOrder.length === 0) {
-    return (
-      <div className="container mx-auto px-4 py-8 max-w-4xl">
-        <div className="text-center">
-          <p className="text-gray-600">クイズを読み込み中...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (quizComplete) {
-    const percentage = Math.round((quizState.score / questionOrder.length) * 100);
-    return (
-      <div className="container mx-auto px-4 py-8 max-w-4xl">
-        <div className="bg-white rounded-lg shadow-xl p-8 text-center">
-          <h1 className="text-3xl font-bold text-gray-900 mb-4">
-            クイズ完了！
-          </h1>
-          <div className="mb-8">
-            <div className="text-6xl mb-4">
-              {percentage >= 80 ? '🎉' : percentage >= 60 ? '👏' : '📚'}
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap justify-center gap-4 mb-4">
+        {syllables.map((syllable, index) => {
+          const tone = selected[index];
+          const isRight = tone === expected[index];
+          return (
+            <div
+              key={index}
+              className={`p-3 rounded-lg border-2 ${
+                showFeedback
+                  ? isRight
+                    ? 'border-green-500 bg-green-50'
+                    : 'border-red-500 bg-red-50'
+                  : 'border-gray-200'
+              }`}
+              role="group"
+              aria-label={`${index + 1}音節目`}
+            >
+              <div className="text-3xl font-bold text-center text-gray-900 mb-3">
+                {tone ? placeToneMark(syllable, tone) : syllable}
+              </div>
+              <div className="grid grid-cols-3 gap-1">
+                {TONE_IDS.map((toneId) => (
+                  <button
+                    key={toneId}
+                    onClick={() => choose(index, toneId)}
+                    disabled={showFeedback}
+                    aria-pressed={tone === toneId}
+                    aria-label={`${index + 1}音節目: ${getToneInfo(toneId)?.name}`}
+                    title={getToneInfo(toneId)?.name}
+                    className={`px-2 py-1 rounded text-sm transition-colors ${
+                      tone === toneId
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    } disabled:cursor-default`}
+                  >
+                    {getToneInfo(toneId)?.pattern}
+                  </button>
+                ))}
+              </div>
             </div>
-            <p className="text-5xl font-bold text-primary-600 mb-2">
-              {quizState.score} / {questionOrder.length}
-            </p>
-            <p className="text-xl text-gray-600">正解率: {percentage}%</p>
-          </div>
+          );
+        })}
+      </div>
 
-          <div className="mb-8 p-4 bg-gray-50 rounded-lg">
-            {percentage >= 80 ? (
-              <p className="text-lg text-gray-700">
-                素晴らしい！声調の理解が深まっていますね！
-              </p>
-            ) : percentage >= 60 ? (
-              <p className="text-lg text-gray-700">
-                いい調子です！もう少し練習すればマスターできそうです。
-              </p>
-            ) : (
-              <p className="text-lg text-gray-700">
-                声調は難しいですが、何度も聞いて慣れていきましょう。
-              </p>
-            )}
-          </div>
+      {!showFeedback && (
+        <button
+          onClick={() => onSubmit(joinToneAnswer(selected.filter((tone): tone is ToneId => tone !== null)))}
+          disabled={!isComplete}
+          className="w-full px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          回答する
+        </button>
+      )}
+    </div>
+  );
+}
 
-          <div className="flex flex-col sm:flex-row gap-4 justify-center">
-            <button
-              onClick={handleRestart}
-              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
-            >
-              もう一度挑戦
-            </button>
-            <button
-              onClick={() => router.push('/learn/tones')}
-              className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors"
-            >
-              声調ページに戻る
-            </button>
-          </div>
-        </div>
-      </div>
-    );
-  }
+function ToneFeedback({ question, word }: QuizPromptContext) {
+  const syllables = getWordSyllables(word.vietnamese) ?? [];
+  const askedTone = question.syllable_index === undefined ? null : getToneInfo(question.correct_answer);
+  const { play } = useAudioPlayer(askedTone?.audio_url || '');
 
   return (
-    <div className="container mx-auto px-4 py-8 max-w-4xl">
-      {/* Header */}
-      <div className="mb-6">
-        <div className="flex justify-between items-center mb-4">
-          <h1 className="text-2xl font-bold text-gray-900">声調クイズ</h1>
+    <>
+      <p className="text-gray-700">
+        <strong>正解:</strong> {word.vietnamese}（{word.japanese}）
+      </p>
+      <ul className="text-sm text-gray-700 mt-2 space-y-1">
+        {syllables.map((syllable, i) => {
+          const tone = getToneInfo(syllable.tone);
+          return (
+            <li
+              key={i}
+              className={i === question.syllable_index ? 'font-semibold' : undefined}
+            >
+              {syllable.text}: {tone?.name}（{tone?.vietnamese_name}）{tone?.pattern}
+            </li>
+          );
+        })}
+      </ul>
+      {askedTone && (
+        <div className="mt-3">
+          <p className="text-sm text-gray-600 mb-2">{askedTone.description}</p>
           <button
-            onClick={() => router.push('/learn/tones')}
-            className="text-gray-500 hover:text-gray-700"
+            onClick={() => play()}
+            className="px-4 py-2 bg-blue-100 text-blue-700 rounded-lg text-sm font-medium hover:bg-blue-200 transition-colors"
           >
-            ✕ 終了
+            🔊 {askedTone.name}のお手本を聞く
           </button>
         </div>
+      )}
+    </>
+  );
+}
 
-        {/* Progress Bar */}
-        <div className="mb-2">
-          <div className="flex justify-between text-sm text-gray-600 mb-1">
-            <span>
-              問題 {quizState.currentQuestion + 1} / {questionOrder.length}
-            </span>
-            <span>正解: {quizState.score}</span>
-          </div>
-          <div className="w-full bg-gray-200 rounded-full h-2">
-            <div
-              className="bg-primary-500 h-2 rounded-full transition-all"
-              style={{
-                width: `${((quizState.currentQuestion + 1) / questionOrder.length) * 100}%`,
-              }}
-            />
-          </div>
-        </div>
-      </div>
-
-      {/* Quiz Card */}
-      <div className="bg-white rounded-lg shadow-xl p-8 mb-6">
-        {/* Audio Section */}
-        <div className="text-center mb-8">
-          <p className="text-lg text-gray-700 mb-4">
-            音声を聞いて、正しい声調を選んでください
-          </p>
-          <button
-            onClick={handleReplay}
-            className="inline-flex items-center gap-2 px-6 py-3 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
-          >
-            🔊 もう一度聞く
-          </button>
-        </div>
+export default function ToneQuizPage() {
+  const searchParams = useSearchParams();
+  const categoryParam = searchParams.get('category') || 'all';
+  const { recordToneDiscrimination } = useUserProgressActions();
 
-        {/* Answer Choices */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-          {tonesData.map((tone) => {
-            const isSelected = quizState.selectedAnswer === tone.id;
-            const isCorrectAnswer = tone.id === currentTone.id;
-            const showCorrect = quizState.showFeedback && isCorrectAnswer;
-            const showIncorrect = quizState.showFeedback && isSelected && !isCorrectAnswer;
+  // Tone answers feed the confusion matrix, not the vocabulary review:
+  // a wrong tone by ear does not mean the word was forgotten
+  const handleAnswer = useCallback(
+    (question: QuizQuestion, answer: string) => {
+      for (const [played, chosen] of getToneAnswerPairs(question, answer)) {
+        recordToneDiscrimination(played, chosen);
+      }
+    },
+    [recordToneDiscrimination]
+  );
 
-            return (
-              <button
-                key={tone.id}
-                onClick={() => handleAnswer(tone.id)}
-                disabled={quizState.showFeedback}
-                className={`
-                  p-4 rounded-lg border-2 text-left transition-all
-                  ${
-                    showCorrect
-                      ? 'bg-green-100 border-green-500 ring-2 ring-green-300'
-                      : showIncorrect
-                      ? 'bg-red-100 border-red-500 ring-2 ring-red-300'
-                      : isSelected
-                      ? 'bg-blue-50 border-blue-400'
-                      : 'bg-white border-gray-200 hover:border-primary-400 hover:bg-gray-50'
-                  }
-                  ${quizState.showFeedback ? 'cursor-default' : 'cursor-pointer'}
-                `}
-              >
-                <div className="flex items-center justify-between">
-                  <div>
-                    <div className="font-bold text-lg text-gray-900">
-                      {tone.name}
-                    </div>
-                    <div className="text-sm text-gray-600">
-                      {tone.vietnamese_name}
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <span className="text-2xl">{tone.pattern}</span>
-                    {showCorrect && <span className="text-2xl">✓</span>}
-                    {showIncorrect && <span className="text-2xl">✗</span>}
-                  </div>
-                </div>
-              </button>
-            );
-          })}
+  return (
+    <QuizSession
+      quizType="tone"
+      categoryParam={categoryParam}
+      grader={toneGrader}
+      recordsReview={false}
+      onAnswer={handleAnswer}
+      title="🎵 声調クイズ"
+      exitPath="/learn/tones"
+      renderPrompt={(context) => <TonePrompt {...context} />}
+      renderAnswer={(context, submit) =>
+        context.question.syllable_index === undefined ? (
+          <ToneMarker key={context.question.id} {...context} onSubmit={submit} />
+        ) : (
+          <ToneChoices {...context} onSubmit={submit} />
+        )
+      }
+      renderFeedbackDetails={(context) => <ToneFeedback {...context} />}
+      footer={
+        <div className="text-center text-sm text-gray-500">
+          💡 ヒント: 何度も音声を聞いて、音の上がり下がりのパターンを覚えましょう
         </div>
-
-        {/* Feedback Section */}
-        {quizState.showFeedback && (
-          <div className="mt-6 pt-6 border-t border-gray-200">
-            <div
-              className={`p-4 rounded-lg mb-4 ${
-                quizState.isCorrect ? 'bg-green-50' : 'bg-red-50'
-              }`}
-            >
-              <p
-                className={`text-lg font-semibold mb-2 ${
-                  quizState.isCorrect ? 'text-green-700' : 'text-red-700'
-                }`}
-              >
-                {quizState.isCorrect ? '🎉 正解！' : '❌ 不正解'}
-              </p>
-              <div className="text-gray-700">
-                <p className="mb-1">
-                  <strong>正解:</strong> {currentTone.name} ({currentTone.pattern})
-                </p>
-                <p className="text-sm">{currentTone.description}</p>
-              </div>
-            </div>
-
-            <button
-              onClick={handleNext}
-              className="w-full px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
-            >
-              次の問題へ →
-            </button>
-          </div>
-        )}
-      </div>
-
-      {/* Help Text */}
-      <div className="text-center text-sm text-gray-500">
-        💡 ヒント: 何度も音声を聞いて、パターンを覚えましょう
-      </div>
-    </div>
+      }
+    />
   );
 }
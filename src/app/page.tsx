@@ -1,7 +1,11 @@
 'use client';
 
 import Link from 'next/link';
-import { useUserProgress, useLevelProgress } from '@/stores/userProgressStore';
+import {
+  useUserProgress,
+  useLevelProgress,
+  useDueWordCount,
+} from '@/stores/userProgressStore';
 
 /**
  * Home page component displaying user progress and quick access navigation
@@ -9,6 +13,7 @@ import { useUserProgress, useLevelProgress } from '@/stores/userProgressStore';
 export default function Home() {
   const { current_level, streak_days, learned_words } = useUserProgress();
   const { xpInCurrentLevel, xpRequiredForNextLevel, progressPercentage } = useLevelProgress();
+  const dueCount = useDueWordCount();
 
   // 今日の学習目標（仮）
   const dailyGoal = 10; // 10単語
@@ -77,6 +82,27 @@ export default function Home() {
         </div>
       </div>
 
+      {/* Today's Review */}
+      <Link
+        href="/review"
+        className="group flex items-center justify-between bg-gradient-to-r from-primary-50 to-orange-50 p-6 rounded-lg shadow mb-8 hover:shadow-xl transition-all"
+      >
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-1">
+            今日の復習
+          </h2>
+          <p className="text-sm text-gray-600">
+            {dueCount > 0
+              ? '忘れかけている単語を復習しましょう'
+              : '復習が必要な単語はありません'}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-3xl font-bold text-primary-600">{dueCount}</p>
+          <p className="text-xs text-gray-500">単語</p>
+        </div>
+      </Link>
+
       {/* Today's Goal */}
       <div className="bg-white p-6 rounded-lg shadow mb-8">
         <div className="flex items-center justify-between mb-4">
@@ -1,8 +1,11 @@
 'use client';
 
 import { useMemo } from 'react';
-import { useUserProgress } from '@/stores/userProgressStore';
-import categoriesData from '@/data/categories.json';
+import { useToneConfusion, useUserProgress } from '@/stores/userProgressStore';
+import ToneConfusionChart from '@/components/ToneConfusionChart';
+import { CATEGORIES } from '@/lib/categories';
+import { countWordsByCategory } from '@/lib/content-repository';
+import { useWordIndex } from '@/lib/hooks/useWordIndex';
 
 export default function ProgressPage() {
   const {
@@ -13,6 +16,8 @@ export default function ProgressPage() {
     last_study_date,
     study_sessions,
   } = useUserProgress();
+  const toneConfusion = useToneConfusion();
+  const wordIndex = useWordIndex();
 
   // Calculate level progress
   const levelProgress = useMemo(
@@ -21,21 +26,20 @@ export default function ProgressPage() {
   );
 
   // Calculate category progress - memoized to avoid recalculation
-  const categoryProgress = useMemo(
-    () =>
-      categoriesData.map((category) => {
-        const categoryWords = learned_words.filter((wordId) =>
-          wordId.startsWith(category.id)
-        );
-        const progress = (categoryWords.length / category.wordCount) * 100;
-        return {
-          ...category,
-          learnedCount: categoryWords.length,
-          progress: Math.round(progress),
-        };
-      }),
-    [learned_words]
-  );
+  const categoryProgress = useMemo(() => {
+    const learnedCounts = wordIndex
+      ? countWordsByCategory(wordIndex, learned_words)
+      : new Map<string, number>();
+    return CATEGORIES.map((category) => {
+      const learnedCount = learnedCounts.get(category.id) ?? 0;
+      const progress = (learnedCount / category.wordCount) * 100;
+      return {
+        ...category,
+        learnedCount,
+        progress: Math.round(progress),
+      };
+    });
+  }, [learned_words, wordIndex]);
 
   // Calculate total study time - memoized
   const totalStudyMinutes = useMemo(
@@ -193,6 +197,14 @@ export default function ProgressPage() {
         </div>
       </div>
 
+      {/* Tone Discrimination */}
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">
+          声調の聞き分け
+        </h2>
+        <ToneConfusionChart matrix={toneConfusion} />
+      </div>
+
       {/* Study Summary */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Study Time */}
@@ -227,6 +239,8 @@ export default function ProgressPage() {
                     <p className="text-sm font-medium text-gray-900">
                       {session.activity_type === 'flashcard'
                         ? '📇 単語カード'
+                        : session.activity_type === 'learning'
+                        ? '🔁 復習'
                         : '📝 クイズ'}
                     </p>
                     <p className="text-xs text-gray-500">
@@ -0,0 +1,123 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import QuizSession, { type QuizPromptContext } from '@/components/QuizSession';
+import TypedAnswerInput from '@/components/TypedAnswerInput';
+import { CLOZE_BLANK, gradeChoice, typingGrader } from '@/lib/quiz';
+
+/** How the missing word is answered */
+type ClozeAnswerMode = 'choice' | 'typing';
+
+const ANSWER_MODE_LABELS: Readonly<Record<ClozeAnswerMode, string>> = {
+  choice: '4択で選ぶ',
+  typing: '入力する',
+};
+
+function ClozePrompt({ question, word, showFeedback, isCorrect }: QuizPromptContext) {
+  const [before, after = ''] = question.question.split(CLOZE_BLANK);
+
+  return (
+    <>
+      <p className="text-sm text-gray-600 mb-4">空欄に入るベトナム語を答えてください</p>
+      <h2 className="text-3xl font-bold text-gray-900 mb-3" id="quiz-question">
+        {before}
+        <span
+          className={`inline-block min-w-[4rem] px-2 border-b-4 ${
+            showFeedback
+              ? isCorrect
+                ? 'border-green-500 text-green-700'
+                : 'border-red-500 text-red-700'
+              : 'border-primary-400 text-transparent'
+          }`}
+          aria-label={showFeedback ? question.correct_answer : '空欄'}
+        >
+          {showFeedback ? question.correct_answer : CLOZE_BLANK}
+        </span>
+        {after}
+      </h2>
+      {word.example_sentence && (
+        <p className="text-gray-600">{word.example_sentence.japanese}</p>
+      )}
+    </>
+  );
+}
+
+function ClozeFeedback({ question, word, selectedAnswer, isCorrect }: QuizPromptContext) {
+  return (
+    <>
+      {!isCorrect && (
+        <p className="text-gray-700">
+          <strong>あなたの回答:</strong> {selectedAnswer}
+        </p>
+      )}
+      <p className="text-gray-700">
+        <strong>正解:</strong> {question.correct_answer}（{word.japanese}）
+      </p>
+      {word.example_sentence && (
+        <p className="text-gray-700">
+          <strong>例文:</strong> {word.example_sentence.vietnamese}
+        </p>
+      )}
+      <p className="text-sm text-gray-600">
+        発音: {word.pronunciation}
+      </p>
+    </>
+  );
+}
+
+export default function ClozeQuizPage() {
+  const searchParams = useSearchParams();
+  const categoryParam = searchParams.get('category') || 'all';
+  const [answerMode, setAnswerMode] = useState<ClozeAnswerMode>('choice');
+
+  return (
+    <QuizSession
+      quizType="cloze"
+      categoryParam={categoryParam}
+      grader={answerMode === 'typing' ? typingGrader : gradeChoice}
+      title="📝 穴埋め"
+      renderPrompt={(context) => (
+        <>
+          <div className="flex justify-center gap-2 mb-6" role="group" aria-label="回答方法">
+            {(Object.keys(ANSWER_MODE_LABELS) as ClozeAnswerMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setAnswerMode(mode)}
+                disabled={context.showFeedback}
+                aria-pressed={answerMode === mode}
+                className={`px-4 py-1 rounded-full text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+                  answerMode === mode
+                    ? 'bg-primary-500 text-white'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {ANSWER_MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          <ClozePrompt {...context} />
+        </>
+      )}
+      renderAnswer={
+        answerMode === 'typing'
+          ? (context, submit) => (
+              <TypedAnswerInput
+                key={context.question.id}
+                showFeedback={context.showFeedback}
+                onSubmit={submit}
+                placeholder="空欄に入る単語を入力"
+              />
+            )
+          : undefined
+      }
+      renderFeedbackDetails={(context) => <ClozeFeedback {...context} />}
+      footer={
+        <div className="text-center text-sm text-gray-500">
+          💡 ヒント: 前後の単語と日本語訳から、空欄に入る品詞を考えてみましょう
+        </div>
+      }
+    />
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
+import QuizSession, { type QuizPromptContext } from '@/components/QuizSession';
+import TypedAnswerInput from '@/components/TypedAnswerInput';
+import { useAudioPlayer } from '@/lib/hooks/useAudioPlayer';
+import {
+  dictationGrader,
+  diffSyllables,
+  type SyllableDiff,
+  type SyllableDiffStatus,
+} from '@/lib/quiz';
+
+/** Playback rate of the slowed-down replay */
+const SLOW_PLAYBACK_RATE = 0.7 as const;
+
+const DIFF_STYLES: Readonly<Record<SyllableDiffStatus, string>> = {
+  correct: 'bg-green-100 border-green-400 text-green-800',
+  tone: 'bg-yellow-100 border-yellow-400 text-yellow-800',
+  vowel: 'bg-orange-100 border-orange-400 text-orange-800',
+  wrong: 'bg-red-100 border-red-400 text-red-800',
+  missing: 'bg-white border-red-400 border-dashed text-red-700',
+  extra: 'bg-gray-100 border-gray-300 text-gray-500 line-through',
+};
+
+const DIFF_LABELS: Readonly<Record<SyllableDiffStatus, string>> = {
+  correct: '正解',
+  tone: '声調の違い',
+  vowel: '母音の違い',
+  wrong: '別の音節',
+  missing: '聞き漏れ',
+  extra: '余分な音節',
+};
+
+function DictationPrompt({ question, showFeedback }: QuizPromptContext) {
+  const { play, setRate } = useAudioPlayer(question.audio_url || '');
+
+  // Auto-play audio when question changes
+  useEffect(() => {
+    if (!showFeedback) {
+      const timer = setTimeout(() => {
+        setRate(1);
+        play();
+      }, 500);
+      return () => clearTimeout(timer);
+    }
+  }, [question.id, showFeedback, play, setRate]);
+
+  const playAt = (rate: number) => {
+    setRate(rate);
+    play();
+  };
+
+  return (
+    <>
+      <p className="text-sm text-gray-600 mb-4" id="quiz-question">
+        音声を聞いて、聞こえたベトナム語を入力してください
+      </p>
+
+      {/* Audio Player */}
+      <div className="mb-2">
+        <div className="text-7xl mb-4">🎧</div>
+        <div className="flex flex-wrap justify-center gap-3">
+          <button
+            onClick={() => playAt(1)}
+            className="px-6 py-3 bg-blue-500 text-white rounded-lg font-medium text-lg hover:bg-blue-600 transition-colors"
+          >
+            🔊 もう一度聞く
+          </button>
+          <button
+            onClick={() => playAt(SLOW_PLAYBACK_RATE)}
+            className="px-6 py-3 bg-blue-100 text-blue-700 rounded-lg font-medium text-lg hover:bg-blue-200 transition-colors"
+          >
+            🐢 ゆっくり再生
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
+
+function SyllableTile({ entry }: { entry: SyllableDiff }) {
+  const text = entry.expected ?? entry.typed;
+  const showTyped = entry.typed !== undefined && entry.typed !== entry.expected && entry.status !== 'extra';
+
+  return (
+    <span
+      className={`inline-flex flex-col items-center px-3 py-1 rounded-md border-2 ${DIFF_STYLES[entry.status]}`}
+      title={DIFF_LABELS[entry.status]}
+    >
+      <span className="text-lg font-semibold">{text}</span>
+      <span className="text-xs">
+        {entry.status === 'missing' ? '—' : showTyped ? entry.typed : '\u00a0'}
+      </span>
+    </span>
+  );
+}
+
+function DictationFeedback({ question, word, selectedAnswer }: QuizPromptContext) {
+  const diff = diffSyllables(question.correct_answer, selectedAnswer ?? '');
+  const statuses = Array.from(new Set(diff.map((entry) => entry.status)));
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2 mb-3" aria-label="音節ごとの比較">
+        {diff.map((entry, idx) => (
+          <SyllableTile key={idx} entry={entry} />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600 mb-3">
+        {statuses.map((status) => (
+          <span key={status} className="inline-flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm border ${DIFF_STYLES[status]}`} />
+            {DIFF_LABELS[status]}
+          </span>
+        ))}
+      </div>
+      <p className="text-gray-700">
+        <strong>正解:</strong> {question.correct_answer}
+      </p>
+      <p className="text-gray-700">
+        <strong>意味:</strong>{' '}
+        {question.correct_answer === word.vietnamese
+          ? word.japanese
+          : word.example_sentence?.japanese}
+      </p>
+      <p className="text-sm text-gray-600">
+        発音: {word.pronunciation}
+      </p>
+    </>
+  );
+}
+
+export default function DictationQuizPage() {
+  const searchParams = useSearchParams();
+  const categoryParam = searchParams.get('category') || 'all';
+
+  return (
+    <QuizSession
+      quizType="dictation"
+      categoryParam={categoryParam}
+      grader={dictationGrader}
+      title="✍️ ディクテーション"
+      renderPrompt={(context) => <DictationPrompt {...context} />}
+      renderAnswer={(context, submit) => (
+        <TypedAnswerInput
+          key={context.question.id}
+          showFeedback={context.showFeedback}
+          onSubmit={submit}
+          placeholder="聞こえた通りに入力"
+        />
+      )}
+      renderFeedbackDetails={(context) => <DictationFeedback {...context} />}
+      footer={
+        <div className="text-center text-sm text-gray-500">
+          💡 ヒント: 声調が聞き取れないときは「ゆっくり再生」で音の上がり下がりに集中しましょう
+        </div>
+      }
+    />
+  );
+}
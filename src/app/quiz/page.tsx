@@ -1,8 +1,12 @@
 'use client';
+export const dynamic = 'force-dynamic';
 
-import { useState, memo } from 'react';
+import { useEffect, useState, memo } from 'react';
 import Link from 'next/link';
-import categoriesData from '@/data/categories.json';
+import { useSearchParams } from 'next/navigation';
+import { CATEGORIES } from '@/lib/categories';
+import { getDeckCategoryId } from '@/lib/decks';
+import { useDeckActions, useDecks } from '@/stores/deckStore';
 
 interface QuizMode {
   id: string;
@@ -38,6 +42,46 @@ const quizModes: QuizMode[] = [
     path: '/quiz/listening',
     difficulty: 'intermediate',
   },
+  {
+    id: 'typing',
+    name: 'タイピング',
+    description: '日本語を見てベトナム語を声調記号まで正しく入力する',
+    icon: '⌨️',
+    path: '/quiz/typing',
+    difficulty: 'advanced',
+  },
+  {
+    id: 'dictation',
+    name: 'ディクテーション',
+    description: '音声を聞いて聞こえたベトナム語を入力し、音節ごとに声調と母音をチェック',
+    icon: '✍️',
+    path: '/quiz/dictation',
+    difficulty: 'advanced',
+  },
+  {
+    id: 'sentence',
+    name: '文の並べ替え',
+    description: '日本語訳を見て、例文の単語を正しい語順に並べる',
+    icon: '🧩',
+    path: '/quiz/sentence',
+    difficulty: 'intermediate',
+  },
+  {
+    id: 'cloze',
+    name: '穴埋め',
+    description: '例文の空欄に入る単語を選ぶか入力して、文脈の中で単語を確認する',
+    icon: '📝',
+    path: '/quiz/cloze',
+    difficulty: 'intermediate',
+  },
+  {
+    id: 'speaking',
+    name: '発音練習',
+    description: 'お手本を聞いて自分の声を録音し、声調の上がり下がりをお手本と比べる',
+    icon: '🎙️',
+    path: '/quiz/speaking',
+    difficulty: 'advanced',
+  },
 ];
 
 interface QuizModeCardProps {
@@ -75,10 +119,16 @@ const QuizModeCard = memo<QuizModeCardProps>(function QuizModeCard({
             className={`px-3 py-1 text-xs font-semibold rounded-full ${
               mode.difficulty === 'beginner'
                 ? 'bg-green-100 text-green-700'
+                : mode.difficulty === 'advanced'
+                ? 'bg-red-100 text-red-700'
                 : 'bg-orange-100 text-orange-700'
             }`}
           >
-            {mode.difficulty === 'beginner' ? '初級向け' : '中級向け'}
+            {mode.difficulty === 'beginner'
+              ? '初級向け'
+              : mode.difficulty === 'advanced'
+              ? '上級向け'
+              : '中級向け'}
           </span>
         </div>
 
@@ -94,7 +144,16 @@ const QuizModeCard = memo<QuizModeCardProps>(function QuizModeCard({
 });
 
 export default function QuizPage() {
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const searchParams = useSearchParams();
+  const [selectedCategory, setSelectedCategory] = useState<string>(
+    searchParams.get('category') || 'all'
+  );
+  const decks = useDecks();
+  const { syncDecks } = useDeckActions();
+
+  useEffect(() => {
+    syncDecks();
+  }, [syncDecks]);
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-6xl">
@@ -122,7 +181,7 @@ export default function QuizPage() {
           >
             🌟 全カテゴリー
           </button>
-          {categoriesData.map((category) => (
+          {CATEGORIES.map((category) => (
             <button
               key={category.id}
               onClick={() => setSelectedCategory(category.id)}
@@ -135,6 +194,19 @@ export default function QuizPage() {
               {category.icon} {category.name}
             </button>
           ))}
+          {decks.map((deck) => (
+            <button
+              key={deck.id}
+              onClick={() => setSelectedCategory(getDeckCategoryId(deck.id))}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                selectedCategory === getDeckCategoryId(deck.id)
+                  ? 'bg-primary-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              🗂️ {deck.name}
+            </button>
+          ))}
         </div>
       </div>
 
@@ -180,6 +252,12 @@ export default function QuizPage() {
               リスニングクイズで発音を確認しながら実力アップしましょう
             </span>
           </li>
+          <li className="flex items-start">
+            <span className="mr-2">•</span>
+            <span>
+              タイピングでは声調や記号の間違いにも部分点がつきます（Telex / VNI 入力に対応）
+            </span>
+          </li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,68 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useMemo } from 'react';
+import { useSearchParams } from 'next/navigation';
+import QuizSession, { type QuizPromptContext } from '@/components/QuizSession';
+import SentenceBuilder from '@/components/SentenceBuilder';
+import { sentenceGrader, splitSentenceTiles } from '@/lib/quiz';
+
+function SentenceFeedback({ question, word, selectedAnswer, isCorrect }: QuizPromptContext) {
+  return (
+    <>
+      {!isCorrect && (
+        <p className="text-gray-700">
+          <strong>あなたの回答:</strong> {selectedAnswer}
+        </p>
+      )}
+      <p className="text-gray-700">
+        <strong>正解:</strong> {question.correct_answer}
+      </p>
+      <p className="text-sm text-gray-600 mt-2">
+        キーワード: {word.vietnamese}（{word.japanese}）・発音: {word.pronunciation}
+      </p>
+    </>
+  );
+}
+
+interface SentenceAnswerProps {
+  context: QuizPromptContext;
+  submit: (answer: string) => void;
+}
+
+// Tiles are split once per question so re-renders keep the shuffled order
+function SentenceAnswer({ context: { question, showFeedback }, submit }: SentenceAnswerProps) {
+  const tiles = useMemo(() => splitSentenceTiles(question.correct_answer), [question.correct_answer]);
+  return <SentenceBuilder tiles={tiles} showFeedback={showFeedback} onSubmit={submit} />;
+}
+
+export default function SentenceQuizPage() {
+  const searchParams = useSearchParams();
+  const categoryParam = searchParams.get('category') || 'all';
+
+  return (
+    <QuizSession
+      quizType="sentence"
+      categoryParam={categoryParam}
+      grader={sentenceGrader}
+      title="🧩 文の並べ替え"
+      renderPrompt={({ question }) => (
+        <>
+          <p className="text-sm text-gray-600 mb-2">単語を正しい順番に並べて、ベトナム語の文を作ってください</p>
+          <h2 className="text-3xl font-bold text-gray-900" id="quiz-question">
+            {question.question}
+          </h2>
+        </>
+      )}
+      renderAnswer={(context, submit) => (
+        <SentenceAnswer key={context.question.id} context={context} submit={submit} />
+      )}
+      renderFeedbackDetails={(context) => <SentenceFeedback {...context} />}
+      footer={
+        <div className="text-center text-sm text-gray-500">
+          💡 ヒント: ベトナム語では修飾語が名詞の後ろに来ます（例: nhà đẹp = きれいな家）
+        </div>
+      }
+    />
+  );
+}
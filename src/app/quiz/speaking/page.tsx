@@ -0,0 +1,244 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import QuizSession, { type QuizPromptContext } from '@/components/QuizSession';
+import PitchComparisonChart from '@/components/PitchComparisonChart';
+import { useAudioPlayer } from '@/lib/hooks/useAudioPlayer';
+import { useAudioRecorder, type AudioRecorderErrorType } from '@/lib/hooks/useAudioRecorder';
+import { usePitchContour } from '@/lib/hooks/usePitchContour';
+import { analyzeEncodedAudio, comparePitchContours, type PitchPoint } from '@/lib/pitch';
+import { SPEAKING_PASS_SCORE, speakingGrader } from '@/lib/quiz';
+import type { QuizQuestion } from '@/types';
+import { useUserProgressActions } from '@/stores/userProgressStore';
+
+const RECORDER_ERRORS: Readonly<Record<AudioRecorderErrorType, string>> = {
+  unsupported: 'このブラウザは録音に対応していません',
+  permission: 'マイクの使用が許可されていません。ブラウザの設定を確認してください',
+  device: 'マイクが見つかりませんでした',
+};
+
+function SpeakingPrompt({ question, word, showFeedback }: QuizPromptContext) {
+  const { play } = useAudioPlayer(question.audio_url || '');
+
+  // Auto-play the reference when the question changes
+  useEffect(() => {
+    if (!showFeedback) {
+      const timer = setTimeout(() => {
+        play();
+      }, 500);
+      return () => clearTimeout(timer);
+    }
+  }, [question.id, showFeedback, play]);
+
+  return (
+    <>
+      <p className="text-sm text-gray-600 mb-4" id="quiz-question">
+        お手本を聞いてから、声に出して録音してください
+      </p>
+      <h2 className="text-4xl font-bold text-gray-900 mb-2">{question.question}</h2>
+      <p className="text-gray-600 mb-1">{word.japanese}</p>
+      <p className="text-sm text-gray-500 mb-4">発音: {word.pronunciation}</p>
+      <button
+        onClick={() => play()}
+        className="px-6 py-3 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
+      >
+        🔊 お手本を聞く
+      </button>
+    </>
+  );
+}
+
+function SpeakingRecorder({
+  question,
+  showFeedback,
+  onSubmit,
+}: QuizPromptContext & { onSubmit: (answer: string) => void }) {
+  const { status, recording, recordingUrl, errorType, start, stop, reset } = useAudioRecorder();
+  const reference = usePitchContour(question.audio_url || '');
+  const [attempt, setAttempt] = useState<PitchPoint[] | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisFailed, setAnalysisFailed] = useState(false);
+
+  // Track the pitch of each new recording
+  useEffect(() => {
+    if (!recording) {
+      setAttempt(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsAnalyzing(true);
+    setAnalysisFailed(false);
+    recording
+      .arrayBuffer()
+      .then((data) => analyzeEncodedAudio(data))
+      .then((points) => {
+        if (!cancelled) setAttempt(points);
+      })
+      .catch((error) => {
+        console.error('Failed to analyze recording:', error);
+        if (!cancelled) setAnalysisFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsAnalyzing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording]);
+
+  const score =
+    reference.contour && attempt ? comparePitchContours(reference.contour, attempt) : null;
+  const playRecording = () => {
+    if (recordingUrl) void new Audio(recordingUrl).play();
+  };
+
+  return (
+    <div className="mb-6 space-y-4">
+      {reference.contour ? (
+        <PitchComparisonChart reference={reference.contour} attempt={attempt} />
+      ) : (
+        <p className="text-center text-sm text-gray-500">
+          {reference.isLoading
+            ? 'お手本のピッチを解析中...'
+            : 'お手本の音声を解析できなかったため、採点はできません'}
+        </p>
+      )}
+
+      {score !== null && (
+        <p className="text-center text-lg font-semibold text-gray-900" aria-live="polite">
+          類似度: <span className="text-primary-600">{score}</span> / 100
+        </p>
+      )}
+      {isAnalyzing && <p className="text-center text-sm text-gray-500">録音を解析中...</p>}
+      {analysisFailed && (
+        <p className="text-center text-sm text-red-600">録音を解析できませんでした。もう一度録音してください</p>
+      )}
+      {errorType && (
+        <p className="text-center text-sm text-red-600" role="alert">
+          {RECORDER_ERRORS[errorType]}
+        </p>
+      )}
+
+      {!showFeedback && (
+        <div className="flex flex-wrap justify-center gap-3">
+          {status === 'recording' ? (
+            <button
+              onClick={stop}
+              className="px-6 py-3 bg-red-500 text-white rounded-lg font-medium hover:bg-red-600 transition-colors animate-pulse"
+            >
+              ⏹ 録音を止める
+            </button>
+          ) : (
+            <button
+              onClick={() => {
+                reset();
+                void start();
+              }}
+              disabled={status === 'requesting'}
+              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50"
+            >
+              {status === 'recorded' ? '🔁 録り直す' : '🎙️ 録音する'}
+            </button>
+          )}
+          {recordingUrl && status !== 'recording' && (
+            <button
+              onClick={playRecording}
+              className="px-6 py-3 bg-orange-100 text-orange-700 rounded-lg font-medium hover:bg-orange-200 transition-colors"
+            >
+              ▶ 自分の声を聞く
+            </button>
+          )}
+        </div>
+      )}
+
+      {showFeedback && recordingUrl && (
+        <div className="text-center">
+          <button
+            onClick={playRecording}
+            className="px-4 py-2 bg-orange-100 text-orange-700 rounded-lg text-sm font-medium hover:bg-orange-200 transition-colors"
+          >
+            ▶ 自分の声を聞く
+          </button>
+        </div>
+      )}
+
+      {!showFeedback && (
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={() => score !== null && onSubmit(String(score))}
+            disabled={score === null}
+            className="flex-1 px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            この録音で回答する
+          </button>
+          <button
+            onClick={() => onSubmit('')}
+            className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+          >
+            スキップ
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SpeakingFeedback({ word, selectedAnswer }: QuizPromptContext) {
+  const score = Number(selectedAnswer ?? 0);
+
+  return (
+    <>
+      <p className="text-gray-700">
+        <strong>類似度:</strong> {score} / 100（合格ライン {SPEAKING_PASS_SCORE}）
+      </p>
+      <p className="text-gray-700">
+        <strong>単語:</strong> {word.vietnamese}（{word.japanese}）
+      </p>
+      <p className="text-sm text-gray-600">
+        {score >= SPEAKING_PASS_SCORE
+          ? '声の上がり下がりがお手本とよく合っています'
+          : 'グラフの青い線（お手本）と同じ形になるように、声の高さの動きを意識しましょう'}
+      </p>
+    </>
+  );
+}
+
+export default function SpeakingQuizPage() {
+  const searchParams = useSearchParams();
+  const categoryParam = searchParams.get('category') || 'all';
+  const { recordPronunciation } = useUserProgressActions();
+
+  // Pitch scores are kept apart from the vocabulary review: a low score says
+  // nothing about whether the word was remembered. Skipped questions are not stored
+  const handleAnswer = useCallback(
+    (question: QuizQuestion, answer: string) => {
+      if (answer !== '') recordPronunciation(question.word_id, Number(answer));
+    },
+    [recordPronunciation]
+  );
+
+  return (
+    <QuizSession
+      quizType="speaking"
+      categoryParam={categoryParam}
+      grader={speakingGrader}
+      recordsReview={false}
+      onAnswer={handleAnswer}
+      title="🎙️ 発音練習"
+      renderPrompt={(context) => <SpeakingPrompt {...context} />}
+      renderAnswer={(context, submit) => (
+        <SpeakingRecorder key={context.question.id} {...context} onSubmit={submit} />
+      )}
+      renderFeedbackDetails={(context) => <SpeakingFeedback {...context} />}
+      footer={
+        <div className="text-center text-sm text-gray-500">
+          💡 ヒント: 録音と解析はすべてブラウザ内で行われ、音声は送信されません
+        </div>
+      }
+    />
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useSearchParams } from 'next/navigation';
+import QuizSession, { type QuizPromptContext } from '@/components/QuizSession';
+import TypedAnswerInput from '@/components/TypedAnswerInput';
+import { gradeTypedAnswer, typingGrader, type SyllableMistake } from '@/lib/quiz';
+import type { ToneId } from '@/types';
+
+/** Japanese labels for each tone */
+const TONE_LABELS: Readonly<Record<ToneId, string>> = {
+  ngang: '平声（記号なし）',
+  'sắc': '鋭声（´）',
+  'huyền': '玄声（`）',
+  'hỏi': '問声（?）',
+  'ngã': '跌声（~）',
+  'nặng': '重声（．）',
+};
+
+const describeMistake = (mistake: SyllableMistake): string => {
+  if (mistake.kind === 'tone') {
+    return `「${mistake.typed}」の声調が${TONE_LABELS[mistake.typed_tone]}になっています。正しくは${TONE_LABELS[mistake.expected_tone]}の「${mistake.expected}」です`;
+  }
+  const letters = mistake.letters
+    .map((letter) => `${letter.typed} → ${letter.expected}`)
+    .join('、');
+  return `「${mistake.typed}」の記号が違います（${letters}）。正しくは「${mistake.expected}」です`;
+};
+
+function TypingFeedback({ question, word, selectedAnswer }: QuizPromptContext) {
+  const grade = gradeTypedAnswer(question.correct_answer, selectedAnswer ?? '');
+
+  return (
+    <>
+      <p className="text-gray-700">
+        <strong>あなたの回答:</strong> {selectedAnswer}
+      </p>
+      <p className="text-gray-700">
+        <strong>正解:</strong> {question.correct_answer}
+      </p>
+      {grade.verdict === 'wrong' ? (
+        <p className="text-sm text-gray-700 mt-2">
+          別の単語になっています。つづりを確認しましょう。
+        </p>
+      ) : (
+        grade.mistakes.length > 0 && (
+          <ul className="text-sm text-gray-700 mt-2 space-y-1">
+            {grade.mistakes.map((mistake, idx) => (
+              <li key={idx}>• {describeMistake(mistake)}</li>
+            ))}
+          </ul>
+        )
+      )}
+      <p className="text-sm text-gray-600 mt-2">
+        発音: {word.pronunciation}
+      </p>
+    </>
+  );
+}
+
+export default function TypingQuizPage() {
+  const searchParams = useSearchParams();
+  const categoryParam = searchParams.get('category') || 'all';
+
+  return (
+    <QuizSession
+      quizType="typing"
+      categoryParam={categoryParam}
+      grader={typingGrader}
+      title="⌨️ タイピング"
+      renderPrompt={({ question }) => (
+        <>
+          <p className="text-sm text-gray-600 mb-2">日本語を読んで、ベトナム語を入力してください</p>
+          <h2 className="text-4xl font-bold text-gray-900" id="quiz-question">
+            {question.question}
+          </h2>
+        </>
+      )}
+      renderAnswer={(context, submit) => (
+        <TypedAnswerInput
+          key={context.question.id}
+          showFeedback={context.showFeedback}
+          onSubmit={submit}
+        />
+      )}
+      renderFeedbackDetails={(context) => <TypingFeedback {...context} />}
+      footer={
+        <div className="text-center text-sm text-gray-500">
+          💡 ヒント: 声調の間違いや記号（ă/â/ơ/ư/đ）の抜けは部分点になります
+        </div>
+      }
+    />
+  );
+}
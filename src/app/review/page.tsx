@@ -0,0 +1,434 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { AUDIO_PREFETCH_AHEAD } from '@/lib/audio-manager';
+import { useAudioPlayer } from '@/lib/hooks/useAudioPlayer';
+import { useAudioPrefetch } from '@/lib/hooks/useAudioPrefetch';
+import { getDueWordIds } from '@/lib/spaced-repetition';
+import {
+  useUserProgressStore,
+  useUserProgressActions,
+} from '@/stores/userProgressStore';
+import type { Word, ReviewGrade } from '@/types';
+import { getWordIndex, indexWords, type WordIndex } from '@/lib/content-repository';
+import { applyDialectToWords } from '@/lib/dialects';
+import { useSettingsStore } from '@/stores/settingsStore';
+
+/** Maximum number of words in one daily review session */
+const MAX_REVIEW_ITEMS = 20;
+
+/**
+ * One step of the review session: a flashcard for words being relearned,
+ * a multiple choice question for words that are already learned
+ */
+type ReviewItem =
+  | { readonly kind: 'flashcard'; readonly word: Word }
+  | {
+      readonly kind: 'quiz';
+      readonly word: Word;
+      readonly choices: readonly string[];
+      readonly correctAnswer: string;
+    };
+
+/**
+ * Flashcard grade buttons shown after flipping the card
+ */
+const GRADE_BUTTONS: readonly {
+  grade: ReviewGrade;
+  label: string;
+  description: string;
+  className: string;
+}[] = [
+  {
+    grade: 'again',
+    label: 'もう一度',
+    description: '思い出せなかった（すぐにもう一度復習）',
+    className: 'bg-gray-200 text-gray-700 hover:bg-gray-300',
+  },
+  {
+    grade: 'hard',
+    label: '難しい',
+    description: 'なんとか思い出せた（間隔を短めに）',
+    className: 'bg-orange-100 text-orange-700 hover:bg-orange-200',
+  },
+  {
+    grade: 'good',
+    label: '覚えた',
+    description: '思い出せた（10 XP獲得）',
+    className: 'bg-green-500 text-white hover:bg-green-600',
+  },
+  {
+    grade: 'easy',
+    label: '簡単',
+    description: 'すぐに思い出せた（間隔を長めに）',
+    className: 'bg-blue-500 text-white hover:bg-blue-600',
+  },
+];
+
+/**
+ * Build today's review session from the due words
+ */
+const buildReviewItems = (
+  dueWordIds: readonly string[],
+  { words: allWords, byId }: WordIndex,
+  repetitionsOf: (wordId: string) => number
+): ReviewItem[] => {
+  return dueWordIds
+    .map((wordId) => byId.get(wordId))
+    .filter((word): word is Word => word !== undefined)
+    .slice(0, MAX_REVIEW_ITEMS)
+    .map((word): ReviewItem => {
+      if (repetitionsOf(word.id) === 0) {
+        return { kind: 'flashcard', word };
+      }
+
+      const wrongChoices = allWords
+        .filter((w) => w.id !== word.id)
+        .sort(() => Math.random() - 0.5)
+        .slice(0, 3)
+        .map((w) => w.vietnamese);
+
+      return {
+        kind: 'quiz',
+        word,
+        choices: [word.vietnamese, ...wrongChoices].sort(() => Math.random() - 0.5),
+        correctAnswer: word.vietnamese,
+      };
+    });
+};
+
+/**
+ * Daily review page built from words whose scheduled review is due
+ */
+export default function ReviewPage() {
+  const router = useRouter();
+
+  const [items, setItems] = useState<ReviewItem[] | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [xpEarned, setXpEarned] = useState(0);
+  const [showCompletion, setShowCompletion] = useState(false);
+
+  const { recordReview, addExperiencePoints, updateStreak, addStudySession } =
+    useUserProgressActions();
+
+  const currentItem = items?.[currentIndex];
+  const { play } = useAudioPlayer(currentItem?.word.audio_url || '');
+  useAudioPrefetch(
+    (items ?? [])
+      .slice(currentIndex + 1, currentIndex + 1 + AUDIO_PREFETCH_AHEAD)
+      .map((item) => item.word.audio_url)
+  );
+
+  // Build the session once from a snapshot of the due words
+  useEffect(() => {
+    const loadItems = async () => {
+      try {
+        const { words } = await getWordIndex();
+        const { dialect } = useSettingsStore.getState();
+
+        const { word_memory } = useUserProgressStore.getState();
+        setItems(
+          buildReviewItems(
+            getDueWordIds(word_memory),
+            indexWords(applyDialectToWords(words, dialect)),
+            (wordId) => word_memory[wordId]?.repetitions ?? 0
+          )
+        );
+      } catch (error) {
+        console.error('Failed to load review words:', error);
+        setItems([]);
+      }
+    };
+
+    loadItems();
+  }, []);
+
+  // Update streak and add study session on completion
+  useEffect(() => {
+    if (showCompletion && items && items.length > 0) {
+      updateStreak();
+      addStudySession({
+        duration_minutes: Math.ceil(items.length * 0.5), // Estimate: 30 sec per item
+        words_practiced: items.length,
+        quiz_score: Math.round((correctCount / items.length) * 100),
+        activity_type: 'learning',
+        xp_earned: xpEarned,
+        words_learned: correctCount,
+      });
+    }
+  }, [showCompletion, items, correctCount, xpEarned, updateStreak, addStudySession]);
+
+  const nextItem = () => {
+    if (!items || currentIndex + 1 >= items.length) {
+      setShowCompletion(true);
+    } else {
+      setCurrentIndex(currentIndex + 1);
+      setIsFlipped(false);
+      setSelectedAnswer(null);
+    }
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!currentItem) return;
+
+    recordReview(currentItem.word.id, grade, 'flashcard');
+
+    if (grade !== 'again') {
+      setCorrectCount(correctCount + 1);
+      setXpEarned(xpEarned + 10);
+      addExperiencePoints(10);
+    }
+
+    nextItem();
+  };
+
+  const handleAnswer = (answer: string) => {
+    if (!currentItem || currentItem.kind !== 'quiz' || selectedAnswer) return;
+
+    const isCorrect = answer === currentItem.correctAnswer;
+    setSelectedAnswer(answer);
+    recordReview(currentItem.word.id, isCorrect ? 'good' : 'again', 'quiz');
+
+    if (isCorrect) {
+      setCorrectCount(correctCount + 1);
+      setXpEarned(xpEarned + 5);
+      addExperiencePoints(5);
+    }
+  };
+
+  if (items === null) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="text-center">
+          <p className="text-gray-600">読み込み中...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="bg-white rounded-lg shadow-xl p-8 text-center">
+          <div className="text-6xl mb-4" aria-hidden="true">✅</div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">
+            今日の復習はありません
+          </h1>
+          <p className="text-gray-600 mb-8">
+            復習が必要な単語はすべて完了しています。新しい単語を学習しましょう。
+          </p>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <Link
+              href="/flashcards"
+              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+            >
+              単語カードで学習
+            </Link>
+            <Link
+              href="/"
+              className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              ホームに戻る
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (showCompletion) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="bg-white rounded-lg shadow-xl p-8 text-center">
+          <div className="text-6xl mb-4" aria-hidden="true">🎉</div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">
+            今日の復習が完了しました
+          </h1>
+
+          <div className="grid grid-cols-2 gap-4 mb-8">
+            <div className="bg-green-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">思い出せた単語</p>
+              <p className="text-3xl font-bold text-green-600">
+                {correctCount} / {items.length}
+              </p>
+            </div>
+            <div className="bg-blue-50 p-4 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">獲得XP</p>
+              <p className="text-3xl font-bold text-blue-600">{xpEarned}</p>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-4 justify-center" role="group" aria-label="完了後のアクション">
+            <button
+              onClick={() => router.push('/flashcards')}
+              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+              aria-label="単語カードで新しい単語を学習する"
+            >
+              新しい単語を学習
+            </button>
+            <button
+              onClick={() => router.push('/')}
+              className="px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+              aria-label="ホーム画面に戻る"
+            >
+              ホームに戻る
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!currentItem) {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-2xl font-bold text-gray-900">
+            <span aria-hidden="true">🔁</span> 今日の復習
+          </h1>
+          <button
+            onClick={() => router.push('/')}
+            className="text-gray-500 hover:text-gray-700"
+            aria-label="復習を終了してホームに戻る"
+          >
+            <span aria-hidden="true">✕</span> 終了
+          </button>
+        </div>
+
+        {/* Progress */}
+        <div className="mb-2" role="region" aria-label="復習進捗">
+          <div className="flex justify-between text-sm text-gray-600 mb-1" aria-live="polite">
+            <span>
+              {currentIndex + 1} / {items.length}
+            </span>
+            <span>思い出せた: {correctCount}</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2" role="progressbar" aria-valuenow={((currentIndex + 1) / items.length) * 100} aria-valuemin={0} aria-valuemax={100} aria-label="復習進捗バー">
+            <div
+              className="bg-primary-500 h-2 rounded-full transition-all"
+              style={{
+                width: `${((currentIndex + 1) / items.length) * 100}%`,
+              }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {currentItem.kind === 'flashcard' ? (
+        <div className="bg-white rounded-lg shadow-xl p-8 mb-6">
+          <div className="text-center mb-6">
+            <p className="text-sm text-gray-500 mb-4">単語カード - 意味を思い出してください</p>
+            <h2 className="text-5xl font-bold text-gray-900 mb-4">
+              {currentItem.word.vietnamese}
+            </h2>
+            <button
+              onClick={play}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
+              aria-label={`${currentItem.word.vietnamese}の音声を再生`}
+            >
+              <span aria-hidden="true">🔊</span> 音声を聞く
+            </button>
+          </div>
+
+          {isFlipped ? (
+            <div className="pt-6 border-t border-gray-200">
+              <div className="text-center mb-6">
+                <p className="text-3xl font-bold text-gray-900 mb-2">
+                  {currentItem.word.japanese}
+                </p>
+                <p className="text-lg text-blue-600">
+                  {currentItem.word.pronunciation}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3" role="group" aria-label="どれくらい思い出せたかを選択">
+                {GRADE_BUTTONS.map((button) => (
+                  <button
+                    key={button.grade}
+                    onClick={() => handleGrade(button.grade)}
+                    className={`px-4 py-3 rounded-lg font-semibold transition-colors ${button.className}`}
+                    aria-label={`${button.label}: ${button.description}`}
+                  >
+                    {button.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsFlipped(true)}
+              className="w-full px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+            >
+              答えを見る
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-xl p-8 mb-6">
+          <div className="text-center mb-8">
+            <p className="text-sm text-gray-600 mb-2">日本語を読んで、対応するベトナム語を選んでください</p>
+            <h2 className="text-4xl font-bold text-gray-900" id="review-question">
+              {currentItem.word.japanese}
+            </h2>
+          </div>
+
+          <div className="grid grid-cols-1 gap-3 mb-6" role="radiogroup" aria-labelledby="review-question">
+            {currentItem.choices.map((choice, idx) => {
+              const isSelected = selectedAnswer === choice;
+              const isCorrect = choice === currentItem.correctAnswer;
+              const showCorrect = selectedAnswer !== null && isCorrect;
+              const showIncorrect = isSelected && !isCorrect;
+
+              return (
+                <button
+                  key={idx}
+                  onClick={() => handleAnswer(choice)}
+                  disabled={selectedAnswer !== null}
+                  role="radio"
+                  aria-checked={isSelected}
+                  aria-label={choice}
+                  className={`p-4 rounded-lg border-2 text-left text-lg font-medium transition-all ${
+                    showCorrect
+                      ? 'bg-green-100 border-green-500 ring-2 ring-green-300'
+                      : showIncorrect
+                      ? 'bg-red-100 border-red-500 ring-2 ring-red-300'
+                      : 'bg-white border-gray-200 hover:border-primary-400 hover:bg-gray-50'
+                  } ${selectedAnswer !== null ? 'cursor-default' : 'cursor-pointer'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span>{choice}</span>
+                    {showCorrect && <span className="text-2xl" aria-label="正解">✓</span>}
+                    {showIncorrect && <span className="text-2xl" aria-label="不正解">✗</span>}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {selectedAnswer !== null && (
+            <div className="pt-6 border-t border-gray-200" role="alert" aria-live="assertive">
+              <p className="text-gray-700 mb-4">
+                <strong>正解:</strong> {currentItem.correctAnswer}（{currentItem.word.pronunciation}）
+              </p>
+              <button
+                onClick={nextItem}
+                className="w-full px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+              >
+                次へ →
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import RecordingStudio from '@/components/RecordingStudio';
+import { auth } from '@/lib/auth';
+import { isAdminEmail } from '@/lib/admin';
+import { getWordIndex } from '@/lib/content-repository';
+import { getSyllableClips } from '@/lib/minimal-pairs';
+import { buildRecordingPlan } from '@/lib/recording-studio';
+import type { Alphabet, Tone } from '@/types';
+import alphabetData from '@/data/alphabet.json';
+import tonesData from '@/data/tones.json';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: '録音スタジオ',
+  robots: { index: false, follow: false },
+};
+
+export default async function StudioPage() {
+  const session = await auth();
+  // Hide the page entirely from everyone but admins
+  if (!isAdminEmail(session?.user?.email)) {
+    notFound();
+  }
+
+  const { byCategory } = await getWordIndex();
+  const words = Object.fromEntries(byCategory);
+  const items = buildRecordingPlan({
+    alphabet: alphabetData as Alphabet[],
+    tones: tonesData as Tone[],
+    words,
+    syllables: getSyllableClips(),
+  });
+
+  return <RecordingStudio items={items} />;
+}
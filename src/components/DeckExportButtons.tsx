@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { getExportFileName, wordsToCsv } from '@/lib/deck-transfer';
+import type { Word } from '@/types';
+
+interface DeckExportButtonsProps {
+  name: string;
+  description: string;
+  /** Words to export, or null while they load */
+  words: readonly Word[] | null;
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * CSV and Anki package download buttons for a deck
+ */
+export default function DeckExportButtons({ name, description, words }: DeckExportButtonsProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isDisabled = !words || words.length === 0 || isExporting;
+
+  const handleCsv = () => {
+    if (!words) return;
+    // The byte order mark lets Excel detect UTF-8
+    downloadBlob(
+      new Blob(['\uFEFF', wordsToCsv(words)], { type: 'text/csv;charset=utf-8' }),
+      getExportFileName(name, 'csv')
+    );
+  };
+
+  const handleAnki = async () => {
+    if (!words) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/decks/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description, words }),
+      });
+      if (!response.ok) {
+        throw new Error(`API call failed: ${response.status} ${response.statusText}`);
+      }
+      downloadBlob(await response.blob(), getExportFileName(name, 'apkg'));
+    } catch (exportError) {
+      console.error('Failed to export Anki package:', exportError);
+      setError('Anki形式の書き出しに失敗しました。オンラインで再度お試しください。');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleCsv}
+          disabled={isDisabled}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          CSVで書き出す
+        </button>
+        <button
+          onClick={handleAnki}
+          disabled={isDisabled}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          {isExporting ? '書き出し中...' : 'Anki (.apkg) で書き出す'}
+        </button>
+      </div>
+      {error && (
+        <p className="text-sm text-red-600 mt-2" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { DIALECTS, DIALECT_LABELS } from '@/lib/dialects';
+import { useDialect, useSettingsActions } from '@/stores/settingsStore';
+import { isValidDialect } from '@/types/data';
+
+interface DialectSelectorProps {
+  className?: string;
+}
+
+/**
+ * Picker for the dialect used by every reading, recording and quiz
+ */
+export default function DialectSelector({ className = '' }: DialectSelectorProps) {
+  const dialect = useDialect();
+  const { setDialect } = useSettingsActions();
+
+  return (
+    <select
+      value={dialect}
+      onChange={(event) => {
+        if (isValidDialect(event.target.value)) setDialect(event.target.value);
+      }}
+      aria-label="発音の地域"
+      title="読み・音声・単語を北部（ハノイ）と南部（ホーチミン）で切り替えます"
+      className={`px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-primary-500 ${className}`}
+    >
+      {DIALECTS.map((option) => (
+        <option key={option} value={option}>
+          {DIALECT_LABELS[option].name}（{DIALECT_LABELS[option].city}）
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -2,9 +2,21 @@
 
 import Link from 'next/link';
 import { useState } from 'react';
+import DialectSelector from '@/components/DialectSelector';
+import { useDueWordCount } from '@/stores/userProgressStore';
 
 export default function Header() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const dueCount = useDueWordCount();
+
+  const dueBadge = dueCount > 0 && (
+    <span
+      className="ml-1 inline-flex items-center justify-center min-w-[1.25rem] px-1.5 rounded-full bg-primary-500 text-white text-xs font-semibold"
+      aria-label={`復習待ち ${dueCount} 語`}
+    >
+      {dueCount}
+    </span>
+  );
 
   return (
     <header className="bg-white shadow-sm sticky top-0 z-50">
@@ -34,6 +46,12 @@ export default function Header() {
             >
               声調
             </Link>
+            <Link
+              href="/review"
+              className="text-gray-700 hover:text-primary-600 transition-colors"
+            >
+              復習{dueBadge}
+            </Link>
             <Link
               href="/flashcards"
               className="text-gray-700 hover:text-primary-600 transition-colors"
@@ -52,6 +70,7 @@ export default function Header() {
             >
               学習統計
             </Link>
+            <DialectSelector />
           </div>
 
           {/* Mobile menu button */}
@@ -117,6 +136,14 @@ export default function Header() {
             >
               声調
             </Link>
+            <Link
+              href="/review"
+              className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:bg-gray-100 hover:text-primary-600"
+              onClick={() => setMobileMenuOpen(false)}
+              role="menuitem"
+            >
+              復習{dueBadge}
+            </Link>
             <Link
               href="/flashcards"
               className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:bg-gray-100 hover:text-primary-600"
@@ -141,6 +168,9 @@ export default function Header() {
             >
               学習統計
             </Link>
+            <div className="px-3 py-2">
+              <DialectSelector />
+            </div>
           </div>
         )}
       </nav>
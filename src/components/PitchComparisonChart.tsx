@@ -0,0 +1,82 @@
+'use client';
+
+import { useMemo } from 'react';
+import { toContourPaths, type PitchPoint } from '@/lib/pitch';
+
+interface PitchComparisonChartProps {
+  reference: readonly PitchPoint[];
+  /** Learner's contour, drawn over the reference once recorded */
+  attempt?: readonly PitchPoint[] | null;
+}
+
+const WIDTH = 240;
+const HEIGHT = 100;
+/** Semitones above/below the median shown before clipping */
+const SEMITONE_RANGE = 8;
+
+/**
+ * Reference and learner pitch contours on the same relative scale
+ */
+export default function PitchComparisonChart({ reference, attempt }: PitchComparisonChartProps) {
+  const referencePaths = useMemo(
+    () => toContourPaths(reference, WIDTH, HEIGHT, SEMITONE_RANGE),
+    [reference]
+  );
+  const attemptPaths = useMemo(
+    () => (attempt ? toContourPaths(attempt, WIDTH, HEIGHT, SEMITONE_RANGE) : []),
+    [attempt]
+  );
+
+  return (
+    <figure className="w-full max-w-md mx-auto">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-32 bg-gray-50 rounded-lg border border-gray-200"
+        role="img"
+        aria-label="お手本と自分の声のピッチ曲線"
+      >
+        <line
+          x1={0}
+          y1={HEIGHT / 2}
+          x2={WIDTH}
+          y2={HEIGHT / 2}
+          stroke="#e5e7eb"
+          strokeDasharray="4 4"
+        />
+        {referencePaths.map((d, i) => (
+          <path
+            key={`reference-${i}`}
+            d={d}
+            fill="none"
+            stroke="#3b82f6"
+            strokeWidth={4}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+        {attemptPaths.map((d, i) => (
+          <path
+            key={`attempt-${i}`}
+            d={d}
+            fill="none"
+            stroke="#f97316"
+            strokeWidth={3}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeDasharray="6 3"
+          />
+        ))}
+      </svg>
+      <figcaption className="flex justify-center gap-4 text-xs text-gray-600 mt-2">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 h-1 bg-blue-500 rounded" /> お手本
+        </span>
+        {attempt && (
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-4 h-1 bg-orange-500 rounded" /> 自分の声
+          </span>
+        )}
+      </figcaption>
+    </figure>
+  );
+}
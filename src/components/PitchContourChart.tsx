@@ -0,0 +1,77 @@
+'use client';
+
+import { useMemo } from 'react';
+import { usePitchContour } from '@/lib/hooks/usePitchContour';
+import { toContourPaths } from '@/lib/pitch';
+
+interface PitchContourChartProps {
+  /** Recording to analyze */
+  audioUrl: string;
+  /** Stylized pattern arrow from tones.json, drawn underneath */
+  pattern: string;
+  size?: 'sm' | 'lg';
+}
+
+const WIDTH = 120;
+const HEIGHT = 60;
+/** Semitones above/below the median shown before clipping */
+const SEMITONE_RANGE = 8;
+
+/**
+ * Pitch contour (F0 over time) of a tone recording, measured in the browser
+ * and drawn over the stylized pattern arrow
+ */
+export default function PitchContourChart({
+  audioUrl,
+  pattern,
+  size = 'sm',
+}: PitchContourChartProps) {
+  const { contour, isLoading, error } = usePitchContour(audioUrl);
+  const segments = useMemo(
+    () => (contour ? toContourPaths(contour, WIDTH, HEIGHT, SEMITONE_RANGE) : []),
+    [contour]
+  );
+  const hasContour = segments.length > 0;
+
+  return (
+    <figure
+      className={`relative ${size === 'lg' ? 'w-48 h-24' : 'w-24 h-12'}`}
+      aria-label={hasContour ? `${pattern} のピッチ曲線` : pattern}
+    >
+      <span
+        aria-hidden="true"
+        className={`absolute inset-0 flex items-center justify-center ${
+          size === 'lg' ? 'text-6xl' : 'text-3xl'
+        } ${hasContour ? 'opacity-20' : ''}`}
+      >
+        {pattern}
+      </span>
+      {hasContour && (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="absolute inset-0 w-full h-full overflow-visible"
+          aria-hidden="true"
+        >
+          {segments.map((d, i) => (
+            <path
+              key={i}
+              d={d}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={3}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+      )}
+      {size === 'lg' && (isLoading || error) && (
+        <figcaption className="absolute -bottom-5 inset-x-0 text-center text-xs text-gray-400">
+          {isLoading ? 'ピッチを解析中...' : 'ピッチを解析できませんでした'}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useRouter } from 'next/navigation';
+import type { QuizType } from '@/types';
 
 interface QuizResultsProps {
   score: number;
@@ -13,7 +14,11 @@ interface QuizResultsProps {
     };
   }>;
   categoryParam: string;
-  quizType: 'listening' | 'ja-to-vi' | 'vi-to-ja';
+  quizType: QuizType;
+  /** Score including partial credit; defaults to the share of correct answers */
+  scorePercentage?: number;
+  /** Starts a new session in place; falls back to reloading the quiz route */
+  onRestart?: () => void;
 }
 
 export default function QuizResults({
@@ -22,9 +27,13 @@ export default function QuizResults({
   wrongAnswers,
   categoryParam,
   quizType,
+  scorePercentage,
+  onRestart,
 }: QuizResultsProps) {
   const router = useRouter();
-  const percentage = (score / totalQuestions) * 100;
+  const percentage = scorePercentage ?? (score / totalQuestions) * 100;
+  const isListeningMode =
+    quizType === 'listening' || quizType === 'dictation' || quizType === 'tone';
 
   const getQuizTitle = () => {
     switch (quizType) {
@@ -34,11 +43,24 @@ export default function QuizResults({
         return '🇯🇵→🇻🇳 日本語→ベトナム語';
       case 'vi-to-ja':
         return '🇻🇳→🇯🇵 ベトナム語→日本語';
+      case 'typing':
+        return '⌨️ タイピング';
+      case 'dictation':
+        return '✍️ ディクテーション';
+      case 'sentence':
+        return '🧩 文の並べ替え';
+      case 'cloze':
+        return '📝 穴埋め';
+      case 'tone':
+        return '🎵 声調クイズ';
+      case 'speaking':
+        return '🎙️ 発音練習';
     }
   };
 
   const getQuizPath = () => {
-    return `/quiz/${quizType}?category=${categoryParam}`;
+    const path = quizType === 'tone' ? '/learn/tones/quiz' : `/quiz/${quizType}`;
+    return `${path}?category=${categoryParam}`;
   };
 
   return (
@@ -76,19 +98,19 @@ export default function QuizResults({
             </p>
           ) : percentage >= 80 ? (
             <p className="text-lg text-gray-700">
-              {quizType === 'listening'
+              {isListeningMode
                 ? '素晴らしい！リスニング力が高いですね！'
                 : 'よくできました！語彙力が高いですね！'}
             </p>
           ) : percentage >= 60 ? (
             <p className="text-lg text-gray-700">
-              {quizType === 'listening'
+              {isListeningMode
                 ? 'いい調子です！繰り返し聞くことで耳が慣れてきます。'
                 : 'いい調子です！継続して学習しましょう。'}
             </p>
           ) : (
             <p className="text-lg text-gray-700">
-              {quizType === 'listening'
+              {isListeningMode
                 ? '頑張りましょう！毎日少しずつ聞くことが上達の鍵です。'
                 : '頑張りましょう！毎日少しずつ学習することが大切です。'}
             </p>
@@ -123,7 +145,7 @@ export default function QuizResults({
 
         <div className="flex flex-col sm:flex-row gap-4">
           <button
-            onClick={() => router.push(getQuizPath())}
+            onClick={() => (onRestart ? onRestart() : router.push(getQuizPath()))}
             className="flex-1 px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
           >
             もう一度挑戦
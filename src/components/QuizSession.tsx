@@ -0,0 +1,289 @@
+'use client';
+
+import { useCallback, type ReactNode } from 'react';
+import dynamicImport from 'next/dynamic';
+import { useRouter } from 'next/navigation';
+import { useQuizSession } from '@/lib/hooks/useQuizSession';
+import {
+  QUESTION_GENERATORS,
+  getAnswerExperience,
+  type AnswerGrader,
+  type AnswerGrading,
+} from '@/lib/quiz';
+import type { QuizQuestion, QuizType, Word } from '@/types';
+
+// Dynamic import for QuizResults - only loaded when quiz is complete
+const QuizResults = dynamicImport(() => import('@/components/QuizResults'), {
+  loading: () => (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <div className="bg-white rounded-lg shadow-xl p-8 animate-pulse">
+        <div className="h-48 bg-gray-200 rounded"></div>
+      </div>
+    </div>
+  ),
+  ssr: false,
+});
+
+/**
+ * Context passed to the mode-specific render functions
+ */
+export interface QuizPromptContext {
+  readonly question: QuizQuestion;
+  readonly word: Word;
+  readonly showFeedback: boolean;
+  readonly isCorrect: boolean;
+  /** Answer given for the current question, once answered */
+  readonly selectedAnswer: string | null;
+  /** Credit of the current answer (0-1), once answered */
+  readonly credit: number;
+}
+
+interface QuizSessionProps {
+  quizType: QuizType;
+  categoryParam: string;
+  /** Grades answers (default: multiple-choice exact match) */
+  grader?: AnswerGrader;
+  /** Whether answers reschedule words in the vocabulary review (default: true) */
+  recordsReview?: boolean;
+  /** Called with each graded answer, to record results of the mode */
+  onAnswer?: (question: QuizQuestion, answer: string, grading: AnswerGrading) => void;
+  /** Heading shown above the progress bar */
+  title: ReactNode;
+  /** Renders the question part of the card */
+  renderPrompt: (context: QuizPromptContext) => ReactNode;
+  /** Renders the answer area; defaults to the four choice buttons */
+  renderAnswer?: (context: QuizPromptContext, submit: (answer: string) => void) => ReactNode;
+  /** Renders the explanation below the result line; defaults to answer and pronunciation */
+  renderFeedbackDetails?: (context: QuizPromptContext) => ReactNode;
+  /** Rendered below the question card */
+  footer?: ReactNode;
+  /** Where the exit button leads (default: quiz selection) */
+  exitPath?: string;
+}
+
+const defaultFeedbackDetails = ({ question, word }: QuizPromptContext) => (
+  <>
+    <p className="text-gray-700">
+      <strong>正解:</strong> {question.correct_answer}
+    </p>
+    <p className="text-sm text-gray-600">
+      発音: {word.pronunciation}
+    </p>
+  </>
+);
+
+export default function QuizSession({
+  quizType,
+  categoryParam,
+  grader,
+  recordsReview,
+  onAnswer,
+  title,
+  renderPrompt,
+  renderAnswer,
+  renderFeedbackDetails = defaultFeedbackDetails,
+  footer,
+  exitPath = '/quiz',
+}: QuizSessionProps) {
+  const router = useRouter();
+
+  const handleLoadError = useCallback(() => {
+    router.push(exitPath);
+  }, [router, exitPath]);
+
+  const {
+    state,
+    currentQuestion,
+    currentWord,
+    wordsById,
+    correctCount,
+    result,
+    answer,
+    next,
+    restart,
+  } = useQuizSession({
+    generator: QUESTION_GENERATORS[quizType],
+    grader,
+    recordsReview,
+    onAnswer,
+    categoryParam,
+    onLoadError: handleLoadError,
+  });
+
+  if (state.status === 'error') {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="text-center">
+          <p className="text-gray-600 mb-4">問題を作成できませんでした</p>
+          <button
+            onClick={() => router.push(exitPath)}
+            className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+          >
+            クイズ選択に戻る
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (result) {
+    const wrongAnswers = result.incorrect_word_ids.flatMap((wordId) => {
+      const word = wordsById.get(wordId);
+      return word ? [{ word }] : [];
+    });
+
+    return (
+      <QuizResults
+        score={result.correct_answers}
+        totalQuestions={result.total_questions}
+        wrongAnswers={wrongAnswers}
+        categoryParam={categoryParam}
+        quizType={quizType}
+        scorePercentage={result.score_percentage}
+        onRestart={restart}
+      />
+    );
+  }
+
+  if (state.status === 'loading' || !currentQuestion || !currentWord) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="text-center">
+          <p className="text-gray-600">問題を読み込み中...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const totalQuestions = state.questions.length;
+  const showFeedback = state.status === 'feedback';
+  const currentAnswer = showFeedback ? state.answers[state.answers.length - 1] : undefined;
+  const isCorrect = currentAnswer?.is_correct ?? false;
+  const credit = currentAnswer?.credit ?? 0;
+  const isPartial = !isCorrect && credit > 0;
+  const progressPercent = ((state.currentIndex + 1) / totalQuestions) * 100;
+  const context: QuizPromptContext = {
+    question: currentQuestion,
+    word: currentWord,
+    showFeedback,
+    isCorrect,
+    selectedAnswer: state.selectedAnswer,
+    credit,
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+          <button
+            onClick={() => router.push(exitPath)}
+            className="text-gray-500 hover:text-gray-700"
+            aria-label="クイズを終了して前の画面に戻る"
+          >
+            <span aria-hidden="true">✕</span> 終了
+          </button>
+        </div>
+
+        {/* Progress */}
+        <div className="mb-2" role="region" aria-label="クイズ進捗">
+          <div className="flex justify-between text-sm text-gray-600 mb-1" aria-live="polite">
+            <span>
+              問題 {state.currentIndex + 1} / {totalQuestions}
+            </span>
+            <span>正解: {correctCount}</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2" role="progressbar" aria-valuenow={progressPercent} aria-valuemin={0} aria-valuemax={100} aria-label="クイズ進捗バー">
+            <div
+              className="bg-primary-500 h-2 rounded-full transition-all"
+              style={{ width: `${progressPercent}%` }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Question Card */}
+      <div className="bg-white rounded-lg shadow-xl p-8 mb-6">
+        {/* Question */}
+        <div className="text-center mb-8">{renderPrompt(context)}</div>
+
+        {/* Answer */}
+        {renderAnswer ? (
+          renderAnswer(context, answer)
+        ) : (
+          <div className="grid grid-cols-1 gap-3 mb-6" role="radiogroup" aria-labelledby="quiz-question">
+            {(currentQuestion.options ?? []).map((choice, idx) => {
+              const isSelected = state.selectedAnswer === choice;
+              const isChoiceCorrect = choice === currentQuestion.correct_answer;
+              const showCorrect = showFeedback && isChoiceCorrect;
+              const showIncorrect = showFeedback && isSelected && !isChoiceCorrect;
+
+              return (
+                <button
+                  key={idx}
+                  onClick={() => answer(choice)}
+                  disabled={showFeedback}
+                  role="radio"
+                  aria-checked={isSelected}
+                  aria-label={choice}
+                  className={`p-4 rounded-lg border-2 text-left text-lg font-medium transition-all ${
+                    showCorrect
+                      ? 'bg-green-100 border-green-500 ring-2 ring-green-300'
+                      : showIncorrect
+                      ? 'bg-red-100 border-red-500 ring-2 ring-red-300'
+                      : isSelected
+                      ? 'bg-blue-50 border-blue-400'
+                      : 'bg-white border-gray-200 hover:border-primary-400 hover:bg-gray-50'
+                  } ${showFeedback ? 'cursor-default' : 'cursor-pointer'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span>{choice}</span>
+                    {showCorrect && <span className="text-2xl" aria-label="正解">✓</span>}
+                    {showIncorrect && <span className="text-2xl" aria-label="不正解">✗</span>}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Feedback */}
+        {showFeedback && (
+          <div className="mt-6 pt-6 border-t border-gray-200" role="alert" aria-live="assertive">
+            <div
+              className={`p-4 rounded-lg mb-4 ${
+                isCorrect ? 'bg-green-50' : isPartial ? 'bg-yellow-50' : 'bg-red-50'
+              }`}
+            >
+              <p
+                className={`text-lg font-semibold mb-2 ${
+                  isCorrect ? 'text-green-700' : isPartial ? 'text-yellow-700' : 'text-red-700'
+                }`}
+              >
+                <span aria-hidden="true">{isCorrect ? '🎉' : isPartial ? '🔶' : '❌'}</span>
+                {' '}
+                {isCorrect
+                  ? `正解！+${getAnswerExperience(credit)} XP`
+                  : isPartial
+                  ? `惜しい！+${getAnswerExperience(credit)} XP`
+                  : '不正解'}
+              </p>
+              {renderFeedbackDetails(context)}
+            </div>
+
+            <button
+              onClick={next}
+              className="w-full px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+              aria-label={state.currentIndex + 1 >= totalQuestions ? '結果画面へ進む' : '次の問題へ進む'}
+            >
+              次の問題へ →
+            </button>
+          </div>
+        )}
+      </div>
+
+      {footer}
+    </div>
+  );
+}
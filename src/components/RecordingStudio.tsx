@@ -0,0 +1,375 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  AUDIO_CREATION_CHECKLIST,
+  AUDIO_CREATION_PRIORITY,
+  AUDIO_RECORDING_LIMITS,
+} from '@/lib/audio';
+import type { AudioQualityRule } from '@/lib/audio-quality';
+import { useAudioRecorder, type AudioRecorderErrorType } from '@/lib/hooks/useAudioRecorder';
+import {
+  findMissingRecordings,
+  processTake,
+  type ProcessedTake,
+  type RecordingItem,
+} from '@/lib/recording-studio';
+import { createZip } from '@/lib/zip';
+
+interface RecordingStudioProps {
+  /** Every planned recording, most urgent first */
+  items: readonly RecordingItem[];
+}
+
+const RULE_LABELS: Readonly<Record<AudioQualityRule, string>> = {
+  'bit-rate': 'ビットレート',
+  'sample-rate': 'サンプリングレート',
+  'file-size': 'ファイルサイズ',
+  duration: '長さ',
+  'peak-level': '音量',
+  'noise-floor': 'ノイズ',
+  'leading-silence': '冒頭の無音',
+  'trailing-silence': '末尾の無音',
+};
+
+const RECORDER_ERRORS: Readonly<Record<AudioRecorderErrorType, string>> = {
+  unsupported: 'このブラウザは録音に対応していません',
+  permission: 'マイクの使用が許可されていません。ブラウザの設定を確認してください',
+  device: 'マイクが見つかりませんでした',
+};
+
+const SETUP_CHECKLIST = [
+  ...AUDIO_CREATION_CHECKLIST.nativeSpeaker.requirements,
+  ...AUDIO_CREATION_CHECKLIST.nativeSpeaker.recordingSetup,
+];
+
+// Allow a little time to start and stop around the longest clip
+const MAX_TAKE_MS = (AUDIO_RECORDING_LIMITS.maxDurationSeconds + 2) * 1000;
+
+const playBytes = (mp3: Uint8Array<ArrayBuffer>) => {
+  const url = URL.createObjectURL(new Blob([mp3], { type: 'audio/mpeg' }));
+  const audio = new Audio(url);
+  audio.onended = () => URL.revokeObjectURL(url);
+  void audio.play();
+};
+
+const downloadZip = (takes: ReadonlyMap<string, ProcessedTake>) => {
+  // Paths are relative to public/ so the archive unpacks in place
+  const zip = createZip(
+    [...takes].map(([path, take]) => ({ path: path.replace(/^\//, ''), data: take.mp3 }))
+  );
+  const url = URL.createObjectURL(new Blob([zip], { type: 'application/zip' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `recordings-${new Date().toISOString().slice(0, 10)}.zip`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+function SetupChecklist({ onStart }: { onStart: () => void }) {
+  const [checked, setChecked] = useState<ReadonlySet<string>>(new Set());
+  const toggle = (item: string) =>
+    setChecked((current) => {
+      const next = new Set(current);
+      if (next.has(item)) next.delete(item);
+      else next.add(item);
+      return next;
+    });
+
+  return (
+    <div className="bg-white rounded-lg shadow-xl p-8">
+      <h2 className="text-xl font-bold text-gray-900 mb-2">録音の準備</h2>
+      <p className="text-sm text-gray-600 mb-4">すべて確認してから録音を始めてください</p>
+      <ul className="space-y-2 mb-6">
+        {SETUP_CHECKLIST.map((item) => (
+          <li key={item}>
+            <label className="flex items-center gap-3 text-gray-700">
+              <input
+                type="checkbox"
+                checked={checked.has(item)}
+                onChange={() => toggle(item)}
+                className="w-4 h-4"
+              />
+              {item}
+            </label>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={onStart}
+        disabled={checked.size < SETUP_CHECKLIST.length}
+        className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        録音を始める
+      </button>
+    </div>
+  );
+}
+
+function TakeReport({ take }: { take: ProcessedTake }) {
+  const { metrics, fix, violations } = take;
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 text-sm space-y-2">
+      <p className="text-gray-700">
+        長さ {metrics.durationSeconds.toFixed(2)}秒 ・ 音量 {metrics.peakDb.toFixed(1)}dB ・{' '}
+        {(metrics.fileSizeBytes / 1024).toFixed(1)}KB
+        {fix && `（無音を${(fix.trimStartSeconds + fix.trimEndSeconds).toFixed(2)}秒カット、${fix.gainDb > 0 ? '+' : ''}${fix.gainDb.toFixed(1)}dB調整済み）`}
+      </p>
+      {violations.length === 0 ? (
+        <p className="text-green-700 font-medium">✓ 録音仕様を満たしています</p>
+      ) : (
+        <ul className="text-red-600 space-y-1" role="alert">
+          {violations.map((violation) => (
+            <li key={violation.rule}>
+              ✗ {RULE_LABELS[violation.rule]}: {violation.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div>
+        <p className="font-semibold text-gray-700 mt-2 mb-1">聞いて確認</p>
+        <ul className="list-disc list-inside text-gray-600">
+          {AUDIO_CREATION_CHECKLIST.postProcessing.qualityCheck.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Walks a native speaker through the missing recordings in priority order:
+ * record, automatic trim and normalization, preview, re-take and ZIP export
+ */
+export default function RecordingStudio({ items }: RecordingStudioProps) {
+  const [missing, setMissing] = useState<RecordingItem[] | null>(null);
+  const [started, setStarted] = useState(false);
+  const [index, setIndex] = useState(0);
+  const [takes, setTakes] = useState<ReadonlyMap<string, ProcessedTake>>(new Map());
+  const [hasUnexported, setHasUnexported] = useState(false);
+  const [take, setTake] = useState<ProcessedTake | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [processFailed, setProcessFailed] = useState(false);
+  const recorder = useAudioRecorder({ maxDurationMs: MAX_TAKE_MS });
+  const { recording, reset } = recorder;
+
+  useEffect(() => {
+    let cancelled = false;
+    findMissingRecordings(items).then((result) => {
+      if (!cancelled) setMissing(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [items]);
+
+  // Process each new take
+  useEffect(() => {
+    if (!recording) return;
+
+    let cancelled = false;
+    setIsProcessing(true);
+    setProcessFailed(false);
+    processTake(recording)
+      .then((result) => {
+        if (!cancelled) setTake(result);
+      })
+      .catch((error) => {
+        console.error('Failed to process recording:', error);
+        if (!cancelled) setProcessFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsProcessing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording]);
+
+  // Warn before leaving with takes that were not downloaded
+  useEffect(() => {
+    if (!hasUnexported) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnexported]);
+
+  const current = missing?.[index];
+  const savedTake = current ? takes.get(current.path) : undefined;
+  const weekDescription = useMemo(
+    () => (current ? AUDIO_CREATION_PRIORITY[current.week].description : ''),
+    [current]
+  );
+
+  const goTo = (nextIndex: number) => {
+    reset();
+    setTake(null);
+    setProcessFailed(false);
+    setIndex(nextIndex);
+  };
+
+  const accept = () => {
+    if (!current || !take) return;
+    setTakes((previous) => new Map(previous).set(current.path, take));
+    setHasUnexported(true);
+    goTo(index + 1);
+  };
+
+  const exportTakes = () => {
+    downloadZip(takes);
+    setHasUnexported(false);
+  };
+
+  if (!missing) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <p className="text-center text-gray-600">未録音の音声を確認中...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-2">
+          <h1 className="text-2xl font-bold text-gray-900">🎙️ 録音スタジオ</h1>
+          <button
+            onClick={exportTakes}
+            disabled={takes.size === 0}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ZIPでダウンロード（{takes.size}件）
+          </button>
+        </div>
+        <p className="text-sm text-gray-600" aria-live="polite">
+          未録音 {missing.length} / 全 {items.length}件 ・ 採用済み {takes.size}件
+        </p>
+      </div>
+
+      {!started ? (
+        <SetupChecklist onStart={() => setStarted(true)} />
+      ) : !current ? (
+        <div className="bg-white rounded-lg shadow-xl p-8 text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">
+            {missing.length === 0 ? 'すべての音声が録音済みです' : 'リストの最後まで来ました'}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            ZIPを public/ に展開すると、ファイルが正しい場所に配置されます
+          </p>
+          {missing.length > 0 && (
+            <button
+              onClick={() => goTo(0)}
+              className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              最初に戻る
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-xl p-8 space-y-6">
+          <div className="flex justify-between text-sm text-gray-500">
+            <span>
+              {index + 1} / {missing.length} ・ {weekDescription}
+            </span>
+            <code>{current.path}</code>
+          </div>
+
+          {/* Prompt */}
+          <div className="text-center">
+            <p className="text-5xl font-bold text-gray-900 mb-3">{current.text}</p>
+            <p className="text-gray-600">{current.hint}</p>
+            {savedTake && <p className="text-sm text-green-700 mt-2">✓ 採用済みの録音があります</p>}
+            {current.unlinked && (
+              <p className="text-sm text-amber-700 mt-2">
+                データにまだ登録されていないファイルです。書き出し後、単語データの audio_url に {current.path} を追加してください
+              </p>
+            )}
+          </div>
+
+          {recorder.errorType && (
+            <p className="text-center text-sm text-red-600" role="alert">
+              {RECORDER_ERRORS[recorder.errorType]}
+            </p>
+          )}
+
+          {/* Record */}
+          <div className="flex flex-wrap justify-center gap-3">
+            {recorder.status === 'recording' ? (
+              <button
+                onClick={recorder.stop}
+                className="px-6 py-3 bg-red-500 text-white rounded-lg font-medium hover:bg-red-600 transition-colors animate-pulse"
+              >
+                ⏹ 録音を止める
+              </button>
+            ) : (
+              <button
+                onClick={() => {
+                  reset();
+                  setTake(null);
+                  void recorder.start();
+                }}
+                disabled={recorder.status === 'requesting' || isProcessing}
+                className="px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50"
+              >
+                {take ? '🔁 録り直す' : '🎙️ 録音する'}
+              </button>
+            )}
+            {take && (
+              <button
+                onClick={() => playBytes(take.mp3)}
+                className="px-6 py-3 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-colors"
+              >
+                ▶ 仕上がりを聞く
+              </button>
+            )}
+            {!take && savedTake && (
+              <button
+                onClick={() => playBytes(savedTake.mp3)}
+                className="px-6 py-3 bg-blue-100 text-blue-700 rounded-lg font-medium hover:bg-blue-200 transition-colors"
+              >
+                ▶ 採用済みの録音を聞く
+              </button>
+            )}
+          </div>
+
+          {isProcessing && <p className="text-center text-sm text-gray-500">無音のカットと音量調整中...</p>}
+          {processFailed && (
+            <p className="text-center text-sm text-red-600">録音を処理できませんでした。もう一度録音してください</p>
+          )}
+          {take && <TakeReport take={take} />}
+
+          {/* Navigation */}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={() => goTo(index - 1)}
+              disabled={index === 0}
+              className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              ← 前へ
+            </button>
+            <button
+              onClick={accept}
+              disabled={!take}
+              className="flex-1 px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              採用して次へ
+            </button>
+            <button
+              onClick={() => goTo(index + 1)}
+              className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              スキップ →
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
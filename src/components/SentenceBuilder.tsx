@@ -0,0 +1,243 @@
+'use client';
+
+import { useRef, useState, type DragEvent, type KeyboardEvent } from 'react';
+import { shuffle } from '@/lib/quiz';
+
+interface SentenceBuilderProps {
+  /** Tiles in their correct order */
+  tiles: readonly string[];
+  /** Locks the tiles and colors them by position once graded */
+  showFeedback: boolean;
+  onSubmit: (answer: string) => void;
+}
+
+/** Drag payload: where the tile comes from and its tile index */
+interface DragPayload {
+  from: 'bank' | 'answer';
+  tile: number;
+}
+
+const DRAG_MIME_TYPE = 'application/x-sentence-tile' as const;
+
+/**
+ * Shuffle tile indexes, avoiding the solved order when possible
+ */
+const shuffleTiles = (count: number): number[] => {
+  const indexes = Array.from({ length: count }, (_, i) => i);
+  if (count < 2) return indexes;
+
+  let shuffled = shuffle(indexes);
+  while (shuffled.every((tile, i) => tile === i)) {
+    shuffled = shuffle(indexes);
+  }
+  return shuffled;
+};
+
+/**
+ * Word-order exercise: tap, drag or use the keyboard to move tiles
+ * from the bank into the answer line.
+ * - Enter / Space: move a tile between bank and answer
+ * - ← / →: move the focused answer tile left or right
+ * - Backspace: return the last answer tile to the bank
+ */
+export default function SentenceBuilder({ tiles, showFeedback, onSubmit }: SentenceBuilderProps) {
+  // Shuffled once per sentence; the parent remounts the builder for a new one
+  const [initialBank] = useState(() => shuffleTiles(tiles.length));
+  const [bank, setBank] = useState<number[]>(initialBank);
+  const [answer, setAnswer] = useState<number[]>([]);
+  const answerRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const isComplete = answer.length === tiles.length;
+
+  const addToAnswer = (tile: number, position = answer.length) => {
+    if (showFeedback) return;
+    setBank((current) => current.filter((t) => t !== tile));
+    setAnswer((current) => {
+      const next = current.filter((t) => t !== tile);
+      next.splice(Math.min(position, next.length), 0, tile);
+      return next;
+    });
+  };
+
+  const returnToBank = (tile: number) => {
+    if (showFeedback) return;
+    setAnswer((current) => current.filter((t) => t !== tile));
+    setBank((current) => (current.includes(tile) ? current : [...current, tile]));
+  };
+
+  const moveInAnswer = (index: number, offset: number) => {
+    const target = index + offset;
+    if (showFeedback || target < 0 || target >= answer.length) return;
+    setAnswer((current) => {
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    // Keep focus on the moved tile
+    requestAnimationFrame(() => answerRefs.current[target]?.focus());
+  };
+
+  const reset = () => {
+    if (showFeedback) return;
+    setBank(initialBank);
+    setAnswer([]);
+  };
+
+  const handleSubmit = () => {
+    if (!isComplete || showFeedback) return;
+    onSubmit(answer.map((tile) => tiles[tile]).join(' '));
+  };
+
+  const handleAnswerTileKeyDown = (event: KeyboardEvent<HTMLButtonElement>, index: number) => {
+    if (event.key === 'ArrowLeft') {
+      event.preventDefault();
+      moveInAnswer(index, -1);
+    } else if (event.key === 'ArrowRight') {
+      event.preventDefault();
+      moveInAnswer(index, 1);
+    }
+  };
+
+  const handleAreaKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Backspace' && answer.length > 0) {
+      event.preventDefault();
+      returnToBank(answer[answer.length - 1]);
+    }
+  };
+
+  const handleDragStart = (event: DragEvent<HTMLButtonElement>, payload: DragPayload) => {
+    event.dataTransfer.setData(DRAG_MIME_TYPE, JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const readDragPayload = (event: DragEvent): DragPayload | null => {
+    const data = event.dataTransfer.getData(DRAG_MIME_TYPE);
+    if (!data) return null;
+    try {
+      return JSON.parse(data) as DragPayload;
+    } catch {
+      return null;
+    }
+  };
+
+  const allowDrop = (event: DragEvent) => {
+    if (!showFeedback) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+    }
+  };
+
+  const dropIntoAnswer = (event: DragEvent, position: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const payload = readDragPayload(event);
+    if (!payload) return;
+
+    // Dropping past its own slot shifts the insertion point left by one
+    const currentIndex = answer.indexOf(payload.tile);
+    const adjusted = currentIndex !== -1 && currentIndex < position ? position - 1 : position;
+    addToAnswer(payload.tile, adjusted);
+  };
+
+  const dropIntoBank = (event: DragEvent) => {
+    event.preventDefault();
+    const payload = readDragPayload(event);
+    if (payload?.from === 'answer') {
+      returnToBank(payload.tile);
+    }
+  };
+
+  const tileClass = 'px-4 py-2 rounded-lg border-2 text-lg font-medium transition-colors';
+
+  return (
+    <div className="mb-6" onKeyDown={handleAreaKeyDown}>
+      {/* Answer line */}
+      <div
+        className={`min-h-[4rem] p-3 mb-4 rounded-lg border-2 border-dashed flex flex-wrap gap-2 items-center ${
+          showFeedback ? 'border-gray-200' : 'border-primary-300 bg-primary-50/40'
+        }`}
+        onDragOver={allowDrop}
+        onDrop={(event) => dropIntoAnswer(event, answer.length)}
+        role="list"
+        aria-label="回答の並び"
+      >
+        {answer.length === 0 && (
+          <span className="text-sm text-gray-400">下の単語をタップまたはドラッグして並べてください</span>
+        )}
+        {answer.map((tile, index) => {
+          const isInPlace = tiles[tile] === tiles[index];
+          return (
+            <button
+              key={tile}
+              ref={(element) => {
+                answerRefs.current[index] = element;
+              }}
+              role="listitem"
+              draggable={!showFeedback}
+              onDragStart={(event) => handleDragStart(event, { from: 'answer', tile })}
+              onDragOver={allowDrop}
+              onDrop={(event) => dropIntoAnswer(event, index)}
+              onClick={() => returnToBank(tile)}
+              onKeyDown={(event) => handleAnswerTileKeyDown(event, index)}
+              disabled={showFeedback}
+              aria-label={`${tiles[tile]}（${index + 1}番目）`}
+              className={`${tileClass} ${
+                showFeedback
+                  ? isInPlace
+                    ? 'bg-green-100 border-green-500 text-green-800'
+                    : 'bg-red-100 border-red-500 text-red-800'
+                  : 'bg-white border-primary-400 hover:bg-primary-50 cursor-grab'
+              }`}
+            >
+              {tiles[tile]}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Tile bank */}
+      <div
+        className="min-h-[3.5rem] flex flex-wrap gap-2 justify-center mb-4"
+        onDragOver={allowDrop}
+        onDrop={dropIntoBank}
+        aria-label="単語の候補"
+      >
+        {bank.map((tile) => (
+          <button
+            key={tile}
+            draggable={!showFeedback}
+            onDragStart={(event) => handleDragStart(event, { from: 'bank', tile })}
+            onClick={() => addToAnswer(tile)}
+            disabled={showFeedback}
+            className={`${tileClass} bg-gray-50 border-gray-300 hover:border-primary-400 hover:bg-white cursor-grab`}
+          >
+            {tiles[tile]}
+          </button>
+        ))}
+      </div>
+
+      {!showFeedback && (
+        <div className="flex gap-3">
+          <button
+            onClick={reset}
+            disabled={answer.length === 0}
+            className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            リセット
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!isComplete}
+            className="flex-1 px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            回答する
+          </button>
+        </div>
+      )}
+
+      <p className="sr-only" aria-live="polite">
+        {answer.map((tile) => tiles[tile]).join(' ')}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import Waveform from '@/components/Waveform';
+import type { UseAudioPlayerReturn } from '@/lib/hooks/useAudioPlayer';
+import { useWaveform } from '@/lib/hooks/useWaveform';
+
+interface ShadowingPanelProps {
+  audioUrl: string;
+  /** Player of the same clip, shared with the page's own play button */
+  player: UseAudioPlayerReturn;
+}
+
+/** Playback rates offered for shadowing */
+export const SHADOWING_RATES = [0.5, 0.75, 1, 1.25, 1.5] as const;
+
+const REPEAT_COUNTS = [1, 3, 5, 10, Infinity] as const;
+const REPEAT_GAPS_MS = [0, 1000, 2000, 3000] as const;
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}秒`;
+
+/**
+ * Shadowing controls for one clip: waveform, playback rate, A-B section and
+ * repeating with pauses to speak along
+ */
+export default function ShadowingPanel({ audioUrl, player }: ShadowingPanelProps) {
+  const { peaks, error: waveformError } = useWaveform(audioUrl);
+  const [pointA, setPointA] = useState<number | null>(null);
+  const {
+    isPlaying,
+    duration,
+    currentTime,
+    rate,
+    loopRegion,
+    repeatCount,
+    repeatGapMs,
+    repeatPass,
+    play,
+    stop,
+    seek,
+    setRate,
+    setLoopRegion,
+    setRepeat,
+  } = player;
+  const isRunning = isPlaying || repeatPass > 0;
+
+  const markA = () => {
+    setPointA(currentTime);
+    setLoopRegion(null);
+  };
+
+  const markB = () => {
+    if (pointA === null || currentTime <= pointA) return;
+    setLoopRegion({ start: pointA, end: currentTime });
+  };
+
+  const clearSection = () => {
+    setPointA(null);
+    setLoopRegion(null);
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-4">
+      {/* Waveform */}
+      {peaks ? (
+        <Waveform
+          peaks={peaks}
+          duration={duration}
+          currentTime={currentTime}
+          loopRegion={loopRegion}
+          onSeek={seek}
+        />
+      ) : (
+        <p className="text-center text-xs text-gray-400 py-4">
+          {waveformError ? '波形を表示できません' : '波形を読み込み中...'}
+        </p>
+      )}
+
+      {/* Playback Rate */}
+      <div role="group" aria-label="再生速度">
+        <p className="text-sm font-semibold text-gray-700 mb-2">再生速度</p>
+        <div className="flex flex-wrap gap-2">
+          {SHADOWING_RATES.map((option) => (
+            <button
+              key={option}
+              onClick={() => setRate(option)}
+              aria-pressed={rate === option}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                rate === option
+                  ? 'bg-primary-500 text-white'
+                  : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* A-B Section */}
+      <div role="group" aria-label="A-B区間">
+        <p className="text-sm font-semibold text-gray-700 mb-2">
+          A-B区間
+          <span className="ml-2 font-normal text-gray-500">
+            {loopRegion
+              ? `${formatSeconds(loopRegion.start)} – ${formatSeconds(loopRegion.end)}`
+              : pointA !== null
+              ? `A: ${formatSeconds(pointA)}（再生中にB地点を指定）`
+              : '全体'}
+          </span>
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={markA}
+            className="px-3 py-1 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+          >
+            A地点
+          </button>
+          <button
+            onClick={markB}
+            disabled={pointA === null || currentTime <= pointA}
+            className="px-3 py-1 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            B地点
+          </button>
+          <button
+            onClick={clearSection}
+            disabled={pointA === null && !loopRegion}
+            className="px-3 py-1 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            解除
+          </button>
+        </div>
+      </div>
+
+      {/* Repeat */}
+      <div className="flex flex-wrap gap-4">
+        <label className="text-sm text-gray-700">
+          <span className="font-semibold mr-2">繰り返し</span>
+          <select
+            value={Number.isFinite(repeatCount) ? repeatCount : 'Infinity'}
+            onChange={(e) => setRepeat(Number(e.target.value), repeatGapMs)}
+            className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+          >
+            {REPEAT_COUNTS.map((count) => (
+              <option key={count} value={Number.isFinite(count) ? count : 'Infinity'}>
+                {Number.isFinite(count) ? `${count}回` : '止めるまで'}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="font-semibold mr-2">間隔</span>
+          <select
+            value={repeatGapMs}
+            onChange={(e) => setRepeat(repeatCount, Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+          >
+            {REPEAT_GAPS_MS.map((gap) => (
+              <option key={gap} value={gap}>
+                {gap === 0 ? 'なし' : `${gap / 1000}秒`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Play / Stop */}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => (isRunning ? stop() : play())}
+          className={`px-6 py-2 rounded-lg font-medium text-white transition-colors ${
+            isRunning ? 'bg-red-500 hover:bg-red-600' : 'bg-blue-500 hover:bg-blue-600'
+          }`}
+        >
+          {isRunning ? '⏹ 停止' : '▶ シャドーイング開始'}
+        </button>
+        {repeatPass > 0 && (
+          <span className="text-sm text-gray-600" aria-live="polite">
+            {Number.isFinite(repeatCount) ? `${repeatPass} / ${repeatCount} 回目` : `${repeatPass} 回目`}
+            {!isPlaying && repeatGapMs > 0 && '（あなたの番です）'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import Link from 'next/link';
+import { getMostConfusedPairs } from '@/lib/minimal-pairs';
+import { TONE_IDS, getToneInfo } from '@/lib/tones';
+import type { ToneConfusionMatrix } from '@/types';
+
+interface ToneConfusionChartProps {
+  matrix: ToneConfusionMatrix;
+}
+
+/**
+ * Played-tone × chosen-tone grid of minimal-pair drill answers, with the
+ * most confused tone pairs listed below
+ */
+export default function ToneConfusionChart({ matrix }: ToneConfusionChartProps) {
+  const confusedPairs = getMostConfusedPairs(matrix, 3);
+  const hasData = Object.keys(matrix).length > 0;
+
+  if (!hasData) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <p className="text-4xl mb-2">👂</p>
+        <p className="text-sm">まだ聞き分け練習の記録がありません</p>
+        <Link
+          href="/learn/tones/pairs"
+          className="inline-block text-xs mt-1 text-primary-600 hover:underline"
+        >
+          聞き分け練習を始める →
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-center">
+          <caption className="text-xs text-gray-500 mb-2 text-left">
+            行: 聞こえた声調 / 列: 選んだ声調
+          </caption>
+          <thead>
+            <tr>
+              <th scope="col" className="p-2" />
+              {TONE_IDS.map((chosen) => (
+                <th key={chosen} scope="col" className="p-2 font-medium text-gray-700">
+                  {getToneInfo(chosen)?.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {TONE_IDS.map((played) => {
+              const row = matrix[played] ?? {};
+              const total = Object.values(row).reduce((sum, count) => sum + (count ?? 0), 0);
+              return (
+                <tr key={played}>
+                  <th scope="row" className="p-2 font-medium text-gray-700 text-left">
+                    {getToneInfo(played)?.name}
+                  </th>
+                  {TONE_IDS.map((chosen) => {
+                    const count = row[chosen] ?? 0;
+                    const rate = total > 0 ? Math.round((count / total) * 100) : null;
+                    const isDiagonal = played === chosen;
+                    return (
+                      <td
+                        key={chosen}
+                        className={`p-2 border border-gray-100 ${
+                          rate === null || count === 0
+                            ? 'text-gray-300'
+                            : isDiagonal
+                            ? 'bg-green-50 text-green-700 font-semibold'
+                            : 'bg-red-50 text-red-700'
+                        }`}
+                        title={`${count} 回`}
+                      >
+                        {rate === null ? '-' : `${rate}%`}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {confusedPairs.length > 0 && (
+        <div className="mt-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">間違えやすい組み合わせ</h3>
+          <ul className="space-y-1 text-sm text-gray-700">
+            {confusedPairs.map(({ tones: [a, b], rate }) => (
+              <li key={`${a}-${b}`} className="flex justify-between">
+                <span>
+                  {getToneInfo(a)?.name} ↔ {getToneInfo(b)?.name}
+                </span>
+                <span className="font-semibold text-red-600">{Math.round(rate * 100)}%</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
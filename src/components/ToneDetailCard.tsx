@@ -1,6 +1,8 @@
 'use client';
 
 import { useAudioPlayer } from '@/lib/hooks/useAudioPlayer';
+import PitchContourChart from '@/components/PitchContourChart';
+import ShadowingPanel from '@/components/ShadowingPanel';
 
 interface ToneExample {
   word: string;
@@ -26,14 +28,17 @@ interface ToneDetailCardProps {
 }
 
 export default function ToneDetailCard({ tone, onClose }: ToneDetailCardProps) {
-  const { play, isPlaying } = useAudioPlayer(tone.audio_url);
+  const audioPlayer = useAudioPlayer(tone.audio_url);
+  const { play, isPlaying } = audioPlayer;
 
   return (
     <div className="bg-white rounded-lg shadow-xl p-6 mb-8 border-2 border-primary-200">
       {/* Header */}
       <div className="flex justify-between items-start mb-6">
         <div className="flex items-center gap-6">
-          <div className="text-6xl">{tone.pattern}</div>
+          <div className="text-primary-600">
+            <PitchContourChart audioUrl={tone.audio_url} pattern={tone.pattern} size="lg" />
+          </div>
           <div>
             <h2 className="text-3xl font-bold text-gray-900 mb-1">
               {tone.name}
@@ -90,6 +95,9 @@ export default function ToneDetailCard({ tone, onClose }: ToneDetailCardProps) {
         >
           {isPlaying ? '🔊 再生中...' : '🔊 音声を聞く'}
         </button>
+        <div className="mt-4">
+          <ShadowingPanel audioUrl={tone.audio_url} player={audioPlayer} />
+        </div>
       </div>
 
       {/* Examples */}
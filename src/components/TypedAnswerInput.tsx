@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import VietnameseInput from '@/components/VietnameseInput';
+
+interface TypedAnswerInputProps {
+  /** Locks the input once the answer has been graded */
+  showFeedback: boolean;
+  onSubmit: (answer: string) => void;
+  placeholder?: string;
+  ariaLabel?: string;
+}
+
+/**
+ * Free-text answer box with the in-app Vietnamese input method and a submit button.
+ * Mount with a key per question to reset the text.
+ */
+export default function TypedAnswerInput({
+  showFeedback,
+  onSubmit,
+  placeholder = 'ベトナム語を入力',
+  ariaLabel = 'ベトナム語の回答',
+}: TypedAnswerInputProps) {
+  const [input, setInput] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Focus the input for each new question
+  useEffect(() => {
+    if (!showFeedback) {
+      inputRef.current?.focus();
+    }
+  }, [showFeedback]);
+
+  const handleSubmit = () => {
+    if (showFeedback || input.trim() === '') return;
+    onSubmit(input);
+  };
+
+  return (
+    <div className="mb-6">
+      <VietnameseInput
+        ref={inputRef}
+        value={input}
+        onChange={setInput}
+        onSubmit={handleSubmit}
+        disabled={showFeedback}
+        placeholder={placeholder}
+        aria-label={ariaLabel}
+        aria-describedby="quiz-question"
+      />
+      {!showFeedback && (
+        <button
+          onClick={handleSubmit}
+          disabled={input.trim() === ''}
+          className="mt-4 w-full px-6 py-3 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          回答する
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useState,
+  type InputHTMLAttributes,
+  type KeyboardEvent,
+} from 'react';
+import {
+  applyBackspace,
+  applyKeystroke,
+  type InputMethod,
+  type ToneMarkStyle,
+} from '@/lib/vietnamese-input';
+import { getItem, setItem } from '@/lib/localStorage';
+
+/** Input method setting, including typing without conversion */
+export type InputMethodSetting = InputMethod | 'off';
+
+/** localStorage key for the last selected input method */
+const INPUT_METHOD_STORAGE_KEY = 'vietnamese_input_method' as const;
+
+const METHOD_OPTIONS: ReadonlyArray<{ value: InputMethodSetting; label: string }> = [
+  { value: 'telex', label: 'Telex' },
+  { value: 'vni', label: 'VNI' },
+  { value: 'off', label: 'オフ' },
+];
+
+const METHOD_HINTS: Readonly<Record<InputMethodSetting, string>> = {
+  telex: 'aa→â aw→ă ee→ê oo→ô ow→ơ uw→ư dd→đ ／ 声調: s f r x j（z で解除）',
+  vni: 'a6→â a8→ă e6→ê o6→ô o7→ơ u7→ư d9→đ ／ 声調: 1 2 3 4 5（0 で解除）',
+  off: '入力した文字をそのまま使います',
+};
+
+const isInputMethodSetting = (value: unknown): value is InputMethodSetting =>
+  typeof value === 'string' && ['telex', 'vni', 'off'].includes(value);
+
+interface VietnameseInputProps
+  extends Omit<InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'onSubmit' | 'type'> {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called when Enter is pressed */
+  onSubmit?: () => void;
+  /** Tone mark placement for oa/oe/uy (default: new style) */
+  toneStyle?: ToneMarkStyle;
+  /** Show the Telex/VNI/off switcher and key hints */
+  showMethodSelector?: boolean;
+}
+
+/**
+ * Text input with a built-in Telex/VNI input method.
+ * Keystrokes are composed in place so no system Vietnamese IME is needed.
+ */
+const VietnameseInput = forwardRef<HTMLInputElement, VietnameseInputProps>(
+  function VietnameseInput(
+    {
+      value,
+      onChange,
+      onSubmit,
+      toneStyle = 'new',
+      showMethodSelector = true,
+      className = '',
+      ...inputProps
+    },
+    ref
+  ) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const pendingCaret = useRef<number | null>(null);
+    const [method, setMethod] = useState<InputMethodSetting>('telex');
+
+    useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+    // Restore the last used input method
+    useEffect(() => {
+      const stored = getItem<string>(INPUT_METHOD_STORAGE_KEY);
+      if (stored.success && isInputMethodSetting(stored.data)) {
+        setMethod(stored.data);
+      }
+    }, []);
+
+    // Move the caret after a composed edit in the middle of the text
+    useLayoutEffect(() => {
+      if (pendingCaret.current !== null && inputRef.current) {
+        inputRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+        pendingCaret.current = null;
+      }
+    }, [value]);
+
+    const handleMethodChange = (nextMethod: InputMethodSetting) => {
+      setMethod(nextMethod);
+      setItem(INPUT_METHOD_STORAGE_KEY, nextMethod);
+      inputRef.current?.focus();
+    };
+
+    const commit = (before: string, after: string) => {
+      pendingCaret.current = before.length;
+      onChange(before + after);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+      inputProps.onKeyDown?.(event);
+      if (event.defaultPrevented) return;
+
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        onSubmit?.();
+        return;
+      }
+
+      if (
+        method === 'off' ||
+        event.nativeEvent.isComposing ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey
+      ) {
+        return;
+      }
+
+      const input = event.currentTarget;
+      const start = input.selectionStart ?? value.length;
+      const end = input.selectionEnd ?? value.length;
+      const after = value.slice(end);
+
+      if (event.key === 'Backspace') {
+        // Let the browser delete selections; compose single-character deletes
+        if (start !== end || start === 0) return;
+        event.preventDefault();
+        commit(applyBackspace(value.slice(0, start), toneStyle), after);
+        return;
+      }
+
+      if ([...event.key].length === 1) {
+        event.preventDefault();
+        commit(applyKeystroke(value.slice(0, start), event.key, { method, toneStyle }), after);
+      }
+    };
+
+    return (
+      <div>
+        <input
+          {...inputProps}
+          ref={inputRef}
+          type="text"
+          lang="vi"
+          autoComplete="off"
+          autoCorrect="off"
+          autoCapitalize="off"
+          spellCheck={false}
+          value={value}
+          onChange={(event) => onChange(event.target.value.normalize('NFC'))}
+          onKeyDown={handleKeyDown}
+          className={`w-full px-4 py-3 text-xl border-2 border-gray-300 rounded-lg focus:border-primary-500 focus:outline-none ${className}`}
+        />
+
+        {showMethodSelector && (
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+            <div className="inline-flex rounded-md border border-gray-300 overflow-hidden" role="group" aria-label="入力方式">
+              {METHOD_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => handleMethodChange(option.value)}
+                  aria-pressed={method === option.value}
+                  className={`px-2 py-1 font-medium transition-colors ${
+                    method === option.value
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-white text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <span>{METHOD_HINTS[method]}</span>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+export default VietnameseInput;
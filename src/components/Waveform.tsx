@@ -0,0 +1,89 @@
+'use client';
+
+import type { KeyboardEvent, MouseEvent } from 'react';
+import type { LoopRegion } from '@/lib/hooks/useAudioPlayer';
+
+interface WaveformProps {
+  /** Peak levels (0-1) per slice */
+  peaks: readonly number[];
+  duration: number | null;
+  currentTime: number;
+  loopRegion?: LoopRegion | null;
+  /** Called with a time in seconds when the waveform is clicked */
+  onSeek?: (time: number) => void;
+}
+
+const HEIGHT = 60;
+/** Seconds moved per arrow key press */
+const KEYBOARD_STEP = 0.25;
+
+/**
+ * Bar waveform of a clip with the playback position and A-B section
+ */
+export default function Waveform({
+  peaks,
+  duration,
+  currentTime,
+  loopRegion,
+  onSeek,
+}: WaveformProps) {
+  const width = peaks.length * 3;
+  const toX = (time: number) => (duration ? (time / duration) * width : 0);
+  const playedX = toX(currentTime);
+
+  const handleClick = (event: MouseEvent<SVGSVGElement>) => {
+    if (!duration || !onSeek) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    onSeek(((event.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<SVGSVGElement>) => {
+    if (!duration || !onSeek) return;
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      const step = event.key === 'ArrowLeft' ? -KEYBOARD_STEP : KEYBOARD_STEP;
+      onSeek(Math.max(0, Math.min(duration, currentTime + step)));
+    }
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-16 cursor-pointer rounded bg-gray-50"
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      role="slider"
+      tabIndex={0}
+      aria-label="再生位置"
+      aria-valuemin={0}
+      aria-valuemax={duration ?? 0}
+      aria-valuenow={Number(currentTime.toFixed(2))}
+      aria-valuetext={`${currentTime.toFixed(1)}秒`}
+    >
+      {loopRegion && (
+        <rect
+          x={toX(loopRegion.start)}
+          y={0}
+          width={Math.max(1, toX(loopRegion.end) - toX(loopRegion.start))}
+          height={HEIGHT}
+          fill="#fef3c7"
+        />
+      )}
+      {peaks.map((peak, i) => {
+        const barHeight = Math.max(1, peak * (HEIGHT - 4));
+        return (
+          <rect
+            key={i}
+            x={i * 3}
+            y={(HEIGHT - barHeight) / 2}
+            width={2}
+            height={barHeight}
+            fill={i * 3 < playedX ? '#3b82f6' : '#9ca3af'}
+          />
+        );
+      })}
+      <line x1={playedX} y1={0} x2={playedX} y2={HEIGHT} stroke="#1d4ed8" strokeWidth={1} />
+    </svg>
+  );
+}
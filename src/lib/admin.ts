@@ -0,0 +1,22 @@
+/**
+ * Admin access for authoring tools, granted by the ADMIN_EMAILS environment
+ * variable (comma-separated email addresses)
+ */
+
+/**
+ * Get the email addresses allowed to use admin tools
+ * @returns Lowercased admin emails
+ */
+export const getAdminEmails = (): string[] =>
+  (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Check whether a signed-in user may use admin tools
+ * @param email - Email of the signed-in user
+ * @returns True for emails listed in ADMIN_EMAILS
+ */
+export const isAdminEmail = (email: string | null | undefined): boolean =>
+  !!email && getAdminEmails().includes(email.trim().toLowerCase());
@@ -0,0 +1,295 @@
+/**
+ * Anki package (.apkg) writer. A package is a ZIP holding the SQLite
+ * collection "collection.anki2" (schema 11, which every Anki version
+ * imports) and a "media" manifest. Each word becomes one note with a
+ * Vietnamese → Japanese and a Japanese → Vietnamese card.
+ */
+
+import initSqlJs from 'sql.js';
+import { MAX_DECK_DESCRIPTION_LENGTH, MAX_DECK_NAME_LENGTH, MAX_DECK_SIZE } from '@/lib/decks';
+import { createZip } from '@/lib/zip';
+import type { Word } from '@/types';
+
+/**
+ * A deck to write as an Anki package
+ */
+export interface AnkiDeckInput {
+  readonly name: string;
+  readonly description: string;
+  readonly words: readonly Word[];
+}
+
+/** Fixed note type ID so repeated imports reuse one note type */
+const MODEL_ID = 1735689600000 as const;
+
+/** Prefix of note GUIDs; a word keeps its GUID so re-importing updates it */
+const GUID_PREFIX = 'viet-pocket:' as const;
+
+const FIELD_NAMES = ['Vietnamese', 'Japanese', 'Pronunciation', 'Example', 'ExampleJapanese'] as const;
+
+const ANSWER_DETAILS =
+  '<div class="pronunciation">{{Pronunciation}}</div>' +
+  '{{#Example}}<div class="example">{{Example}}<br>{{ExampleJapanese}}</div>{{/Example}}';
+
+const TEMPLATES = [
+  {
+    name: 'ベトナム語 → 日本語',
+    qfmt: '<div class="vietnamese">{{Vietnamese}}</div>',
+    afmt: `{{FrontSide}}<hr id=answer>{{Japanese}}${ANSWER_DETAILS}`,
+  },
+  {
+    name: '日本語 → ベトナム語',
+    qfmt: '{{Japanese}}',
+    afmt: `{{FrontSide}}<hr id=answer><div class="vietnamese">{{Vietnamese}}</div>${ANSWER_DETAILS}`,
+  },
+] as const;
+
+const CARD_CSS = `.card { font-family: sans-serif; font-size: 24px; text-align: center; }
+.vietnamese { font-size: 32px; font-weight: bold; }
+.pronunciation { color: #6b7280; font-size: 18px; }
+.example { margin-top: 16px; font-size: 18px; }`;
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const isString = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.length <= maxLength;
+
+/**
+ * Validate a request to write an Anki package
+ * @param raw - Request body
+ * @returns Error message, or null if the deck can be written
+ */
+export const validateAnkiDeckInput = (raw: unknown): string | null => {
+  if (!raw || typeof raw !== 'object') {
+    return 'Deck must be an object';
+  }
+
+  const data = raw as Record<string, unknown>;
+
+  if (!isString(data.name, MAX_DECK_NAME_LENGTH) || data.name.trim().length === 0) {
+    return `name must be a non-empty string (max ${MAX_DECK_NAME_LENGTH} characters)`;
+  }
+
+  if (!isString(data.description, MAX_DECK_DESCRIPTION_LENGTH)) {
+    return `description must be a string (max ${MAX_DECK_DESCRIPTION_LENGTH} characters)`;
+  }
+
+  if (!Array.isArray(data.words) || data.words.length === 0 || data.words.length > MAX_DECK_SIZE) {
+    return `words must be an array of 1 to ${MAX_DECK_SIZE} words`;
+  }
+
+  for (let i = 0; i < data.words.length; i++) {
+    const word = data.words[i] as Record<string, unknown> | null;
+    const sentence = word?.example_sentence as Record<string, unknown> | undefined;
+    if (
+      !word ||
+      !isString(word.id, 100) ||
+      !isString(word.vietnamese, 1000) ||
+      !isString(word.japanese, 1000) ||
+      !isString(word.pronunciation, 1000) ||
+      (word.tags !== undefined &&
+        !(Array.isArray(word.tags) && word.tags.every((tag) => isString(tag, 100)))) ||
+      (sentence !== undefined &&
+        !(sentence && isString(sentence.vietnamese, 1000) && isString(sentence.japanese, 1000)))
+    ) {
+      return `Word ${i}: needs id, vietnamese, japanese and pronunciation strings`;
+    }
+  }
+
+  return null;
+};
+
+// Anki fields hold HTML
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Anki's duplicate check: first 8 hex digits of the SHA-1 of the sort field
+const fieldChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return new DataView(digest).getUint32(0);
+};
+
+const deckConfig = (id: number, name: string, description: string, mod: number) => ({
+  id,
+  name,
+  desc: description,
+  mod,
+  usn: -1,
+  collapsed: false,
+  browserCollapsed: false,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+  dyn: 0,
+  conf: 1,
+  extendNew: 10,
+  extendRev: 50,
+});
+
+const collectionRow = (deckId: number, deck: AnkiDeckInput, now: number) => {
+  const mod = Math.floor(now / 1000);
+  return {
+    conf: {
+      activeDecks: [deckId],
+      curDeck: deckId,
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      curModel: MODEL_ID,
+      nextPos: deck.words.length + 1,
+      sortType: 'noteFld',
+      sortBackwards: false,
+      addToCur: true,
+    },
+    models: {
+      [MODEL_ID]: {
+        id: MODEL_ID,
+        name: 'Viet Pocket 単語',
+        type: 0,
+        mod,
+        usn: -1,
+        sortf: 0,
+        did: deckId,
+        tmpls: TEMPLATES.map((template, ord) => ({
+          ...template,
+          ord,
+          did: null,
+          bqfmt: '',
+          bafmt: '',
+        })),
+        flds: FIELD_NAMES.map((name, ord) => ({
+          name,
+          ord,
+          sticky: false,
+          rtl: false,
+          font: 'Arial',
+          size: 20,
+          media: [],
+        })),
+        css: CARD_CSS,
+        latexPre:
+          '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n' +
+          '\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+        latexPost: '\\end{document}',
+        tags: [],
+        vers: [],
+        // Each card needs its prompt field
+        req: [
+          [0, 'any', [0]],
+          [1, 'any', [1]],
+        ],
+      },
+    },
+    decks: {
+      1: deckConfig(1, 'Default', '', mod),
+      [deckId]: deckConfig(deckId, deck.name, escapeHtml(deck.description), mod),
+    },
+    dconf: {
+      1: {
+        id: 1,
+        name: 'Default',
+        mod: 0,
+        usn: 0,
+        dyn: false,
+        maxTaken: 60,
+        timer: 0,
+        autoplay: true,
+        replayq: true,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      },
+    },
+  };
+};
+
+/**
+ * Write words as an Anki package
+ * @param deck - Deck name, description and words
+ * @param now - Creation time, used for IDs and modification times
+ * @returns Bytes of the .apkg file
+ */
+export const buildAnkiPackage = async (
+  deck: AnkiDeckInput,
+  now: number = Date.now()
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.exec(SCHEMA);
+
+    const deckId = now;
+    const mod = Math.floor(now / 1000);
+    const { conf, models, decks, dconf } = collectionRow(deckId, deck, now);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      Math.floor(new Date(now).setHours(0, 0, 0, 0) / 1000),
+      now,
+      now,
+      JSON.stringify(conf),
+      JSON.stringify(models),
+      JSON.stringify(decks),
+      JSON.stringify(dconf),
+      '{}',
+    ]);
+
+    for (const [index, word] of deck.words.entries()) {
+      const noteId = now + index;
+      const fields = [
+        word.vietnamese,
+        word.japanese,
+        word.pronunciation,
+        word.example_sentence?.vietnamese ?? '',
+        word.example_sentence?.japanese ?? '',
+      ].map(escapeHtml);
+      const tags = word.tags?.length ? ` ${word.tags.map((tag) => tag.replace(/\s+/g, '_')).join(' ')} ` : '';
+
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        noteId,
+        `${GUID_PREFIX}${word.id}`,
+        MODEL_ID,
+        mod,
+        tags,
+        fields.join('\x1f'),
+        fields[0],
+        await fieldChecksum(word.vietnamese),
+      ]);
+
+      TEMPLATES.forEach((_, ord) => {
+        // New cards, shown in deck order
+        db.run('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+          noteId * TEMPLATES.length + ord,
+          noteId,
+          deckId,
+          ord,
+          mod,
+          index + 1,
+        ]);
+      });
+    }
+
+    const collection = db.export();
+    return createZip([
+      { path: 'collection.anki2', data: collection },
+      { path: 'media', data: new TextEncoder().encode('{}') },
+    ]);
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,50 @@
+/**
+ * Decoding of audio files into PCM samples in the browser (Web Audio API)
+ */
+
+/**
+ * Decode encoded audio (mp3, webm, ...) into an AudioBuffer
+ * @param data - Encoded audio file contents
+ * @returns Decoded audio
+ */
+export const decodeAudio = async (data: ArrayBuffer): Promise<AudioBuffer> => {
+  const context = new AudioContext();
+  try {
+    return await context.decodeAudioData(data);
+  } finally {
+    void context.close();
+  }
+};
+
+/**
+ * Mix decoded audio down to mono at a given sample rate
+ * @param buffer - Decoded audio
+ * @param sampleRate - Sample rate of the result in Hz
+ * @returns Mono samples
+ */
+export const resampleToMono = async (
+  buffer: AudioBuffer,
+  sampleRate: number
+): Promise<Float32Array> => {
+  const length = Math.ceil(buffer.duration * sampleRate);
+  const context = new OfflineAudioContext(1, Math.max(1, length), sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+};
+
+/**
+ * Fetch and decode an audio file
+ * @param audioUrl - URL of the audio file
+ * @returns Decoded audio
+ */
+export const fetchAudioBuffer = async (audioUrl: string): Promise<AudioBuffer> => {
+  const response = await fetch(audioUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio: ${response.status} ${response.statusText}`);
+  }
+  return decodeAudio(await response.arrayBuffer());
+};
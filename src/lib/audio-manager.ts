@@ -0,0 +1,330 @@
+/**
+ * App-wide audio service: a bounded pool of Howl instances shared by every
+ * player, with deduplicated loads and a priority queue for prefetching
+ */
+
+import { Howl } from 'howler';
+import { trackAudioLoadTime } from '@/lib/performance-monitor';
+
+/** Maximum number of Howl instances kept in memory */
+export const AUDIO_POOL_SIZE = 16 as const;
+
+/** Maximum number of files downloading at once */
+export const MAX_CONCURRENT_AUDIO_LOADS = 2 as const;
+
+/** Number of upcoming items a session prefetches */
+export const AUDIO_PREFETCH_AHEAD = 3 as const;
+
+/** Priority of a load requested for immediate playback (lower loads first) */
+export const PLAYBACK_PRIORITY = 0 as const;
+
+/** Howler sprite map: segment name → [offset ms, duration ms] */
+export type SpriteMap = Readonly<Record<string, readonly [number, number]>>;
+
+/**
+ * File to load, optionally as a sprite of named segments
+ */
+export interface AudioSource {
+  readonly url: string;
+  readonly sprite?: SpriteMap;
+}
+
+/**
+ * Load callbacks handed to the sound factory
+ */
+export interface SoundLoadCallbacks {
+  readonly onload: () => void;
+  readonly onloaderror: (error: unknown) => void;
+}
+
+/**
+ * Audio manager configuration
+ */
+export interface AudioManagerOptions {
+  /** Maximum number of pooled sounds (default: AUDIO_POOL_SIZE) */
+  readonly poolSize?: number;
+  /** Maximum number of concurrent downloads (default: MAX_CONCURRENT_AUDIO_LOADS) */
+  readonly maxConcurrentLoads?: number;
+  /** Creates a sound and starts loading it (default: an html5 Howl) */
+  readonly createSound?: (
+    url: string,
+    callbacks: SoundLoadCallbacks,
+    sprite?: SpriteMap
+  ) => Howl;
+  /** Receives the start and end time of every completed load (default: trackAudioLoadTime) */
+  readonly onLoadTimed?: (url: string, startTime: number, endTime: number) => void;
+  /** Clock in milliseconds (default: performance.now) */
+  readonly now?: () => number;
+}
+
+/**
+ * Snapshot of the pool for diagnostics
+ */
+export interface AudioPoolStats {
+  /** Sounds loaded and kept in the pool */
+  readonly loaded: number;
+  /** Sounds downloading right now */
+  readonly loading: number;
+  /** Loads waiting for a free download slot */
+  readonly queued: number;
+  /** Sounds held by a mounted player */
+  readonly retained: number;
+}
+
+/**
+ * Audio manager controls
+ */
+export interface AudioManager {
+  /**
+   * Get the loaded sound for a URL, loading it if needed.
+   * Concurrent calls for the same URL share one download.
+   */
+  readonly load: (source: string | AudioSource, priority?: number) => Promise<Howl>;
+  /** Loaded sound for a URL, if it is in the pool */
+  readonly getSound: (url: string) => Howl | null;
+  /** Keep a URL's sound from being evicted; returns the release function */
+  readonly retain: (source: string | AudioSource) => () => void;
+  /**
+   * Queue the given URLs in order of priority (first is most urgent),
+   * replacing earlier prefetches that have not started yet
+   */
+  readonly prefetch: (sources: readonly (string | AudioSource)[]) => void;
+  readonly getStats: () => AudioPoolStats;
+  /** Unload every sound and drop pending loads */
+  readonly clear: () => void;
+}
+
+type EntryState = 'queued' | 'loading' | 'loaded';
+
+interface PoolEntry {
+  readonly url: string;
+  readonly sprite?: SpriteMap;
+  state: EntryState;
+  priority: number;
+  /** Only requested by prefetch, so it may be dropped while queued */
+  prefetchOnly: boolean;
+  sound: Howl | null;
+  retainCount: number;
+  lastUsed: number;
+  readonly promise: Promise<Howl>;
+  readonly resolve: (sound: Howl) => void;
+  readonly reject: (error: Error) => void;
+}
+
+const createHowl = (
+  url: string,
+  { onload, onloaderror }: SoundLoadCallbacks,
+  sprite?: SpriteMap
+): Howl =>
+  new Howl({
+    src: [url],
+    // Howler's typings want mutable tuples
+    sprite: sprite as Record<string, [number, number]> | undefined,
+    html5: true,
+    preload: true,
+    onload,
+    onloaderror: (_id, error) => onloaderror(error),
+  });
+
+/**
+ * Create an audio manager with its own pool
+ * @param options - Pool size, concurrency and injection points for testing
+ * @returns Audio manager controls
+ */
+export const createAudioManager = (options: AudioManagerOptions = {}): AudioManager => {
+  const {
+    poolSize = AUDIO_POOL_SIZE,
+    maxConcurrentLoads = MAX_CONCURRENT_AUDIO_LOADS,
+    createSound = createHowl,
+    onLoadTimed = trackAudioLoadTime,
+    now = () => performance.now(),
+  } = options;
+
+  const entries = new Map<string, PoolEntry>();
+  let useCounter = 0;
+
+  const touch = (entry: PoolEntry) => {
+    entry.lastUsed = ++useCounter;
+  };
+
+  // Unload least recently used sounds that no player holds
+  const evict = () => {
+    const loaded = [...entries.values()].filter((entry) => entry.state === 'loaded');
+    let excess = loaded.length - poolSize;
+    if (excess <= 0) return;
+
+    const candidates = loaded
+      .filter((entry) => entry.retainCount === 0)
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const entry of candidates) {
+      if (excess <= 0) break;
+      entry.sound?.unload();
+      entries.delete(entry.url);
+      excess--;
+    }
+  };
+
+  const startLoad = (entry: PoolEntry) => {
+    entry.state = 'loading';
+    const startTime = now();
+    // Callbacks may fire before createSound returns (cached files)
+    let pendingOutcome = null as (() => void) | null;
+    const settle = (outcome: () => void) => {
+      if (entry.sound) outcome();
+      else pendingOutcome = outcome;
+    };
+
+    const sound = createSound(entry.url, {
+      onload: () =>
+        settle(() => {
+          if (entries.get(entry.url) !== entry) return;
+          entry.state = 'loaded';
+          onLoadTimed(entry.url, startTime, now());
+          entry.resolve(sound);
+          evict();
+          pump();
+        }),
+      onloaderror: (error) =>
+        settle(() => {
+          if (entries.get(entry.url) !== entry) return;
+          // Drop the entry so a later request can retry
+          entries.delete(entry.url);
+          sound.unload();
+          entry.reject(new Error(`Failed to load audio ${entry.url}: ${String(error)}`));
+          pump();
+        }),
+    }, entry.sprite);
+    entry.sound = sound;
+    pendingOutcome?.();
+  };
+
+  // Start queued loads while download slots are free
+  const pump = () => {
+    const all = [...entries.values()];
+    let free = maxConcurrentLoads - all.filter((entry) => entry.state === 'loading').length;
+    const queued = all
+      .filter((entry) => entry.state === 'queued')
+      .sort((a, b) => a.priority - b.priority || a.lastUsed - b.lastUsed);
+    for (const entry of queued) {
+      if (free <= 0) break;
+      startLoad(entry);
+      free--;
+    }
+  };
+
+  const request = (
+    source: string | AudioSource,
+    priority: number,
+    prefetchOnly: boolean
+  ): PoolEntry => {
+    const { url, sprite } = typeof source === 'string' ? { url: source, sprite: undefined } : source;
+    const existing = entries.get(url);
+    if (existing) {
+      existing.priority = Math.min(existing.priority, priority);
+      existing.prefetchOnly = existing.prefetchOnly && prefetchOnly;
+      touch(existing);
+      return existing;
+    }
+
+    let resolve!: (sound: Howl) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<Howl>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Prefetches may fail without anyone waiting for them
+    promise.catch(() => undefined);
+
+    const entry: PoolEntry = {
+      url,
+      sprite,
+      state: 'queued',
+      priority,
+      prefetchOnly,
+      sound: null,
+      retainCount: 0,
+      lastUsed: 0,
+      promise,
+      resolve,
+      reject,
+    };
+    touch(entry);
+    entries.set(url, entry);
+    return entry;
+  };
+
+  const load = (
+    source: string | AudioSource,
+    priority: number = PLAYBACK_PRIORITY
+  ): Promise<Howl> => {
+    const entry = request(source, priority, false);
+    pump();
+    return entry.promise;
+  };
+
+  const getSound = (url: string): Howl | null => {
+    const entry = entries.get(url);
+    if (entry?.state !== 'loaded') return null;
+    touch(entry);
+    return entry.sound;
+  };
+
+  const retain = (source: string | AudioSource): (() => void) => {
+    const entry = request(source, PLAYBACK_PRIORITY, false);
+    entry.retainCount++;
+    pump();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      entry.retainCount--;
+      evict();
+    };
+  };
+
+  const prefetch = (sources: readonly (string | AudioSource)[]) => {
+    const wanted = new Set(
+      sources.map((source) => (typeof source === 'string' ? source : source.url))
+    );
+    for (const entry of [...entries.values()]) {
+      if (entry.state === 'queued' && entry.prefetchOnly && !wanted.has(entry.url)) {
+        entries.delete(entry.url);
+        entry.reject(new Error(`Prefetch of ${entry.url} was superseded`));
+      }
+    }
+    sources.forEach((source, index) => {
+      if (typeof source !== 'string' || source) {
+        request(source, PLAYBACK_PRIORITY + index + 1, true);
+      }
+    });
+    pump();
+  };
+
+  const getStats = (): AudioPoolStats => {
+    const all = [...entries.values()];
+    return {
+      loaded: all.filter((entry) => entry.state === 'loaded').length,
+      loading: all.filter((entry) => entry.state === 'loading').length,
+      queued: all.filter((entry) => entry.state === 'queued').length,
+      retained: all.filter((entry) => entry.retainCount > 0).length,
+    };
+  };
+
+  const clear = () => {
+    for (const entry of entries.values()) {
+      entry.sound?.unload();
+      if (entry.state !== 'loaded') {
+        entry.reject(new Error(`Audio manager was cleared before ${entry.url} loaded`));
+      }
+    }
+    entries.clear();
+  };
+
+  return { load, getSound, retain, prefetch, getStats, clear } as const;
+};
+
+/**
+ * Shared audio manager used by every player in the app
+ */
+export const audioManager = createAudioManager();
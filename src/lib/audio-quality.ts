@@ -0,0 +1,244 @@
+/**
+ * Audio quality measurements of decoded recordings, checked against
+ * AUDIO_RECORDING_SPECS
+ */
+
+import { AUDIO_RECORDING_LIMITS } from '@/lib/audio';
+
+/** Length of the analysis windows in seconds */
+export const QUALITY_WINDOW_SECONDS = 0.05 as const;
+
+/** Windows quieter than this (dBFS RMS) count as silence */
+export const SILENCE_THRESHOLD_DB = -40 as const;
+
+/** Longest silence allowed before and after the voice in seconds */
+export const MAX_EDGE_SILENCE_SECONDS = 0.2 as const;
+
+/** How far the peak may be from the target level in dB */
+export const PEAK_LEVEL_TOLERANCE_DB = 1 as const;
+
+/** How far the average bit rate may be from the spec, as a fraction */
+export const BIT_RATE_TOLERANCE = 0.1 as const;
+
+// Level reported for digital silence instead of -Infinity
+const MIN_DB = -120;
+
+/**
+ * Measurements of one recording
+ */
+export interface AudioQualityMetrics {
+  readonly durationSeconds: number;
+  readonly sampleRate: number;
+  readonly fileSizeBytes: number;
+  /** Average bit rate over the whole file */
+  readonly bitRateKbps: number;
+  /** Highest sample level in dBFS */
+  readonly peakDb: number;
+  /** Overall RMS level in dBFS */
+  readonly rmsDb: number;
+  /** RMS level of the silent windows in dBFS, or null without silence to measure */
+  readonly noiseFloorDb: number | null;
+  readonly leadingSilenceSeconds: number;
+  readonly trailingSilenceSeconds: number;
+}
+
+export type AudioQualityRule =
+  | 'bit-rate'
+  | 'sample-rate'
+  | 'file-size'
+  | 'duration'
+  | 'peak-level'
+  | 'noise-floor'
+  | 'leading-silence'
+  | 'trailing-silence';
+
+/**
+ * A measurement outside the recording specs
+ */
+export interface AudioQualityViolation {
+  readonly rule: AudioQualityRule;
+  readonly actual: number;
+  readonly limit: number;
+  readonly message: string;
+}
+
+/**
+ * Edits that bring a recording within the specs
+ */
+export interface AudioFixPlan {
+  /** Seconds to cut from the start */
+  readonly trimStartSeconds: number;
+  /** Seconds to cut from the end */
+  readonly trimEndSeconds: number;
+  /** Gain to apply in dB */
+  readonly gainDb: number;
+}
+
+const toDb = (level: number): number =>
+  level > 0 ? Math.max(MIN_DB, 20 * Math.log10(level)) : MIN_DB;
+
+const round = (value: number, digits: number = 2): number =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+// RMS level of each analysis window in dBFS
+const getWindowLevels = (samples: Float32Array, windowSize: number): number[] => {
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += windowSize) {
+    const end = Math.min(samples.length, start + windowSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    levels.push(toDb(Math.sqrt(sum / (end - start))));
+  }
+  return levels;
+};
+
+/**
+ * Measure a decoded recording
+ * @param samples - Mono samples in the range -1 to 1
+ * @param sampleRate - Sample rate in Hz
+ * @param fileSizeBytes - Size of the encoded file
+ * @returns Measurements of the recording
+ */
+export const measureAudioQuality = (
+  samples: Float32Array,
+  sampleRate: number,
+  fileSizeBytes: number
+): AudioQualityMetrics => {
+  const durationSeconds = samples.length / sampleRate;
+  const windowSize = Math.max(1, Math.round(sampleRate * QUALITY_WINDOW_SECONDS));
+  const windowSeconds = windowSize / sampleRate;
+
+  let peak = 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+    sum += samples[i] * samples[i];
+  }
+
+  const levels = getWindowLevels(samples, windowSize);
+  const isVoice = (level: number) => level >= SILENCE_THRESHOLD_DB;
+  const firstVoice = levels.findIndex(isVoice);
+  const lastVoice = levels.length - 1 - [...levels].reverse().findIndex(isVoice);
+  const silent = levels.filter((level) => !isVoice(level));
+  // Mean power of the silent windows
+  const noisePower =
+    silent.reduce((total, level) => total + 10 ** (level / 10), 0) / (silent.length || 1);
+
+  return {
+    durationSeconds: round(durationSeconds, 3),
+    sampleRate,
+    fileSizeBytes,
+    bitRateKbps: durationSeconds > 0 ? round((fileSizeBytes * 8) / durationSeconds / 1000, 1) : 0,
+    peakDb: round(toDb(peak)),
+    rmsDb: round(samples.length > 0 ? toDb(Math.sqrt(sum / samples.length)) : MIN_DB),
+    noiseFloorDb: silent.length > 0 ? round(toDb(Math.sqrt(noisePower))) : null,
+    leadingSilenceSeconds:
+      firstVoice === -1 ? round(durationSeconds, 3) : round(firstVoice * windowSeconds, 3),
+    trailingSilenceSeconds:
+      firstVoice === -1
+        ? round(durationSeconds, 3)
+        : round(Math.max(0, durationSeconds - (lastVoice + 1) * windowSeconds), 3),
+  };
+};
+
+/**
+ * List the measurements that break the recording specs
+ * @param metrics - Measurements of a recording
+ * @returns Violations, empty when the recording meets the specs
+ */
+export const findAudioQualityViolations = (
+  metrics: AudioQualityMetrics
+): AudioQualityViolation[] => {
+  const limits = AUDIO_RECORDING_LIMITS;
+  const violations: AudioQualityViolation[] = [];
+  const add = (rule: AudioQualityRule, actual: number, limit: number, message: string) =>
+    violations.push({ rule, actual, limit, message });
+
+  const { bitRateKbps, sampleRate, fileSizeBytes, durationSeconds, peakDb, noiseFloorDb } = metrics;
+
+  if (Math.abs(bitRateKbps - limits.bitRateKbps) > limits.bitRateKbps * BIT_RATE_TOLERANCE) {
+    add('bit-rate', bitRateKbps, limits.bitRateKbps, `Bit rate is ${bitRateKbps} kbps`);
+  }
+  if (sampleRate !== limits.sampleRate) {
+    add('sample-rate', sampleRate, limits.sampleRate, `Sample rate is ${sampleRate} Hz`);
+  }
+  if (fileSizeBytes > limits.maxFileSizeBytes) {
+    add('file-size', fileSizeBytes, limits.maxFileSizeBytes, `File is ${fileSizeBytes} bytes`);
+  }
+  if (durationSeconds > limits.maxDurationSeconds) {
+    add('duration', durationSeconds, limits.maxDurationSeconds, `Clip is ${durationSeconds} s long`);
+  }
+  if (Math.abs(peakDb - limits.peakLevelDb) > PEAK_LEVEL_TOLERANCE_DB) {
+    add('peak-level', peakDb, limits.peakLevelDb, `Peak level is ${peakDb} dB`);
+  }
+  if (noiseFloorDb !== null && noiseFloorDb > limits.maxNoiseFloorDb) {
+    add('noise-floor', noiseFloorDb, limits.maxNoiseFloorDb, `Noise floor is ${noiseFloorDb} dB`);
+  }
+  if (metrics.leadingSilenceSeconds > MAX_EDGE_SILENCE_SECONDS) {
+    add(
+      'leading-silence',
+      metrics.leadingSilenceSeconds,
+      MAX_EDGE_SILENCE_SECONDS,
+      `${metrics.leadingSilenceSeconds} s of silence before the voice`
+    );
+  }
+  if (metrics.trailingSilenceSeconds > MAX_EDGE_SILENCE_SECONDS) {
+    add(
+      'trailing-silence',
+      metrics.trailingSilenceSeconds,
+      MAX_EDGE_SILENCE_SECONDS,
+      `${metrics.trailingSilenceSeconds} s of silence after the voice`
+    );
+  }
+
+  return violations;
+};
+
+/**
+ * Work out the trim and gain that bring a recording within the specs.
+ * Keeps a short pad of the original silence at each end.
+ * @param metrics - Measurements of a recording
+ * @returns Edits to apply, or null when nothing needs fixing or the clip is silent
+ */
+export const planAudioFix = (metrics: AudioQualityMetrics): AudioFixPlan | null => {
+  if (metrics.peakDb <= MIN_DB) return null;
+
+  const pad = MAX_EDGE_SILENCE_SECONDS / 2;
+  const plan: AudioFixPlan = {
+    trimStartSeconds: round(Math.max(0, metrics.leadingSilenceSeconds - pad), 3),
+    trimEndSeconds: round(Math.max(0, metrics.trailingSilenceSeconds - pad), 3),
+    gainDb: round(AUDIO_RECORDING_LIMITS.peakLevelDb - metrics.peakDb),
+  };
+
+  const needsTrim =
+    metrics.leadingSilenceSeconds > MAX_EDGE_SILENCE_SECONDS ||
+    metrics.trailingSilenceSeconds > MAX_EDGE_SILENCE_SECONDS;
+  const needsGain = Math.abs(plan.gainDb) > PEAK_LEVEL_TOLERANCE_DB;
+  if (!needsTrim && !needsGain) return null;
+
+  return {
+    trimStartSeconds: needsTrim ? plan.trimStartSeconds : 0,
+    trimEndSeconds: needsTrim ? plan.trimEndSeconds : 0,
+    gainDb: needsGain ? plan.gainDb : 0,
+  };
+};
+
+/**
+ * Apply a fix plan to decoded samples
+ * @param samples - Mono samples in the range -1 to 1
+ * @param sampleRate - Sample rate in Hz
+ * @param plan - Trim and gain to apply
+ * @returns Trimmed and normalized samples
+ */
+export const applyAudioFix = (
+  samples: Float32Array,
+  sampleRate: number,
+  plan: AudioFixPlan
+): Float32Array => {
+  const start = Math.min(samples.length, Math.round(plan.trimStartSeconds * sampleRate));
+  const end = Math.max(start, samples.length - Math.round(plan.trimEndSeconds * sampleRate));
+  const gain = 10 ** (plan.gainDb / 20);
+  return samples.slice(start, end).map((sample) => Math.max(-1, Math.min(1, sample * gain)));
+};
@@ -0,0 +1,114 @@
+/**
+ * Per-category audio sprites: each category's word clips packed into one file
+ * with an offset map, built by scripts/build-audio-sprites.js
+ */
+
+import { AUDIO_BASE_PATH, AUDIO_PATHS } from '@/lib/audio';
+import type { AudioSource, SpriteMap } from '@/lib/audio-manager';
+
+/** Directory holding the sprite files and their manifests */
+export const AUDIO_SPRITES_PATH = `${AUDIO_BASE_PATH}/sprites` as const;
+
+/**
+ * Offset map written next to each sprite file
+ */
+export interface AudioSpriteManifest {
+  /** URL of the sprite file */
+  readonly src: string;
+  /** Word ID → [offset ms, duration ms] */
+  readonly sprite: SpriteMap;
+  /** Word ID → URL of the word's own clip */
+  readonly urls: Readonly<Record<string, string>>;
+}
+
+/**
+ * Where to play a clip from: its own file, or a segment of a sprite
+ */
+export interface ResolvedAudio {
+  readonly source: AudioSource;
+  /** Sprite segment (word ID) to play, if the clip is in a sprite */
+  readonly segment: string | null;
+  /** Start of the clip within the file in seconds */
+  readonly offset: number;
+  /** Length of the clip in seconds, if known before loading */
+  readonly duration: number | null;
+}
+
+// Manifests by category; null when the category has no sprite
+const manifestCache = new Map<string, Promise<AudioSpriteManifest | null>>();
+
+/**
+ * Get the manifest URL for a category's sprite
+ * @param category - Word category (greetings, numbers, etc.)
+ * @returns Manifest URL
+ */
+export const getSpriteManifestPath = (category: string): string =>
+  `${AUDIO_SPRITES_PATH}/${category}.json`;
+
+/**
+ * Get the category of a word clip from its URL
+ * @param audioUrl - Word clip URL (see getWordAudioPath)
+ * @returns Category, or null for clips that are not word clips
+ */
+export const getWordAudioCategory = (audioUrl: string): string | null => {
+  const prefix = `${AUDIO_PATHS.words}/`;
+  if (!audioUrl.startsWith(prefix)) return null;
+  const category = audioUrl.slice(prefix.length).split('/')[0];
+  return category || null;
+};
+
+/**
+ * Load a category's sprite manifest once per session
+ * @param category - Word category
+ * @returns Manifest, or null if no sprite was built for the category
+ */
+export const loadSpriteManifest = (category: string): Promise<AudioSpriteManifest | null> => {
+  let manifest = manifestCache.get(category);
+  if (!manifest) {
+    manifest = fetch(getSpriteManifestPath(category))
+      .then((response) => (response.ok ? (response.json() as Promise<AudioSpriteManifest>) : null))
+      .catch(() => null);
+    manifestCache.set(category, manifest);
+  }
+  return manifest;
+};
+
+/**
+ * Find a clip in its category's sprite manifest
+ * @param manifest - Sprite manifest
+ * @param audioUrl - URL of the clip's own file
+ * @returns Sprite segment of the clip, or null if it is not in the sprite
+ */
+export const findSpriteSegment = (
+  manifest: AudioSpriteManifest,
+  audioUrl: string
+): ResolvedAudio | null => {
+  const segment = Object.keys(manifest.urls).find((id) => manifest.urls[id] === audioUrl);
+  const range = segment ? manifest.sprite[segment] : undefined;
+  if (!segment || !range) return null;
+
+  return {
+    source: { url: manifest.src, sprite: manifest.sprite },
+    segment,
+    offset: range[0] / 1000,
+    duration: range[1] / 1000,
+  };
+};
+
+/**
+ * Resolve a clip URL to its sprite segment, falling back to its own file
+ * @param audioUrl - URL of the clip's own file
+ * @returns Where to play the clip from
+ */
+export const resolveAudio = async (audioUrl: string): Promise<ResolvedAudio> => {
+  const category = getWordAudioCategory(audioUrl);
+  const manifest = category ? await loadSpriteManifest(category) : null;
+  return (
+    (manifest && findSpriteSegment(manifest, audioUrl)) ?? {
+      source: { url: audioUrl },
+      segment: null,
+      offset: 0,
+      duration: null,
+    }
+  );
+};
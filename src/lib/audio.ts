@@ -2,6 +2,9 @@
  * Audio file utilities and path management
  */
 
+import type { Dialect, Word } from '@/types';
+import { toTelexKeys } from '@/lib/vietnamese-input';
+
 /**
  * Base path for audio assets
  */
@@ -14,26 +17,76 @@ export const AUDIO_PATHS = {
   alphabet: `${AUDIO_BASE_PATH}/alphabet`,
   words: `${AUDIO_BASE_PATH}/words`,
   tones: `${AUDIO_BASE_PATH}/tones`,
+  syllables: `${AUDIO_BASE_PATH}/syllables`,
 } as const;
 
+// File name parts for the marks of Vietnamese letters (ă → a-breve)
+const LETTER_MARK_NAMES: Readonly<Record<string, string>> = {
+  '\u0306': 'breve',
+  '\u0302': 'circumflex',
+  '\u031B': 'horn',
+};
+
 /**
  * Get audio file path for alphabet letter
  * @param letter - Vietnamese alphabet letter
  * @returns Audio file path
  */
 export const getAlphabetAudioPath = (letter: string): string => {
-  const normalizedLetter = letter.toLowerCase().replace(/[^a-z]/g, '');
+  const lower = letter.trim().toLowerCase();
+  if (lower === 'đ') {
+    return `${AUDIO_PATHS.alphabet}/d-stroke.mp3`;
+  }
+
+  const [base = '', ...marks] = lower.normalize('NFD');
+  const normalizedLetter = [base.replace(/[^a-z]/g, ''), ...marks.map((mark) => LETTER_MARK_NAMES[mark])]
+    .filter(Boolean)
+    .join('-');
   return `${AUDIO_PATHS.alphabet}/${normalizedLetter}.mp3`;
 };
 
 /**
- * Get audio file path for word
- * @param wordId - Unique word identifier
+ * Get audio file path for word, named after its text without marks
+ * (Xin chào → xin-chao.mp3)
+ * @param vietnamese - Vietnamese word or phrase
  * @param category - Word category (greetings, numbers, etc.)
  * @returns Audio file path
  */
-export const getWordAudioPath = (wordId: string, category: string): string => {
-  return `${AUDIO_PATHS.words}/${category}/${wordId}.mp3`;
+export const getWordAudioPath = (vietnamese: string, category: string): string => {
+  const fileName = vietnamese
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${AUDIO_PATHS.words}/${category}/${fileName}.mp3`;
+};
+
+/**
+ * Get audio file path for a word as said in one dialect. A variant that is
+ * another word gets a file of its own; the same word said differently gets
+ * the word's file name with the dialect (giam-doc.south.mp3).
+ * @param word - Word with the default form
+ * @param dialect - Dialect of the speaker ('north' or 'south')
+ * @returns Audio file path
+ */
+export const getDialectAudioPath = (word: Word, dialect: Dialect): string => {
+  const variant = word.dialects?.[dialect];
+  if (variant?.vietnamese !== undefined && variant.vietnamese !== word.vietnamese) {
+    return getWordAudioPath(variant.vietnamese, word.category);
+  }
+  return `${word.audio_url.replace(/\.mp3$/, '')}.${dialect}.mp3`;
+};
+
+/**
+ * Get audio file path for a single syllable, named by its Telex spelling (má → mas.mp3)
+ * @param syllable - Syllable with its tone mark
+ * @returns Audio file path
+ */
+export const getSyllableAudioPath = (syllable: string): string => {
+  return `${AUDIO_PATHS.syllables}/${toTelexKeys(syllable.toLowerCase())}.mp3`;
 };
 
 /**
@@ -58,6 +111,19 @@ export const AUDIO_RECORDING_SPECS = {
   noiseFloor: '-50 dB',
 } as const;
 
+/**
+ * AUDIO_RECORDING_SPECS as numbers, for checking recordings
+ */
+export const AUDIO_RECORDING_LIMITS = {
+  bitRateKbps: 128,
+  sampleRate: 44100,
+  maxFileSizeBytes: 50 * 1024,
+  maxDurationSeconds: 3,
+  /** Target peak level in dBFS */
+  peakLevelDb: -12,
+  maxNoiseFloorDb: -50,
+} as const;
+
 /**
  * Audio content creation checklist
  */
@@ -116,9 +182,9 @@ export const AUDIO_CREATION_PRIORITY = {
     estimatedHours: 20
   },
   week5: {
-    low: ['tones'],
-    description: 'Vietnamese tone examples',
-    files: 6,
-    estimatedHours: 4
+    low: ['tones', 'syllables'],
+    description: 'Vietnamese tone examples and minimal-pair syllables',
+    files: 68,
+    estimatedHours: 8
   }
 } as const;
\ No newline at end of file
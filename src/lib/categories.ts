@@ -0,0 +1,47 @@
+/**
+ * Category registry: the categories listed in categories.json, each backed by
+ * a word file at src/data/words/<id>.json (loaded by lib/category-words).
+ * Only the category list is imported here, so checking a category ID does
+ * not bundle the vocabulary.
+ */
+
+import categoriesData from '@/data/categories.json';
+import type { Category, CategoryId } from '@/types';
+
+/** Quiz category parameter that selects every category */
+export const ALL_CATEGORIES = 'all' as const;
+
+/** Every category, in display order */
+export const CATEGORIES: readonly Category[] = [...(categoriesData as Category[])].sort(
+  (a, b) => a.order - b.order
+);
+
+/** Every category ID, in display order */
+export const CATEGORY_IDS: readonly CategoryId[] = CATEGORIES.map((category) => category.id);
+
+const categoriesById = new Map(CATEGORIES.map((category) => [category.id, category]));
+
+/**
+ * Type guard to check if a value names a registered category
+ * @param value - Candidate category ID
+ * @returns True when categories.json lists the ID
+ */
+export const isCategoryId = (value: unknown): value is CategoryId =>
+  typeof value === 'string' && categoriesById.has(value);
+
+/**
+ * Look up a category
+ * @param id - Category ID
+ * @returns The category, or undefined if it is not registered
+ */
+export const getCategory = (id: string): Category | undefined => categoriesById.get(id);
+
+/**
+ * Resolve a category parameter to the categories it selects
+ * @param param - Category ID, or 'all' for every category
+ * @returns Selected category IDs (empty for an unknown ID)
+ */
+export const resolveCategoryParam = (param: string): CategoryId[] => {
+  if (param === ALL_CATEGORIES) return [...CATEGORY_IDS];
+  return isCategoryId(param) ? [param] : [];
+};
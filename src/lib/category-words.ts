@@ -0,0 +1,36 @@
+/**
+ * Word files of the registered categories. Kept apart from lib/categories so
+ * that modules needing only the category list do not bundle every word.
+ * Adding a category takes its entry in categories.json, its word file and
+ * its import below.
+ */
+
+import businessWords from '@/data/words/business.json';
+import dailyWords from '@/data/words/daily.json';
+import foodWords from '@/data/words/food.json';
+import greetingsWords from '@/data/words/greetings.json';
+import numbersWords from '@/data/words/numbers.json';
+import { isCategoryId } from '@/lib/categories';
+import type { CategoryId, Word } from '@/types';
+
+// Static imports: a template import() only resolves inside the bundler, not in Node
+const wordFiles: Readonly<Record<CategoryId, unknown>> = {
+  greetings: greetingsWords,
+  numbers: numbersWords,
+  daily: dailyWords,
+  food: foodWords,
+  business: businessWords,
+};
+
+/**
+ * Load the words of a category
+ * @param id - Registered category ID
+ * @returns The category's words
+ */
+export const loadCategoryWords = async (id: CategoryId): Promise<Word[]> => {
+  const words = wordFiles[id];
+  if (!isCategoryId(id) || !words) {
+    throw new Error(`Unknown category: ${id}`);
+  }
+  return words as Word[];
+};
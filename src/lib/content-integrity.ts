@@ -0,0 +1,286 @@
+/**
+ * Content integrity checks over the files in src/data: record validation,
+ * unique IDs, category word counts and audio file references
+ */
+
+import { getAlphabetAudioPath, getDialectAudioPath, getWordAudioPath } from '@/lib/audio';
+import { getSyllableClips, type SyllableExample } from '@/lib/minimal-pairs';
+import {
+  validateAlphabet,
+  validateCategory,
+  validateTone,
+  validateWord,
+  type Alphabet,
+  type Category,
+  type Dialect,
+  type DialectVariant,
+  type Tone,
+  type ValidationResult,
+  type Word,
+} from '@/types';
+
+/**
+ * A data file and its parsed JSON
+ */
+export interface ContentFile {
+  /** Path relative to src/data, e.g. "words/food.json" */
+  readonly path: string;
+  readonly data: unknown;
+}
+
+export type IntegrityIssueCode =
+  | 'invalid-file'
+  | 'invalid-record'
+  | 'duplicate-id'
+  | 'category-mismatch'
+  | 'word-count-mismatch'
+  | 'missing-word-file'
+  | 'unregistered-word-file'
+  | 'missing-audio'
+  | 'audio-path-mismatch';
+
+/**
+ * One problem found in the content
+ */
+export interface IntegrityIssue {
+  /** Errors fail the check; warnings are reported only */
+  readonly severity: 'error' | 'warning';
+  readonly code: IntegrityIssueCode;
+  readonly file: string;
+  /** ID (or letter) of the record, when the problem is in one record */
+  readonly id?: string;
+  readonly message: string;
+}
+
+/**
+ * Per-file result
+ */
+export interface IntegrityFileReport {
+  readonly path: string;
+  readonly records: number;
+  /** Whether the file has a validator; other files are only counted */
+  readonly validated: boolean;
+}
+
+/**
+ * Machine-readable result of a content check
+ */
+export interface IntegrityReport {
+  /** True when there are no errors */
+  readonly ok: boolean;
+  readonly summary: {
+    readonly files: number;
+    readonly records: number;
+    readonly errors: number;
+    readonly warnings: number;
+  };
+  readonly files: readonly IntegrityFileReport[];
+  readonly issues: readonly IntegrityIssue[];
+}
+
+type Validator = (raw: unknown) => ValidationResult<unknown>;
+
+const CATEGORIES_FILE = 'categories.json';
+const ALPHABET_FILE = 'alphabet.json';
+const TONES_FILE = 'tones.json';
+const MINIMAL_PAIRS_FILE = 'minimal-pairs.json';
+const WORD_FILE_PATTERN = /^words\/([^/]+)\.json$/;
+
+const VALIDATORS: Readonly<Record<string, Validator>> = {
+  [CATEGORIES_FILE]: validateCategory,
+  [ALPHABET_FILE]: validateAlphabet,
+  [TONES_FILE]: validateTone,
+};
+
+const getValidator = (path: string): Validator | null =>
+  VALIDATORS[path] ?? (WORD_FILE_PATTERN.test(path) ? validateWord : null);
+
+// ID used to report a record and to check uniqueness
+const getRecordId = (record: unknown): string | undefined => {
+  if (!record || typeof record !== 'object') return undefined;
+  const { id, letter } = record as { id?: unknown; letter?: unknown };
+  if (typeof id === 'string') return id;
+  return typeof letter === 'string' ? letter : undefined;
+};
+
+/**
+ * Check every content file and collect all problems into one report
+ * @param files - Data files with their parsed JSON
+ * @param audioExists - Whether an audio URL has a file under public/
+ * @returns Report listing every problem found
+ */
+export const checkContentIntegrity = (
+  files: readonly ContentFile[],
+  audioExists: (audioUrl: string) => boolean
+): IntegrityReport => {
+  const issues: IntegrityIssue[] = [];
+  const fileReports: IntegrityFileReport[] = [];
+  const categories: Category[] = [];
+  const wordCounts = new Map<string, number>();
+  // Word IDs are shared across all word files
+  const wordIdFiles = new Map<string, string>();
+
+  const report = (issue: IntegrityIssue) => issues.push(issue);
+
+  const checkAudio = (file: string, id: string, audioUrl: string, expected?: string) => {
+    if (!audioExists(audioUrl)) {
+      report({
+        severity: 'error',
+        code: 'missing-audio',
+        file,
+        id,
+        message: `Audio file not found under public/: ${audioUrl}`,
+      });
+    }
+    if (expected !== undefined && audioUrl !== expected) {
+      report({
+        severity: 'warning',
+        code: 'audio-path-mismatch',
+        file,
+        id,
+        message: `Audio URL ${audioUrl} differs from the path helper's ${expected}`,
+      });
+    }
+  };
+
+  files.forEach(({ path, data }) => {
+    const validator = getValidator(path);
+    const records = Array.isArray(data) ? data : [];
+    fileReports.push({ path, records: records.length, validated: validator !== null });
+    // Curated minimal pairs have no validator, but the drill plays them from syllable clips
+    if (path === MINIMAL_PAIRS_FILE) {
+      records.forEach((record: { syllable?: unknown; words?: unknown }) => {
+        if (!Array.isArray(record?.words)) return;
+        getSyllableClips(record.words as SyllableExample[]).forEach((clip) => {
+          checkAudio(path, String(record.syllable), clip.audio_url);
+        });
+      });
+    }
+    if (!validator) return;
+
+    if (!Array.isArray(data)) {
+      report({
+        severity: 'error',
+        code: 'invalid-file',
+        file: path,
+        message: 'File must contain an array',
+      });
+      return;
+    }
+
+    const wordFileCategory = path.match(WORD_FILE_PATTERN)?.[1];
+    if (wordFileCategory) {
+      wordCounts.set(wordFileCategory, records.length);
+    }
+
+    // Record ID → file it first appeared in
+    const idOwners = wordFileCategory ? wordIdFiles : new Map<string, string>();
+    records.forEach((record, index) => {
+      const id = getRecordId(record);
+      const result = validator(record);
+      if (!result.success) {
+        report({
+          severity: 'error',
+          code: 'invalid-record',
+          file: path,
+          id,
+          message: `Record ${index}: ${result.errors.join(', ')}`,
+        });
+        return;
+      }
+      if (id === undefined) return;
+
+      const duplicateOf = idOwners.get(id);
+      if (duplicateOf !== undefined) {
+        report({
+          severity: 'error',
+          code: 'duplicate-id',
+          file: path,
+          id,
+          message: `Duplicate ID ${id} (also in ${duplicateOf})`,
+        });
+      } else {
+        idOwners.set(id, path);
+      }
+
+      if (path === CATEGORIES_FILE) {
+        categories.push(result.data as Category);
+      } else if (path === ALPHABET_FILE) {
+        const letter = result.data as Alphabet;
+        checkAudio(path, id, letter.audio_url, getAlphabetAudioPath(letter.letter));
+      } else if (path === TONES_FILE) {
+        const tone = result.data as Tone;
+        checkAudio(path, id, tone.audio_url);
+        getSyllableClips(tone.examples).forEach((clip) => checkAudio(path, id, clip.audio_url));
+      } else if (wordFileCategory) {
+        const word = result.data as Word;
+        if (word.category !== wordFileCategory) {
+          report({
+            severity: 'error',
+            code: 'category-mismatch',
+            file: path,
+            id,
+            message: `Word category ${word.category} does not match its file`,
+          });
+        }
+        checkAudio(path, id, word.audio_url, getWordAudioPath(word.vietnamese, word.category));
+        (Object.entries(word.dialects ?? {}) as [Dialect, DialectVariant][]).forEach(
+          ([dialect, variant]) => {
+            if (variant.audio_url) {
+              checkAudio(path, id, variant.audio_url, getDialectAudioPath(word, dialect));
+            }
+          }
+        );
+      }
+    });
+  });
+
+  categories.forEach((category) => {
+    const actual = wordCounts.get(category.id);
+    if (actual === undefined) {
+      report({
+        severity: 'error',
+        code: 'missing-word-file',
+        file: CATEGORIES_FILE,
+        id: category.id,
+        message: `No word file words/${category.id}.json`,
+      });
+    } else if (actual !== category.wordCount) {
+      report({
+        severity: 'error',
+        code: 'word-count-mismatch',
+        file: CATEGORIES_FILE,
+        id: category.id,
+        message: `wordCount is ${category.wordCount} but words/${category.id}.json has ${actual} words`,
+      });
+    }
+  });
+
+  // Words of a file missing from categories.json are never loaded
+  if (files.some((file) => file.path === CATEGORIES_FILE)) {
+    wordCounts.forEach((_, categoryId) => {
+      if (!categories.some((category) => category.id === categoryId)) {
+        report({
+          severity: 'error',
+          code: 'unregistered-word-file',
+          file: `words/${categoryId}.json`,
+          id: categoryId,
+          message: `words/${categoryId}.json has no entry in ${CATEGORIES_FILE}`,
+        });
+      }
+    });
+  }
+
+  const errors = issues.filter((issue) => issue.severity === 'error').length;
+  return {
+    ok: errors === 0,
+    summary: {
+      files: fileReports.length,
+      records: fileReports.reduce((sum, file) => sum + file.records, 0),
+      errors,
+      warnings: issues.length - errors,
+    },
+    files: fileReports,
+    issues,
+  };
+};
@@ -0,0 +1,145 @@
+/**
+ * Content repository: loads each word file once per session and serves
+ * indexed lookups by word ID, category, difficulty and tag. Pages share the
+ * loaded words instead of importing the word files themselves.
+ */
+
+import { ALL_CATEGORIES, CATEGORY_IDS, resolveCategoryParam } from '@/lib/categories';
+import { loadCategoryWords } from '@/lib/category-words';
+import type { CategoryId, DifficultyLevel, Word } from '@/types';
+
+/**
+ * Every word, indexed for lookup
+ */
+export interface WordIndex {
+  /** Every word in category display order */
+  readonly words: readonly Word[];
+  readonly byId: ReadonlyMap<string, Word>;
+  readonly byCategory: ReadonlyMap<CategoryId, readonly Word[]>;
+  readonly byDifficulty: ReadonlyMap<DifficultyLevel, readonly Word[]>;
+  readonly byTag: ReadonlyMap<string, readonly Word[]>;
+}
+
+const categoryWordsCache = new Map<CategoryId, Promise<readonly Word[]>>();
+let wordIndexPromise: Promise<WordIndex> | null = null;
+
+// Forget failed loads so the next call retries
+const memoize = <T>(promise: Promise<T>, forget: () => void): Promise<T> => {
+  promise.catch(forget);
+  return promise;
+};
+
+const addTo = <K, V>(map: Map<K, V[]>, key: K, value: V) => {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+};
+
+/**
+ * Build lookup maps over a word list
+ * @param words - Words in display order
+ * @returns Index of the words
+ */
+export const indexWords = (words: readonly Word[]): WordIndex => {
+  const byId = new Map<string, Word>();
+  const byCategory = new Map<CategoryId, Word[]>();
+  const byDifficulty = new Map<DifficultyLevel, Word[]>();
+  const byTag = new Map<string, Word[]>();
+
+  words.forEach((word) => {
+    byId.set(word.id, word);
+    addTo(byCategory, word.category, word);
+    addTo(byDifficulty, word.difficulty, word);
+    word.tags?.forEach((tag) => addTo(byTag, tag, word));
+  });
+
+  return { words, byId, byCategory, byDifficulty, byTag };
+};
+
+/**
+ * Get the words of a category, loading its word file on first use
+ * @param categoryId - Registered category ID
+ * @returns The category's words
+ */
+export const getCategoryWords = (categoryId: CategoryId): Promise<readonly Word[]> => {
+  let words = categoryWordsCache.get(categoryId);
+  if (!words) {
+    words = memoize(loadCategoryWords(categoryId), () => categoryWordsCache.delete(categoryId));
+    categoryWordsCache.set(categoryId, words);
+  }
+  return words;
+};
+
+/**
+ * Get the index of every word, loading all word files on first use
+ * @returns Index of every word
+ */
+export const getWordIndex = (): Promise<WordIndex> => {
+  if (!wordIndexPromise) {
+    wordIndexPromise = memoize(
+      Promise.all(CATEGORY_IDS.map(getCategoryWords)).then((lists) => indexWords(lists.flat())),
+      () => {
+        wordIndexPromise = null;
+      }
+    );
+  }
+  return wordIndexPromise;
+};
+
+/**
+ * Get the words selected by a category parameter
+ * @param categoryParam - Category ID, or 'all' for every category
+ * @returns Selected words
+ */
+export const getWordsForCategoryParam = async (categoryParam: string): Promise<readonly Word[]> => {
+  if (categoryParam === ALL_CATEGORIES) {
+    return (await getWordIndex()).words;
+  }
+  const [categoryId] = resolveCategoryParam(categoryParam);
+  if (!categoryId) {
+    throw new Error(`Unknown category: ${categoryParam}`);
+  }
+  return getCategoryWords(categoryId);
+};
+
+/**
+ * Look up a word
+ * @param wordId - Word ID
+ * @returns The word, or undefined if no word has the ID
+ */
+export const getWord = async (wordId: string): Promise<Word | undefined> =>
+  (await getWordIndex()).byId.get(wordId);
+
+/**
+ * Get the words of a difficulty level
+ * @param difficulty - Difficulty level
+ * @returns Words of that level in display order
+ */
+export const getWordsByDifficulty = async (difficulty: DifficultyLevel): Promise<readonly Word[]> =>
+  (await getWordIndex()).byDifficulty.get(difficulty) ?? [];
+
+/**
+ * Get the words with a tag
+ * @param tag - Topic tag
+ * @returns Tagged words in display order
+ */
+export const getWordsByTag = async (tag: string): Promise<readonly Word[]> =>
+  (await getWordIndex()).byTag.get(tag) ?? [];
+
+/**
+ * Count words per category among a list of word IDs
+ * @param index - Word index
+ * @param wordIds - Word IDs, e.g. the learned words
+ * @returns Number of the IDs in each category (unknown IDs are ignored)
+ */
+export const countWordsByCategory = (
+  index: WordIndex,
+  wordIds: readonly string[]
+): ReadonlyMap<CategoryId, number> => {
+  const counts = new Map<CategoryId, number>();
+  wordIds.forEach((wordId) => {
+    const word = index.byId.get(wordId);
+    if (word) counts.set(word.category, (counts.get(word.category) ?? 0) + 1);
+  });
+  return counts;
+};
@@ -0,0 +1,88 @@
+/**
+ * Delimited text (CSV/TSV) reading and writing with RFC 4180 quoting
+ */
+
+/** Delimiters the importer understands */
+export const DELIMITERS = [',', '\t', ';'] as const;
+
+export type Delimiter = (typeof DELIMITERS)[number];
+
+/**
+ * Guess the delimiter from the first non-comment line
+ * @param text - File contents
+ * @returns The delimiter appearing most often, comma on a tie
+ */
+export const detectDelimiter = (text: string): Delimiter => {
+  const firstLine = text.split(/\r?\n/).find((line) => line && !line.startsWith('#')) ?? '';
+  let best: Delimiter = ',';
+  let bestCount = 0;
+  DELIMITERS.forEach((delimiter) => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Split delimited text into rows of fields. Quoted fields may contain
+ * delimiters, doubled quotes and line breaks. Blank lines are dropped.
+ * @param text - File contents
+ * @param delimiter - Field delimiter
+ * @returns Rows of fields
+ */
+export const parseDelimited = (text: string, delimiter: Delimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Skip a byte order mark
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+const quoteField = (field: string, delimiter: Delimiter): string =>
+  field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+/**
+ * Join rows of fields into delimited text
+ * @param rows - Rows of fields
+ * @param delimiter - Field delimiter
+ * @returns Text with CRLF line endings
+ */
+export const toDelimited = (rows: readonly (readonly string[])[], delimiter: Delimiter): string =>
+  rows.map((row) => row.map((field) => quoteField(field, delimiter)).join(delimiter)).join('\r\n');
@@ -13,5 +13,9 @@ export type {
   UserProgress, 
   NewUserProgress,
   StudySession,
-  NewStudySession 
+  NewStudySession,
+  WordReview,
+  NewWordReview,
+  Deck,
+  NewDeck,
 } from './schema';
\ No newline at end of file
@@ -8,8 +8,10 @@ import {
   boolean,
   uuid,
   primaryKey,
+  index,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import type { DeckEntry } from '@/types';
 
 // Users table
 export const users = pgTable('users', {
@@ -84,12 +86,44 @@ export const studySessions = pgTable('study_sessions', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Word reviews table (one row per flashcard/quiz answer)
+export const wordReviews = pgTable('word_reviews', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  wordId: varchar('word_id', { length: 100 }).notNull(),
+  activityType: varchar('activity_type', { length: 50 }).notNull(), // 'flashcard' | 'quiz' | 'learning'
+  isCorrect: boolean('is_correct').notNull(),
+  grade: varchar('grade', { length: 10 }), // 'again' | 'hard' | 'good' | 'easy'
+  responseTimeMs: integer('response_time_ms'),
+  reviewedAt: timestamp('reviewed_at').defaultNow().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (review) => ({
+  userWordIdx: index('word_reviews_user_word_idx').on(review.userId, review.wordId),
+  userReviewedAtIdx: index('word_reviews_user_reviewed_at_idx').on(review.userId, review.reviewedAt),
+}));
+
+// Custom decks table (user-built word lists; IDs are created on the client)
+export const decks = pgTable('decks', {
+  id: uuid('id').primaryKey(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description').default('').notNull(),
+  wordIds: jsonb('word_ids').$type<string[]>().default([]).notNull(),
+  entries: jsonb('entries').$type<DeckEntry[]>().default([]).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (deck) => ({
+  userUpdatedAtIdx: index('decks_user_updated_at_idx').on(deck.userId, deck.updatedAt),
+}));
+
 // Define relationships
 export const usersRelations = relations(users, ({ many, one }) => ({
   accounts: many(accounts),
   sessions: many(sessions),
   progress: one(userProgress),
   studySessions: many(studySessions),
+  wordReviews: many(wordReviews),
+  decks: many(decks),
 }));
 
 export const accountsRelations = relations(accounts, ({ one }) => ({
@@ -108,6 +142,14 @@ export const studySessionsRelations = relations(studySessions, ({ one }) => ({
   user: one(users, { fields: [studySessions.userId], references: [users.id] }),
 }));
 
+export const wordReviewsRelations = relations(wordReviews, ({ one }) => ({
+  user: one(users, { fields: [wordReviews.userId], references: [users.id] }),
+}));
+
+export const decksRelations = relations(decks, ({ one }) => ({
+  user: one(users, { fields: [decks.userId], references: [users.id] }),
+}));
+
 // Types for use in application
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -116,4 +158,8 @@ export type Session = typeof sessions.$inferSelect;
 export type UserProgress = typeof userProgress.$inferSelect;
 export type NewUserProgress = typeof userProgress.$inferInsert;
 export type StudySession = typeof studySessions.$inferSelect;
-export type NewStudySession = typeof studySessions.$inferInsert;
\ No newline at end of file
+export type NewStudySession = typeof studySessions.$inferInsert;
+export type WordReview = typeof wordReviews.$inferSelect;
+export type NewWordReview = typeof wordReviews.$inferInsert;
+export type Deck = typeof decks.$inferSelect;
+export type NewDeck = typeof decks.$inferInsert;
\ No newline at end of file
@@ -0,0 +1,249 @@
+/**
+ * Deck import and export as delimited text. Imports map file columns onto
+ * entry fields and report every problem row by row; exports write the same
+ * columns back so a file round-trips, including Anki's plain-text notes.
+ */
+
+import { detectDelimiter, parseDelimited, toDelimited, type Delimiter } from '@/lib/csv';
+import { MAX_DECK_SIZE, MAX_ENTRY_FIELD_LENGTH } from '@/lib/decks';
+import type { Deck, DeckEntry, Word } from '@/types';
+
+/** Entry fields a file column can be mapped to, in export column order */
+export const IMPORT_FIELDS = [
+  'vietnamese',
+  'japanese',
+  'pronunciation',
+  'example_vietnamese',
+  'example_japanese',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** Labels shown in the column mapping step and the error report */
+export const IMPORT_FIELD_LABELS: Readonly<Record<ImportField, string>> = {
+  vietnamese: 'ベトナム語',
+  japanese: '日本語',
+  pronunciation: '読み',
+  example_vietnamese: '例文',
+  example_japanese: '例文の訳',
+};
+
+/** Header names recognised for each field (compared in lower case) */
+const HEADER_ALIASES: Readonly<Record<ImportField, readonly string[]>> = {
+  vietnamese: ['vietnamese', 'ベトナム語', 'tiếng việt', 'front', '表面'],
+  japanese: ['japanese', '日本語', 'meaning', '意味', 'back', '裏面'],
+  pronunciation: ['pronunciation', '読み', '発音', 'reading'],
+  example_vietnamese: ['example_vietnamese', 'example', '例文'],
+  example_japanese: ['example_japanese', 'example translation', '例文の訳', '例文訳'],
+};
+
+/**
+ * Column index for each field, or null when the field is not imported
+ */
+export type ColumnMapping = Readonly<Record<ImportField, number | null>>;
+
+/**
+ * A file split into rows, before column mapping
+ */
+export interface ParsedImportFile {
+  readonly delimiter: Delimiter;
+  readonly rows: readonly (readonly string[])[];
+  /** Number of file lines before the first row (Anki header lines) */
+  readonly skippedLines: number;
+}
+
+/**
+ * Problems found in one row
+ */
+export interface ImportRowError {
+  /** Row number as shown in a spreadsheet */
+  readonly row: number;
+  readonly messages: readonly string[];
+}
+
+/**
+ * Outcome of checking every row
+ */
+export interface ImportResult {
+  /** Entries from the rows without problems */
+  readonly entries: readonly DeckEntry[];
+  readonly errors: readonly ImportRowError[];
+}
+
+// Anki's plain-text export starts with lines such as "#separator:tab"
+const ANKI_SEPARATORS: Readonly<Record<string, Delimiter>> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+};
+
+/**
+ * Split an import file into rows
+ * @param text - File contents
+ * @returns Rows, the delimiter used and the number of header lines skipped
+ */
+export const parseImportFile = (text: string): ParsedImportFile => {
+  const lines = text.split(/\r?\n/);
+  let skippedLines = 0;
+  let delimiter: Delimiter | null = null;
+
+  while (skippedLines < lines.length && lines[skippedLines].startsWith('#')) {
+    const match = lines[skippedLines].match(/^#separator:(\w+)/i);
+    if (match) delimiter = ANKI_SEPARATORS[match[1].toLowerCase()] ?? null;
+    skippedLines++;
+  }
+
+  const body = lines.slice(skippedLines).join('\n');
+  const resolved = delimiter ?? detectDelimiter(body);
+  return { delimiter: resolved, rows: parseDelimited(body, resolved), skippedLines };
+};
+
+/**
+ * Guess the column mapping from the first row
+ * @param firstRow - First row of the file
+ * @returns Mapping, and whether the first row is a header
+ */
+export const guessColumnMapping = (
+  firstRow: readonly string[]
+): { mapping: ColumnMapping; hasHeader: boolean } => {
+  const cells = firstRow.map((cell) => cell.trim().toLowerCase());
+  const byHeader = Object.fromEntries(
+    IMPORT_FIELDS.map((field) => {
+      const index = cells.findIndex((cell) => HEADER_ALIASES[field].includes(cell));
+      return [field, index === -1 ? null : index];
+    })
+  ) as Record<ImportField, number | null>;
+
+  if (byHeader.vietnamese !== null || byHeader.japanese !== null) {
+    return { mapping: byHeader, hasHeader: true };
+  }
+
+  // No header: assume the export column order
+  const byPosition = Object.fromEntries(
+    IMPORT_FIELDS.map((field, index) => [field, index < firstRow.length ? index : null])
+  ) as Record<ImportField, number | null>;
+  return { mapping: byPosition, hasHeader: false };
+};
+
+// Anki fields hold HTML
+const toPlainText = (value: string): string =>
+  value
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const entryKey = (vietnamese: string, japanese: string) =>
+  `${vietnamese.normalize('NFC').toLowerCase()}\u0000${japanese}`;
+
+/**
+ * Check every row and turn the good ones into personal entries
+ * @param file - Parsed file
+ * @param mapping - Column of each field
+ * @param hasHeader - Whether the first row is a header
+ * @param deck - Deck the entries will be added to, to catch duplicates and overflow
+ * @returns Entries to add and the problems of the other rows
+ */
+export const importRows = (
+  file: ParsedImportFile,
+  mapping: ColumnMapping,
+  hasHeader: boolean,
+  deck?: Deck
+): ImportResult => {
+  const entries: DeckEntry[] = [];
+  const errors: ImportRowError[] = [];
+  const seen = new Map<string, number>(
+    deck?.entries.map((entry) => [entryKey(entry.vietnamese, entry.japanese), 0]) ?? []
+  );
+  let capacity = MAX_DECK_SIZE - (deck ? deck.word_ids.length + deck.entries.length : 0);
+
+  file.rows.forEach((cells, index) => {
+    if (hasHeader && index === 0) return;
+    const row = file.skippedLines + index + 1;
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : toPlainText(cells[column] ?? '');
+    };
+    const fields = Object.fromEntries(
+      IMPORT_FIELDS.map((field) => [field, value(field)])
+    ) as Record<ImportField, string>;
+    const messages: string[] = [];
+
+    if (!fields.vietnamese) messages.push('ベトナム語が空です');
+    if (!fields.japanese) messages.push('日本語が空です');
+    IMPORT_FIELDS.forEach((field) => {
+      if (fields[field].length > MAX_ENTRY_FIELD_LENGTH) {
+        messages.push(`${IMPORT_FIELD_LABELS[field]}が長すぎます（${MAX_ENTRY_FIELD_LENGTH}文字まで）`);
+      }
+    });
+    if (Boolean(fields.example_vietnamese) !== Boolean(fields.example_japanese)) {
+      messages.push('例文と例文の訳は両方入力してください');
+    }
+
+    const key = entryKey(fields.vietnamese, fields.japanese);
+    const firstRow = seen.get(key);
+    if (messages.length === 0 && firstRow !== undefined) {
+      messages.push(firstRow === 0 ? 'すでにデッキにあります' : `${firstRow}行目と重複しています`);
+    }
+    if (messages.length === 0 && capacity <= 0) {
+      messages.push(`デッキの上限（${MAX_DECK_SIZE}語）を超えています`);
+    }
+
+    if (messages.length > 0) {
+      errors.push({ row, messages });
+      return;
+    }
+
+    seen.set(key, row);
+    capacity--;
+    entries.push({
+      id: crypto.randomUUID(),
+      vietnamese: fields.vietnamese,
+      japanese: fields.japanese,
+      pronunciation: fields.pronunciation,
+      ...(fields.example_vietnamese && {
+        example_sentence: {
+          vietnamese: fields.example_vietnamese,
+          japanese: fields.example_japanese,
+        },
+      }),
+    });
+  });
+
+  return { entries, errors };
+};
+
+/**
+ * Write words as CSV with a header row, in the column order the importer expects
+ * @param words - Words to export
+ * @returns CSV text
+ */
+export const wordsToCsv = (words: readonly Word[]): string =>
+  toDelimited(
+    [
+      IMPORT_FIELDS,
+      ...words.map((word) => [
+        word.vietnamese,
+        word.japanese,
+        word.pronunciation,
+        word.example_sentence?.vietnamese ?? '',
+        word.example_sentence?.japanese ?? '',
+      ]),
+    ],
+    ','
+  );
+
+/**
+ * File name for an exported deck
+ * @param name - Deck name
+ * @param extension - File extension without the dot
+ * @returns Name safe on common file systems
+ */
+export const getExportFileName = (name: string, extension: string): string =>
+  `${name.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '') || 'deck'}.${extension}`;
@@ -0,0 +1,210 @@
+/**
+ * Custom decks: validation shared by the deck store and the /api/decks
+ * routes, and conversion of a deck into words the study pages can use
+ */
+
+import type { WordIndex } from '@/lib/content-repository';
+import type { Deck as DeckRow } from '@/lib/db/schema';
+import type { Deck, DeckEntry, Word } from '@/types';
+
+/** Prefix that marks a deck in the category parameter of study pages */
+export const DECK_CATEGORY_PREFIX = 'deck-' as const;
+
+/** Maximum length of a deck name */
+export const MAX_DECK_NAME_LENGTH = 100 as const;
+
+/** Maximum length of a deck description */
+export const MAX_DECK_DESCRIPTION_LENGTH = 500 as const;
+
+/** Maximum number of catalog words plus personal entries in one deck */
+export const MAX_DECK_SIZE = 2000 as const;
+
+/** Maximum length of each text field of a personal entry */
+export const MAX_ENTRY_FIELD_LENGTH = 200 as const;
+
+/**
+ * Editable fields of a deck
+ */
+export interface DeckInput {
+  readonly name: string;
+  readonly description: string;
+  readonly word_ids: readonly string[];
+  readonly entries: readonly DeckEntry[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check whether a value is a deck ID
+ * @param value - Candidate ID
+ * @returns True for a UUID
+ */
+export const isDeckId = (value: unknown): value is string =>
+  typeof value === 'string' && UUID_PATTERN.test(value);
+
+/**
+ * Category parameter that selects a deck on the flashcard and quiz pages
+ * @param deckId - Deck ID
+ * @returns Category parameter, e.g. "deck-<uuid>"
+ */
+export const getDeckCategoryId = (deckId: string): string => `${DECK_CATEGORY_PREFIX}${deckId}`;
+
+/**
+ * Extract the deck ID from a category parameter
+ * @param categoryParam - Category parameter of a study page
+ * @returns Deck ID, or null if the parameter does not select a deck
+ */
+export const getDeckIdFromCategory = (categoryParam: string): string | null => {
+  if (!categoryParam.startsWith(DECK_CATEGORY_PREFIX)) return null;
+  const deckId = categoryParam.slice(DECK_CATEGORY_PREFIX.length);
+  return isDeckId(deckId) ? deckId : null;
+};
+
+const isText = (value: unknown, required: boolean): boolean =>
+  typeof value === 'string' &&
+  value.length <= MAX_ENTRY_FIELD_LENGTH &&
+  (!required || value.trim().length > 0);
+
+/**
+ * Validate a personal entry
+ * @param raw - Entry from user input or a request body
+ * @returns Error message, or null if the entry is valid
+ */
+export const validateDeckEntry = (raw: unknown): string | null => {
+  if (!raw || typeof raw !== 'object') {
+    return 'Entry must be an object';
+  }
+
+  const data = raw as Record<string, unknown>;
+
+  if (typeof data.id !== 'string' || data.id.length === 0 || data.id.length > 64) {
+    return 'Entry id must be a non-empty string (max 64 characters)';
+  }
+
+  for (const field of ['vietnamese', 'japanese'] as const) {
+    if (!isText(data[field], true)) {
+      return `${field} must be a non-empty string (max ${MAX_ENTRY_FIELD_LENGTH} characters)`;
+    }
+  }
+
+  if (!isText(data.pronunciation, false)) {
+    return `pronunciation must be a string (max ${MAX_ENTRY_FIELD_LENGTH} characters)`;
+  }
+
+  if (data.example_sentence !== undefined) {
+    const sentence = data.example_sentence as Record<string, unknown> | null;
+    if (!sentence || !isText(sentence.vietnamese, true) || !isText(sentence.japanese, true)) {
+      return 'example_sentence needs Vietnamese and Japanese text';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Validate the editable fields of a deck
+ * @param raw - Deck from user input or a request body
+ * @returns Error message, or null if the deck is valid
+ */
+export const validateDeckInput = (raw: unknown): string | null => {
+  if (!raw || typeof raw !== 'object') {
+    return 'Deck must be an object';
+  }
+
+  const data = raw as Record<string, unknown>;
+
+  if (
+    typeof data.name !== 'string' ||
+    data.name.trim().length === 0 ||
+    data.name.length > MAX_DECK_NAME_LENGTH
+  ) {
+    return `name must be a non-empty string (max ${MAX_DECK_NAME_LENGTH} characters)`;
+  }
+
+  if (typeof data.description !== 'string' || data.description.length > MAX_DECK_DESCRIPTION_LENGTH) {
+    return `description must be a string (max ${MAX_DECK_DESCRIPTION_LENGTH} characters)`;
+  }
+
+  if (
+    !Array.isArray(data.word_ids) ||
+    !data.word_ids.every((id) => typeof id === 'string' && id.length > 0 && id.length <= 100)
+  ) {
+    return 'word_ids must be an array of word IDs';
+  }
+
+  if (!Array.isArray(data.entries)) {
+    return 'entries must be an array';
+  }
+
+  if (data.word_ids.length + data.entries.length > MAX_DECK_SIZE) {
+    return `Too many words (max ${MAX_DECK_SIZE} per deck)`;
+  }
+
+  const entryIds = new Set<string>();
+  for (let i = 0; i < data.entries.length; i++) {
+    const error = validateDeckEntry(data.entries[i]);
+    if (error) {
+      return `Entry ${i}: ${error}`;
+    }
+    const { id } = data.entries[i] as DeckEntry;
+    if (entryIds.has(id)) {
+      return `Entry ${i}: duplicate id ${id}`;
+    }
+    entryIds.add(id);
+  }
+
+  return null;
+};
+
+/**
+ * Convert a database row into the deck shape used by the client
+ * @param row - Row of the decks table
+ * @returns Deck
+ */
+export const toDeck = (row: DeckRow): Deck => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  word_ids: row.wordIds,
+  entries: row.entries,
+  created_at: row.createdAt.toISOString(),
+  updated_at: row.updatedAt.toISOString(),
+});
+
+/**
+ * Word ID under which a personal entry is studied and reviewed
+ * @param entry - Personal entry
+ * @returns Word ID, e.g. "custom_<entry id>"
+ */
+export const getDeckEntryWordId = (entry: DeckEntry): string => `custom_${entry.id}`;
+
+/**
+ * Turn a personal entry into a word. Personal entries have no recording.
+ * @param deck - Deck holding the entry
+ * @param entry - Personal entry
+ * @returns Word in the deck's category
+ */
+export const deckEntryToWord = (deck: Deck, entry: DeckEntry): Word => ({
+  id: getDeckEntryWordId(entry),
+  vietnamese: entry.vietnamese,
+  japanese: entry.japanese,
+  pronunciation: entry.pronunciation,
+  audio_url: '',
+  category: getDeckCategoryId(deck.id),
+  difficulty: 'beginner',
+  ...(entry.example_sentence && { example_sentence: entry.example_sentence }),
+});
+
+/**
+ * Every word of a deck: its catalog words, then its personal entries
+ * @param deck - Deck to study
+ * @param index - Index of the catalog words
+ * @returns Words to study (catalog words no longer shipped are skipped)
+ */
+export const resolveDeckWords = (deck: Deck, index: WordIndex): Word[] => [
+  ...deck.word_ids.flatMap((wordId) => {
+    const word = index.byId.get(wordId);
+    return word ? [word] : [];
+  }),
+  ...deck.entries.map((entry) => deckEntryToWord(deck, entry)),
+];
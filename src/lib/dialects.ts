@@ -0,0 +1,52 @@
+/**
+ * Northern (Hà Nội) and southern (Sài Gòn) Vietnamese: the dialect labels
+ * and the conversion of words into the form the learner chose. The word
+ * data holds one default form per word plus overrides per dialect.
+ */
+
+import type { Dialect, Word } from '@/types';
+
+/** Dialects in display order */
+export const DIALECTS = ['north', 'south'] as const satisfies readonly Dialect[];
+
+/** Dialect used until the learner picks one */
+export const DEFAULT_DIALECT: Dialect = 'north';
+
+/** Display names of each dialect */
+export const DIALECT_LABELS: Readonly<Record<Dialect, { readonly name: string; readonly city: string }>> = {
+  north: { name: '北部', city: 'ハノイ' },
+  south: { name: '南部', city: 'ホーチミン' },
+};
+
+/**
+ * Get a word in one dialect. A variant that is another word (e.g. "bắp"
+ * for "ngô") uses only its own recording and example sentence; a variant
+ * that only changes the reading keeps the default recording until the
+ * dialect's recording exists.
+ * @param word - Word with the default form
+ * @param dialect - Dialect to show
+ * @returns The word in that dialect (the same object when nothing differs)
+ */
+export const applyDialect = (word: Word, dialect: Dialect): Word => {
+  const variant = word.dialects?.[dialect];
+  if (!variant) return word;
+
+  const isOtherWord = variant.vietnamese !== undefined && variant.vietnamese !== word.vietnamese;
+
+  return {
+    ...word,
+    vietnamese: variant.vietnamese ?? word.vietnamese,
+    pronunciation: variant.pronunciation ?? word.pronunciation,
+    audio_url: variant.audio_url ?? (isOtherWord ? '' : word.audio_url),
+    example_sentence: variant.example_sentence ?? (isOtherWord ? undefined : word.example_sentence),
+  };
+};
+
+/**
+ * Get words in one dialect
+ * @param words - Words with the default form
+ * @param dialect - Dialect to show
+ * @returns Words in that dialect, in the same order
+ */
+export const applyDialectToWords = (words: readonly Word[], dialect: Dialect): Word[] =>
+  words.map((word) => applyDialect(word, dialect));
@@ -1,5 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { Howl } from 'howler';
+import type { Howl } from 'howler';
+import { audioManager } from '@/lib/audio-manager';
+import { resolveAudio, type ResolvedAudio } from '@/lib/audio-sprites';
 
 /**
  * Configuration options for the audio player hook
@@ -38,6 +40,14 @@ export class AudioError extends Error {
   }
 }
 
+/**
+ * Section of the clip to play, in seconds
+ */
+export interface LoopRegion {
+  readonly start: number;
+  readonly end: number;
+}
+
 /**
  * Audio player state
  */
@@ -47,6 +57,16 @@ export interface AudioPlayerState {
   readonly error: AudioError | null;
   readonly duration: number | null;
   readonly currentTime: number;
+  /** Current playback rate */
+  readonly rate: number;
+  /** A-B section that playback is confined to, if set */
+  readonly loopRegion: LoopRegion | null;
+  /** Times each play() plays the clip or section (Infinity loops until stopped) */
+  readonly repeatCount: number;
+  /** Silence between repeats in milliseconds */
+  readonly repeatGapMs: number;
+  /** Pass being played within the current repeat run (0 when idle) */
+  readonly repeatPass: number;
 }
 
 /**
@@ -57,6 +77,12 @@ export interface AudioPlayerControls {
   readonly pause: () => void;
   readonly stop: () => void;
   readonly setVolume: (volume: number) => void;
+  /** Set the playback rate (0.5 to 4.0, 1.0 is normal speed) */
+  readonly setRate: (rate: number) => void;
+  /** Confine playback to an A-B section, or clear it with null */
+  readonly setLoopRegion: (region: LoopRegion | null) => void;
+  /** Play the clip or section `count` times per play(), pausing `gapMs` between passes */
+  readonly setRepeat: (count: number, gapMs?: number) => void;
   readonly seek: (time: number) => void;
   readonly getCurrentTime: () => number;
   readonly getDuration: () => number | null;
@@ -68,7 +94,11 @@ export interface AudioPlayerControls {
 export interface UseAudioPlayerReturn extends AudioPlayerState, AudioPlayerControls {}
 
 /**
- * Custom hook for audio playback with comprehensive controls and state management
+ * Custom hook for audio playback with comprehensive controls and state management.
+ * Sounds come from the shared audio manager, so players of the same URL reuse
+ * one pooled Howl; each player controls only its own sound ID within it.
+ * Word clips packed into a category sprite play as a segment of the sprite,
+ * and all times the hook reports are relative to the clip.
  * @param audioUrl - URL of the audio file to play
  * @param options - Configuration options
  * @returns Audio player state and controls
@@ -77,32 +107,107 @@ export const useAudioPlayer = (
   audioUrl: string,
   options: UseAudioPlayerOptions = {}
 ): UseAudioPlayerReturn => {
-  const {
-    preload = true,
-    volume = 1.0,
-    onEnd,
-    onError,
-    onPlay,
-    onPause,
-    onLoadStart,
-    onLoadEnd,
-  } = options;
+  const { preload = true, volume = 1.0 } = options;
 
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<AudioError | null>(null);
   const [duration, setDuration] = useState<number | null>(null);
   const [currentTime, setCurrentTime] = useState<number>(0);
+  const [rate, setRateState] = useState<number>(1);
+  const [loopRegion, setLoopRegionState] = useState<LoopRegion | null>(null);
+  const [repeatCount, setRepeatCount] = useState<number>(1);
+  const [repeatGapMs, setRepeatGapMs] = useState<number>(0);
+  const [repeatPass, setRepeatPass] = useState<number>(0);
   const soundRef = useRef<Howl | null>(null);
+  // This player's sound within the shared Howl
+  const soundIdRef = useRef<number | null>(null);
+  // Where the clip lives: its own file or a sprite segment
+  const clipRef = useRef<ResolvedAudio | null>(null);
+  const pendingSeekRef = useRef<number | null>(null);
+  const urlRef = useRef<string>(audioUrl);
+  const releaseRef = useRef<(() => void) | null>(null);
+  const detachRef = useRef<(() => void) | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  // Mirrors of the settings for the Howl callbacks, which outlive renders
+  const volumeRef = useRef<number>(Math.max(0, Math.min(1, volume))); // Clamp volume
+  const rateRef = useRef<number>(1);
+  const loopRegionRef = useRef<LoopRegion | null>(null);
+  const repeatRef = useRef({ count: 1, gapMs: 0 });
+  const repeatPassRef = useRef<number>(0);
+  const gapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const callbacksRef = useRef(options);
+  callbacksRef.current = options;
+
+  const clearGapTimer = useCallback(() => {
+    if (gapTimerRef.current !== null) {
+      clearTimeout(gapTimerRef.current);
+      gapTimerRef.current = null;
+    }
+  }, []);
+
+  const setPass = useCallback((pass: number) => {
+    repeatPassRef.current = pass;
+    setRepeatPass(pass);
+  }, []);
+
+  // Seconds between the start of the file and the start of the clip
+  const getOffset = () => clipRef.current?.offset ?? 0;
+
+  // Start (or resume) this player's sound with its own volume and rate
+  const startSound = useCallback((sound: Howl) => {
+    const segment = clipRef.current?.segment ?? undefined;
+    const id =
+      (soundIdRef.current !== null && sound.play(soundIdRef.current)) || sound.play(segment);
+    soundIdRef.current = id;
+    sound.volume(volumeRef.current, id);
+    sound.rate(rateRef.current, id);
+    if (pendingSeekRef.current !== null) {
+      sound.seek(getOffset() + pendingSeekRef.current, id);
+      pendingSeekRef.current = null;
+    }
+  }, []);
+
+  // End of one pass: start the next after the gap, or finish the run
+  const handlePassEnd = useCallback(() => {
+    const sound = soundRef.current;
+    const id = soundIdRef.current;
+    if (!sound || id === null) return;
+
+    const { count, gapMs } = repeatRef.current;
+    const start = loopRegionRef.current?.start ?? 0;
+    if (repeatPassRef.current > 0 && repeatPassRef.current < count) {
+      sound.pause(id);
+      sound.seek(getOffset() + start, id);
+      setCurrentTime(start);
+      gapTimerRef.current = setTimeout(() => {
+        gapTimerRef.current = null;
+        setPass(repeatPassRef.current + 1);
+        startSound(sound);
+      }, gapMs);
+      return;
+    }
+
+    sound.stop(id);
+    setPass(0);
+    callbacksRef.current.onEnd?.();
+  }, [setPass, startSound]);
 
   // Update current time during playback
   const updateCurrentTime = useCallback(() => {
-    if (soundRef.current && soundRef.current.playing()) {
-      setCurrentTime(soundRef.current.seek() as number || 0);
+    const sound = soundRef.current;
+    const id = soundIdRef.current;
+    if (sound && id !== null && sound.playing(id)) {
+      const position = Math.max(0, (sound.seek(id) as number || 0) - getOffset());
+      const region = loopRegionRef.current;
+      if (region && position >= region.end) {
+        handlePassEnd();
+        return;
+      }
+      setCurrentTime(position);
       animationFrameRef.current = requestAnimationFrame(updateCurrentTime);
     }
-  }, []);
+  }, [handlePassEnd]);
 
   // Stop time updates
   const stopTimeUpdates = useCallback(() => {
@@ -112,98 +217,180 @@ export const useAudioPlayer = (
     }
   }, []);
 
+  // Get the pooled sound for the current URL and listen to this player's events
+  const connect = useCallback(async (): Promise<Howl> => {
+    if (soundRef.current) return soundRef.current;
+    const changed = () =>
+      new AudioError('Audio source changed while loading', audioUrl, 'load');
+
+    const clip = clipRef.current ?? (await resolveAudio(audioUrl));
+    if (urlRef.current !== audioUrl) throw changed();
+    clipRef.current = clip;
+    if (!releaseRef.current) {
+      releaseRef.current = audioManager.retain(clip.source);
+    }
+
+    const sound = await audioManager.load(clip.source);
+    if (urlRef.current !== audioUrl) throw changed();
+    if (soundRef.current) return soundRef.current;
+
+    const isOwn = (id: number) => id === soundIdRef.current;
+    const handlePlay = (id: number) => {
+      if (!isOwn(id)) return;
+      setIsPlaying(true);
+      updateCurrentTime();
+      callbacksRef.current.onPlay?.();
+    };
+    const handleEnd = (id: number) => {
+      if (!isOwn(id)) return;
+      setIsPlaying(false);
+      setCurrentTime(0);
+      stopTimeUpdates();
+      handlePassEnd();
+    };
+    const handleStop = (id: number) => {
+      if (!isOwn(id)) return;
+      setIsPlaying(false);
+      setCurrentTime(0);
+      stopTimeUpdates();
+    };
+    const handlePause = (id: number) => {
+      if (!isOwn(id)) return;
+      setIsPlaying(false);
+      stopTimeUpdates();
+      callbacksRef.current.onPause?.();
+    };
+    const handlePlayError = (id: number, err: unknown) => {
+      if (!isOwn(id)) return;
+      const audioError = new AudioError(
+        `Failed to play audio: ${err}`,
+        audioUrl,
+        'play',
+        err
+      );
+      setError(audioError);
+      setIsPlaying(false);
+      stopTimeUpdates();
+      callbacksRef.current.onError?.(audioError);
+    };
+
+    sound.on('play', handlePlay);
+    sound.on('end', handleEnd);
+    sound.on('stop', handleStop);
+    sound.on('pause', handlePause);
+    sound.on('playerror', handlePlayError);
+    detachRef.current = () => {
+      sound.off('play', handlePlay);
+      sound.off('end', handleEnd);
+      sound.off('stop', handleStop);
+      sound.off('pause', handlePause);
+      sound.off('playerror', handlePlayError);
+    };
+
+    soundRef.current = sound;
+    setDuration(clip.duration ?? (sound.duration() || null));
+    return sound;
+  }, [audioUrl, updateCurrentTime, stopTimeUpdates, handlePassEnd]);
+
+  // Report a failed load unless the URL has changed since
+  const handleLoadError = useCallback((err: unknown) => {
+    if (urlRef.current !== audioUrl) return;
+    const audioError =
+      err instanceof AudioError
+        ? err
+        : new AudioError(`Failed to load audio file: ${err}`, audioUrl, 'load', err);
+    setError(audioError);
+    setIsLoading(false);
+    callbacksRef.current.onError?.(audioError);
+  }, [audioUrl]);
+
   // Audio file loading and setup
   useEffect(() => {
+    urlRef.current = audioUrl;
     if (!audioUrl.trim()) {
       setError(new AudioError('Empty audio URL provided', audioUrl, 'load'));
       return;
     }
 
-    setIsLoading(true);
     setError(null);
     setCurrentTime(0);
-    onLoadStart?.();
-
-    const sound = new Howl({
-      src: [audioUrl],
-      html5: true,
-      preload,
-      volume: Math.max(0, Math.min(1, volume)), // Clamp volume
-      onload: () => {
-        setIsLoading(false);
-        setDuration(sound.duration() || null);
-        onLoadEnd?.();
-      },
-      onplay: () => {
-        setIsPlaying(true);
-        updateCurrentTime();
-        onPlay?.();
-      },
-      onend: () => {
-        setIsPlaying(false);
-        setCurrentTime(0);
-        stopTimeUpdates();
-        onEnd?.();
-      },
-      onstop: () => {
-        setIsPlaying(false);
-        setCurrentTime(0);
-        stopTimeUpdates();
-      },
-      onpause: () => {
-        setIsPlaying(false);
-        stopTimeUpdates();
-        onPause?.();
-      },
-      onloaderror: (_id, err) => {
-        const audioError = new AudioError(
-          `Failed to load audio file: ${err}`,
-          audioUrl,
-          'load',
-          err
-        );
-        setError(audioError);
-        setIsLoading(false);
-        onError?.(audioError);
-      },
-      onplayerror: (_id, err) => {
-        const audioError = new AudioError(
-          `Failed to play audio: ${err}`,
-          audioUrl,
-          'play',
-          err
-        );
-        setError(audioError);
-        setIsPlaying(false);
-        stopTimeUpdates();
-        onError?.(audioError);
-      },
-    });
+    setDuration(null);
+    // A-B points belong to the previous clip
+    loopRegionRef.current = null;
+    setLoopRegionState(null);
 
-    soundRef.current = sound;
+    if (preload) {
+      setIsLoading(true);
+      callbacksRef.current.onLoadStart?.();
+      connect()
+        .then(() => {
+          if (urlRef.current !== audioUrl) return;
+          setIsLoading(false);
+          callbacksRef.current.onLoadEnd?.();
+        })
+        .catch(handleLoadError);
+    }
 
     return () => {
+      urlRef.current = '';
       stopTimeUpdates();
-      sound.unload();
+      clearGapTimer();
+      setPass(0);
+      setIsPlaying(false);
+      const sound = soundRef.current;
+      if (sound && soundIdRef.current !== null) {
+        sound.stop(soundIdRef.current);
+      }
+      detachRef.current?.();
+      detachRef.current = null;
+      releaseRef.current?.();
+      releaseRef.current = null;
+      soundRef.current = null;
+      soundIdRef.current = null;
+      clipRef.current = null;
+      pendingSeekRef.current = null;
     };
-  }, [audioUrl, preload, volume, onEnd, onError, onPlay, onPause, onLoadStart, onLoadEnd, updateCurrentTime, stopTimeUpdates]);
+  }, [audioUrl, preload, connect, handleLoadError, stopTimeUpdates, clearGapTimer, setPass]);
 
   // Play audio with promise support
   const play = useCallback(async (): Promise<void> => {
-    if (!soundRef.current) {
+    if (!audioUrl.trim()) {
       throw new AudioError('Audio not initialized', audioUrl, 'play');
     }
-    
-    if (isPlaying) {
-      return; // Already playing
+
+    if (isPlaying || gapTimerRef.current !== null) {
+      return; // Already playing or between repeats
     }
 
     if (error) {
       throw error; // Don't play if there's an error
     }
 
+    let sound = soundRef.current;
+    if (!sound) {
+      // Not preloaded: load on first play
+      setIsLoading(true);
+      callbacksRef.current.onLoadStart?.();
+      try {
+        sound = await connect();
+      } catch (err) {
+        handleLoadError(err);
+        throw err;
+      }
+      setIsLoading(false);
+      callbacksRef.current.onLoadEnd?.();
+    }
+
     try {
-      soundRef.current.play();
+      // Start inside the A-B section
+      const region = loopRegionRef.current;
+      const id = soundIdRef.current;
+      const position = id !== null ? (sound.seek(id) as number || 0) - getOffset() : 0;
+      if (region && (position < region.start || position >= region.end)) {
+        pendingSeekRef.current = region.start;
+      }
+      setPass(1);
+      startSound(sound);
     } catch (err) {
       const audioError = new AudioError(
         'Failed to start playback',
@@ -214,64 +401,98 @@ export const useAudioPlayer = (
       setError(audioError);
       throw audioError;
     }
-  }, [isPlaying, error, audioUrl]);
+  }, [isPlaying, error, audioUrl, connect, handleLoadError, setPass, startSound]);
 
   // Pause playback
   const pause = useCallback((): void => {
-    if (soundRef.current && isPlaying) {
-      soundRef.current.pause();
+    clearGapTimer();
+    if (soundRef.current && soundIdRef.current !== null && isPlaying) {
+      soundRef.current.pause(soundIdRef.current);
     }
-  }, [isPlaying]);
+  }, [isPlaying, clearGapTimer]);
 
-  // Stop playback
+  // Stop playback and any remaining repeats
   const stop = useCallback((): void => {
-    if (soundRef.current) {
-      soundRef.current.stop();
+    clearGapTimer();
+    setPass(0);
+    if (soundRef.current && soundIdRef.current !== null) {
+      soundRef.current.stop(soundIdRef.current);
     }
-  }, []);
+  }, [clearGapTimer, setPass]);
 
   // Set volume level
   const setVolume = useCallback((newVolume: number): void => {
     const clampedVolume = Math.max(0, Math.min(1, newVolume));
-    if (soundRef.current) {
-      soundRef.current.volume(clampedVolume);
+    volumeRef.current = clampedVolume;
+    if (soundRef.current && soundIdRef.current !== null) {
+      soundRef.current.volume(clampedVolume, soundIdRef.current);
     }
   }, []);
 
+  // Set playback rate
+  const setRate = useCallback((newRate: number): void => {
+    const clampedRate = Math.max(0.5, Math.min(4, newRate));
+    rateRef.current = clampedRate;
+    setRateState(clampedRate);
+    if (soundRef.current && soundIdRef.current !== null) {
+      soundRef.current.rate(clampedRate, soundIdRef.current);
+    }
+  }, []);
+
+  // Set or clear the A-B section
+  const setLoopRegion = useCallback((region: LoopRegion | null): void => {
+    const normalized =
+      region && region.end > region.start
+        ? { start: Math.max(0, region.start), end: region.end }
+        : null;
+    loopRegionRef.current = normalized;
+    setLoopRegionState(normalized);
+  }, []);
+
+  // Set how many times play() repeats the clip or section
+  const setRepeat = useCallback((count: number, gapMs: number = 0): void => {
+    const normalized = {
+      count: Number.isFinite(count) ? Math.max(1, Math.floor(count)) : Infinity,
+      gapMs: Math.max(0, gapMs),
+    };
+    repeatRef.current = normalized;
+    setRepeatCount(normalized.count);
+    setRepeatGapMs(normalized.gapMs);
+  }, []);
+
   // Seek to specific time
   const seek = useCallback((time: number): void => {
     if (soundRef.current && duration !== null) {
       const clampedTime = Math.max(0, Math.min(duration, time));
-      soundRef.current.seek(clampedTime);
+      if (soundIdRef.current !== null) {
+        soundRef.current.seek(getOffset() + clampedTime, soundIdRef.current);
+      } else {
+        pendingSeekRef.current = clampedTime;
+      }
       setCurrentTime(clampedTime);
     }
   }, [duration]);
 
   // Get current playback time
   const getCurrentTime = useCallback((): number => {
-    if (soundRef.current) {
-      return soundRef.current.seek() as number || 0;
+    if (soundRef.current && soundIdRef.current !== null) {
+      return Math.max(0, (soundRef.current.seek(soundIdRef.current) as number || 0) - getOffset());
     }
-    return 0;
+    return pendingSeekRef.current ?? 0;
   }, []);
 
   // Get audio duration
   const getDuration = useCallback((): number | null => {
     if (soundRef.current) {
-      return soundRef.current.duration() || null;
+      return clipRef.current?.duration ?? (soundRef.current.duration() || null);
     }
     return null;
   }, []);
 
-  // Cleanup on unmount
+  // Apply volume changes from options
   useEffect(() => {
-    return () => {
-      stopTimeUpdates();
-      if (soundRef.current) {
-        soundRef.current.unload();
-      }
-    };
-  }, [stopTimeUpdates]);
+    setVolume(volume);
+  }, [volume, setVolume]);
 
   return {
     // State
@@ -280,11 +501,19 @@ export const useAudioPlayer = (
     error,
     duration,
     currentTime,
+    rate,
+    loopRegion,
+    repeatCount,
+    repeatGapMs,
+    repeatPass,
     // Controls
     play,
     pause,
     stop,
     setVolume,
+    setRate,
+    setLoopRegion,
+    setRepeat,
     seek,
     getCurrentTime,
     getDuration,
@@ -0,0 +1,23 @@
+import { useEffect } from 'react';
+import { audioManager } from '@/lib/audio-manager';
+import { resolveAudio } from '@/lib/audio-sprites';
+
+/**
+ * Custom hook that keeps the audio manager prefetching the given clips.
+ * Pass the upcoming items most urgent first; a new list replaces the old one.
+ * Clips packed into a sprite prefetch the sprite instead.
+ * @param urls - Audio URLs to load ahead of playback
+ */
+export const useAudioPrefetch = (urls: readonly (string | undefined)[]): void => {
+  const key = urls.filter(Boolean).join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all((key ? key.split('\n') : []).map(resolveAudio)).then((clips) => {
+      if (!cancelled) audioManager.prefetch(clips.map((clip) => clip.source));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+};
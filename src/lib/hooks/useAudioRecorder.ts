@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Configuration options for the audio recorder hook
+ */
+interface UseAudioRecorderOptions {
+  /** Recording stops by itself after this many milliseconds (default: 5000) */
+  readonly maxDurationMs?: number;
+}
+
+/**
+ * Recorder lifecycle
+ */
+export type AudioRecorderStatus = 'idle' | 'requesting' | 'recording' | 'recorded' | 'error';
+
+/**
+ * Why recording is unavailable
+ */
+export type AudioRecorderErrorType = 'unsupported' | 'permission' | 'device';
+
+/**
+ * Return type of useAudioRecorder hook
+ */
+export interface UseAudioRecorderReturn {
+  readonly status: AudioRecorderStatus;
+  /** Last recording, once recorded */
+  readonly recording: Blob | null;
+  /** Object URL of the last recording for playback */
+  readonly recordingUrl: string | null;
+  readonly errorType: AudioRecorderErrorType | null;
+  readonly start: () => Promise<void>;
+  readonly stop: () => void;
+  /** Discard the recording */
+  readonly reset: () => void;
+}
+
+/**
+ * Custom hook for recording the microphone with MediaRecorder.
+ * Audio stays in the browser; nothing is uploaded.
+ * @param options - Configuration options
+ * @returns Recorder state and controls
+ */
+export const useAudioRecorder = (
+  options: UseAudioRecorderOptions = {}
+): UseAudioRecorderReturn => {
+  const { maxDurationMs = 5000 } = options;
+
+  const [status, setStatus] = useState<AudioRecorderStatus>('idle');
+  const [recording, setRecording] = useState<Blob | null>(null);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [errorType, setErrorType] = useState<AudioRecorderErrorType | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Release the microphone and pending auto-stop
+  const release = useCallback(() => {
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+  }, []);
+
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  }, []);
+
+  const start = useCallback(async (): Promise<void> => {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setErrorType('unsupported');
+      setStatus('error');
+      return;
+    }
+
+    setStatus('requesting');
+    setErrorType(null);
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      const denied = err instanceof DOMException && err.name === 'NotAllowedError';
+      setErrorType(denied ? 'permission' : 'device');
+      setStatus('error');
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      release();
+      const blob = new Blob(chunks, { type: recorder.mimeType });
+      setRecording(blob);
+      setRecordingUrl(URL.createObjectURL(blob));
+      setStatus('recorded');
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setStatus('recording');
+    timerRef.current = setTimeout(stop, maxDurationMs);
+  }, [maxDurationMs, release, stop]);
+
+  const reset = useCallback(() => {
+    setRecording(null);
+    setRecordingUrl(null);
+    setStatus('idle');
+  }, []);
+
+  // Revoke the previous object URL when it is replaced
+  useEffect(() => {
+    return () => {
+      if (recordingUrl) URL.revokeObjectURL(recordingUrl);
+    };
+  }, [recordingUrl]);
+
+  // Stop recording and release the microphone on unmount
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder) {
+        recorder.onstop = null;
+        if (recorder.state !== 'inactive') recorder.stop();
+      }
+      release();
+    };
+  }, [release]);
+
+  return {
+    status,
+    recording,
+    recordingUrl,
+    errorType,
+    start,
+    stop,
+    reset,
+  } as const;
+};
@@ -1,7 +1,8 @@
 import { useEffect, useCallback } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import type { AppRoute } from '@/types';
-import { KEYBOARD_SHORTCUTS, isValidRoute } from '@/types';
+import { KEYBOARD_SHORTCUTS } from '@/types';
+import { isValidRoute } from '@/lib/routes';
 
 /**
  * Configuration for keyboard shortcuts hook
@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ToneId } from '@/types';
+import { applyDialectToWords } from '@/lib/dialects';
+import { XP_PER_CORRECT_ANSWER, loadQuizWords } from '@/lib/quiz';
+import {
+  buildMinimalPairSets,
+  pickMinimalPairDrill,
+  type MinimalPairDrill,
+  type MinimalPairSet,
+} from '@/lib/minimal-pairs';
+import { useSettingsStore } from '@/stores/settingsStore';
+import {
+  useToneConfusion,
+  useUserProgressActions,
+  useUserProgressStore,
+} from '@/stores/userProgressStore';
+
+/** Number of drills in one session */
+export const DRILLS_PER_SESSION = 10 as const;
+
+/**
+ * Minimal-pair session lifecycle
+ */
+export type MinimalPairDrillStatus = 'loading' | 'answering' | 'feedback' | 'complete' | 'error';
+
+/**
+ * Return type of useMinimalPairDrill hook
+ */
+export interface UseMinimalPairDrillReturn {
+  readonly status: MinimalPairDrillStatus;
+  readonly drill: MinimalPairDrill | null;
+  /** Tone chosen for the current drill, once answered */
+  readonly chosenTone: ToneId | null;
+  /** Number of drills answered in this session */
+  readonly answeredCount: number;
+  readonly correctCount: number;
+  readonly answer: (tone: ToneId) => void;
+  readonly next: () => void;
+  readonly restart: () => void;
+}
+
+/**
+ * Custom hook running a tone minimal-pair session. Each drill is picked from
+ * the persisted confusion matrix, so the session leans toward the tone pairs
+ * the learner confuses most as it goes.
+ * @returns Session state and controls
+ */
+export const useMinimalPairDrill = (): UseMinimalPairDrillReturn => {
+  const confusion = useToneConfusion();
+  const { recordToneDiscrimination, addExperiencePoints, updateStreak, addStudySession } =
+    useUserProgressActions();
+
+  const [sets, setSets] = useState<MinimalPairSet[]>([]);
+  const [status, setStatus] = useState<MinimalPairDrillStatus>('loading');
+  const [drill, setDrill] = useState<MinimalPairDrill | null>(null);
+  const [chosenTone, setChosenTone] = useState<ToneId | null>(null);
+  const [answeredCount, setAnsweredCount] = useState(0);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [startedAt, setStartedAt] = useState(0);
+  // Start time of the last session recorded, so each session is recorded once
+  const recordedStartedAtRef = useRef<number | null>(null);
+
+  // Build the minimal-pair sets from the tone data and vocabulary
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSets = async () => {
+      try {
+        const words = applyDialectToWords(
+          await loadQuizWords('all'),
+          useSettingsStore.getState().dialect
+        );
+        if (cancelled) return;
+        const loadedSets = buildMinimalPairSets(words);
+        // Read the matrix once; later drills use the latest one in next()
+        const firstDrill = pickMinimalPairDrill(
+          loadedSets,
+          useUserProgressStore.getState().tone_confusion
+        );
+        setSets(loadedSets);
+        setDrill(firstDrill);
+        setStatus(firstDrill ? 'answering' : 'error');
+        setStartedAt(Date.now());
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Failed to load minimal pairs:', error);
+        setStatus('error');
+      }
+    };
+
+    loadSets();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const answer = useCallback((tone: ToneId) => {
+    if (status !== 'answering' || !drill) return;
+
+    const isCorrect = tone === drill.target.tone;
+    setChosenTone(tone);
+    setStatus('feedback');
+    setAnsweredCount((count) => count + 1);
+    recordToneDiscrimination(drill.target.tone, tone);
+    if (isCorrect) {
+      setCorrectCount((count) => count + 1);
+      addExperiencePoints(XP_PER_CORRECT_ANSWER);
+    }
+  }, [status, drill, recordToneDiscrimination, addExperiencePoints]);
+
+  const next = useCallback(() => {
+    if (status !== 'feedback') return;
+
+    if (answeredCount >= DRILLS_PER_SESSION) {
+      setStatus('complete');
+      return;
+    }
+    setDrill(pickMinimalPairDrill(sets, confusion));
+    setChosenTone(null);
+    setStatus('answering');
+  }, [status, answeredCount, sets, confusion]);
+
+  const restart = useCallback(() => {
+    setDrill(pickMinimalPairDrill(sets, confusion));
+    setChosenTone(null);
+    setAnsweredCount(0);
+    setCorrectCount(0);
+    setStartedAt(Date.now());
+    setStatus('answering');
+  }, [sets, confusion]);
+
+  // Update streak and add study session on completion
+  useEffect(() => {
+    if (status !== 'complete' || recordedStartedAtRef.current === startedAt) return;
+    recordedStartedAtRef.current = startedAt;
+
+    updateStreak();
+    addStudySession({
+      duration_minutes: Math.max(1, Math.ceil((Date.now() - startedAt) / 60000)),
+      words_practiced: answeredCount,
+      quiz_score: Math.round((correctCount / Math.max(1, answeredCount)) * 100),
+      activity_type: 'quiz',
+      xp_earned: correctCount * XP_PER_CORRECT_ANSWER,
+      words_learned: 0,
+    });
+  }, [status, startedAt, answeredCount, correctCount, updateStreak, addStudySession]);
+
+  return {
+    status,
+    drill,
+    chosenTone,
+    answeredCount,
+    correctCount,
+    answer,
+    next,
+    restart,
+  } as const;
+};
@@ -1,4 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
+import { loadSpriteManifest } from '@/lib/audio-sprites';
+import { CATEGORY_IDS } from '@/lib/categories';
 
 /**
  * Offline state and network information
@@ -120,6 +122,14 @@ export const useOffline = (): UseOfflineReturn => {
         })
       );
 
+      // Preload word audio as one sprite per category
+      const spritePromises = CATEGORY_IDS.map(async (categoryId) => {
+        const manifest = await loadSpriteManifest(categoryId);
+        if (manifest) {
+          await cache.add(manifest.src).catch(() => {});
+        }
+      });
+
       // Preload current session data
       const dataPromises = [
         cache.add('/data/alphabet.json').catch(() => {}),
@@ -127,7 +137,7 @@ export const useOffline = (): UseOfflineReturn => {
         cache.add('/data/tones.json').catch(() => {}),
       ];
 
-      await Promise.allSettled([...alphabetPromises, ...dataPromises]);
+      await Promise.allSettled([...alphabetPromises, ...spritePromises, ...dataPromises]);
       
       console.log('Critical assets preloaded for offline use');
     } catch (error) {
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { analyzeAudioPitch, type PitchPoint } from '@/lib/pitch';
+
+/**
+ * Return type of usePitchContour hook
+ */
+export interface UsePitchContourReturn {
+  /** Pitch contour, or null until analyzed */
+  readonly contour: readonly PitchPoint[] | null;
+  readonly isLoading: boolean;
+  readonly error: Error | null;
+}
+
+// Analyses shared by every component showing the same recording
+const contourCache = new Map<string, Promise<PitchPoint[]>>();
+
+/**
+ * Custom hook that decodes a recording and tracks its pitch in the browser
+ * @param audioUrl - URL of the recording
+ * @returns Pitch contour and loading state
+ */
+export const usePitchContour = (audioUrl: string): UsePitchContourReturn => {
+  const [contour, setContour] = useState<readonly PitchPoint[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setContour(null);
+    setError(null);
+    setIsLoading(true);
+
+    let analysis = contourCache.get(audioUrl);
+    if (!analysis) {
+      analysis = analyzeAudioPitch(audioUrl);
+      contourCache.set(audioUrl, analysis);
+      // Allow a retry after a failed analysis
+      analysis.catch(() => contourCache.delete(audioUrl));
+    }
+
+    analysis
+      .then((points) => {
+        if (!cancelled) setContour(points);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audioUrl]);
+
+  return { contour, isLoading, error } as const;
+};
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import type { QuizQuestion, QuizResult, ReviewGrade, Word } from '@/types';
+import {
+  initialQuizSessionState,
+  quizSessionReducer,
+  buildQuizResult,
+  loadQuizWords,
+  createQuizQuestions,
+  gradeChoice,
+  getAnswerExperience,
+  type AnswerGrader,
+  type AnswerGrading,
+  type QuestionGenerator,
+  type QuizSessionState,
+} from '@/lib/quiz';
+import { AUDIO_PREFETCH_AHEAD } from '@/lib/audio-manager';
+import { useAudioPrefetch } from '@/lib/hooks/useAudioPrefetch';
+import { getDeckIdFromCategory } from '@/lib/decks';
+import { applyDialectToWords } from '@/lib/dialects';
+import { loadDeckWords } from '@/stores/deckStore';
+import { useDialect } from '@/stores/settingsStore';
+import { useUserProgressActions } from '@/stores/userProgressStore';
+
+/**
+ * Configuration options for the quiz session hook
+ */
+interface UseQuizSessionOptions {
+  /** Generator that turns words into questions */
+  readonly generator: QuestionGenerator;
+  /** Grades answers (default: multiple-choice exact match) */
+  readonly grader?: AnswerGrader;
+  /** Whether answers reschedule words in the vocabulary review (default: true) */
+  readonly recordsReview?: boolean;
+  /** Called with each graded answer, to record results of the mode */
+  readonly onAnswer?: (question: QuizQuestion, answer: string, grading: AnswerGrading) => void;
+  /** Category ID, or 'all' for every category */
+  readonly categoryParam: string;
+  /** Called when the words cannot be loaded */
+  readonly onLoadError?: (error: unknown) => void;
+}
+
+/**
+ * Return type of useQuizSession hook
+ */
+export interface UseQuizSessionReturn {
+  readonly state: QuizSessionState;
+  readonly currentQuestion: QuizQuestion | undefined;
+  readonly currentWord: Word | undefined;
+  readonly wordsById: ReadonlyMap<string, Word>;
+  readonly correctCount: number;
+  /** Result of the session once it is complete */
+  readonly result: QuizResult | null;
+  readonly answer: (answer: string) => void;
+  readonly next: () => void;
+  readonly restart: () => void;
+}
+
+/**
+ * Map answer credit to a review grade: partially correct answers count as hard recalls
+ */
+const creditToReviewGrade = (credit: number): ReviewGrade => {
+  if (credit >= 1) return 'good';
+  if (credit >= 0.5) return 'hard';
+  return 'again';
+};
+
+/**
+ * Custom hook running a quiz session: loads words, generates questions,
+ * drives the session state machine and records progress
+ * @param options - Generator, category and callbacks
+ * @returns Session state and controls
+ */
+export const useQuizSession = ({
+  generator,
+  grader = gradeChoice,
+  recordsReview = true,
+  onAnswer,
+  categoryParam,
+  onLoadError,
+}: UseQuizSessionOptions): UseQuizSessionReturn => {
+  const [state, dispatch] = useReducer(quizSessionReducer, initialQuizSessionState);
+  const [words, setWords] = useState<Word[]>([]);
+  const [sessionKey, setSessionKey] = useState(0);
+  const dialect = useDialect();
+  // Completion time of the last session recorded, so each session is recorded once
+  const recordedCompletedAtRef = useRef<number | null>(null);
+
+  const { recordReview, addExperiencePoints, updateStreak, addStudySession } =
+    useUserProgressActions();
+
+  // Load words and generate questions
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadQuestions = async () => {
+      try {
+        const deckId = getDeckIdFromCategory(categoryParam);
+        // Questions use the readings, recordings and vocabulary of the chosen dialect
+        const loadedWords = applyDialectToWords(
+          deckId ? await loadDeckWords(deckId) : await loadQuizWords(categoryParam),
+          dialect
+        );
+        if (cancelled) return;
+        setWords(loadedWords);
+        dispatch({
+          type: 'load',
+          questions: createQuizQuestions(loadedWords, generator),
+          now: Date.now(),
+        });
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Failed to load questions:', error);
+        dispatch({ type: 'loadError' });
+        onLoadError?.(error);
+      }
+    };
+
+    loadQuestions();
+    return () => {
+      cancelled = true;
+    };
+  }, [categoryParam, dialect, generator, onLoadError, sessionKey]);
+
+  const wordsById = useMemo(
+    () => new Map(words.map((word) => [word.id, word])),
+    [words]
+  );
+
+  const currentQuestion = state.questions[state.currentIndex];
+  const currentWord = currentQuestion ? wordsById.get(currentQuestion.word_id) : undefined;
+  useAudioPrefetch(
+    state.questions
+      .slice(state.currentIndex + 1, state.currentIndex + 1 + AUDIO_PREFETCH_AHEAD)
+      .map((question) => question.audio_url)
+  );
+  const correctCount = state.answers.filter((a) => a.is_correct).length;
+  const result = state.status === 'complete' ? buildQuizResult(state) : null;
+
+  // Update streak and add study session on quiz completion
+  useEffect(() => {
+    if (state.status !== 'complete' || recordedCompletedAtRef.current === state.completedAt) return;
+    recordedCompletedAtRef.current = state.completedAt;
+
+    const sessionResult = buildQuizResult(state);
+    updateStreak();
+    addStudySession({
+      duration_minutes: Math.max(1, Math.ceil(sessionResult.time_taken_seconds / 60)),
+      words_practiced: sessionResult.total_questions,
+      quiz_score: sessionResult.score_percentage,
+      activity_type: 'quiz',
+      xp_earned: state.answers.reduce((sum, a) => sum + getAnswerExperience(a.credit), 0),
+      words_learned: sessionResult.correct_answers,
+    });
+  }, [state, updateStreak, addStudySession]);
+
+  const answer = useCallback((selected: string) => {
+    if (state.status !== 'answering' || !currentQuestion) return;
+
+    const now = Date.now();
+    const grading = grader(currentQuestion, selected);
+    dispatch({ type: 'answer', answer: selected, grading, now });
+
+    if (recordsReview) {
+      recordReview(
+        currentQuestion.word_id,
+        creditToReviewGrade(grading.credit),
+        'quiz',
+        now - state.questionStartedAt
+      );
+    }
+    onAnswer?.(currentQuestion, selected, grading);
+    const experience = getAnswerExperience(grading.credit);
+    if (experience > 0) {
+      addExperiencePoints(experience);
+    }
+  }, [
+    state.status,
+    state.questionStartedAt,
+    currentQuestion,
+    grader,
+    recordsReview,
+    onAnswer,
+    recordReview,
+    addExperiencePoints,
+  ]);
+
+  const next = useCallback(() => {
+    dispatch({ type: 'next', now: Date.now() });
+  }, []);
+
+  const restart = useCallback(() => {
+    setSessionKey((key) => key + 1);
+  }, []);
+
+  return {
+    state,
+    currentQuestion,
+    currentWord,
+    wordsById,
+    correctCount,
+    result,
+    answer,
+    next,
+    restart,
+  } as const;
+};
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { fetchAudioBuffer } from '@/lib/audio-decode';
+import { computeWaveformPeaks } from '@/lib/waveform';
+
+/**
+ * Return type of useWaveform hook
+ */
+export interface UseWaveformReturn {
+  /** Peak levels (0-1) per slice, or null until decoded */
+  readonly peaks: readonly number[] | null;
+  readonly isLoading: boolean;
+  readonly error: Error | null;
+}
+
+// Peaks shared by every component showing the same clip at the same resolution
+const peaksCache = new Map<string, Promise<number[]>>();
+
+/**
+ * Custom hook that decodes a clip in the browser and summarizes its waveform
+ * @param audioUrl - URL of the clip
+ * @param bins - Number of slices (default: 120)
+ * @returns Peak levels and loading state
+ */
+export const useWaveform = (audioUrl: string, bins: number = 120): UseWaveformReturn => {
+  const [peaks, setPeaks] = useState<readonly number[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPeaks(null);
+    setError(null);
+    setIsLoading(true);
+
+    const key = `${bins}:${audioUrl}`;
+    let analysis = peaksCache.get(key);
+    if (!analysis) {
+      analysis = fetchAudioBuffer(audioUrl).then((buffer) =>
+        computeWaveformPeaks(buffer.getChannelData(0), bins)
+      );
+      peaksCache.set(key, analysis);
+      // Allow a retry after a failed decode
+      analysis.catch(() => peaksCache.delete(key));
+    }
+
+    analysis
+      .then((result) => {
+        if (!cancelled) setPeaks(result);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audioUrl, bins]);
+
+  return { peaks, isLoading, error } as const;
+};
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { getWordIndex, type WordIndex } from '@/lib/content-repository';
+
+/**
+ * Custom hook that provides the index of every word from the content
+ * repository, loaded once and shared across pages
+ * @returns The word index, or null while it loads or if loading failed
+ */
+export const useWordIndex = (): WordIndex | null => {
+  const [index, setIndex] = useState<WordIndex | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getWordIndex()
+      .then((loaded) => {
+        if (!cancelled) setIndex(loaded);
+      })
+      .catch((error) => {
+        console.error('Failed to load words:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return index;
+};
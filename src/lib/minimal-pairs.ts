@@ -0,0 +1,217 @@
+/**
+ * Tone minimal pairs: syllables that differ only in tone, and adaptive drill selection
+ */
+
+import type { ToneConfusionMatrix, ToneId, Word } from '@/types';
+import tonesData from '@/data/tones.json';
+import minimalPairsData from '@/data/minimal-pairs.json';
+import { getSyllableAudioPath } from '@/lib/audio';
+import { getWordSyllables, shuffle } from '@/lib/quiz';
+
+/**
+ * One syllable of a minimal-pair set
+ */
+export interface MinimalPairMember {
+  /** Syllable with its tone mark, lowercase */
+  readonly text: string;
+  readonly tone: ToneId;
+  /** Japanese meaning, when known */
+  readonly meaning?: string;
+  readonly audio_url: string;
+}
+
+/**
+ * Syllables sharing the same letters with different tones (ma, mà, má ...)
+ */
+export interface MinimalPairSet {
+  /** The shared syllable without tone mark */
+  readonly syllable: string;
+  /** One member per tone, at least two */
+  readonly members: readonly MinimalPairMember[];
+}
+
+/**
+ * One drill: the played syllable and the two choices that differ only in tone
+ */
+export interface MinimalPairDrill {
+  readonly set: MinimalPairSet;
+  readonly target: MinimalPairMember;
+  readonly options: readonly [MinimalPairMember, MinimalPairMember];
+}
+
+/** How strongly a confused pair is favored: weight = 1 + CONFUSION_WEIGHT × confusion rate */
+const CONFUSION_WEIGHT = 10 as const;
+
+/**
+ * Example word with its meaning, from the curated minimal pairs or the tone examples
+ */
+export interface SyllableExample {
+  readonly word: string;
+  readonly meaning: string;
+}
+
+/**
+ * Turn a single-syllable example into a member played from its syllable clip
+ * @returns The member and its syllable without tone, or null for longer examples
+ */
+const toSyllableMember = ({
+  word,
+  meaning,
+}: SyllableExample): { readonly syllable: string; readonly member: MinimalPairMember } | null => {
+  const syllables = getWordSyllables(word);
+  if (syllables?.length !== 1) return null;
+  const [syllable] = syllables;
+  const text = syllable.text.toLowerCase();
+  return {
+    syllable: syllable.bare.toLowerCase(),
+    member: { text, tone: syllable.tone, meaning, audio_url: getSyllableAudioPath(text) },
+  };
+};
+
+/**
+ * Examples recorded as syllable clips: the curated minimal pairs, then the tone examples
+ */
+const syllableExamples: readonly SyllableExample[] = [
+  ...minimalPairsData.flatMap((set) => set.words),
+  ...tonesData.flatMap((tone) => tone.examples),
+];
+
+/**
+ * Syllable clips to record for the minimal-pair drill
+ * @param examples - Example words (default: the curated pairs and tone examples)
+ * @returns One member per single-syllable example, without duplicates
+ */
+export const getSyllableClips = (
+  examples: readonly SyllableExample[] = syllableExamples
+): MinimalPairMember[] => {
+  const clips = new Map<string, MinimalPairMember>();
+  for (const example of examples) {
+    const member = toSyllableMember(example)?.member;
+    if (member && !clips.has(member.audio_url)) {
+      clips.set(member.audio_url, member);
+    }
+  }
+  return [...clips.values()];
+};
+
+/**
+ * Group the curated minimal pairs, tone example words and single-syllable
+ * vocabulary into minimal-pair sets
+ * @param words - Vocabulary to draw extra syllables from
+ * @returns Sets with at least two tones, largest first
+ */
+export const buildMinimalPairSets = (words: readonly Word[]): MinimalPairSet[] => {
+  const groups = new Map<string, Map<ToneId, MinimalPairMember>>();
+
+  const add = (member: MinimalPairMember, syllable: string) => {
+    const group = groups.get(syllable) ?? new Map<ToneId, MinimalPairMember>();
+    if (!group.has(member.tone)) {
+      group.set(member.tone, member);
+    }
+    groups.set(syllable, group);
+  };
+
+  for (const example of syllableExamples) {
+    const entry = toSyllableMember(example);
+    if (entry) add(entry.member, entry.syllable);
+  }
+
+  for (const word of words) {
+    const syllables = getWordSyllables(word.vietnamese);
+    if (syllables?.length !== 1) continue;
+    const [syllable] = syllables;
+    add(
+      {
+        text: syllable.text.toLowerCase(),
+        tone: syllable.tone,
+        meaning: word.japanese,
+        audio_url: word.audio_url,
+      },
+      syllable.bare.toLowerCase()
+    );
+  }
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.size >= 2)
+    .map(([syllable, members]) => ({ syllable, members: [...members.values()] }))
+    .sort((a, b) => b.members.length - a.members.length);
+};
+
+/**
+ * Number of drills in which a tone was played
+ */
+const countPlays = (matrix: ToneConfusionMatrix, tone: ToneId): number =>
+  Object.values(matrix[tone] ?? {}).reduce((sum, count) => sum + (count ?? 0), 0);
+
+/**
+ * Share of drills with either tone played that were answered with the other
+ * @returns A rate between 0 and 1 (0 without data)
+ */
+export const getPairConfusionRate = (
+  matrix: ToneConfusionMatrix,
+  a: ToneId,
+  b: ToneId
+): number => {
+  const errors = (matrix[a]?.[b] ?? 0) + (matrix[b]?.[a] ?? 0);
+  const plays = countPlays(matrix, a) + countPlays(matrix, b);
+  return plays > 0 ? errors / plays : 0;
+};
+
+/**
+ * Tone pairs ordered by how often they were confused
+ * @param matrix - Confusion counts
+ * @param limit - Maximum number of pairs
+ * @returns Pairs with at least one confusion, most confused first
+ */
+export const getMostConfusedPairs = (
+  matrix: ToneConfusionMatrix,
+  limit: number
+): { readonly tones: readonly [ToneId, ToneId]; readonly rate: number }[] => {
+  const tones = Object.keys(matrix) as ToneId[];
+  const pairs: { tones: [ToneId, ToneId]; rate: number }[] = [];
+
+  for (const [i, a] of tones.entries()) {
+    for (const b of tones.slice(i + 1)) {
+      const rate = getPairConfusionRate(matrix, a, b);
+      if (rate > 0) pairs.push({ tones: [a, b], rate });
+    }
+  }
+  return pairs.sort((x, y) => y.rate - x.rate).slice(0, limit);
+};
+
+/**
+ * Pick the next drill, favoring tone pairs the learner confuses most
+ * @param sets - Available minimal-pair sets
+ * @param matrix - Confusion counts so far
+ * @param random - Random source in [0, 1)
+ * @returns A drill, or null if there are no sets
+ */
+export const pickMinimalPairDrill = (
+  sets: readonly MinimalPairSet[],
+  matrix: ToneConfusionMatrix,
+  random: () => number = Math.random
+): MinimalPairDrill | null => {
+  const candidates = sets.flatMap((set) =>
+    set.members.flatMap((a, i) =>
+      set.members.slice(i + 1).map((b) => ({
+        set,
+        pair: [a, b] as const,
+        weight: 1 + CONFUSION_WEIGHT * getPairConfusionRate(matrix, a.tone, b.tone),
+      }))
+    )
+  );
+  if (candidates.length === 0) return null;
+
+  const totalWeight = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+  let threshold = random() * totalWeight;
+  const chosen =
+    candidates.find((candidate) => (threshold -= candidate.weight) < 0) ??
+    candidates[candidates.length - 1];
+
+  const [first, second] = shuffle(chosen.pair);
+  return {
+    set: chosen.set,
+    target: random() < 0.5 ? first : second,
+    options: [first, second],
+  };
+};
@@ -0,0 +1,36 @@
+/**
+ * MP3 encoding of PCM samples in the browser (LAME)
+ */
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+// Samples per MP3 frame
+const FRAME_SIZE = 1152;
+
+/**
+ * Encode mono samples as a constant bit rate MP3
+ * @param samples - Mono samples in the range -1 to 1
+ * @param sampleRate - Sample rate in Hz
+ * @param kbps - Bit rate in kilobits per second
+ * @returns Encoded MP3 file
+ */
+export const encodeMp3 = (samples: Float32Array, sampleRate: number, kbps: number): Uint8Array<ArrayBuffer> => {
+  const encoder = new Mp3Encoder(1, sampleRate, kbps);
+  const pcm = Int16Array.from(samples, (sample) =>
+    Math.round(Math.max(-1, Math.min(1, sample)) * 0x7fff)
+  );
+
+  const chunks: Uint8Array[] = [];
+  for (let start = 0; start < pcm.length; start += FRAME_SIZE) {
+    chunks.push(encoder.encodeBuffer(pcm.subarray(start, start + FRAME_SIZE)));
+  }
+  chunks.push(encoder.flush());
+
+  const mp3 = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  chunks.forEach((chunk) => {
+    mp3.set(chunk, position);
+    position += chunk.length;
+  });
+  return mp3;
+};
@@ -0,0 +1,295 @@
+/**
+ * Pitch (F0) tracking with the YIN algorithm, for drawing and comparing tone contours
+ */
+
+import { decodeAudio, fetchAudioBuffer } from '@/lib/audio-decode';
+
+/**
+ * Estimated pitch at one point in time
+ */
+export interface PitchPoint {
+  /** Seconds from the start of the recording (center of the analysis frame) */
+  readonly time: number;
+  /** Fundamental frequency in Hz, or null for silent/unvoiced frames */
+  readonly frequency: number | null;
+}
+
+/**
+ * Pitch tracking options
+ */
+export interface PitchOptions {
+  /** Lowest detectable frequency in Hz (default: 70) */
+  readonly minFrequency?: number;
+  /** Highest detectable frequency in Hz (default: 500) */
+  readonly maxFrequency?: number;
+  /** YIN aperiodicity threshold; lower is stricter (default: 0.15) */
+  readonly threshold?: number;
+  /** Frames quieter than this RMS level are treated as silence (default: 0.01) */
+  readonly silenceRms?: number;
+  /** Integration window in seconds (default: 0.025) */
+  readonly windowSeconds?: number;
+  /** Step between frames in seconds (default: 0.01) */
+  readonly hopSeconds?: number;
+}
+
+const DEFAULT_OPTIONS: Required<PitchOptions> = {
+  minFrequency: 70,
+  maxFrequency: 500,
+  threshold: 0.15,
+  silenceRms: 0.01,
+  windowSeconds: 0.025,
+  hopSeconds: 0.01,
+} as const;
+
+/**
+ * Root mean square level of a frame
+ */
+const rms = (samples: Float32Array, start: number, length: number): number => {
+  let sum = 0;
+  for (let i = start; i < start + length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / length);
+};
+
+/**
+ * Estimate the fundamental frequency of one frame with YIN
+ * (de Cheveigné & Kawahara, 2002)
+ * @param samples - Mono PCM samples in [-1, 1]
+ * @param sampleRate - Samples per second
+ * @param start - Index of the first sample of the frame
+ * @param options - Tracking options
+ * @returns Frequency in Hz, or null if the frame is silent or aperiodic
+ */
+export const detectPitch = (
+  samples: Float32Array,
+  sampleRate: number,
+  start = 0,
+  options: PitchOptions = {}
+): number | null => {
+  const { minFrequency, maxFrequency, threshold, silenceRms, windowSeconds } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+  const window = Math.round(windowSeconds * sampleRate);
+  const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const maxLag = Math.ceil(sampleRate / minFrequency);
+
+  if (start + window + maxLag + 1 > samples.length) return null;
+  if (rms(samples, start, window) < silenceRms) return null;
+
+  // Cumulative mean normalized difference for lags 1..maxLag+1
+  const cmnd = new Float32Array(maxLag + 2);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    let difference = 0;
+    for (let i = start; i < start + window; i++) {
+      const delta = samples[i] - samples[i + lag];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    cmnd[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+
+  // First dip below the threshold, followed down to its local minimum
+  let lag = minLag;
+  while (lag <= maxLag && cmnd[lag] >= threshold) lag++;
+  if (lag > maxLag) return null;
+  while (lag + 1 <= maxLag && cmnd[lag + 1] < cmnd[lag]) lag++;
+
+  // Parabolic interpolation around the minimum
+  const previous = cmnd[lag - 1];
+  const current = cmnd[lag];
+  const following = cmnd[lag + 1];
+  const denominator = previous - 2 * current + following;
+  const offset = denominator !== 0 ? (previous - following) / (2 * denominator) : 0;
+
+  return sampleRate / (lag + offset);
+};
+
+/**
+ * Track the pitch of a whole recording frame by frame
+ * @param samples - Mono PCM samples in [-1, 1]
+ * @param sampleRate - Samples per second
+ * @param options - Tracking options
+ * @returns One point per frame, in time order
+ */
+export const extractPitchContour = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: PitchOptions = {}
+): PitchPoint[] => {
+  const { windowSeconds, hopSeconds, minFrequency } = { ...DEFAULT_OPTIONS, ...options };
+  const window = Math.round(windowSeconds * sampleRate);
+  const hop = Math.max(1, Math.round(hopSeconds * sampleRate));
+  const frameLength = window + Math.ceil(sampleRate / minFrequency) + 1;
+  const points: PitchPoint[] = [];
+
+  for (let start = 0; start + frameLength <= samples.length; start += hop) {
+    points.push({
+      time: (start + window / 2) / sampleRate,
+      frequency: detectPitch(samples, sampleRate, start, options),
+    });
+  }
+  return points;
+};
+
+/**
+ * Convert a contour to semitones relative to its median voiced pitch, so
+ * recordings from different voices can be drawn on the same scale
+ * @param points - Pitch contour
+ * @returns Points with frequency replaced by semitones (null stays null)
+ */
+export const toRelativeSemitones = (points: readonly PitchPoint[]): PitchPoint[] => {
+  const voiced = points
+    .map((point) => point.frequency)
+    .filter((frequency): frequency is number => frequency !== null)
+    .sort((a, b) => a - b);
+  if (voiced.length === 0) return points.map((point) => ({ ...point }));
+
+  const median = voiced[Math.floor(voiced.length / 2)];
+  return points.map((point) => ({
+    time: point.time,
+    frequency: point.frequency === null ? null : 12 * Math.log2(point.frequency / median),
+  }));
+};
+
+/** Mean semitone distance at which two contours score 0 */
+const MAX_SEMITONE_DISTANCE = 4;
+
+/**
+ * Voiced frames of a contour in relative semitones
+ */
+const voicedSemitones = (points: readonly PitchPoint[]): number[] =>
+  toRelativeSemitones(points)
+    .map((point) => point.frequency)
+    .filter((semitones): semitones is number => semitones !== null);
+
+/**
+ * Dynamic time warping distance between two sequences
+ * @returns Mean absolute difference along the best alignment
+ */
+export const dtwDistance = (a: readonly number[], b: readonly number[]): number => {
+  if (a.length === 0 || b.length === 0) return Infinity;
+
+  // cost[i][j] and length[i][j] of the best path ending at (i, j), one row at a time
+  let previousCost = new Float64Array(b.length).fill(Infinity);
+  let previousLength = new Float64Array(b.length);
+  for (let i = 0; i < a.length; i++) {
+    const cost = new Float64Array(b.length);
+    const length = new Float64Array(b.length);
+    for (let j = 0; j < b.length; j++) {
+      const distance = Math.abs(a[i] - b[j]);
+      if (i === 0 && j === 0) {
+        cost[j] = distance;
+        length[j] = 1;
+        continue;
+      }
+      // Cheapest of the vertical, horizontal and diagonal predecessors
+      let bestCost = previousCost[j];
+      let bestLength = previousLength[j];
+      if (j > 0 && cost[j - 1] < bestCost) {
+        bestCost = cost[j - 1];
+        bestLength = length[j - 1];
+      }
+      if (j > 0 && previousCost[j - 1] <= bestCost) {
+        bestCost = previousCost[j - 1];
+        bestLength = previousLength[j - 1];
+      }
+      cost[j] = bestCost + distance;
+      length[j] = bestLength + 1;
+    }
+    previousCost = cost;
+    previousLength = length;
+  }
+  return previousCost[b.length - 1] / previousLength[b.length - 1];
+};
+
+/**
+ * Score how closely an attempt follows the reference pitch movement.
+ * Both contours are compared in semitones relative to their own median, so
+ * a lower or higher voice is not penalized, and aligned with DTW so speaking
+ * faster or slower is not penalized either.
+ * @param reference - Contour of the model recording
+ * @param attempt - Contour of the learner's recording
+ * @returns Similarity from 0 to 100 (0 if either has too little voiced sound)
+ */
+export const comparePitchContours = (
+  reference: readonly PitchPoint[],
+  attempt: readonly PitchPoint[]
+): number => {
+  const referenceSemitones = voicedSemitones(reference);
+  const attemptSemitones = voicedSemitones(attempt);
+  if (referenceSemitones.length < 3 || attemptSemitones.length < 3) return 0;
+
+  const distance = dtwDistance(referenceSemitones, attemptSemitones);
+  return Math.round(100 * Math.max(0, 1 - distance / MAX_SEMITONE_DISTANCE));
+};
+
+/**
+ * SVG path data for the voiced parts of a contour, in relative semitones,
+ * stretched so the voiced span fills the width
+ * @param points - Pitch contour in Hz
+ * @param width - Drawing width
+ * @param height - Drawing height
+ * @param range - Semitones above/below the median before clipping
+ * @returns One path per voiced stretch
+ */
+export const toContourPaths = (
+  points: readonly PitchPoint[],
+  width: number,
+  height: number,
+  range: number
+): string[] => {
+  const relative = toRelativeSemitones(points);
+  const voiced = relative.filter((point) => point.frequency !== null);
+  if (voiced.length < 2) return [];
+
+  const start = voiced[0].time;
+  const span = voiced[voiced.length - 1].time - start || 1;
+  const paths: string[] = [];
+  let current: string[] = [];
+
+  for (const point of relative) {
+    if (point.frequency === null) {
+      if (current.length > 1) paths.push(current.join(' '));
+      current = [];
+      continue;
+    }
+    const semitones = Math.max(-range, Math.min(range, point.frequency));
+    const x = ((point.time - start) / span) * width;
+    const y = height / 2 - (semitones / range) * (height / 2 - 4);
+    current.push(`${current.length === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`);
+  }
+  if (current.length > 1) paths.push(current.join(' '));
+  return paths;
+};
+
+/**
+ * Decode encoded audio (mp3, webm, ...) in the browser and track its pitch
+ * @param data - Encoded audio file contents
+ * @param options - Tracking options
+ * @returns Pitch contour of the first channel
+ */
+export const analyzeEncodedAudio = async (
+  data: ArrayBuffer,
+  options: PitchOptions = {}
+): Promise<PitchPoint[]> => {
+  const buffer = await decodeAudio(data);
+  return extractPitchContour(buffer.getChannelData(0), buffer.sampleRate, options);
+};
+
+/**
+ * Fetch an audio file and track its pitch
+ * @param audioUrl - URL of the recording
+ * @param options - Tracking options
+ * @returns Pitch contour of the first channel
+ */
+export const analyzeAudioPitch = async (
+  audioUrl: string,
+  options: PitchOptions = {}
+): Promise<PitchPoint[]> => {
+  const buffer = await fetchAudioBuffer(audioUrl);
+  return extractPitchContour(buffer.getChannelData(0), buffer.sampleRate, options);
+};
@@ -0,0 +1,74 @@
+/**
+ * Cloze (fill-in-the-blank) exercise: the target word is blanked out of its example sentence
+ */
+
+import type { Word } from '@/types';
+import { DISTRACTOR_COUNT, shuffle } from './engine';
+
+/** Placeholder shown in place of the target word */
+export const CLOZE_BLANK = '＿＿＿' as const;
+
+/**
+ * Reduce a token to lowercase letters and digits for matching
+ */
+const toMatchKey = (token: string): string =>
+  token.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Replace the target word in a sentence with CLOZE_BLANK.
+ * Matches whole syllables only, so "ba" is not found inside "bao";
+ * punctuation around the word is kept.
+ * @param sentence - Example sentence
+ * @param target - Word to blank out (one or more syllables)
+ * @returns The sentence with a blank, or null if the word does not occur in it
+ */
+export const blankOutWord = (sentence: string, target: string): string | null => {
+  const tokens = sentence.trim().split(/\s+/);
+  const keys = tokens.map(toMatchKey);
+  const targetKeys = target.trim().split(/\s+/).map(toMatchKey).filter(Boolean);
+  if (targetKeys.length === 0) return null;
+
+  for (let start = 0; start + targetKeys.length <= tokens.length; start++) {
+    if (!targetKeys.every((key, offset) => keys[start + offset] === key)) continue;
+
+    const end = start + targetKeys.length - 1;
+    const leading = tokens[start].match(/^[^\p{L}\p{N}]*/u)?.[0] ?? '';
+    const trailing = tokens[end].match(/[^\p{L}\p{N}]*$/u)?.[0] ?? '';
+    return [
+      ...tokens.slice(0, start),
+      `${leading}${CLOZE_BLANK}${trailing}`,
+      ...tokens.slice(end + 1),
+    ].join(' ');
+  }
+
+  return null;
+};
+
+/**
+ * Pick cloze distractors, preferring words of the same category and difficulty,
+ * then the same category, then the rest of the pool
+ * @param word - Word being asked
+ * @param pool - Words to draw distractors from
+ * @returns Up to DISTRACTOR_COUNT Vietnamese words that differ from the answer
+ */
+export const pickClozeDistractors = (word: Word, pool: readonly Word[]): string[] => {
+  const tiers = [
+    pool.filter((w) => w.category === word.category && w.difficulty === word.difficulty),
+    pool.filter((w) => w.category === word.category),
+    pool,
+  ];
+  // Keyed by match key so options differing only in case or punctuation are not both used
+  const distractors = new Map<string, string>([[toMatchKey(word.vietnamese), word.vietnamese]]);
+
+  for (const tier of tiers) {
+    for (const candidate of shuffle(tier)) {
+      if (distractors.size > DISTRACTOR_COUNT) break;
+      const key = toMatchKey(candidate.vietnamese);
+      if (!distractors.has(key)) {
+        distractors.set(key, candidate.vietnamese);
+      }
+    }
+  }
+
+  return [...distractors.values()].slice(1);
+};
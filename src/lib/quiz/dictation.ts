@@ -0,0 +1,190 @@
+/**
+ * Dictation grading: syllable-by-syllable diff of what the learner heard and typed
+ */
+
+import type { ToneId } from '@/types';
+import {
+  analyzeSyllable,
+  isVietnameseVowel,
+  splitTone,
+  type SyllableAnalysis,
+} from '@/lib/vietnamese-syllable';
+import type { AnswerGrader } from './engine';
+import { normalizeTypedAnswer } from './typing';
+
+/**
+ * Status of one aligned syllable
+ * - correct: identical
+ * - tone: same letters, different tone mark
+ * - vowel: same consonants, different vowel (tone may differ too)
+ * - wrong: a different syllable
+ * - missing: expected syllable that was not typed
+ * - extra: typed syllable that is not in the answer
+ */
+export type SyllableDiffStatus = 'correct' | 'tone' | 'vowel' | 'wrong' | 'missing' | 'extra';
+
+/**
+ * One entry of a syllable diff
+ */
+export interface SyllableDiff {
+  readonly status: SyllableDiffStatus;
+  /** Expected syllable (absent for extra syllables) */
+  readonly expected?: string;
+  /** Typed syllable (absent for missing syllables) */
+  readonly typed?: string;
+  /** Whether the tone differs (tone and vowel statuses) */
+  readonly tone_error: boolean;
+  readonly expected_tone?: ToneId;
+  readonly typed_tone?: ToneId;
+}
+
+/** Credit of one expected syllable by status */
+const SYLLABLE_CREDIT: Readonly<Record<SyllableDiffStatus, number>> = {
+  correct: 1,
+  tone: 0.5,
+  vowel: 0.5,
+  wrong: 0,
+  missing: 0,
+  extra: 0,
+} as const;
+
+/** Statuses produced by comparing two syllables */
+type SubstitutionStatus = Exclude<SyllableDiffStatus, 'missing' | 'extra'>;
+
+/** Comparison of an expected and a typed syllable */
+type SyllableComparison = Omit<SyllableDiff, 'expected' | 'typed' | 'status'> & {
+  readonly status: SubstitutionStatus;
+};
+
+/**
+ * Alignment cost of substituting one syllable for another.
+ * Integers keep the backtracking comparisons exact.
+ */
+const SUBSTITUTION_COST: Readonly<Record<SubstitutionStatus, number>> = {
+  correct: 0,
+  tone: 2,
+  vowel: 3,
+  wrong: 5,
+} as const;
+
+/** Alignment cost of a missing or extra syllable */
+const GAP_COST = 5 as const;
+
+/**
+ * Final consonant of a syllable; a final glide (hai, sau) counts as part of the vowel
+ */
+const finalConsonant = (syllable: SyllableAnalysis): string =>
+  isVietnameseVowel(syllable.final) ? '' : syllable.final;
+
+/**
+ * Compare two normalized syllables
+ */
+const compareSyllables = (expected: string, typed: string): SyllableComparison => {
+  if (expected === typed) {
+    return { status: 'correct', tone_error: false };
+  }
+
+  const expectedParts = splitTone(expected);
+  const typedParts = splitTone(typed);
+  const tones = { expected_tone: expectedParts.tone, typed_tone: typedParts.tone };
+  const toneError = expectedParts.tone !== typedParts.tone;
+
+  if (expectedParts.bare === typedParts.bare) {
+    return { status: 'tone', tone_error: true, ...tones };
+  }
+
+  const expectedSyllable = analyzeSyllable(expectedParts.bare);
+  const typedSyllable = analyzeSyllable(typedParts.bare);
+  if (
+    expectedSyllable &&
+    typedSyllable &&
+    expectedSyllable.initial === typedSyllable.initial &&
+    finalConsonant(expectedSyllable) === finalConsonant(typedSyllable)
+  ) {
+    return { status: 'vowel', tone_error: toneError, ...tones };
+  }
+
+  return { status: 'wrong', tone_error: toneError, ...tones };
+};
+
+/**
+ * Align typed syllables with the expected ones (weighted edit distance)
+ * @param expected - Text that was played
+ * @param typed - Text the learner typed
+ * @returns Diff entries in reading order
+ */
+export const diffSyllables = (expected: string, typed: string): SyllableDiff[] => {
+  const expectedSyllables = normalizeTypedAnswer(expected).split(' ').filter(Boolean);
+  const typedSyllables = normalizeTypedAnswer(typed).split(' ').filter(Boolean);
+  const rows = expectedSyllables.length;
+  const cols = typedSyllables.length;
+
+  // cost[i][j]: cost of aligning the first i expected with the first j typed syllables
+  const cost: number[][] = Array.from({ length: rows + 1 }, (_, i) =>
+    Array.from({ length: cols + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0) * GAP_COST)
+  );
+  const comparisons: SyllableComparison[][] = [];
+
+  for (let i = 1; i <= rows; i++) {
+    comparisons[i] = [];
+    for (let j = 1; j <= cols; j++) {
+      const comparison = compareSyllables(expectedSyllables[i - 1], typedSyllables[j - 1]);
+      comparisons[i][j] = comparison;
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + SUBSTITUTION_COST[comparison.status],
+        cost[i - 1][j] + GAP_COST,
+        cost[i][j - 1] + GAP_COST
+      );
+    }
+  }
+
+  const diff: SyllableDiff[] = [];
+  let i = rows;
+  let j = cols;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const comparison = comparisons[i][j];
+      if (cost[i][j] === cost[i - 1][j - 1] + SUBSTITUTION_COST[comparison.status]) {
+        diff.push({ ...comparison, expected: expectedSyllables[i - 1], typed: typedSyllables[j - 1] });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + GAP_COST) {
+      diff.push({ status: 'missing', expected: expectedSyllables[i - 1], tone_error: false });
+      i--;
+    } else {
+      diff.push({ status: 'extra', typed: typedSyllables[j - 1], tone_error: false });
+      j--;
+    }
+  }
+
+  return diff.reverse();
+};
+
+/**
+ * Credit of a dictation diff: expected syllables score by status,
+ * extra syllables count against the total
+ */
+export const scoreSyllableDiff = (diff: readonly SyllableDiff[]): number => {
+  if (diff.length === 0) return 0;
+
+  const earned = diff.reduce((sum, entry) => {
+    const credit = SYLLABLE_CREDIT[entry.status];
+    // A wrong vowel with a wrong tone gets half the vowel credit
+    return sum + (entry.status === 'vowel' && entry.tone_error ? credit / 2 : credit);
+  }, 0);
+  return earned / diff.length;
+};
+
+/**
+ * Grader for dictation answers; only a perfect transcript counts as correct
+ */
+export const dictationGrader: AnswerGrader = (question, answer) => {
+  const diff = diffSyllables(question.correct_answer, answer);
+  return {
+    is_correct: diff.every((entry) => entry.status === 'correct'),
+    credit: scoreSyllableDiff(diff),
+  };
+};
@@ -0,0 +1,278 @@
+/**
+ * Quiz engine: word loading, question selection and the session state machine
+ * shared by every quiz mode
+ */
+
+import type { Word, QuizQuestion, QuizResult } from '@/types';
+import { getWordsForCategoryParam } from '@/lib/content-repository';
+
+/** Number of questions in one quiz session */
+export const QUESTIONS_PER_QUIZ = 10 as const;
+
+/** Number of wrong options shown next to the correct answer */
+export const DISTRACTOR_COUNT = 3 as const;
+
+/** Experience points awarded per correct answer */
+export const XP_PER_CORRECT_ANSWER = 5 as const;
+
+/**
+ * Turns a word into a question, using the pool for distractors.
+ * Returns null when the pool cannot provide enough distinct options.
+ */
+export type QuestionGenerator = (word: Word, pool: readonly Word[]) => QuizQuestion | null;
+
+/**
+ * How an answer was graded
+ */
+export interface AnswerGrading {
+  readonly is_correct: boolean;
+  /** Credit between 0 (wrong) and 1 (fully correct) */
+  readonly credit: number;
+}
+
+/**
+ * Grades a learner's answer to a question
+ */
+export type AnswerGrader = (question: QuizQuestion, answer: string) => AnswerGrading;
+
+/**
+ * Outcome of one answered question
+ */
+export interface QuizAnswer extends AnswerGrading {
+  readonly question_id: string;
+  readonly word_id: string;
+  readonly selected_answer: string;
+  readonly response_time_ms: number;
+}
+
+/**
+ * Quiz session lifecycle
+ */
+export type QuizSessionStatus = 'loading' | 'answering' | 'feedback' | 'complete' | 'error';
+
+/**
+ * Full state of a quiz session
+ */
+export interface QuizSessionState {
+  readonly status: QuizSessionStatus;
+  readonly questions: readonly QuizQuestion[];
+  readonly currentIndex: number;
+  readonly selectedAnswer: string | null;
+  readonly answers: readonly QuizAnswer[];
+  /** Epoch milliseconds when the first question was shown */
+  readonly startedAt: number;
+  /** Epoch milliseconds when the current question was shown */
+  readonly questionStartedAt: number;
+  /** Epoch milliseconds when the last question was answered and dismissed */
+  readonly completedAt: number | null;
+}
+
+/**
+ * Events that drive the quiz session state machine
+ */
+export type QuizSessionAction =
+  | { readonly type: 'load'; readonly questions: readonly QuizQuestion[]; readonly now: number }
+  | { readonly type: 'loadError' }
+  | {
+      readonly type: 'answer';
+      readonly answer: string;
+      readonly grading: AnswerGrading;
+      readonly now: number;
+    }
+  | { readonly type: 'next'; readonly now: number };
+
+/**
+ * Initial state before questions are loaded
+ */
+export const initialQuizSessionState: QuizSessionState = {
+  status: 'loading',
+  questions: [],
+  currentIndex: 0,
+  selectedAnswer: null,
+  answers: [],
+  startedAt: 0,
+  questionStartedAt: 0,
+  completedAt: null,
+};
+
+/**
+ * Quiz session state machine: loading → answering ⇄ feedback → complete
+ */
+export const quizSessionReducer = (
+  state: QuizSessionState,
+  action: QuizSessionAction
+): QuizSessionState => {
+  switch (action.type) {
+    case 'load':
+      if (action.questions.length === 0) {
+        return { ...initialQuizSessionState, status: 'error' };
+      }
+      return {
+        ...initialQuizSessionState,
+        status: 'answering',
+        questions: action.questions,
+        startedAt: action.now,
+        questionStartedAt: action.now,
+      };
+
+    case 'loadError':
+      return { ...initialQuizSessionState, status: 'error' };
+
+    case 'answer': {
+      if (state.status !== 'answering') {
+        return state;
+      }
+      const question = state.questions[state.currentIndex];
+      return {
+        ...state,
+        status: 'feedback',
+        selectedAnswer: action.answer,
+        answers: [
+          ...state.answers,
+          {
+            question_id: question.id,
+            word_id: question.word_id,
+            selected_answer: action.answer,
+            is_correct: action.grading.is_correct,
+            credit: action.grading.credit,
+            response_time_ms: Math.max(0, action.now - state.questionStartedAt),
+          },
+        ],
+      };
+    }
+
+    case 'next':
+      if (state.status !== 'feedback') {
+        return state;
+      }
+      if (state.currentIndex + 1 >= state.questions.length) {
+        return { ...state, status: 'complete', completedAt: action.now };
+      }
+      return {
+        ...state,
+        status: 'answering',
+        currentIndex: state.currentIndex + 1,
+        selectedAnswer: null,
+        questionStartedAt: action.now,
+      };
+  }
+};
+
+/**
+ * Multiple-choice grading: the selected option must be the correct one
+ */
+export const gradeChoice: AnswerGrader = (question, answer) => {
+  const isCorrect = answer === question.correct_answer;
+  return { is_correct: isCorrect, credit: isCorrect ? 1 : 0 };
+};
+
+/**
+ * Experience points for an answer with the given credit
+ */
+export const getAnswerExperience = (credit: number): number =>
+  Math.round(XP_PER_CORRECT_ANSWER * credit);
+
+/**
+ * Summarize a finished session. The score percentage counts partial credit.
+ */
+export const buildQuizResult = (state: QuizSessionState): QuizResult => {
+  const correctAnswers = state.answers.filter((answer) => answer.is_correct).length;
+  const totalCredit = state.answers.reduce((sum, answer) => sum + answer.credit, 0);
+  const totalQuestions = state.questions.length;
+  const endedAt = state.completedAt ?? state.questionStartedAt;
+
+  return {
+    total_questions: totalQuestions,
+    correct_answers: correctAnswers,
+    incorrect_word_ids: state.answers
+      .filter((answer) => !answer.is_correct)
+      .map((answer) => answer.word_id),
+    score_percentage: totalQuestions > 0 ? Math.round((totalCredit / totalQuestions) * 100) : 0,
+    time_taken_seconds: Math.round(Math.max(0, endedAt - state.startedAt) / 1000),
+  };
+};
+
+/**
+ * Return a shuffled copy of the items (Fisher-Yates)
+ */
+export const shuffle = <T>(items: readonly T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Pick distinct wrong options for a word
+ * @param word - Word being asked
+ * @param pool - Words to draw distractors from
+ * @param getOption - Extracts the option text from a word
+ * @returns Up to DISTRACTOR_COUNT option texts that differ from the correct one
+ */
+export const pickDistractors = (
+  word: Word,
+  pool: readonly Word[],
+  getOption: (word: Word) => string
+): string[] => {
+  const correct = getOption(word);
+  const distractors = new Set<string>();
+
+  for (const candidate of shuffle(pool)) {
+    if (distractors.size >= DISTRACTOR_COUNT) break;
+    const option = getOption(candidate);
+    if (candidate.id !== word.id && option !== correct) {
+      distractors.add(option);
+    }
+  }
+
+  return [...distractors];
+};
+
+/**
+ * Combine the correct answer with distractors into four shuffled options
+ * @returns The options, or null if there are not enough distractors
+ */
+export const buildOptions = (
+  correct: string,
+  distractors: readonly string[]
+): QuizQuestion['options'] | null => {
+  if (distractors.length < DISTRACTOR_COUNT) {
+    return null;
+  }
+  const [a, b, c, d] = shuffle([correct, ...distractors.slice(0, DISTRACTOR_COUNT)]);
+  return [a, b, c, d];
+};
+
+/**
+ * Load the words for a quiz
+ * @param categoryParam - Category ID, or 'all' for every category
+ */
+export const loadQuizWords = async (categoryParam: string): Promise<Word[]> => [
+  ...(await getWordsForCategoryParam(categoryParam)),
+];
+
+/**
+ * Generate a quiz session's questions from a word pool
+ * @param words - Words available for this quiz
+ * @param generator - Question generator of the quiz mode
+ * @param count - Maximum number of questions
+ */
+export const createQuizQuestions = (
+  words: readonly Word[],
+  generator: QuestionGenerator,
+  count: number = QUESTIONS_PER_QUIZ
+): QuizQuestion[] => {
+  const questions: QuizQuestion[] = [];
+
+  for (const word of shuffle(words)) {
+    if (questions.length >= count) break;
+    const question = generator(word, words);
+    if (question) {
+      questions.push(question);
+    }
+  }
+
+  return questions;
+};
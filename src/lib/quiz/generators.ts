@@ -0,0 +1,208 @@
+/**
+ * Question generators for each quiz mode
+ */
+
+import type { QuizType } from '@/types';
+import { buildOptions, pickDistractors, type QuestionGenerator } from './engine';
+import { MIN_SENTENCE_TILES, splitSentenceTiles } from './sentence';
+import { blankOutWord, pickClozeDistractors } from './cloze';
+import { getWordSyllables, joinToneAnswer } from './tone';
+
+/**
+ * Japanese prompt, choose the Vietnamese word
+ */
+export const jaToViGenerator: QuestionGenerator = (word, pool) => {
+  const options = buildOptions(
+    word.vietnamese,
+    pickDistractors(word, pool, (w) => w.vietnamese)
+  );
+  if (!options) return null;
+
+  return {
+    id: `ja-to-vi:${word.id}`,
+    type: 'ja-to-vi',
+    question: word.japanese,
+    options,
+    correct_answer: word.vietnamese,
+    word_id: word.id,
+  };
+};
+
+/**
+ * Vietnamese prompt, choose the Japanese meaning
+ */
+export const viToJaGenerator: QuestionGenerator = (word, pool) => {
+  const options = buildOptions(
+    word.japanese,
+    pickDistractors(word, pool, (w) => w.japanese)
+  );
+  if (!options) return null;
+
+  return {
+    id: `vi-to-ja:${word.id}`,
+    type: 'vi-to-ja',
+    question: word.vietnamese,
+    options,
+    correct_answer: word.japanese,
+    word_id: word.id,
+    audio_url: word.audio_url,
+  };
+};
+
+/**
+ * Audio prompt, choose the Japanese meaning. Skips words without a recording.
+ */
+export const listeningGenerator: QuestionGenerator = (word, pool) => {
+  if (!word.audio_url) return null;
+
+  const options = buildOptions(
+    word.japanese,
+    pickDistractors(word, pool, (w) => w.japanese)
+  );
+  if (!options) return null;
+
+  return {
+    id: `listening:${word.id}`,
+    type: 'listening',
+    question: word.vietnamese,
+    options,
+    correct_answer: word.japanese,
+    word_id: word.id,
+    audio_url: word.audio_url,
+  };
+};
+
+/**
+ * Japanese prompt, type the Vietnamese word
+ */
+export const typingGenerator: QuestionGenerator = (word) => ({
+  id: `typing:${word.id}`,
+  type: 'typing',
+  question: word.japanese,
+  correct_answer: word.vietnamese,
+  word_id: word.id,
+  audio_url: word.audio_url,
+});
+
+/**
+ * Audio prompt, type what was heard. Uses the example sentence when it has
+ * its own recording, otherwise the word itself (skipped without a recording).
+ */
+export const dictationGenerator: QuestionGenerator = (word) => {
+  const sentence = word.example_sentence;
+  const useSentence = Boolean(sentence?.audio_url);
+  if (!useSentence && !word.audio_url) return null;
+  const text = useSentence && sentence ? sentence.vietnamese : word.vietnamese;
+
+  return {
+    id: `dictation:${word.id}`,
+    type: 'dictation',
+    question: text,
+    correct_answer: text,
+    word_id: word.id,
+    audio_url: useSentence && sentence ? sentence.audio_url : word.audio_url,
+  };
+};
+
+/**
+ * Japanese translation prompt, rebuild the Vietnamese example sentence
+ */
+export const sentenceGenerator: QuestionGenerator = (word) => {
+  const sentence = word.example_sentence;
+  if (!sentence || splitSentenceTiles(sentence.vietnamese).length < MIN_SENTENCE_TILES) {
+    return null;
+  }
+
+  return {
+    id: `sentence:${word.id}`,
+    type: 'sentence',
+    question: sentence.japanese,
+    correct_answer: sentence.vietnamese,
+    word_id: word.id,
+    audio_url: sentence.audio_url,
+  };
+};
+
+/**
+ * Example sentence with the word blanked out, choose or type the missing word
+ */
+export const clozeGenerator: QuestionGenerator = (word, pool) => {
+  const sentence = word.example_sentence;
+  const blanked = sentence && blankOutWord(sentence.vietnamese, word.vietnamese);
+  if (!blanked) return null;
+
+  const options = buildOptions(word.vietnamese, pickClozeDistractors(word, pool));
+  if (!options) return null;
+
+  return {
+    id: `cloze:${word.id}`,
+    type: 'cloze',
+    question: blanked,
+    options,
+    correct_answer: word.vietnamese,
+    word_id: word.id,
+    audio_url: word.audio_url,
+  };
+};
+
+/**
+ * Tone question from a word.
+ * Multi-syllable words alternate at random between asking for one syllable's
+ * tone (syllable_index set) and marking the tones of the whole word.
+ * The prompt is the word without tone marks so it does not give the answer away.
+ * Skips words without a recording, since the question is answered by ear.
+ */
+export const toneGenerator: QuestionGenerator = (word) => {
+  if (!word.audio_url) return null;
+
+  const syllables = getWordSyllables(word.vietnamese);
+  if (!syllables) return null;
+
+  const prompt = syllables.map((syllable) => syllable.bare).join(' ');
+  const base = {
+    id: `tone:${word.id}`,
+    type: 'tone',
+    question: prompt,
+    word_id: word.id,
+    audio_url: word.audio_url,
+  } as const;
+
+  if (syllables.length > 1 && Math.random() < 0.5) {
+    return { ...base, correct_answer: joinToneAnswer(syllables.map((syllable) => syllable.tone)) };
+  }
+
+  const index = Math.floor(Math.random() * syllables.length);
+  return { ...base, correct_answer: syllables[index].tone, syllable_index: index };
+};
+
+/**
+ * Vietnamese prompt with reference audio, say the word aloud. Skips words
+ * without a recording.
+ */
+export const speakingGenerator: QuestionGenerator = (word) => {
+  if (!word.audio_url) return null;
+
+  return {
+    id: `speaking:${word.id}`,
+    type: 'speaking',
+    question: word.vietnamese,
+    correct_answer: word.vietnamese,
+    word_id: word.id,
+    audio_url: word.audio_url,
+  };
+};
+
+/**
+ * Question generator registry keyed by quiz type
+ */
+export const QUESTION_GENERATORS: Readonly<Record<QuizType, QuestionGenerator>> = {
+  'ja-to-vi': jaToViGenerator,
+  'vi-to-ja': viToJaGenerator,
+  listening: listeningGenerator,
+  typing: typingGenerator,
+  dictation: dictationGenerator,
+  sentence: sentenceGenerator,
+  cloze: clozeGenerator,
+  tone: toneGenerator,
+  speaking: speakingGenerator,
+};
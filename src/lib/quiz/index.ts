@@ -0,0 +1,67 @@
+export {
+  QUESTIONS_PER_QUIZ,
+  DISTRACTOR_COUNT,
+  XP_PER_CORRECT_ANSWER,
+  initialQuizSessionState,
+  quizSessionReducer,
+  gradeChoice,
+  getAnswerExperience,
+  buildQuizResult,
+  shuffle,
+  pickDistractors,
+  buildOptions,
+  loadQuizWords,
+  createQuizQuestions,
+} from './engine';
+export type {
+  QuestionGenerator,
+  AnswerGrading,
+  AnswerGrader,
+  QuizAnswer,
+  QuizSessionStatus,
+  QuizSessionState,
+  QuizSessionAction,
+} from './engine';
+
+export {
+  jaToViGenerator,
+  viToJaGenerator,
+  listeningGenerator,
+  typingGenerator,
+  dictationGenerator,
+  sentenceGenerator,
+  clozeGenerator,
+  toneGenerator,
+  speakingGenerator,
+  QUESTION_GENERATORS,
+} from './generators';
+
+export {
+  TYPED_ANSWER_CREDIT,
+  normalizeTypedAnswer,
+  gradeTypedAnswer,
+  typingGrader,
+} from './typing';
+export type { TypedAnswerVerdict, SyllableMistake, TypedAnswerGrade } from './typing';
+
+export { diffSyllables, scoreSyllableDiff, dictationGrader } from './dictation';
+export type { SyllableDiffStatus, SyllableDiff } from './dictation';
+
+export {
+  MIN_SENTENCE_TILES,
+  splitSentenceTiles,
+  sentenceGrader,
+} from './sentence';
+
+export { CLOZE_BLANK, blankOutWord, pickClozeDistractors } from './cloze';
+
+export {
+  getWordSyllables,
+  joinToneAnswer,
+  splitToneAnswer,
+  getToneAnswerPairs,
+  toneGrader,
+} from './tone';
+export type { WordSyllable } from './tone';
+
+export { SPEAKING_PASS_SCORE, speakingGrader } from './speaking';
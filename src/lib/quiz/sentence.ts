@@ -0,0 +1,37 @@
+/**
+ * Sentence-building exercise: example sentences split into word tiles
+ */
+
+import type { AnswerGrader } from './engine';
+import { normalizeTypedAnswer } from './typing';
+
+/** Sentences with fewer tiles than this are too easy to reorder */
+export const MIN_SENTENCE_TILES = 3 as const;
+
+/**
+ * Split a sentence into tiles in their correct order.
+ * Punctuation is dropped and the sentence-initial capital is lowered
+ * so neither gives away the order.
+ * @param sentence - Vietnamese sentence
+ * @returns Tiles in reading order
+ */
+export const splitSentenceTiles = (sentence: string): string[] => {
+  const tiles = sentence
+    .normalize('NFC')
+    .split(/\s+/)
+    .map((token) => token.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean);
+
+  if (tiles.length > 0) {
+    tiles[0] = tiles[0].charAt(0).toLowerCase() + tiles[0].slice(1);
+  }
+  return tiles;
+};
+
+/**
+ * Grader for rebuilt sentences: tiles must be in the original order
+ */
+export const sentenceGrader: AnswerGrader = (question, answer) => {
+  const isCorrect = normalizeTypedAnswer(answer) === normalizeTypedAnswer(question.correct_answer);
+  return { is_correct: isCorrect, credit: isCorrect ? 1 : 0 };
+};
@@ -0,0 +1,20 @@
+/**
+ * Speaking practice grading: the answer is the pitch similarity score of the learner's recording
+ */
+
+import type { AnswerGrader } from './engine';
+
+/** Similarity score (0-100) counted as a correct answer */
+export const SPEAKING_PASS_SCORE = 75 as const;
+
+/**
+ * Grade a recording by its similarity score; lower scores earn partial credit
+ */
+export const speakingGrader: AnswerGrader = (_question, answer) => {
+  const score = Number(answer);
+  const credit = Number.isFinite(score) ? Math.max(0, Math.min(100, score)) / 100 : 0;
+  return {
+    is_correct: credit * 100 >= SPEAKING_PASS_SCORE,
+    credit,
+  };
+};
@@ -0,0 +1,81 @@
+/**
+ * Tone questions generated from vocabulary: identify one syllable's tone or mark every syllable
+ */
+
+import { isValidToneId, type QuizQuestion, type ToneId } from '@/types';
+import { analyzeSyllable, splitTone } from '@/lib/vietnamese-syllable';
+import type { AnswerGrader } from './engine';
+
+/**
+ * One syllable of a word with its tone
+ */
+export interface WordSyllable {
+  /** Syllable as written */
+  readonly text: string;
+  /** Syllable without its tone mark */
+  readonly bare: string;
+  readonly tone: ToneId;
+}
+
+/** Separator of tone IDs in a tone-marking answer */
+const TONE_ANSWER_SEPARATOR = ' ' as const;
+
+/**
+ * Split a word into syllables and read each tone from its diacritics
+ * @param text - Vietnamese word or phrase
+ * @returns The syllables, or null if any of them is not a Vietnamese syllable (e.g. loanwords)
+ */
+export const getWordSyllables = (text: string): WordSyllable[] | null => {
+  const tokens = text.normalize('NFC').split(/[^\p{L}]+/u).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  const syllables: WordSyllable[] = [];
+  for (const token of tokens) {
+    const analysis = analyzeSyllable(token);
+    if (!analysis) return null;
+    syllables.push({ text: token, bare: splitTone(token).bare, tone: analysis.tone });
+  }
+  return syllables;
+};
+
+/**
+ * Encode the tones of a tone-marking answer
+ */
+export const joinToneAnswer = (tones: readonly ToneId[]): string =>
+  tones.join(TONE_ANSWER_SEPARATOR);
+
+/**
+ * Decode the tones of a tone-marking answer
+ */
+export const splitToneAnswer = (answer: string): string[] =>
+  answer.split(TONE_ANSWER_SEPARATOR).filter(Boolean);
+
+/**
+ * Pair each asked syllable's tone with the tone the learner picked
+ * @returns [played, chosen] pairs for the tone confusion matrix; unanswered syllables are left out
+ */
+export const getToneAnswerPairs = (
+  question: QuizQuestion,
+  answer: string
+): Array<readonly [ToneId, ToneId]> => {
+  const given = splitToneAnswer(answer);
+  return splitToneAnswer(question.correct_answer).flatMap((played, i) => {
+    const chosen = given[i];
+    return isValidToneId(played) && isValidToneId(chosen) ? [[played, chosen] as const] : [];
+  });
+};
+
+/**
+ * Grader for tone answers: credit is the share of syllables with the right tone
+ */
+export const toneGrader: AnswerGrader = (question, answer) => {
+  const expected = splitToneAnswer(question.correct_answer);
+  const given = splitToneAnswer(answer);
+  const matched = expected.filter((tone, i) => given[i] === tone).length;
+  const isCorrect = matched === expected.length && given.length === expected.length;
+
+  return {
+    is_correct: isCorrect,
+    credit: expected.length > 0 ? matched / expected.length : 0,
+  };
+};
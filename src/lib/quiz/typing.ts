@@ -0,0 +1,154 @@
+/**
+ * Typed-answer grading that tells tone mistakes and missing diacritics apart from wrong words
+ */
+
+import type { ToneId } from '@/types';
+import { normalizeToneMarks } from '@/lib/vietnamese-input';
+import { splitTone } from '@/lib/vietnamese-syllable';
+import type { AnswerGrader } from './engine';
+
+/**
+ * Overall verdict of a typed answer
+ * - exact: letters, diacritics and tones all match
+ * - tone: only tone marks differ
+ * - diacritic: a vowel shape mark (ă/â/ê/ô/ơ/ư) or đ is missing or wrong
+ * - wrong: a different word
+ */
+export type TypedAnswerVerdict = 'exact' | 'tone' | 'diacritic' | 'wrong';
+
+/** Credit awarded for each verdict */
+export const TYPED_ANSWER_CREDIT: Readonly<Record<TypedAnswerVerdict, number>> = {
+  exact: 1,
+  tone: 0.5,
+  diacritic: 0.5,
+  wrong: 0,
+} as const;
+
+/** Credit when both tone marks and diacritics are wrong */
+const TONE_AND_DIACRITIC_CREDIT = 0.25 as const;
+
+/**
+ * Mistake found in one syllable of the answer
+ */
+export type SyllableMistake =
+  | {
+      readonly kind: 'tone';
+      readonly expected: string;
+      readonly typed: string;
+      readonly expected_tone: ToneId;
+      readonly typed_tone: ToneId;
+    }
+  | {
+      readonly kind: 'diacritic';
+      readonly expected: string;
+      readonly typed: string;
+      /** Letter pairs that differ, e.g. { expected: 'ơ', typed: 'o' } */
+      readonly letters: readonly { readonly expected: string; readonly typed: string }[];
+    };
+
+/**
+ * Detailed grade of a typed answer
+ */
+export interface TypedAnswerGrade {
+  readonly verdict: TypedAnswerVerdict;
+  readonly credit: number;
+  readonly mistakes: readonly SyllableMistake[];
+}
+
+/** Combining marks that change a vowel's shape: breve, circumflex, horn */
+const SHAPE_MARKS = /[\u0306\u0302\u031B]/g;
+
+/**
+ * Normalize an answer for comparison: NFC, lowercase, no punctuation,
+ * single spaces and consistent tone mark placement
+ */
+export const normalizeTypedAnswer = (text: string): string =>
+  normalizeToneMarks(
+    text
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/[^\p{L}\s]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+
+/**
+ * Remove vowel shape marks and the stroke of đ from a toneless syllable
+ */
+const stripShapes = (bare: string): string =>
+  bare.normalize('NFD').replace(SHAPE_MARKS, '').replace(/đ/g, 'd').normalize('NFC');
+
+/**
+ * Grade a typed Vietnamese answer against the expected text
+ * @param expected - Correct answer
+ * @param typed - Learner's input
+ * @returns Verdict, credit and per-syllable mistakes
+ */
+export const gradeTypedAnswer = (expected: string, typed: string): TypedAnswerGrade => {
+  const expectedSyllables = normalizeTypedAnswer(expected).split(' ');
+  const typedSyllables = normalizeTypedAnswer(typed).split(' ');
+  const wrong: TypedAnswerGrade = { verdict: 'wrong', credit: TYPED_ANSWER_CREDIT.wrong, mistakes: [] };
+
+  if (expectedSyllables.length !== typedSyllables.length) {
+    return wrong;
+  }
+
+  const mistakes: SyllableMistake[] = [];
+
+  for (let i = 0; i < expectedSyllables.length; i++) {
+    const expectedSyllable = expectedSyllables[i];
+    const typedSyllable = typedSyllables[i];
+    if (expectedSyllable === typedSyllable) continue;
+
+    const expectedParts = splitTone(expectedSyllable);
+    const typedParts = splitTone(typedSyllable);
+
+    if (expectedParts.bare !== typedParts.bare) {
+      if (stripShapes(expectedParts.bare) !== stripShapes(typedParts.bare)) {
+        return wrong;
+      }
+
+      const expectedLetters = [...expectedParts.bare];
+      const typedLetters = [...typedParts.bare];
+      mistakes.push({
+        kind: 'diacritic',
+        expected: expectedSyllable,
+        typed: typedSyllable,
+        letters: expectedLetters
+          .map((letter, index) => ({ expected: letter, typed: typedLetters[index] }))
+          .filter((pair) => pair.expected !== pair.typed),
+      });
+    }
+
+    if (expectedParts.tone !== typedParts.tone) {
+      mistakes.push({
+        kind: 'tone',
+        expected: expectedSyllable,
+        typed: typedSyllable,
+        expected_tone: expectedParts.tone,
+        typed_tone: typedParts.tone,
+      });
+    }
+  }
+
+  if (mistakes.length === 0) {
+    return { verdict: 'exact', credit: TYPED_ANSWER_CREDIT.exact, mistakes };
+  }
+
+  const hasDiacriticMistake = mistakes.some((mistake) => mistake.kind === 'diacritic');
+  const hasToneMistake = mistakes.some((mistake) => mistake.kind === 'tone');
+
+  if (hasDiacriticMistake && hasToneMistake) {
+    return { verdict: 'diacritic', credit: TONE_AND_DIACRITIC_CREDIT, mistakes };
+  }
+  const verdict = hasDiacriticMistake ? 'diacritic' : 'tone';
+  return { verdict, credit: TYPED_ANSWER_CREDIT[verdict], mistakes };
+};
+
+/**
+ * Grader for typed answers; only exact answers count as correct
+ */
+export const typingGrader: AnswerGrader = (question, answer) => {
+  const { verdict, credit } = gradeTypedAnswer(question.correct_answer, answer);
+  return { is_correct: verdict === 'exact', credit };
+};
@@ -0,0 +1,226 @@
+/**
+ * Recording studio for native speakers: the planned recordings in priority
+ * order, and processing of takes into files that meet the recording specs
+ */
+
+import {
+  AUDIO_CREATION_PRIORITY,
+  AUDIO_RECORDING_LIMITS,
+  getAlphabetAudioPath,
+  getDialectAudioPath,
+  getWordAudioPath,
+} from '@/lib/audio';
+import { decodeAudio, resampleToMono } from '@/lib/audio-decode';
+import {
+  applyAudioFix,
+  findAudioQualityViolations,
+  measureAudioQuality,
+  planAudioFix,
+  type AudioFixPlan,
+  type AudioQualityMetrics,
+  type AudioQualityViolation,
+} from '@/lib/audio-quality';
+import { DIALECT_LABELS } from '@/lib/dialects';
+import type { MinimalPairMember } from '@/lib/minimal-pairs';
+import { encodeMp3 } from '@/lib/mp3-encoder';
+import { getToneInfo } from '@/lib/tones';
+import type { Alphabet, Dialect, DialectVariant, Tone, Word } from '@/types';
+
+/** Number of files checked for existence at once */
+const PRESENCE_CHECK_CONCURRENCY = 6;
+
+export type RecordingKind = 'alphabet' | 'word' | 'tone' | 'syllable';
+
+/**
+ * One planned recording
+ */
+export interface RecordingItem {
+  /** Path of the file to produce, under public/ */
+  readonly path: string;
+  readonly kind: RecordingKind;
+  /** AUDIO_CREATION_PRIORITY week the item belongs to */
+  readonly week: keyof typeof AUDIO_CREATION_PRIORITY;
+  /** Text to read aloud */
+  readonly text: string;
+  /** Meaning or reading shown as a hint */
+  readonly hint: string;
+  /** URLs that count as already recorded (the export path and the data's URL) */
+  readonly existingUrls: readonly string[];
+  /**
+   * True when the data does not point at the file yet: a dialect recording
+   * to add as the variant's audio_url once exported
+   */
+  readonly unlinked: boolean;
+}
+
+/**
+ * Content the plan is built from
+ */
+export interface RecordingSources {
+  readonly alphabet: readonly Alphabet[];
+  readonly tones: readonly Tone[];
+  /** Words by category ID */
+  readonly words: Readonly<Record<string, readonly Word[]>>;
+  /** Syllable clips of the minimal-pair drill (see getSyllableClips) */
+  readonly syllables: readonly MinimalPairMember[];
+}
+
+/**
+ * A take processed into a file ready to export
+ */
+export interface ProcessedTake {
+  /** Encoded MP3 file */
+  readonly mp3: Uint8Array<ArrayBuffer>;
+  /** Measurements of the encoded file */
+  readonly metrics: AudioQualityMetrics;
+  /** Trim and gain that were applied, if any */
+  readonly fix: AudioFixPlan | null;
+  readonly violations: readonly AudioQualityViolation[];
+}
+
+const uniqueUrls = (...urls: string[]) => [...new Set(urls)];
+
+/**
+ * List every planned recording in AUDIO_CREATION_PRIORITY order
+ * @param sources - Alphabet, tones, words and syllables
+ * @returns Planned recordings, most urgent first
+ */
+export const buildRecordingPlan = (sources: RecordingSources): RecordingItem[] =>
+  (Object.keys(AUDIO_CREATION_PRIORITY) as (keyof typeof AUDIO_CREATION_PRIORITY)[]).flatMap(
+    (week) => {
+      const groups =
+        Object.values(AUDIO_CREATION_PRIORITY[week]).find(
+          (value): value is readonly string[] => Array.isArray(value)
+        ) ?? [];
+
+      return groups.flatMap((group): RecordingItem[] => {
+        if (group === 'alphabet') {
+          return sources.alphabet.map((letter) => {
+            const path = getAlphabetAudioPath(letter.letter);
+            return {
+              path,
+              kind: 'alphabet',
+              week,
+              text: letter.letter,
+              hint: letter.pronunciation,
+              existingUrls: uniqueUrls(path, letter.audio_url),
+              unlinked: false,
+            };
+          });
+        }
+        if (group === 'tones') {
+          return sources.tones.map((tone) => ({
+            path: tone.audio_url,
+            kind: 'tone',
+            week,
+            text: tone.examples[0]?.word ?? tone.vietnamese_name,
+            hint: `${tone.name}（${tone.vietnamese_name}）`,
+            existingUrls: [tone.audio_url],
+            unlinked: false,
+          }));
+        }
+        if (group === 'syllables') {
+          return sources.syllables.map((syllable) => {
+            const tone = getToneInfo(syllable.tone);
+            return {
+              path: syllable.audio_url,
+              kind: 'syllable',
+              week,
+              text: syllable.text,
+              hint: [syllable.meaning, tone && `${tone.name}（${tone.vietnamese_name}）`]
+                .filter(Boolean)
+                .join('・'),
+              existingUrls: [syllable.audio_url],
+              unlinked: false,
+            };
+          });
+        }
+        return (sources.words[group] ?? []).flatMap((word): RecordingItem[] => {
+          // Export to the URLs the app plays; the helpers name files the data does not have yet
+          const path = word.audio_url || getWordAudioPath(word.vietnamese, word.category);
+          // Each dialect variant gets its own recording right after the word
+          const variants = Object.entries(word.dialects ?? {}) as [Dialect, DialectVariant][];
+          return [
+            {
+              path,
+              kind: 'word',
+              week,
+              text: word.vietnamese,
+              hint: `${word.japanese}（${word.pronunciation}）`,
+              existingUrls: [path],
+              unlinked: !word.audio_url,
+            },
+            ...variants.map(([dialect, variant]): RecordingItem => {
+              const variantPath = variant.audio_url ?? getDialectAudioPath(word, dialect);
+              return {
+                path: variantPath,
+                kind: 'word',
+                week,
+                text: variant.vietnamese ?? word.vietnamese,
+                hint: `${word.japanese}（${variant.pronunciation ?? word.pronunciation}）・${DIALECT_LABELS[dialect].name}の発音`,
+                existingUrls: [variantPath],
+                unlinked: !variant.audio_url,
+              };
+            }),
+          ];
+        });
+      });
+    }
+  );
+
+const audioFileExists = async (url: string): Promise<boolean> => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Keep the planned recordings that have no file yet
+ * @param items - Planned recordings
+ * @param exists - Whether a URL has a file (default: HEAD request)
+ * @returns Items still to record, in the same order
+ */
+export const findMissingRecordings = async (
+  items: readonly RecordingItem[],
+  exists: (url: string) => Promise<boolean> = audioFileExists
+): Promise<RecordingItem[]> => {
+  const recorded = new Array<boolean>(items.length).fill(false);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      for (const url of items[index].existingUrls) {
+        if (await exists(url)) {
+          recorded[index] = true;
+          break;
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: PRESENCE_CHECK_CONCURRENCY }, worker));
+  return items.filter((_, index) => !recorded[index]);
+};
+
+/**
+ * Turn a microphone take into a file that follows the recording specs:
+ * mono at the spec sample rate, silence trimmed, peak normalized, MP3 encoded
+ * @param recording - Recorded audio (any format the browser can decode)
+ * @returns Encoded file with its measurements
+ */
+export const processTake = async (recording: Blob): Promise<ProcessedTake> => {
+  const { sampleRate, bitRateKbps } = AUDIO_RECORDING_LIMITS;
+  const buffer = await decodeAudio(await recording.arrayBuffer());
+  const raw = await resampleToMono(buffer, sampleRate);
+
+  const fix = planAudioFix(measureAudioQuality(raw, sampleRate, 0));
+  const samples = fix ? applyAudioFix(raw, sampleRate, fix) : raw;
+  const mp3 = encodeMp3(samples, sampleRate, bitRateKbps);
+  const metrics = measureAudioQuality(samples, sampleRate, mp3.length);
+
+  return { mp3, metrics, fix, violations: findAudioQualityViolations(metrics) };
+};
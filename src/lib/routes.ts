@@ -0,0 +1,42 @@
+/**
+ * App route checks that need the category and deck registries (kept out of
+ * @/types so the type modules stay free of runtime imports)
+ */
+
+import { CATEGORY_IDS } from '@/lib/categories';
+import { isDeckId } from '@/lib/decks';
+import type { AppRoute } from '@/types';
+
+/**
+ * Type guard to check if a path is a valid app route
+ */
+export const isValidRoute = (path: string): path is AppRoute => {
+  const validPaths = [
+    '/',
+    '/flashcards',
+    ...CATEGORY_IDS.map((id) => `/flashcards/${id}`),
+    '/quiz',
+    '/quiz/ja-to-vi',
+    '/quiz/vi-to-ja',
+    '/quiz/listening',
+    '/quiz/typing',
+    '/quiz/dictation',
+    '/quiz/sentence',
+    '/quiz/cloze',
+    '/quiz/speaking',
+    '/learn/alphabet',
+    '/learn/tones',
+    '/learn/tones/quiz',
+    '/learn/tones/pairs',
+    '/review',
+    '/progress',
+    '/studio',
+    '/decks',
+    '/decks/import',
+  ];
+
+  if (path.startsWith('/decks/') && isDeckId(path.slice('/decks/'.length))) {
+    return true;
+  }
+  return validPaths.includes(path as AppRoute);
+};
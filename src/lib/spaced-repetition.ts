@@ -0,0 +1,148 @@
+/**
+ * SM-2 based spaced-repetition scheduler for per-word memory state
+ */
+
+import type { ReviewGrade, WordMemoryState } from '@/types';
+
+/** Ease factor assigned to a word on its first review */
+export const INITIAL_EASE_FACTOR = 2.5 as const;
+
+/** Lower bound for the ease factor (SM-2 default) */
+export const MINIMUM_EASE_FACTOR = 1.3 as const;
+
+/** Interval in days after the first and second successful reviews */
+const FIRST_INTERVAL_DAYS = 1 as const;
+const SECOND_INTERVAL_DAYS = 6 as const;
+
+/** Milliseconds in one day */
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * SM-2 response quality (0-5) for each review grade.
+ * Anything below 3 counts as a lapse.
+ */
+const GRADE_QUALITY: Readonly<Record<ReviewGrade, number>> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+} as const;
+
+/**
+ * Create the memory state of a word that has never been reviewed
+ * @param now - Reference time (defaults to the current time)
+ * @returns Memory state that is due immediately
+ */
+export const createInitialMemoryState = (now: Date = new Date()): WordMemoryState => ({
+  ease_factor: INITIAL_EASE_FACTOR,
+  interval_days: 0,
+  repetitions: 0,
+  lapses: 0,
+  due_date: now.toISOString(),
+  last_reviewed: '',
+});
+
+/**
+ * Compute the next memory state of a word after a review
+ * @param state - Current memory state, or undefined for a new word
+ * @param grade - How well the learner recalled the word
+ * @param now - Time of the review (defaults to the current time)
+ * @returns Updated memory state with the next due date
+ */
+export const scheduleReview = (
+  state: WordMemoryState | undefined,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): WordMemoryState => {
+  const current = state ?? createInitialMemoryState(now);
+  const quality = GRADE_QUALITY[grade];
+
+  const easeDelta = 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02);
+  const easeFactor = Math.max(
+    MINIMUM_EASE_FACTOR,
+    Math.round((current.ease_factor + easeDelta) * 100) / 100
+  );
+
+  if (quality < 3) {
+    // Lapse: start the learning steps over, due again in the same session
+    return {
+      ease_factor: easeFactor,
+      interval_days: 0,
+      repetitions: 0,
+      lapses: current.repetitions > 0 ? current.lapses + 1 : current.lapses,
+      due_date: now.toISOString(),
+      last_reviewed: now.toISOString(),
+    };
+  }
+
+  let intervalDays: number;
+  if (current.repetitions === 0) {
+    intervalDays = FIRST_INTERVAL_DAYS;
+  } else if (current.repetitions === 1) {
+    intervalDays = SECOND_INTERVAL_DAYS;
+  } else {
+    intervalDays = Math.round(current.interval_days * easeFactor);
+  }
+
+  // Hard answers grow more slowly, easy answers get a bonus
+  if (grade === 'hard') {
+    intervalDays = Math.max(FIRST_INTERVAL_DAYS, Math.round(intervalDays * 0.8));
+  } else if (grade === 'easy') {
+    intervalDays = Math.round(intervalDays * 1.3);
+  }
+
+  return {
+    ease_factor: easeFactor,
+    interval_days: intervalDays,
+    repetitions: current.repetitions + 1,
+    lapses: current.lapses,
+    due_date: new Date(now.getTime() + intervalDays * MS_PER_DAY).toISOString(),
+    last_reviewed: now.toISOString(),
+  };
+};
+
+/**
+ * Check whether a word is due for review
+ * @param state - Memory state of the word
+ * @param now - Reference time (defaults to the current time)
+ * @returns true if the due date has passed
+ */
+export const isDue = (state: WordMemoryState, now: Date = new Date()): boolean => {
+  return new Date(state.due_date).getTime() <= now.getTime();
+};
+
+/**
+ * Check whether a word counts as learned.
+ * A word is learned once it has been recalled successfully and has not lapsed since.
+ * @param state - Memory state of the word, or undefined if never reviewed
+ * @returns true if the word is currently learned
+ */
+export const isMemoryLearned = (state: WordMemoryState | undefined): boolean => {
+  return state !== undefined && state.repetitions > 0;
+};
+
+/**
+ * Derive the list of learned word IDs from the per-word memory state
+ * @param memory - Memory state keyed by word ID
+ * @returns IDs of all words that currently count as learned
+ */
+export const deriveLearnedWords = (
+  memory: Readonly<Record<string, WordMemoryState>>
+): string[] => {
+  return Object.keys(memory).filter((wordId) => isMemoryLearned(memory[wordId]));
+};
+
+/**
+ * Get the IDs of all words that are due for review, most overdue first
+ * @param memory - Memory state keyed by word ID
+ * @param now - Reference time (defaults to the current time)
+ * @returns Due word IDs sorted by due date
+ */
+export const getDueWordIds = (
+  memory: Readonly<Record<string, WordMemoryState>>,
+  now: Date = new Date()
+): string[] => {
+  return Object.keys(memory)
+    .filter((wordId) => isDue(memory[wordId], now))
+    .sort((a, b) => memory[a].due_date.localeCompare(memory[b].due_date));
+};
@@ -0,0 +1,30 @@
+/**
+ * Tone metadata lookup: connects ToneId values to the entries of tones.json
+ */
+
+import type { ToneId } from '@/types';
+import tonesData from '@/data/tones.json';
+
+/** Entry of tones.json */
+export type ToneInfo = (typeof tonesData)[number];
+
+/** All tones in the order of tones.json */
+export const TONE_IDS: readonly ToneId[] = ['ngang', 'sắc', 'huyền', 'hỏi', 'ngã', 'nặng'];
+
+/** ID of each tone's entry in tones.json (ASCII spelling of the tone name) */
+const TONE_DATA_IDS: Readonly<Record<ToneId, string>> = {
+  ngang: 'ngang',
+  'sắc': 'sac',
+  'huyền': 'huyen',
+  'hỏi': 'hoi',
+  'ngã': 'nga',
+  'nặng': 'nang',
+} as const;
+
+/**
+ * Find the tones.json entry of a tone
+ * @param toneId - Tone ID (as derived from diacritics)
+ * @returns The entry, or undefined for an unknown tone
+ */
+export const getToneInfo = (toneId: string): ToneInfo | undefined =>
+  tonesData.find((tone) => tone.id === TONE_DATA_IDS[toneId as ToneId]);
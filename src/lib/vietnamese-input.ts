@@ -0,0 +1,416 @@
+/**
+ * Telex and VNI input methods for typing Vietnamese on keyboards without a Vietnamese IME
+ */
+
+import type { ToneId } from '@/types';
+import { TONE_MARKS, isVietnameseVowel, splitTone } from '@/lib/vietnamese-syllable';
+
+/**
+ * Supported keystroke conventions
+ * - telex: letters as modifiers (aa → â, dd → đ, s → sắc ...)
+ * - vni: digits as modifiers (a6 → â, d9 → đ, 1 → sắc ...)
+ */
+export type InputMethod = 'telex' | 'vni';
+
+/**
+ * Where the tone mark goes in open two-vowel syllables ending in oa, oe, uy
+ * - new: on the second vowel (hoà, thuỷ)
+ * - old: on the first vowel (hòa, thủy)
+ */
+export type ToneMarkStyle = 'new' | 'old';
+
+/**
+ * Options for keystroke composition
+ */
+export interface InputMethodOptions {
+  readonly method: InputMethod;
+  readonly toneStyle?: ToneMarkStyle;
+}
+
+/** Vowels whose shape diacritic attracts the tone mark */
+const MARKED_VOWELS = 'ăâêôơư' as const;
+
+/** Open two-vowel clusters whose tone placement depends on ToneMarkStyle */
+const NEW_STYLE_CLUSTERS: readonly string[] = ['oa', 'oe', 'uy'];
+
+const TELEX_TONE_KEYS: Readonly<Record<string, ToneId>> = {
+  s: 'sắc',
+  f: 'huyền',
+  r: 'hỏi',
+  x: 'ngã',
+  j: 'nặng',
+  z: 'ngang',
+} as const;
+
+const VNI_TONE_KEYS: Readonly<Record<string, ToneId>> = {
+  '1': 'sắc',
+  '2': 'huyền',
+  '3': 'hỏi',
+  '4': 'ngã',
+  '5': 'nặng',
+  '0': 'ngang',
+} as const;
+
+/**
+ * Vowel shape modifier: letters it turns into a shaped vowel,
+ * and shaped vowels it turns back when the modifier is repeated
+ */
+interface ShapeRule {
+  readonly apply: Readonly<Record<string, string>>;
+  readonly revert: Readonly<Record<string, string>>;
+}
+
+const TELEX_CIRCUMFLEX: Readonly<Record<string, ShapeRule>> = {
+  a: { apply: { a: 'â', ă: 'â' }, revert: { â: 'a' } },
+  e: { apply: { e: 'ê' }, revert: { ê: 'e' } },
+  o: { apply: { o: 'ô', ơ: 'ô' }, revert: { ô: 'o' } },
+} as const;
+
+/** Telex "w": horn on o/u or breve on a, whichever vowel comes last */
+const TELEX_W: ShapeRule = {
+  apply: { o: 'ơ', ô: 'ơ', u: 'ư', a: 'ă', â: 'ă' },
+  revert: { ơ: 'o', ư: 'u', ă: 'a' },
+} as const;
+
+const VNI_CIRCUMFLEX: ShapeRule = {
+  apply: { a: 'â', ă: 'â', e: 'ê', o: 'ô', ơ: 'ô' },
+  revert: { â: 'a', ê: 'e', ô: 'o' },
+} as const;
+
+const VNI_HORN: ShapeRule = {
+  apply: { o: 'ơ', ô: 'ơ', u: 'ư' },
+  revert: { ơ: 'o', ư: 'u' },
+} as const;
+
+const VNI_BREVE: ShapeRule = {
+  apply: { a: 'ă', â: 'ă' },
+  revert: { ă: 'a' },
+} as const;
+
+/** Result of a shape modifier: the new bare syllable and whether it was a revert */
+interface ShapeResult {
+  readonly bare: string;
+  readonly reverted: boolean;
+}
+
+/** Trailing run of letters in a string: the syllable being composed */
+const TRAILING_WORD = /\p{L}*$/u;
+
+const matchCase = (char: string, template: string): string =>
+  template === template.toUpperCase() && template !== template.toLowerCase()
+    ? char.toUpperCase()
+    : char;
+
+/**
+ * Split a toneless syllable into initial consonant, vowel cluster and final consonant.
+ * The u of "qu" and the i of "gi" + vowel belong to the initial consonant.
+ * Unlike analyzeSyllable this accepts partially typed syllables.
+ * @param bare - Syllable without tone mark
+ * @returns The three parts; vowel is empty if the syllable has no vowel
+ */
+const splitSyllableParts = (
+  bare: string
+): { initial: string; vowel: string; final: string } => {
+  const chars = [...bare];
+  const lower = [...bare.toLowerCase()];
+  let start = lower.findIndex(isVietnameseVowel);
+  if (start === -1) return { initial: bare, vowel: '', final: '' };
+
+  let end = start;
+  while (end + 1 < lower.length && isVietnameseVowel(lower[end + 1])) end++;
+
+  if (end > start && lower[start] === 'u' && lower[start - 1] === 'q') start++;
+  if (end > start && start === 1 && lower[0] === 'g' && lower[1] === 'i') start++;
+
+  return {
+    initial: chars.slice(0, start).join(''),
+    vowel: chars.slice(start, end + 1).join(''),
+    final: chars.slice(end + 1).join(''),
+  };
+};
+
+/**
+ * Find the index of the vowel that carries the tone mark
+ * @param bare - Syllable without tone mark
+ * @param style - Placement style for oa/oe/uy
+ * @returns Index into the syllable's characters, or -1 if it has no vowel
+ */
+export const findToneVowelIndex = (bare: string, style: ToneMarkStyle = 'new'): number => {
+  const { initial, vowel, final } = splitSyllableParts(bare.toLowerCase());
+  if (!vowel) return -1;
+
+  const start = [...initial].length;
+  const nucleus = [...vowel];
+  const hasFinalConsonant = final.length > 0;
+
+  // ươ takes the mark on ơ; otherwise the first shaped vowel wins
+  const horn = nucleus.indexOf('ơ');
+  if (horn !== -1) return start + horn;
+  const marked = nucleus.findIndex((char) => MARKED_VOWELS.includes(char));
+  if (marked !== -1) return start + marked;
+
+  if (nucleus.length === 1) return start;
+  if (nucleus.length === 3) return start + 1;
+  if (hasFinalConsonant) return start + 1;
+  if (style === 'new' && NEW_STYLE_CLUSTERS.includes(nucleus.join(''))) return start + 1;
+  return start;
+};
+
+/**
+ * Put a tone mark on the correct vowel of a syllable
+ * @param bare - Syllable without tone mark
+ * @param tone - Tone to apply
+ * @param style - Placement style for oa/oe/uy
+ * @returns Syllable with the tone mark (NFC)
+ */
+export const placeToneMark = (
+  bare: string,
+  tone: ToneId,
+  style: ToneMarkStyle = 'new'
+): string => {
+  if (tone === 'ngang') return bare;
+
+  const index = findToneVowelIndex(bare, style);
+  if (index === -1) return bare;
+
+  const chars = [...bare];
+  chars[index] = (chars[index] + TONE_MARKS[tone]).normalize('NFC');
+  return chars.join('');
+};
+
+/**
+ * Re-place tone marks of every word in a text with the given style
+ * @param text - Vietnamese text in any normalization form
+ * @param style - Placement style for oa/oe/uy
+ * @returns NFC text with consistently placed tone marks
+ */
+export const normalizeToneMarks = (text: string, style: ToneMarkStyle = 'new'): string =>
+  text.normalize('NFC').replace(/\p{L}+/gu, (word) => {
+    const { bare, tone } = splitTone(word);
+    return placeToneMark(bare, tone, style);
+  });
+
+/**
+ * Apply a shape modifier to the last vowel it affects.
+ * Repeating a modifier on an already shaped vowel reverts it.
+ * @returns The new bare syllable, or null if no vowel is affected
+ */
+const applyShape = (bare: string, rule: ShapeRule): ShapeResult | null => {
+  const chars = [...bare];
+
+  for (let i = chars.length - 1; i >= 0; i--) {
+    const lower = chars[i].toLowerCase();
+    // The u of "qu" is part of the initial consonant
+    if (lower === 'u' && chars[i - 1]?.toLowerCase() === 'q') continue;
+
+    const reverted = rule.revert[lower];
+    if (reverted) {
+      chars[i] = matchCase(reverted, chars[i]);
+      return { bare: chars.join(''), reverted: true };
+    }
+    const applied = rule.apply[lower];
+    if (applied) {
+      chars[i] = matchCase(applied, chars[i]);
+      return { bare: chars.join(''), reverted: false };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Apply a horn modifier. "uo" and "ua" take the horn on u together
+ * (ươ, ưa); otherwise the single-vowel rule applies.
+ */
+const applyHorn = (bare: string, fallback: ShapeRule): ShapeResult | null => {
+  const pair = /(?<!q)([uư])([oôơa])/.exec(bare.toLowerCase());
+  if (!pair) return applyShape(bare, fallback);
+
+  const [, first, second] = pair;
+  const isHorned = first === 'ư' && second !== 'o';
+  const replacement = isHorned
+    ? ['u', second === 'ơ' ? 'o' : 'a']
+    : ['ư', second === 'a' ? 'a' : 'ơ'];
+
+  const chars = [...bare];
+  chars[pair.index] = matchCase(replacement[0], chars[pair.index]);
+  chars[pair.index + 1] = matchCase(replacement[1], chars[pair.index + 1]);
+  return { bare: chars.join(''), reverted: isHorned };
+};
+
+/**
+ * Toggle đ on the initial consonant
+ */
+const applyStroke = (bare: string): ShapeResult | null => {
+  const first = bare.charAt(0);
+  if (first.toLowerCase() === 'd') {
+    return { bare: matchCase('đ', first) + bare.slice(1), reverted: false };
+  }
+  if (first.toLowerCase() === 'đ') {
+    return { bare: matchCase('d', first) + bare.slice(1), reverted: true };
+  }
+  return null;
+};
+
+/**
+ * Apply a shape keystroke of the given input method
+ */
+const applyShapeKey = (
+  bare: string,
+  key: string,
+  method: InputMethod
+): ShapeResult | null => {
+  if (method === 'telex') {
+    if (key === 'd') return applyStroke(bare);
+    if (key === 'w') return applyHorn(bare, TELEX_W);
+    const circumflex = TELEX_CIRCUMFLEX[key];
+    return circumflex ? applyShape(bare, circumflex) : null;
+  }
+
+  switch (key) {
+    case '6':
+      return applyShape(bare, VNI_CIRCUMFLEX);
+    case '7':
+      return applyHorn(bare, VNI_HORN);
+    case '8':
+      return applyShape(bare, VNI_BREVE);
+    case '9':
+      return applyStroke(bare);
+    default:
+      return null;
+  }
+};
+
+/**
+ * Compose one keystroke into a syllable
+ * @returns The new syllable, or null if the key is not a modifier here
+ */
+const composeWord = (
+  word: string,
+  key: string,
+  method: InputMethod,
+  style: ToneMarkStyle
+): string | null => {
+  const lowerKey = key.toLowerCase();
+  const { bare, tone } = splitTone(word);
+  const hasVowel = [...bare].some(isVietnameseVowel);
+
+  const keyTone = (method === 'telex' ? TELEX_TONE_KEYS : VNI_TONE_KEYS)[lowerKey];
+  if (keyTone !== undefined && hasVowel) {
+    if (keyTone === 'ngang') {
+      return tone === 'ngang' ? null : bare;
+    }
+    // Repeating the same tone key removes the tone and types the key itself
+    if (keyTone === tone) {
+      return bare + key;
+    }
+    return placeToneMark(bare, keyTone, style);
+  }
+
+  // Telex shorthand: "w" with no vowel yet types ư
+  if (method === 'telex' && lowerKey === 'w' && !hasVowel) {
+    return bare + matchCase('ư', key);
+  }
+
+  const shaped = applyShapeKey(bare, lowerKey, method);
+  if (!shaped) return null;
+  return placeToneMark(shaped.bare, tone, style) + (shaped.reverted ? key : '');
+};
+
+/**
+ * Apply one keystroke to the end of a text
+ * @param text - Text typed so far (NFC)
+ * @param key - Single character that was typed
+ * @param options - Input method and tone placement style
+ * @returns The new text
+ */
+export const applyKeystroke = (
+  text: string,
+  key: string,
+  { method, toneStyle = 'new' }: InputMethodOptions
+): string => {
+  const word = TRAILING_WORD.exec(text)?.[0] ?? '';
+  const prefix = text.slice(0, text.length - word.length);
+
+  if ([...key].length === 1) {
+    const composed = composeWord(word, key, method, toneStyle);
+    if (composed !== null) {
+      return prefix + composed;
+    }
+  }
+
+  // Plain character: keep the syllable's tone on the right vowel as it grows
+  if (/^\p{L}$/u.test(key)) {
+    const { bare, tone } = splitTone(word + key);
+    return prefix + placeToneMark(bare, tone, toneStyle);
+  }
+  return text + key;
+};
+
+/**
+ * Delete the last character of a text, moving the syllable's tone mark if needed.
+ * Deleting the vowel that carries the tone removes the tone.
+ * @param text - Text typed so far (NFC)
+ * @param toneStyle - Tone placement style
+ * @returns The new text
+ */
+export const applyBackspace = (text: string, toneStyle: ToneMarkStyle = 'new'): string => {
+  const chars = [...text.normalize('NFC')];
+  const removed = chars.pop();
+  if (removed === undefined) return text;
+
+  const remaining = chars.join('');
+  const word = TRAILING_WORD.exec(remaining)?.[0] ?? '';
+  if (!word || splitTone(removed).tone !== 'ngang') return remaining;
+
+  const { bare, tone } = splitTone(word);
+  return remaining.slice(0, remaining.length - word.length) + placeToneMark(bare, tone, toneStyle);
+};
+
+/**
+ * Compose a whole keystroke sequence, e.g. "vieejt" → "việt" (Telex)
+ * @param keys - Keystrokes in order
+ * @param options - Input method and tone placement style
+ * @returns The composed text
+ */
+export const composeKeystrokes = (keys: string, options: InputMethodOptions): string =>
+  [...keys].reduce((text, key) => applyKeystroke(text, key, options), '');
+
+/** Telex keys spelling each shaped letter */
+const TELEX_LETTERS: Readonly<Record<string, string>> = {
+  â: 'aa',
+  ă: 'aw',
+  ê: 'ee',
+  ô: 'oo',
+  ơ: 'ow',
+  ư: 'uw',
+  đ: 'dd',
+} as const;
+
+/** Telex key typed after a syllable for each tone */
+const TELEX_KEY_BY_TONE: Readonly<Record<Exclude<ToneId, 'ngang'>, string>> = {
+  'sắc': 's',
+  'huyền': 'f',
+  'hỏi': 'r',
+  'ngã': 'x',
+  'nặng': 'j',
+} as const;
+
+/**
+ * Spell a text as Telex keystrokes with each tone key at the end of its syllable,
+ * e.g. "người" → "nguwowif". The inverse of composeKeystrokes for Telex.
+ * @param text - Vietnamese text in any normalization form
+ * @returns ASCII keystrokes (letter case is kept)
+ */
+export const toTelexKeys = (text: string): string =>
+  text.normalize('NFC').replace(/\p{L}+/gu, (word) => {
+    const { bare, tone } = splitTone(word);
+    const letters = [...bare]
+      .map((char) => {
+        const keys = TELEX_LETTERS[char.toLowerCase()];
+        if (!keys) return char;
+        return char === char.toLowerCase() ? keys : keys.charAt(0).toUpperCase() + keys.slice(1);
+      })
+      .join('');
+    return tone === 'ngang' ? letters : letters + TELEX_KEY_BY_TONE[tone];
+  });
@@ -0,0 +1,185 @@
+/**
+ * Vietnamese syllable analysis: initial consonant, medial, nucleus, final and tone
+ */
+
+import type { ToneId } from '@/types';
+
+/**
+ * Parts of a Vietnamese syllable.
+ * The parts are written forms: initial + medial + nucleus + final spell the
+ * syllable without its tone mark.
+ */
+export interface SyllableAnalysis {
+  /** Initial consonant ("" for vowel-initial syllables), e.g. ngh, gi, q */
+  readonly initial: string;
+  /** Medial glide o or u ("" if none), e.g. the o of hoa, the u of quê */
+  readonly medial: string;
+  /** Main vowel or diphthong, e.g. a, ươ, iê, ya */
+  readonly nucleus: string;
+  /** Final consonant or glide ("" if none), e.g. ng, ch, i, u */
+  readonly final: string;
+  /** Tone of the syllable */
+  readonly tone: ToneId;
+}
+
+/** Combining mark for each tone (NFD form) */
+export const TONE_MARKS: Readonly<Record<Exclude<ToneId, 'ngang'>, string>> = {
+  'sắc': '\u0301',
+  'huyền': '\u0300',
+  'hỏi': '\u0309',
+  'ngã': '\u0303',
+  'nặng': '\u0323',
+} as const;
+
+const TONE_BY_MARK: ReadonlyMap<string, ToneId> = new Map(
+  Object.entries(TONE_MARKS).map(([tone, mark]) => [mark, tone as ToneId])
+);
+
+/** Lowercase Vietnamese vowels without tone marks */
+const VOWELS = 'aăâeêioôơuưy' as const;
+
+/** Initial consonants, longest first */
+const INITIALS: readonly string[] = [
+  'ngh', 'ch', 'gh', 'gi', 'kh', 'ng', 'nh', 'ph', 'qu', 'th', 'tr',
+  'b', 'c', 'd', 'đ', 'g', 'h', 'k', 'l', 'm', 'n', 'p', 'q', 'r', 's', 't', 'v', 'x',
+];
+
+/** Final consonants */
+const FINAL_CONSONANTS: readonly string[] = ['c', 'ch', 'm', 'n', 'ng', 'nh', 'p', 't'];
+
+/** Glides that can end a syllable */
+const FINAL_GLIDES: readonly string[] = ['i', 'y', 'o', 'u'];
+
+/** Vowel nuclei, diphthongs first */
+const NUCLEI: readonly string[] = [
+  'iê', 'yê', 'ia', 'ya', 'uô', 'ua', 'ươ', 'ưa', 'oo', 'ôô',
+  'a', 'ă', 'â', 'e', 'ê', 'i', 'y', 'o', 'ô', 'ơ', 'u', 'ư',
+];
+
+/** Vowels that follow the medial o (hoa, xoắn, khoe) */
+const AFTER_MEDIAL_O = 'aăe' as const;
+
+/** Vowels that follow the medial u (xuân, thuế, thuở, tuy) */
+const AFTER_MEDIAL_U = 'âêơy' as const;
+
+/**
+ * Whether a character is a Vietnamese vowel letter (tone marks ignored)
+ */
+export const isVietnameseVowel = (char: string): boolean =>
+  [...char].length === 1 && VOWELS.includes(splitTone(char).bare.toLowerCase());
+
+/**
+ * Separate the tone mark from a syllable
+ * @param syllable - Syllable in any normalization form
+ * @returns The syllable without tone (NFC) and its tone
+ */
+export const splitTone = (syllable: string): { bare: string; tone: ToneId } => {
+  let tone: ToneId = 'ngang';
+  let bare = '';
+
+  for (const char of syllable.normalize('NFD')) {
+    const markTone = TONE_BY_MARK.get(char);
+    if (markTone) {
+      tone = markTone;
+    } else {
+      bare += char;
+    }
+  }
+
+  return { bare: bare.normalize('NFC'), tone };
+};
+
+/**
+ * Length of the initial consonant of a lowercase toneless syllable
+ */
+const matchInitial = (lower: string): number => {
+  const initial = INITIALS.find((candidate) => lower.startsWith(candidate)) ?? '';
+
+  // gi and qu count as the initial only when another vowel follows (gia, qua);
+  // in gì, gìn the i is the nucleus
+  if (initial === 'gi' || initial === 'qu') {
+    const next = [...lower][2];
+    if (next === undefined || !VOWELS.includes(next)) {
+      return initial === 'gi' ? 1 : -1;
+    }
+  }
+  return initial.length;
+};
+
+/**
+ * Split the vowel run after the initial into medial, nucleus and glide
+ * @returns The parts, or null if the run is not a valid Vietnamese vowel sequence
+ */
+const splitVowelRun = (
+  run: string,
+  hasInitialQu: boolean
+): { medial: string; nucleus: string; glide: string } | null => {
+  let medial = '';
+  if (!hasInitialQu && run.length > 1) {
+    const [first, second] = run;
+    if (
+      (first === 'o' && AFTER_MEDIAL_O.includes(second)) ||
+      (first === 'u' && AFTER_MEDIAL_U.includes(second))
+    ) {
+      medial = first;
+    }
+  }
+
+  const rest = run.slice(medial.length);
+  for (const nucleus of NUCLEI) {
+    if (!rest.startsWith(nucleus)) continue;
+    const glide = rest.slice(nucleus.length);
+    if (glide === '' || FINAL_GLIDES.includes(glide)) {
+      return { medial, nucleus, glide };
+    }
+  }
+  return null;
+};
+
+/**
+ * Parse a Vietnamese syllable into its parts.
+ * Accepts NFC or NFD input and either tone mark placement (hòa or hoà).
+ * "qu" is split into initial q and medial u; "gi" before another vowel is
+ * the initial, while in gì and gìn the i is the nucleus.
+ * @param syllable - A single syllable, in any letter case
+ * @returns The syllable's parts in the input's letter case, or null if it is
+ * not a well-formed Vietnamese syllable
+ */
+export const analyzeSyllable = (syllable: string): SyllableAnalysis | null => {
+  const { bare, tone } = splitTone(syllable.trim());
+  const chars = [...bare];
+  const lower = bare.toLowerCase();
+  if (chars.length === 0 || !/^\p{L}+$/u.test(bare)) return null;
+
+  const initialLength = matchInitial(lower);
+  // Bare "qu" without a following vowel
+  if (initialLength < 0) return null;
+
+  // qu is the initial q followed by the medial u
+  const hasInitialQu = lower.startsWith('qu') && initialLength === 2;
+  const consonantEnd = hasInitialQu ? 1 : initialLength;
+
+  const lowerChars = [...lower];
+  let vowelEnd = consonantEnd;
+  while (vowelEnd < lowerChars.length && VOWELS.includes(lowerChars[vowelEnd])) vowelEnd++;
+
+  const vowelRun = lowerChars.slice(initialLength, vowelEnd).join('');
+  const finalConsonant = lowerChars.slice(vowelEnd).join('');
+  if (!vowelRun || (finalConsonant && !FINAL_CONSONANTS.includes(finalConsonant))) return null;
+
+  const parts = splitVowelRun(vowelRun, hasInitialQu);
+  if (!parts || (parts.glide && finalConsonant)) return null;
+
+  // Slice the original characters to keep the input's letter case
+  const medialStart = consonantEnd;
+  const nucleusStart = initialLength + parts.medial.length;
+  const finalStart = nucleusStart + [...parts.nucleus].length;
+
+  return {
+    initial: chars.slice(0, consonantEnd).join(''),
+    medial: chars.slice(medialStart, nucleusStart).join(''),
+    nucleus: chars.slice(nucleusStart, finalStart).join(''),
+    final: chars.slice(finalStart).join(''),
+    tone,
+  };
+};
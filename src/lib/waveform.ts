@@ -0,0 +1,28 @@
+/**
+ * Waveform overview of a clip: peak levels per time slice
+ */
+
+/**
+ * Peak amplitude of each of `bins` equal slices of the samples
+ * @param samples - Mono PCM samples in [-1, 1]
+ * @param bins - Number of slices
+ * @returns Peaks scaled so the loudest slice is 1 (all 0 for silence)
+ */
+export const computeWaveformPeaks = (samples: Float32Array, bins: number): number[] => {
+  const count = Math.max(0, Math.floor(bins));
+  const peaks = new Array<number>(count).fill(0);
+  if (count === 0 || samples.length === 0) return peaks;
+
+  for (let bin = 0; bin < count; bin++) {
+    const start = Math.floor((bin * samples.length) / count);
+    const end = Math.max(start + 1, Math.floor(((bin + 1) * samples.length) / count));
+    let peak = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks[bin] = peak;
+  }
+
+  const loudest = Math.max(...peaks);
+  return loudest > 0 ? peaks.map((peak) => peak / loudest) : peaks;
+};
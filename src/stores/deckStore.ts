@@ -0,0 +1,283 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Deck, Word } from '@/types';
+import { getWordIndex } from '@/lib/content-repository';
+import { resolveDeckWords, type DeckInput } from '@/lib/decks';
+
+/**
+ * Actions available on the deck store
+ */
+interface DeckActions {
+  /** Create a deck (stored locally first, then uploaded) */
+  readonly createDeck: (input: DeckInput) => Deck;
+  /** Change some fields of a deck */
+  readonly updateDeck: (deckId: string, changes: Partial<DeckInput>) => void;
+  /** Delete a deck */
+  readonly deleteDeck: (deckId: string) => void;
+  /** Upload queued deck changes to the backend */
+  readonly flushPendingChanges: () => Promise<void>;
+  /** Upload queued changes, then merge in the decks stored on the backend */
+  readonly syncDecks: () => Promise<void>;
+}
+
+/**
+ * Complete deck store state including actions
+ */
+interface DeckState {
+  decks: Deck[];
+  // Decks created or edited locally and not yet uploaded
+  pending_deck_ids: string[];
+  // Decks deleted locally and not yet deleted on the backend
+  deleted_deck_ids: string[];
+  actions: DeckActions;
+}
+
+/** Version of the persisted state shape */
+const STORE_VERSION = 0 as const;
+
+/** Guard against overlapping uploads of queued changes */
+let isFlushingChanges = false;
+
+/** Set when changes are queued during an upload, so it runs again afterwards */
+let isFlushRequested = false;
+
+/**
+ * Request helper for the deck API. Throws only when the request cannot be
+ * sent (e.g. offline); callers check the status of the response.
+ * @returns The response, or null when the user is not signed in
+ */
+const deckRequest = async (url: string, options: RequestInit = {}): Promise<Response | null> => {
+  const response = await fetch(url, {
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+    ...options,
+  });
+
+  if (response.status === 401) {
+    return null;
+  }
+
+  return response;
+};
+
+/**
+ * Check whether the backend rejected a deck for good (invalid data or ID),
+ * so sending it again cannot succeed
+ */
+const isRejected = (response: Response): boolean =>
+  response.status >= 400 && response.status < 500 && response.status !== 409;
+
+const without = (ids: readonly string[], id: string) => ids.filter((other) => other !== id);
+
+/**
+ * Deck store with local persistence (decks work offline) and backend sync
+ */
+export const useDeckStore = create<DeckState>()(
+  persist(
+    (set, get) => ({
+      decks: [],
+      pending_deck_ids: [],
+      deleted_deck_ids: [],
+
+      actions: {
+        createDeck: (input: DeckInput): Deck => {
+          const now = new Date().toISOString();
+          const deck: Deck = {
+            id: crypto.randomUUID(),
+            name: input.name.trim(),
+            description: input.description,
+            word_ids: [...input.word_ids],
+            entries: [...input.entries],
+            created_at: now,
+            updated_at: now,
+          };
+
+          set({
+            decks: [...get().decks, deck],
+            pending_deck_ids: [...get().pending_deck_ids, deck.id],
+          });
+          void get().actions.flushPendingChanges();
+          return deck;
+        },
+
+        updateDeck: (deckId: string, changes: Partial<DeckInput>): void => {
+          const { decks, pending_deck_ids } = get();
+          set({
+            decks: decks.map((deck) =>
+              deck.id === deckId
+                ? {
+                    ...deck,
+                    ...changes,
+                    name: (changes.name ?? deck.name).trim(),
+                    updated_at: new Date().toISOString(),
+                  }
+                : deck
+            ),
+            pending_deck_ids: [...without(pending_deck_ids, deckId), deckId],
+          });
+          void get().actions.flushPendingChanges();
+        },
+
+        deleteDeck: (deckId: string): void => {
+          const { decks, pending_deck_ids, deleted_deck_ids } = get();
+          set({
+            decks: decks.filter((deck) => deck.id !== deckId),
+            pending_deck_ids: without(pending_deck_ids, deckId),
+            deleted_deck_ids: [...without(deleted_deck_ids, deckId), deckId],
+          });
+          void get().actions.flushPendingChanges();
+        },
+
+        // Upload queued changes one deck at a time. A deck the backend fails
+        // on stays queued for the next upload without holding up the others.
+        flushPendingChanges: async (): Promise<void> => {
+          if (isFlushingChanges) {
+            isFlushRequested = true;
+            return;
+          }
+
+          isFlushingChanges = true;
+          isFlushRequested = false;
+          try {
+            for (const deckId of get().deleted_deck_ids) {
+              const response = await deckRequest(`/api/decks/${deckId}`, { method: 'DELETE' });
+              if (!response) return;
+              if (!response.ok && !isRejected(response)) {
+                console.warn(`Failed to delete deck ${deckId} on backend: ${response.status}`);
+                continue;
+              }
+              set({ deleted_deck_ids: without(get().deleted_deck_ids, deckId) });
+            }
+
+            for (const deckId of get().pending_deck_ids) {
+              const deck = get().decks.find((candidate) => candidate.id === deckId);
+              if (!deck) {
+                set({ pending_deck_ids: without(get().pending_deck_ids, deckId) });
+                continue;
+              }
+
+              const response = await deckRequest(`/api/decks/${deckId}`, {
+                method: 'PUT',
+                body: JSON.stringify(deck),
+              });
+              if (!response) return;
+
+              if (isRejected(response)) {
+                // Keep the deck on this device only
+                console.warn(`Backend rejected deck ${deckId}: ${response.status}`);
+                set({ pending_deck_ids: without(get().pending_deck_ids, deckId) });
+                continue;
+              }
+              if (!response.ok && response.status !== 409) {
+                console.warn(`Failed to upload deck ${deckId}: ${response.status}`);
+                continue;
+              }
+
+              // A conflict carries the newer server copy
+              const { deck: saved } = (await response.json()) as { deck: Deck };
+              const current = get().decks.find((candidate) => candidate.id === deckId);
+              // Take the server copy unless the deck was edited again meanwhile;
+              // on a conflict the server copy is newer than any local edit
+              if (current && (response.status === 409 || current.updated_at === deck.updated_at)) {
+                set({
+                  decks: get().decks.map((other) => (other.id === deckId ? saved : other)),
+                  pending_deck_ids: without(get().pending_deck_ids, deckId),
+                });
+              }
+            }
+          } catch (error) {
+            console.warn('Failed to sync decks to backend:', error);
+          } finally {
+            isFlushingChanges = false;
+          }
+
+          // Upload edits made while this upload was running
+          const { pending_deck_ids, deleted_deck_ids } = get();
+          if (isFlushRequested && (pending_deck_ids.length > 0 || deleted_deck_ids.length > 0)) {
+            await get().actions.flushPendingChanges();
+          }
+        },
+
+        syncDecks: async (): Promise<void> => {
+          await get().actions.flushPendingChanges();
+
+          try {
+            const response = await deckRequest('/api/decks');
+            if (!response) return;
+            const { decks: serverDecks } = (await response.json()) as { decks: Deck[] };
+
+            const { decks, pending_deck_ids, deleted_deck_ids } = get();
+            const localById = new Map(decks.map((deck) => [deck.id, deck]));
+            const merged = serverDecks
+              .filter((deck) => !deleted_deck_ids.includes(deck.id))
+              .map((deck) => {
+                const local = localById.get(deck.id);
+                return local && pending_deck_ids.includes(deck.id) ? local : deck;
+              });
+            // Decks not uploaded yet; anything else missing was deleted elsewhere
+            const unsent = decks.filter(
+              (deck) =>
+                pending_deck_ids.includes(deck.id) &&
+                !serverDecks.some((serverDeck) => serverDeck.id === deck.id)
+            );
+
+            set({ decks: [...merged, ...unsent] });
+          } catch (error) {
+            console.warn('Failed to fetch decks from backend:', error);
+          }
+        },
+      },
+    }),
+    {
+      name: 'deck-storage',
+      version: STORE_VERSION,
+      // Partial persistence to avoid storing actions
+      partialize: (state) => ({
+        decks: state.decks,
+        pending_deck_ids: state.pending_deck_ids,
+        deleted_deck_ids: state.deleted_deck_ids,
+      }),
+    }
+  )
+);
+
+// ============================================================================
+// Selector Hooks and Helpers
+// ============================================================================
+
+/**
+ * Hook to get every deck
+ */
+export const useDecks = () => {
+  return useDeckStore((state) => state.decks);
+};
+
+/**
+ * Hook to get one deck
+ * @param deckId - Deck ID
+ */
+export const useDeck = (deckId: string | null) => {
+  return useDeckStore((state) => state.decks.find((deck) => deck.id === deckId));
+};
+
+/**
+ * Hook to get deck actions only
+ */
+export const useDeckActions = () => {
+  return useDeckStore((state) => state.actions);
+};
+
+/**
+ * Load the words of a deck for the flashcard and quiz pages
+ * @param deckId - Deck ID
+ * @returns The deck's words
+ */
+export const loadDeckWords = async (deckId: string): Promise<Word[]> => {
+  const deck = useDeckStore.getState().decks.find((candidate) => candidate.id === deckId);
+  if (!deck) {
+    throw new Error(`Unknown deck: ${deckId}`);
+  }
+  return resolveDeckWords(deck, await getWordIndex());
+};
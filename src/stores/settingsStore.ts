@@ -0,0 +1,66 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Dialect } from '@/types';
+import { DEFAULT_DIALECT } from '@/lib/dialects';
+
+/**
+ * Actions available on the settings store
+ */
+interface SettingsActions {
+  /** Choose the dialect for readings, recordings and vocabulary */
+  readonly setDialect: (dialect: Dialect) => void;
+}
+
+/**
+ * Complete settings store state including actions
+ */
+interface SettingsState {
+  dialect: Dialect;
+  actions: SettingsActions;
+}
+
+/** Version of the persisted state shape */
+const STORE_VERSION = 0 as const;
+
+/**
+ * Learner preferences, kept on this device
+ */
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      dialect: DEFAULT_DIALECT,
+
+      actions: {
+        setDialect: (dialect: Dialect): void => {
+          set({ dialect });
+        },
+      },
+    }),
+    {
+      name: 'settings-storage',
+      version: STORE_VERSION,
+      // Partial persistence to avoid storing actions
+      partialize: (state) => ({
+        dialect: state.dialect,
+      }),
+    }
+  )
+);
+
+// ============================================================================
+// Selector Hooks
+// ============================================================================
+
+/**
+ * Hook to get the chosen dialect
+ */
+export const useDialect = () => {
+  return useSettingsStore((state) => state.dialect);
+};
+
+/**
+ * Hook to get settings actions only
+ */
+export const useSettingsActions = () => {
+  return useSettingsStore((state) => state.actions);
+};
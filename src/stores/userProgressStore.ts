@@ -1,14 +1,42 @@
+import { useEffect, useState } from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { UserProgress, StudySession } from '@/types';
+import type {
+  UserProgress,
+  StudySession,
+  ActivityType,
+  PronunciationResult,
+  ReviewGrade,
+  ToneConfusionMatrix,
+  ToneId,
+  WordMemoryState,
+  WordReview,
+} from '@/types';
+import {
+  scheduleReview,
+  isMemoryLearned,
+  deriveLearnedWords,
+  getDueWordIds,
+} from '@/lib/spaced-repetition';
 
 /**
  * Actions available on the user progress store
  */
 interface UserProgressActions {
-  /** Add a word to the learned words list */
-  readonly addLearnedWord: (wordId: string) => Promise<void>;
-  /** Remove a word from the learned words list */
+  /** Record a flashcard or quiz outcome and reschedule the word */
+  readonly recordReview: (
+    wordId: string,
+    grade: ReviewGrade,
+    activityType: ActivityType,
+    responseTimeMs?: number
+  ) => Promise<void>;
+  /** Upload queued review events to the backend */
+  readonly flushPendingReviews: () => Promise<void>;
+  /** Count one tone discrimination answer in the confusion matrix */
+  readonly recordToneDiscrimination: (played: ToneId, chosen: ToneId) => void;
+  /** Store the pitch similarity score of a speaking practice recording */
+  readonly recordPronunciation: (wordId: string, score: number) => void;
+  /** Forget a word, clearing its memory state */
   readonly removeLearnedWord: (wordId: string) => Promise<void>;
   /** Add experience points and potentially level up */
   readonly addExperiencePoints: (points: number) => Promise<void>;
@@ -20,6 +48,8 @@ interface UserProgressActions {
   readonly resetProgress: () => void;
   /** Check if a specific word has been learned */
   readonly isWordLearned: (wordId: string) => boolean;
+  /** Get the spaced-repetition memory state of a word */
+  readonly getWordMemory: (wordId: string) => WordMemoryState | undefined;
   /** Get statistics for display */
   readonly getStats: () => UserProgressStats;
   /** Get progress towards next level */
@@ -41,7 +71,14 @@ type SyncStatus = 'idle' | 'syncing' | 'error' | 'offline';
 interface UserProgressState extends UserProgress {
   // Make state properties mutable for Zustand
   learned_words: string[];
+  word_memory: Record<string, WordMemoryState>;
   study_sessions: StudySession[];
+  // Review events not yet uploaded to the backend
+  pending_reviews: WordReview[];
+  // Tone minimal-pair drill answers
+  tone_confusion: ToneConfusionMatrix;
+  // Speaking practice scores by word
+  pronunciation_results: Record<string, PronunciationResult>;
   // Sync status
   syncStatus: SyncStatus;
   lastSyncTime: string;
@@ -78,20 +115,46 @@ const POINTS_PER_LEVEL = 100 as const;
 /** Maximum study sessions to keep in memory for performance */
 const MAX_STUDY_SESSIONS = 1000 as const;
 
+/** Maximum queued review events kept while offline */
+const MAX_PENDING_REVIEWS = 5000 as const;
+
+/** Review events uploaded per request (matches the /api/reviews batch limit) */
+const REVIEW_BATCH_SIZE = 500 as const;
+
+/** Wait before retrying a failed review upload, doubled after each further failure */
+const REVIEW_RETRY_BASE_MS = 30 * 1000;
+
+/** Longest wait between review uploads, also used while signed out */
+const REVIEW_RETRY_MAX_MS = 10 * 60 * 1000;
+
+/** How often the due word count is recomputed while the page stays open */
+const DUE_COUNT_REFRESH_MS = 60 * 1000;
+
+/** Version of the persisted state shape (1: per-word memory state) */
+const STORE_VERSION = 1 as const;
+
 /** Default user progress data with proper typing */
-const defaultUserProgress: Omit<UserProgress, 'learned_words' | 'study_sessions'> & {
+const defaultUserProgress: Omit<UserProgress, 'learned_words' | 'word_memory' | 'study_sessions'> & {
   learned_words: string[];
+  word_memory: Record<string, WordMemoryState>;
   study_sessions: StudySession[];
+  pending_reviews: WordReview[];
+  tone_confusion: ToneConfusionMatrix;
+  pronunciation_results: Record<string, PronunciationResult>;
   syncStatus: SyncStatus;
   lastSyncTime: string;
 } = {
   user_id: 'default_user',
   learned_words: [],
+  word_memory: {},
   current_level: 1,
   experience_points: 0,
   streak_days: 0,
   last_study_date: '',
   study_sessions: [],
+  pending_reviews: [],
+  tone_confusion: {},
+  pronunciation_results: {},
   syncStatus: 'idle',
   lastSyncTime: '',
 } as const;
@@ -119,6 +182,32 @@ const getYesterdayDateString = (): string => {
   return yesterday.toISOString().split('T')[0];
 };
 
+/**
+ * Seed memory state for words that were marked learned without review history
+ * (pre-scheduler local data or learned words coming from the backend)
+ */
+const seedLearnedWords = (
+  memory: Record<string, WordMemoryState>,
+  wordIds: readonly string[]
+): Record<string, WordMemoryState> => {
+  const seeded = { ...memory };
+  for (const wordId of wordIds) {
+    if (!seeded[wordId]) {
+      seeded[wordId] = scheduleReview(undefined, 'good');
+    }
+  }
+  return seeded;
+};
+
+/** Guard against overlapping uploads of the review queue */
+let isFlushingReviews = false;
+
+/** Epoch milliseconds before which review uploads are skipped after a failure */
+let reviewRetryAt = 0;
+
+/** Failed review uploads in a row */
+let reviewFailureCount = 0;
+
 /**
  * API call helper with error handling
  */
@@ -147,35 +236,131 @@ export const useUserProgressStore = create<UserProgressState>()(
       ...defaultUserProgress,
 
       actions: {
-        // Add word to learned words list (with backend sync)
-        addLearnedWord: async (wordId: string): Promise<void> => {
-          const { learned_words, syncStatus } = get();
-          
-          if (!learned_words.includes(wordId)) {
-            // Update local state immediately
-            set({
-              learned_words: [...learned_words, wordId],
-            });
+        // Reschedule a word from a review outcome (with backend sync)
+        recordReview: async (
+          wordId: string,
+          grade: ReviewGrade,
+          activityType: ActivityType,
+          responseTimeMs?: number
+        ): Promise<void> => {
+          const { word_memory, pending_reviews, syncStatus } = get();
+          const previousState = word_memory[wordId];
+          const nextState = scheduleReview(previousState, grade);
+          const updatedMemory = { ...word_memory, [wordId]: nextState };
+
+          const review: WordReview = {
+            word_id: wordId,
+            activity_type: activityType,
+            is_correct: grade !== 'again',
+            grade,
+            response_time_ms: responseTimeMs,
+            reviewed_at: nextState.last_reviewed,
+          };
+
+          // Update local state immediately
+          set({
+            word_memory: updatedMemory,
+            learned_words: deriveLearnedWords(updatedMemory),
+            pending_reviews: [...pending_reviews, review].slice(-MAX_PENDING_REVIEWS),
+          });
+
+          // Upload in the background so answering never waits on the network
+          void get().actions.flushPendingReviews();
+
+          // Sync learned status with backend only when it changes
+          const wasLearned = isMemoryLearned(previousState);
+          const isLearned = isMemoryLearned(nextState);
+          if (wasLearned !== isLearned && syncStatus !== 'offline') {
+            try {
+              await apiCall('/api/progress/words', {
+                method: 'PATCH',
+                body: JSON.stringify({ wordId, action: isLearned ? 'add' : 'remove' }),
+              });
+            } catch (error) {
+              console.warn('Failed to sync word review to backend:', error);
+            }
+          }
+        },
 
-            // Sync with backend if online
-            if (syncStatus !== 'offline') {
-              try {
-                await apiCall('/api/progress/words', {
-                  method: 'PATCH',
-                  body: JSON.stringify({ wordId, action: 'add' }),
-                });
-              } catch (error) {
-                console.warn('Failed to sync word addition to backend:', error);
+        // Upload queued review events in batches, backing off after failures
+        flushPendingReviews: async (): Promise<void> => {
+          if (isFlushingReviews || get().syncStatus === 'offline' || Date.now() < reviewRetryAt) {
+            return;
+          }
+
+          isFlushingReviews = true;
+          try {
+            let batch = get().pending_reviews.slice(0, REVIEW_BATCH_SIZE);
+            while (batch.length > 0) {
+              const response = await fetch('/api/reviews', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ reviews: batch }),
+              });
+
+              // Signed out: keep the queue until the learner signs in
+              if (response.status === 401) {
+                reviewRetryAt = Date.now() + REVIEW_RETRY_MAX_MS;
+                return;
+              }
+              if (!response.ok) {
+                throw new Error(`API call failed: ${response.status} ${response.statusText}`);
               }
+
+              // Drop only what was sent; reviews may have been queued meanwhile
+              set({ pending_reviews: get().pending_reviews.slice(batch.length) });
+              batch = get().pending_reviews.slice(0, REVIEW_BATCH_SIZE);
             }
+            reviewFailureCount = 0;
+          } catch (error) {
+            reviewFailureCount += 1;
+            reviewRetryAt =
+              Date.now() +
+              Math.min(REVIEW_RETRY_BASE_MS * 2 ** (reviewFailureCount - 1), REVIEW_RETRY_MAX_MS);
+            console.warn('Failed to sync reviews to backend:', error);
+          } finally {
+            isFlushingReviews = false;
           }
         },
 
-        // Remove word from learned words list (with backend sync)
+        // Count a minimal-pair answer (local only)
+        recordToneDiscrimination: (played: ToneId, chosen: ToneId): void => {
+          const { tone_confusion } = get();
+          const row = tone_confusion[played] ?? {};
+          set({
+            tone_confusion: {
+              ...tone_confusion,
+              [played]: { ...row, [chosen]: (row[chosen] ?? 0) + 1 },
+            },
+          });
+        },
+
+        // Keep the latest and best speaking score (local only, not a vocabulary review)
+        recordPronunciation: (wordId: string, score: number): void => {
+          const { pronunciation_results } = get();
+          const previous = pronunciation_results[wordId];
+          set({
+            pronunciation_results: {
+              ...pronunciation_results,
+              [wordId]: {
+                last_score: score,
+                best_score: Math.max(score, previous?.best_score ?? 0),
+                attempts: (previous?.attempts ?? 0) + 1,
+                last_attempted: new Date().toISOString(),
+              },
+            },
+          });
+        },
+
+        // Forget a word entirely (with backend sync)
         removeLearnedWord: async (wordId: string): Promise<void> => {
+          const remainingMemory = { ...get().word_memory };
+          delete remainingMemory[wordId];
+
           // Update local state immediately
           set({
-            learned_words: get().learned_words.filter((id) => id !== wordId),
+            word_memory: remainingMemory,
+            learned_words: deriveLearnedWords(remainingMemory),
           });
 
           // Sync with backend if online
@@ -287,9 +472,14 @@ export const useUserProgressStore = create<UserProgressState>()(
           });
         },
 
-        // Check if word is in learned list
+        // Check if word is learned according to its memory state
         isWordLearned: (wordId: string): boolean => {
-          return get().learned_words.includes(wordId);
+          return isMemoryLearned(get().word_memory[wordId]);
+        },
+
+        // Get memory state for a single word
+        getWordMemory: (wordId: string): WordMemoryState | undefined => {
+          return get().word_memory[wordId];
         },
 
         // Get comprehensive statistics
@@ -324,7 +514,7 @@ export const useUserProgressStore = create<UserProgressState>()(
           }
           
           return {
-            totalWordsLearned: state.learned_words.length,
+            totalWordsLearned: deriveLearnedWords(state.word_memory).length,
             totalXpEarned: state.experience_points,
             totalSessionsCompleted: sessions.length,
             averageSessionDuration: Math.round(averageDuration * 100) / 100,
@@ -355,6 +545,11 @@ export const useUserProgressStore = create<UserProgressState>()(
           set({ syncStatus: 'syncing' });
 
           try {
+            // Upload queued review history before the aggregate progress;
+            // an explicit sync does not wait out the retry delay
+            reviewRetryAt = 0;
+            await get().actions.flushPendingReviews();
+
             // First, upload local data
             await apiCall('/api/progress/sync', {
               method: 'POST',
@@ -376,8 +571,13 @@ export const useUserProgressStore = create<UserProgressState>()(
             });
 
             // Merge server data with local state
+            const mergedMemory = seedLearnedWords(
+              get().word_memory,
+              serverData.progress.learnedWords || []
+            );
             set({
-              learned_words: serverData.progress.learnedWords || [],
+              word_memory: mergedMemory,
+              learned_words: deriveLearnedWords(mergedMemory),
               current_level: serverData.progress.currentLevel || 1,
               experience_points: serverData.progress.experiencePoints || 0,
               streak_days: serverData.progress.streakDays || 0,
@@ -401,15 +601,33 @@ export const useUserProgressStore = create<UserProgressState>()(
     }),
     {
       name: 'user-progress-storage',
+      version: STORE_VERSION,
+      // Convert the old binary learned_words list into memory state
+      migrate: (persistedState, version) => {
+        const state = persistedState as Partial<UserProgressState>;
+        if (version < 1) {
+          const wordMemory = seedLearnedWords({}, state.learned_words ?? []);
+          return {
+            ...state,
+            word_memory: wordMemory,
+            learned_words: deriveLearnedWords(wordMemory),
+          } as UserProgressState;
+        }
+        return state as UserProgressState;
+      },
       // Partial persistence to avoid storing actions
       partialize: (state) => ({
         user_id: state.user_id,
         learned_words: state.learned_words,
+        word_memory: state.word_memory,
         current_level: state.current_level,
         experience_points: state.experience_points,
         streak_days: state.streak_days,
         last_study_date: state.last_study_date,
         study_sessions: state.study_sessions,
+        pending_reviews: state.pending_reviews,
+        tone_confusion: state.tone_confusion,
+        pronunciation_results: state.pronunciation_results,
         syncStatus: state.syncStatus,
         lastSyncTime: state.lastSyncTime,
       }),
@@ -428,6 +646,7 @@ export const useUserProgress = () => {
   return useUserProgressStore((state) => ({
     user_id: state.user_id,
     learned_words: state.learned_words,
+    word_memory: state.word_memory,
     current_level: state.current_level,
     experience_points: state.experience_points,
     streak_days: state.streak_days,
@@ -466,6 +685,38 @@ export const useIsWordLearned = (wordId: string) => {
   return useUserProgressStore((state) => state.actions.isWordLearned(wordId));
 };
 
+/**
+ * Hook to get the number of words due for review now. The clock is re-read
+ * every minute and when the page becomes visible again, so words falling
+ * due while the app stays open are counted.
+ */
+export const useDueWordCount = () => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const refresh = () => {
+      if (document.visibilityState === 'visible') setNow(new Date());
+    };
+    const timer = setInterval(refresh, DUE_COUNT_REFRESH_MS);
+    document.addEventListener('visibilitychange', refresh);
+    window.addEventListener('focus', refresh);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', refresh);
+      window.removeEventListener('focus', refresh);
+    };
+  }, []);
+
+  return useUserProgressStore((state) => getDueWordIds(state.word_memory, now).length);
+};
+
+/**
+ * Hook to get the tone minimal-pair confusion matrix
+ */
+export const useToneConfusion = () => {
+  return useUserProgressStore((state) => state.tone_confusion);
+};
+
 /**
  * Hook to get sync status
  */
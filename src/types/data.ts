@@ -9,6 +9,7 @@ import type {
   Tone, 
   CategoryId, 
   DifficultyLevel,
+  Dialect,
   ToneId 
 } from './index';
 
@@ -46,6 +47,8 @@ export interface RawWordData {
     readonly vietnamese: string;
     readonly japanese: string;
   };
+  readonly tags?: unknown;
+  readonly dialects?: unknown;
 }
 
 /**
@@ -100,11 +103,12 @@ export interface ValidationError {
 // ============================================================================
 
 /**
- * Type guard to check if a string is a valid CategoryId
+ * Check that a category ID can name a word file (lowercase letters, digits
+ * and hyphens). Whether categories.json lists it is checked by isCategoryId
+ * in lib/categories.
  */
-export const isValidCategoryId = (value: unknown): value is CategoryId => {
-  return typeof value === 'string' && 
-    ['greetings', 'numbers', 'daily', 'food', 'business'].includes(value);
+const isCategoryIdFormat = (value: unknown): value is CategoryId => {
+  return typeof value === 'string' && /^[a-z][a-z0-9-]*$/.test(value);
 };
 
 /**
@@ -115,6 +119,13 @@ export const isValidDifficultyLevel = (value: unknown): value is DifficultyLevel
     ['beginner', 'intermediate', 'advanced'].includes(value);
 };
 
+/**
+ * Type guard to check if a string is a valid Dialect
+ */
+export const isValidDialect = (value: unknown): value is Dialect => {
+  return typeof value === 'string' && ['north', 'south'].includes(value);
+};
+
 /**
  * Type guard to check if a string is a valid ToneId
  */
@@ -137,7 +148,7 @@ export const validateCategory = (raw: unknown): ValidationResult<Category> => {
 
   if (!data.id || typeof data.id !== 'string') {
     errors.push('Category ID must be a non-empty string');
-  } else if (!isValidCategoryId(data.id)) {
+  } else if (!isCategoryIdFormat(data.id)) {
     errors.push(`Invalid category ID: ${data.id}`);
   }
 
@@ -193,6 +204,46 @@ export const validateCategory = (raw: unknown): ValidationResult<Category> => {
   };
 };
 
+/**
+ * Check the dialect overrides of a word
+ * @returns Error messages (empty when valid)
+ */
+const validateDialects = (raw: unknown): string[] => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return ['Dialects must be an object keyed by dialect'];
+  }
+
+  const errors: string[] = [];
+  Object.entries(raw as Record<string, unknown>).forEach(([dialect, variant]) => {
+    if (!isValidDialect(dialect)) {
+      errors.push(`Invalid dialect: ${dialect}`);
+      return;
+    }
+    if (!variant || typeof variant !== 'object') {
+      errors.push(`Dialect ${dialect} must be an object`);
+      return;
+    }
+
+    const data = variant as Record<string, unknown>;
+    (['vietnamese', 'pronunciation', 'audio_url'] as const).forEach((field) => {
+      if (data[field] !== undefined && (!data[field] || typeof data[field] !== 'string')) {
+        errors.push(`Dialect ${dialect} ${field} must be a non-empty string`);
+      }
+    });
+    if (data.vietnamese !== undefined && data.pronunciation === undefined) {
+      errors.push(`Dialect ${dialect} word needs its own pronunciation`);
+    }
+    if (data.example_sentence !== undefined) {
+      const sentence = data.example_sentence as Record<string, unknown> | null;
+      if (!sentence?.vietnamese || typeof sentence.vietnamese !== 'string' ||
+        !sentence.japanese || typeof sentence.japanese !== 'string') {
+        errors.push(`Dialect ${dialect} example sentence needs Vietnamese and Japanese text`);
+      }
+    }
+  });
+  return errors;
+};
+
 /**
  * Validate and transform raw word data
  */
@@ -225,7 +276,7 @@ export const validateWord = (raw: unknown): ValidationResult<Word> => {
     errors.push('Audio URL must be a non-empty string');
   }
 
-  if (!isValidCategoryId(data.category)) {
+  if (!isCategoryIdFormat(data.category)) {
     errors.push(`Invalid category: ${data.category}`);
   }
 
@@ -243,6 +294,17 @@ export const validateWord = (raw: unknown): ValidationResult<Word> => {
     }
   }
 
+  if (
+    data.tags !== undefined &&
+    (!Array.isArray(data.tags) || !data.tags.every((tag) => tag && typeof tag === 'string'))
+  ) {
+    errors.push('Tags must be an array of non-empty strings');
+  }
+
+  if (data.dialects !== undefined) {
+    errors.push(...validateDialects(data.dialects));
+  }
+
   if (errors.length > 0) {
     return { success: false, errors };
   }
@@ -258,6 +320,8 @@ export const validateWord = (raw: unknown): ValidationResult<Word> => {
       category: data.category as CategoryId,
       difficulty: data.difficulty as DifficultyLevel,
       example_sentence: data.example_sentence,
+      ...(data.tags !== undefined && { tags: data.tags as string[] }),
+      ...(data.dialects !== undefined && { dialects: data.dialects as Word['dialects'] }),
     },
   };
 };
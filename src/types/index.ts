@@ -18,6 +18,33 @@ export interface Word {
   readonly difficulty: DifficultyLevel;
   /** Optional example sentence with translation */
   readonly example_sentence?: ExampleSentence;
+  /** Optional topic tags (e.g. "restaurant", "meeting") */
+  readonly tags?: readonly string[];
+  /**
+   * Optional per-dialect overrides of the fields above, which hold the
+   * default form. See applyDialect in lib/dialects.
+   */
+  readonly dialects?: Readonly<Partial<Record<Dialect, DialectVariant>>>;
+}
+
+/**
+ * Regional variety of Vietnamese
+ */
+export type Dialect = 'north' | 'south';
+
+/**
+ * How a word differs in one dialect. Set vietnamese for a different word
+ * (e.g. "bắp" for "ngô"); set only pronunciation and audio_url when the
+ * word is the same but said differently.
+ */
+export interface DialectVariant {
+  readonly vietnamese?: string;
+  /** Katakana pronunciation guide for this dialect */
+  readonly pronunciation?: string;
+  /** Audio file URL of a speaker of this dialect */
+  readonly audio_url?: string;
+  /** Example sentence using this dialect's word */
+  readonly example_sentence?: ExampleSentence;
 }
 
 /**
@@ -26,6 +53,8 @@ export interface Word {
 export interface ExampleSentence {
   readonly vietnamese: string;
   readonly japanese: string;
+  /** Audio file URL for the whole sentence, when recorded */
+  readonly audio_url?: string;
 }
 
 /**
@@ -34,15 +63,16 @@ export interface ExampleSentence {
 export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
 
 /**
- * Valid category IDs - must match data file names
+ * Category ID as listed in categories.json - must match the word file name.
+ * See CATEGORY_IDS in lib/categories for the registered IDs.
  */
-export type CategoryId = 'greetings' | 'numbers' | 'daily' | 'food' | 'business';
+export type CategoryId = string;
 
 /**
  * Learning category for organizing words
  */
 export interface Category {
-  /** Unique identifier matching CategoryId type */
+  /** Unique identifier, also the word file name */
   readonly id: CategoryId;
   /** Japanese display name */
   readonly name: string;
@@ -62,6 +92,35 @@ export interface Category {
   readonly order: number;
 }
 
+/**
+ * Personal word a user added to a custom deck
+ */
+export interface DeckEntry {
+  /** Unique identifier within the deck */
+  readonly id: string;
+  readonly vietnamese: string;
+  readonly japanese: string;
+  /** Katakana pronunciation guide */
+  readonly pronunciation: string;
+  readonly example_sentence?: ExampleSentence;
+}
+
+/**
+ * User-created deck of catalog words and personal entries
+ */
+export interface Deck {
+  /** Unique identifier (UUID, created on the client so decks work offline) */
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  /** IDs of words picked from the shipped catalog */
+  readonly word_ids: readonly string[];
+  /** Personal entries that are not in the catalog */
+  readonly entries: readonly DeckEntry[];
+  readonly created_at: string; // ISO date string
+  readonly updated_at: string; // ISO date string
+}
+
 /**
  * Vietnamese alphabet letter with pronunciation
  */
@@ -111,6 +170,28 @@ export interface ToneExample {
  */
 export type ToneId = 'ngang' | 'huyền' | 'sắc' | 'hỏi' | 'ngã' | 'nặng';
 
+/**
+ * Answer counts of tone discrimination drills:
+ * played tone → chosen tone → count (the diagonal counts correct answers)
+ */
+export type ToneConfusionMatrix = Readonly<
+  Partial<Record<ToneId, Readonly<Partial<Record<ToneId, number>>>>>
+>;
+
+/**
+ * Pitch similarity results of speaking practice for one word
+ */
+export interface PronunciationResult {
+  /** Similarity score (0-100) of the latest recording */
+  readonly last_score: number;
+  /** Best similarity score so far */
+  readonly best_score: number;
+  /** Number of scored recordings */
+  readonly attempts: number;
+  /** ISO timestamp of the latest recording */
+  readonly last_attempted: string;
+}
+
 /**
  * Study session record
  */
@@ -136,14 +217,57 @@ export interface StudySession {
  */
 export type ActivityType = 'flashcard' | 'quiz' | 'learning';
 
+/**
+ * How well a word was recalled during a review
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * Spaced-repetition memory state of a single word (SM-2)
+ */
+export interface WordMemoryState {
+  /** Ease factor controlling interval growth (>= 1.3) */
+  readonly ease_factor: number;
+  /** Current review interval in days (0 while relearning) */
+  readonly interval_days: number;
+  /** Consecutive successful reviews since the last lapse */
+  readonly repetitions: number;
+  /** Number of times the word was forgotten after being learned */
+  readonly lapses: number;
+  /** ISO timestamp when the word is next due for review */
+  readonly due_date: string;
+  /** ISO timestamp of the most recent review (empty if never reviewed) */
+  readonly last_reviewed: string;
+}
+
+/**
+ * A single review event of a word (one flashcard swipe or quiz answer)
+ */
+export interface WordReview {
+  /** Reviewed word ID */
+  readonly word_id: string;
+  /** Activity in which the review happened */
+  readonly activity_type: ActivityType;
+  /** Whether the word was recalled correctly */
+  readonly is_correct: boolean;
+  /** Scheduler grade derived from the answer */
+  readonly grade?: ReviewGrade;
+  /** Time from prompt to answer in milliseconds, if measured */
+  readonly response_time_ms?: number;
+  /** ISO timestamp of the review */
+  readonly reviewed_at: string;
+}
+
 /**
  * User progress and learning state
  */
 export interface UserProgress {
   /** Unique user identifier */
   readonly user_id: string;
-  /** Array of learned word IDs */
+  /** Array of learned word IDs (derived from word_memory) */
   readonly learned_words: readonly string[];
+  /** Spaced-repetition memory state keyed by word ID */
+  readonly word_memory: Readonly<Record<string, WordMemoryState>>;
   /** Current user level (1-based) */
   readonly current_level: number;
   /** Total experience points earned */
@@ -157,7 +281,7 @@ export interface UserProgress {
 }
 
 /**
- * Quiz question with multiple choice answers
+ * Quiz question, either multiple choice or free text
  */
 export interface QuizQuestion {
   /** Unique question identifier */
@@ -166,20 +290,31 @@ export interface QuizQuestion {
   readonly type: QuizType;
   /** Question text to display */
   readonly question: string;
-  /** Available answer options */
-  readonly options: readonly [string, string, string, string]; // Exactly 4 options
-  /** The correct answer (must be one of the options) */
+  /** Available answer options; absent for typed-answer questions */
+  readonly options?: readonly [string, string, string, string]; // Exactly 4 options
+  /** The correct answer (must be one of the options, if any) */
   readonly correct_answer: string;
   /** Associated word ID */
   readonly word_id: string;
   /** Audio URL for listening questions */
   readonly audio_url?: string;
+  /** Syllable asked about in single-syllable tone questions (0-based) */
+  readonly syllable_index?: number;
 }
 
 /**
  * Types of quiz questions available
  */
-export type QuizType = 'ja-to-vi' | 'vi-to-ja' | 'listening';
+export type QuizType =
+  | 'ja-to-vi'
+  | 'vi-to-ja'
+  | 'listening'
+  | 'typing'
+  | 'dictation'
+  | 'sentence'
+  | 'cloze'
+  | 'tone'
+  | 'speaking';
 
 /**
  * Quiz completion results
@@ -239,20 +374,12 @@ export interface TimeStamp {
 // Type Guards
 // ============================================================================
 
-/**
- * Type guard to check if a value is a valid CategoryId
- */
-export const isCategoryId = (value: unknown): value is CategoryId => {
-  return typeof value === 'string' && 
-    ['greetings', 'numbers', 'daily', 'food', 'business'].includes(value);
-};
-
 /**
  * Type guard to check if a value is a valid QuizType
  */
 export const isQuizType = (value: unknown): value is QuizType => {
   return typeof value === 'string' && 
-    ['ja-to-vi', 'vi-to-ja', 'listening'].includes(value);
+    ['ja-to-vi', 'vi-to-ja', 'listening', 'typing', 'dictation', 'sentence', 'cloze', 'tone', 'speaking'].includes(value);
 };
 
 /**
@@ -263,6 +390,14 @@ export const isActivityType = (value: unknown): value is ActivityType => {
     ['flashcard', 'quiz', 'learning'].includes(value);
 };
 
+/**
+ * Type guard to check if a value is a valid ReviewGrade
+ */
+export const isReviewGrade = (value: unknown): value is ReviewGrade => {
+  return typeof value === 'string' && 
+    ['again', 'hard', 'good', 'easy'].includes(value);
+};
+
 // ============================================================================
 // Re-exports from other type modules
 // ============================================================================
@@ -282,7 +417,6 @@ export type {
 } from './next';
 
 export {
-  isValidRoute,
   KEYBOARD_SHORTCUTS,
 } from './next';
 
@@ -297,7 +431,6 @@ export type {
 } from './data';
 
 export {
-  isValidCategoryId,
   isValidDifficultyLevel,
   isValidToneId,
   validateCategory,
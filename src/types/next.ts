@@ -41,32 +41,13 @@ export type AppRoute =
   | '/learn/alphabet'
   | '/learn/tones'
   | '/learn/tones/quiz'
-  | '/progress';
-
-/**
- * Type guard to check if a path is a valid app route
- */
-export const isValidRoute = (path: string): path is AppRoute => {
-  const validPaths = [
-    '/',
-    '/flashcards',
-    '/flashcards/greetings',
-    '/flashcards/numbers', 
-    '/flashcards/daily',
-    '/flashcards/food',
-    '/flashcards/business',
-    '/quiz',
-    '/quiz/ja-to-vi',
-    '/quiz/vi-to-ja',
-    '/quiz/listening',
-    '/learn/alphabet',
-    '/learn/tones',
-    '/learn/tones/quiz',
-    '/progress',
-  ];
-  
-  return validPaths.includes(path as AppRoute);
-};
+  | '/learn/tones/pairs'
+  | '/review'
+  | '/progress'
+  | '/studio'
+  | '/decks'
+  | '/decks/import'
+  | `/decks/${string}`;
 
 /**
  * Keyboard shortcut configuration
@@ -100,6 +81,13 @@ export const KEYBOARD_SHORTCUTS: readonly KeyboardShortcut[] = [
     description: 'クイズに移動',
     requiresModifier: true,
   },
+  {
+    // Not "r": Ctrl/Cmd+R reloads the page
+    key: 'b',
+    route: '/review',
+    description: '今日の復習に移動',
+    requiresModifier: true,
+  },
   {
     key: 'p',
     route: '/progress',
@@ -0,0 +1,60 @@
+-- ============================================================================
+-- Word Reviews for Việt Pocket Learning App
+-- Migration: 20261019000001_word_reviews.sql
+-- Description: Creates the word_reviews table (one row per flashcard/quiz answer) with RLS
+-- ============================================================================
+
+-- ============================================================================
+-- Word Reviews Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.word_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  word_id VARCHAR(100) NOT NULL,
+  activity_type VARCHAR(50) NOT NULL CHECK (activity_type IN ('flashcard', 'quiz', 'learning')),
+  is_correct BOOLEAN NOT NULL,
+  grade VARCHAR(10) CHECK (grade IN ('again', 'hard', 'good', 'easy')),
+  response_time_ms INTEGER CHECK (response_time_ms >= 0),
+  reviewed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Add comment to table
+COMMENT ON TABLE public.word_reviews IS 'Per-word answer history for spaced repetition (immutable for audit)';
+
+-- Create indexes for efficient queries
+CREATE INDEX IF NOT EXISTS word_reviews_user_word_idx
+  ON public.word_reviews(user_id, word_id);
+CREATE INDEX IF NOT EXISTS word_reviews_user_reviewed_at_idx
+  ON public.word_reviews(user_id, reviewed_at);
+
+-- ============================================================================
+-- Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE public.word_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own reviews
+CREATE POLICY "Users can view own reviews"
+  ON public.word_reviews
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can insert their own reviews
+CREATE POLICY "Users can insert own reviews"
+  ON public.word_reviews
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Note: No UPDATE or DELETE policies - reviews are immutable for audit purposes
+
+-- ============================================================================
+-- Grant Permissions
+-- ============================================================================
+
+GRANT ALL ON public.word_reviews TO authenticated;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,72 @@
+-- ============================================================================
+-- Custom Decks for Việt Pocket Learning App
+-- Migration: 20261019000002_decks.sql
+-- Description: Creates the decks table (user-built word lists) with RLS
+-- ============================================================================
+
+-- ============================================================================
+-- Decks Table
+-- ============================================================================
+
+-- IDs are created on the client so offline decks keep their ID once synced
+CREATE TABLE IF NOT EXISTS public.decks (
+  id UUID PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(100) NOT NULL CHECK (char_length(btrim(name)) > 0),
+  description TEXT DEFAULT '' NOT NULL CHECK (char_length(description) <= 500),
+  word_ids JSONB DEFAULT '[]'::jsonb NOT NULL,
+  entries JSONB DEFAULT '[]'::jsonb NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Add comment to table
+COMMENT ON TABLE public.decks IS 'Custom word decks built by users (catalog word IDs plus personal entries)';
+
+-- Create index for listing a user's decks, newest first
+CREATE INDEX IF NOT EXISTS decks_user_updated_at_idx
+  ON public.decks(user_id, updated_at);
+
+-- Note: No updated_at trigger - the client sets updated_at, and the API keeps
+-- the newer of two edits by comparing it
+
+-- ============================================================================
+-- Row Level Security (RLS) Policies
+-- ============================================================================
+
+ALTER TABLE public.decks ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own decks
+CREATE POLICY "Users can view own decks"
+  ON public.decks
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can insert their own decks
+CREATE POLICY "Users can insert own decks"
+  ON public.decks
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own decks
+CREATE POLICY "Users can update own decks"
+  ON public.decks
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can delete their own decks
+CREATE POLICY "Users can delete own decks"
+  ON public.decks
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- Grant Permissions
+-- ============================================================================
+
+GRANT ALL ON public.decks TO authenticated;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================